@@ -0,0 +1,330 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { ArrowLeft, Archive, History, Pencil, Plus, RotateCcw, Search } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { CatalogItemForm, categoryLabels } from "@/components/catalog-item-form"
+import {
+  CATALOG_CATEGORIES,
+  type CatalogCategory,
+  type CatalogChange,
+  type CatalogChangeAction,
+  type CatalogItem,
+  formatPrice,
+} from "@/lib/catalog/types"
+
+const actionLabels: Record<CatalogChangeAction, string> = {
+  create: "新建",
+  update: "编辑",
+  archive: "归档",
+  restore: "恢复",
+}
+
+type CategoryFilter = CatalogCategory | "all"
+
+/**
+ * 条目的分类专属字段摘要
+ */
+function describeItem(item: CatalogItem): string {
+  if ("price" in item) return [item.price, ...(item.regionalPrices || [])].map(formatPrice).join(" / ")
+  if ("calories" in item) return `${item.calories} 千卡`
+  if ("duration" in item) return item.duration
+  return "-"
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === "") return "（空）"
+  if (Array.isArray(value)) return value.map(formatValue).join(", ")
+  if (typeof value === "object") return JSON.stringify(value)
+  return String(value)
+}
+
+export default function AdminCatalogPage() {
+  const [items, setItems] = useState<CatalogItem[]>([])
+  const [category, setCategory] = useState<CategoryFilter>("all")
+  const [search, setSearch] = useState("")
+  const [showArchived, setShowArchived] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [accessError, setAccessError] = useState<string | null>(null)
+  const [editing, setEditing] = useState<{ item: CatalogItem | null } | null>(null)
+  const [historyItem, setHistoryItem] = useState<CatalogItem | null>(null)
+  const [changes, setChanges] = useState<CatalogChange[]>([])
+
+  const loadItems = async () => {
+    setLoading(true)
+    try {
+      const params = new URLSearchParams()
+      if (category !== "all") params.set("category", category)
+      if (search.trim()) params.set("q", search.trim())
+
+      const response = await fetch(`/api/admin/catalog?${params}`, { credentials: "include" })
+      if (response.status === 401) {
+        setAccessError("请先登录管理员账号")
+        return
+      }
+      if (response.status === 403) {
+        setAccessError("当前账号没有管理权限")
+        return
+      }
+      if (response.ok) {
+        const data = await response.json()
+        setItems(data.items)
+        setAccessError(null)
+      }
+    } catch (error) {
+      console.error("Error loading catalog:", error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadItems()
+  }, [category])
+
+  const openHistory = async (item: CatalogItem) => {
+    setHistoryItem(item)
+    setChanges([])
+    try {
+      const response = await fetch(`/api/admin/catalog/${item.category}/${item.id}`, { credentials: "include" })
+      if (response.ok) {
+        const data = await response.json()
+        setChanges(data.changes)
+      }
+    } catch (error) {
+      console.error("Error loading catalog changes:", error)
+    }
+  }
+
+  const replaceItem = (saved: CatalogItem) => {
+    setItems((current) => {
+      const exists = current.some((entry) => entry.category === saved.category && entry.id === saved.id)
+      return exists
+        ? current.map((entry) => (entry.category === saved.category && entry.id === saved.id ? saved : entry))
+        : [saved, ...current]
+    })
+  }
+
+  const setArchived = async (item: CatalogItem, archived: boolean) => {
+    try {
+      const response = await fetch(`/api/admin/catalog/${item.category}/${item.id}`, {
+        method: archived ? "DELETE" : "PUT",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        ...(!archived && { body: JSON.stringify({ ...item, archived: false }) }),
+      })
+      if (response.ok) {
+        const data = await response.json()
+        replaceItem(data.item)
+      }
+    } catch (error) {
+      console.error("Error archiving catalog item:", error)
+    }
+  }
+
+  const visibleItems = items.filter((item) => showArchived || !item.archived)
+
+  if (accessError) {
+    return (
+      <div className="min-h-screen bg-[#F7F9FC] flex flex-col items-center justify-center gap-4">
+        <p className="text-gray-600">{accessError}</p>
+        <Link href="/">
+          <Button variant="outline">返回首页</Button>
+        </Link>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-[#F7F9FC] p-4">
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6 pt-8">
+          <div className="flex items-center gap-2">
+            <Link href="/">
+              <Button variant="ghost" size="icon">
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+            </Link>
+            <h1 className="text-2xl font-bold text-gray-800">目录管理</h1>
+          </div>
+          <Button onClick={() => setEditing({ item: null })}>
+            <Plus className="h-4 w-4 mr-1" />
+            新建条目
+          </Button>
+        </div>
+
+        {/* Filters */}
+        <Card className="p-4 mb-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <Select value={category} onValueChange={(value) => setCategory(value as CategoryFilter)}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">全部分类</SelectItem>
+                {CATALOG_CATEGORIES.map((entry) => (
+                  <SelectItem key={entry} value={entry}>
+                    {categoryLabels[entry]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <form
+              className="flex flex-1 gap-2"
+              onSubmit={(event) => {
+                event.preventDefault()
+                loadItems()
+              }}
+            >
+              <Input
+                placeholder="搜索标题、描述、类型或标签"
+                value={search}
+                onChange={(event) => setSearch(event.target.value)}
+              />
+              <Button type="submit" variant="outline" size="icon">
+                <Search className="h-4 w-4" />
+              </Button>
+            </form>
+            <div className="flex items-center gap-2">
+              <Switch id="show-archived" checked={showArchived} onCheckedChange={setShowArchived} />
+              <Label htmlFor="show-archived">显示已归档</Label>
+            </div>
+          </div>
+        </Card>
+
+        {/* Items */}
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>标题</TableHead>
+                <TableHead>分类</TableHead>
+                <TableHead>类型</TableHead>
+                <TableHead>属性</TableHead>
+                <TableHead>状态</TableHead>
+                <TableHead className="text-right">操作</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-gray-500">
+                    加载中...
+                  </TableCell>
+                </TableRow>
+              ) : visibleItems.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-gray-500">
+                    没有匹配的条目
+                  </TableCell>
+                </TableRow>
+              ) : (
+                visibleItems.map((item) => (
+                  <TableRow key={`${item.category}:${item.id}`}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {item.image && <img src={item.image} alt="" className="h-8 w-8 rounded object-cover" />}
+                        <div>
+                          <div className="font-medium">{item.title}</div>
+                          <div className="text-xs text-gray-500">
+                            {item.id}
+                            {item.regions?.length ? ` · ${item.regions.join(", ")}` : ""}
+                          </div>
+                        </div>
+                      </div>
+                    </TableCell>
+                    <TableCell>{categoryLabels[item.category]}</TableCell>
+                    <TableCell>{item.type}</TableCell>
+                    <TableCell>{describeItem(item)}</TableCell>
+                    <TableCell>
+                      {item.archived ? <Badge variant="secondary">已归档</Badge> : <Badge>上架中</Badge>}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" onClick={() => setEditing({ item })} aria-label="编辑">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => openHistory(item)} aria-label="变更历史">
+                        <History className="h-4 w-4" />
+                      </Button>
+                      {item.archived ? (
+                        <Button variant="ghost" size="icon" onClick={() => setArchived(item, false)} aria-label="恢复">
+                          <RotateCcw className="h-4 w-4" />
+                        </Button>
+                      ) : (
+                        <Button variant="ghost" size="icon" onClick={() => setArchived(item, true)} aria-label="归档">
+                          <Archive className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </Card>
+      </div>
+
+      {/* Editor */}
+      <Dialog open={Boolean(editing)} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing?.item ? `编辑：${editing.item.title}` : "新建条目"}</DialogTitle>
+          </DialogHeader>
+          {editing && (
+            <CatalogItemForm
+              item={editing.item}
+              defaultCategory={category === "all" ? "food" : category}
+              onSaved={(saved) => {
+                replaceItem(saved)
+                setEditing(null)
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* History */}
+      <Dialog open={Boolean(historyItem)} onOpenChange={(open) => !open && setHistoryItem(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>变更历史：{historyItem?.title}</DialogTitle>
+          </DialogHeader>
+          {changes.length === 0 ? (
+            <p className="text-sm text-gray-500">暂无变更记录</p>
+          ) : (
+            <div className="space-y-3">
+              {changes.map((change) => (
+                <div key={change.id} className="border-b pb-2 last:border-b-0">
+                  <div className="flex items-center justify-between text-sm">
+                    <Badge variant="outline">{actionLabels[change.action]}</Badge>
+                    <span className="text-xs text-gray-500">
+                      {change.actorEmail || change.actorId || "命令行 / 定时任务"} · {new Date(change.createdAt).toLocaleString()}
+                    </span>
+                  </div>
+                  <ul className="mt-1 text-xs text-gray-600 space-y-0.5">
+                    {change.changes.map((field) => (
+                      <li key={field.field}>
+                        <span className="font-medium">{field.field}</span>：{formatValue(field.before)} →{" "}
+                        {formatValue(field.after)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
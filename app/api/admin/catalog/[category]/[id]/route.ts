@@ -0,0 +1,131 @@
+/**
+ * 单个目录条目管理 API 路由（仅管理员）
+ *
+ * GET    /api/admin/catalog/:category/:id  获取条目及其变更历史
+ * PUT    /api/admin/catalog/:category/:id  更新条目（archived: false 可恢复已归档条目）
+ * DELETE /api/admin/catalog/:category/:id  归档条目
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser, isAdminUser } from '@/lib/auth/server';
+import {
+  CatalogAdminService,
+  catalogItemSchemas,
+  getCatalogChangeRepository,
+  getCatalogRepository,
+  isCatalogCategory,
+} from '@/lib/catalog';
+
+interface RouteParams {
+  params: { category: string; id: string };
+}
+
+// 强制动态渲染
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    if (!isAdminUser(user)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+    if (!isCatalogCategory(params.category)) {
+      return NextResponse.json({ error: 'Invalid category' }, { status: 400 });
+    }
+
+    const item = await getCatalogRepository().getItem(params.category, params.id);
+    if (!item) {
+      return NextResponse.json({ error: 'Catalog item not found' }, { status: 404 });
+    }
+
+    const changes = await getCatalogChangeRepository().listChanges({
+      category: params.category,
+      itemId: params.id,
+    });
+
+    return NextResponse.json({ success: true, item, changes });
+  } catch (error) {
+    console.error('Get catalog item error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    if (!isAdminUser(user)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+    if (!isCatalogCategory(params.category)) {
+      return NextResponse.json({ error: 'Invalid category' }, { status: 400 });
+    }
+
+    const existing = await getCatalogRepository().getItem(params.category, params.id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Catalog item not found' }, { status: 404 });
+    }
+
+    // 分类和 ID 以路径为准，时间戳由仓库维护
+    const { createdAt, updatedAt, ...body } = await request.json();
+    const validationResult = catalogItemSchemas[params.category].safeParse({
+      ...body,
+      category: params.category,
+      id: params.id,
+      archived: body.archived ?? existing.archived,
+      createdAt: existing.createdAt,
+    });
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
+      return NextResponse.json({ error: errors.join(', ') }, { status: 400 });
+    }
+
+    const saved = await new CatalogAdminService().saveItem(existing, validationResult.data, user);
+
+    return NextResponse.json({ success: true, item: saved });
+  } catch (error) {
+    console.error('Update catalog item error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    if (!isAdminUser(user)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+    if (!isCatalogCategory(params.category)) {
+      return NextResponse.json({ error: 'Invalid category' }, { status: 400 });
+    }
+
+    const existing = await getCatalogRepository().getItem(params.category, params.id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Catalog item not found' }, { status: 404 });
+    }
+
+    const item = await new CatalogAdminService().archiveItem(existing, user);
+
+    return NextResponse.json({ success: true, item });
+  } catch (error) {
+    console.error('Archive catalog item error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * 目录变更历史 API 路由（仅管理员）
+ *
+ * GET /api/admin/catalog/changes?category=food&itemId=food-1&limit=50  按时间倒序列出变更记录
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser, isAdminUser } from '@/lib/auth/server';
+import { getCatalogChangeRepository, isCatalogCategory } from '@/lib/catalog';
+
+/** 单次最多返回条数 */
+const MAX_LIMIT = 200;
+
+// 强制动态渲染
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    if (!isAdminUser(user)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const categoryParam = searchParams.get('category');
+    const category = categoryParam && isCatalogCategory(categoryParam) ? categoryParam : undefined;
+
+    if (categoryParam && !category) {
+      return NextResponse.json({ error: 'Invalid category' }, { status: 400 });
+    }
+
+    const limit = Math.min(Number(searchParams.get('limit')) || 50, MAX_LIMIT);
+    const changes = await getCatalogChangeRepository().listChanges({
+      category,
+      itemId: searchParams.get('itemId') || undefined,
+      limit,
+    });
+
+    return NextResponse.json({ success: true, changes });
+  } catch (error) {
+    console.error('List catalog changes error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * 目录导出 API 路由（仅管理员）
+ *
+ * GET /api/admin/catalog/export?category=food&format=csv  下载某个分类的条目，格式与导入一致
+ *   includeArchived=1 时包含已归档条目
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser, isAdminUser } from '@/lib/auth/server';
+import { exportCatalogItems, getCatalogRepository, isCatalogCategory } from '@/lib/catalog';
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+} as const;
+
+// 强制动态渲染
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    if (!isAdminUser(user)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const category = searchParams.get('category') || '';
+    const format = searchParams.get('format') || 'csv';
+
+    if (!isCatalogCategory(category)) {
+      return NextResponse.json({ error: 'Invalid category' }, { status: 400 });
+    }
+    if (format !== 'csv' && format !== 'json') {
+      return NextResponse.json({ error: 'Invalid format' }, { status: 400 });
+    }
+
+    const items = await getCatalogRepository().listItems(category, {
+      includeArchived: searchParams.get('includeArchived') === '1',
+    });
+
+    return new NextResponse(exportCatalogItems(category, items, format), {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="catalog-${category}.${format}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Export catalog error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * 目录图片上传 API 路由（仅管理员）
+ *
+ * POST /api/admin/catalog/images  multipart/form-data，字段 file（图片）和 category，返回图片地址
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser, isAdminUser } from '@/lib/auth/server';
+import { isCatalogCategory } from '@/lib/catalog/types';
+import { IMAGE_CONTENT_TYPES, MAX_IMAGE_SIZE, getFileStorage, isAllowedImageType } from '@/lib/storage';
+import { generateId } from '@/lib/utils/helpers';
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    if (!isAdminUser(user)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const category = String(formData.get('category') || '');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'Image file is required' }, { status: 400 });
+    }
+    if (!isCatalogCategory(category)) {
+      return NextResponse.json({ error: 'Invalid category' }, { status: 400 });
+    }
+    if (!isAllowedImageType(file.type)) {
+      return NextResponse.json({ error: 'Unsupported image type' }, { status: 400 });
+    }
+    if (file.size > MAX_IMAGE_SIZE) {
+      return NextResponse.json({ error: 'Image is too large' }, { status: 413 });
+    }
+
+    const stored = await getFileStorage().upload({
+      path: `catalog/${category}/${generateId()}.${IMAGE_CONTENT_TYPES[file.type]}`,
+      contentType: file.type,
+      data: Buffer.from(await file.arrayBuffer()),
+    });
+
+    return NextResponse.json({ success: true, ...stored });
+  } catch (error) {
+    console.error('Upload catalog image error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * 目录批量导入 API 路由（仅管理员）
+ *
+ * POST /api/admin/catalog/import  导入某个分类的 CSV / JSON 文件内容
+ *   dryRun 默认为 true，只返回变更计划（新增 / 修改 / 移除 / 行级错误）；
+ *   dryRun: false 时写入，archiveMissing: true 时同时归档文件中已不存在的条目
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getRequestUser, isAdminUser } from '@/lib/auth/server';
+import {
+  CATALOG_CATEGORIES,
+  CATALOG_TRANSFER_FORMATS,
+  CatalogAdminService,
+  parseCatalogImport,
+} from '@/lib/catalog';
+
+/** 单次导入文件大小上限（字符） */
+const MAX_CONTENT_LENGTH = 2 * 1024 * 1024;
+
+const importRequestSchema = z.object({
+  category: z.enum(CATALOG_CATEGORIES),
+  format: z.enum(CATALOG_TRANSFER_FORMATS),
+  content: z.string().min(1).max(MAX_CONTENT_LENGTH),
+  dryRun: z.boolean().default(true),
+  archiveMissing: z.boolean().default(false),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    if (!isAdminUser(user)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const validationResult = importRequestSchema.safeParse(await request.json());
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
+      return NextResponse.json({ error: errors.join(', ') }, { status: 400 });
+    }
+
+    const { category, format, content, dryRun, archiveMissing } = validationResult.data;
+
+    let rows;
+    try {
+      rows = parseCatalogImport(format, content);
+    } catch (error) {
+      return NextResponse.json(
+        { error: `Invalid ${format.toUpperCase()} file: ${error instanceof Error ? error.message : error}` },
+        { status: 400 }
+      );
+    }
+
+    const { plan, applied } = await new CatalogAdminService().importItems(
+      category,
+      rows,
+      { dryRun, archiveMissing },
+      user
+    );
+
+    return NextResponse.json(
+      {
+        success: plan.errors.length === 0,
+        applied,
+        summary: {
+          rows: rows.length,
+          created: plan.created.length,
+          updated: plan.updated.length,
+          removed: plan.removed.length,
+          unchanged: plan.unchanged,
+          errors: plan.errors.length,
+        },
+        plan,
+      },
+      // 要求写入但存在行级错误时整批拒绝
+      { status: !dryRun && plan.errors.length > 0 ? 422 : 200 }
+    );
+  } catch (error) {
+    console.error('Import catalog error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
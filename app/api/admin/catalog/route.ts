@@ -0,0 +1,88 @@
+/**
+ * 目录管理 API 路由（仅管理员）
+ *
+ * GET  /api/admin/catalog?category=food&q=火锅  列出条目（含已归档），支持分类过滤和关键词搜索
+ * POST /api/admin/catalog                      新建条目，未指定 id 时自动生成
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser, isAdminUser } from '@/lib/auth/server';
+import {
+  CatalogAdminService,
+  catalogItemSchema,
+  getCatalogRepository,
+  isCatalogCategory,
+} from '@/lib/catalog';
+import { generateId } from '@/lib/utils/helpers';
+
+// 强制动态渲染
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    if (!isAdminUser(user)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const categoryParam = request.nextUrl.searchParams.get('category');
+    const category = categoryParam && isCatalogCategory(categoryParam) ? categoryParam : undefined;
+
+    if (categoryParam && !category) {
+      return NextResponse.json({ error: 'Invalid category' }, { status: 400 });
+    }
+
+    const search = request.nextUrl.searchParams.get('q') || '';
+    const items = await new CatalogAdminService().listItems(category, search);
+
+    return NextResponse.json({ success: true, items });
+  } catch (error) {
+    console.error('List catalog items error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    if (!isAdminUser(user)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { createdAt, updatedAt, ...body } = await request.json();
+    const validationResult = catalogItemSchema.safeParse({
+      ...body,
+      id: body.id || generateId(body.category),
+      archived: false,
+    });
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
+      return NextResponse.json({ error: errors.join(', ') }, { status: 400 });
+    }
+
+    const item = validationResult.data;
+    const existing = await getCatalogRepository().getItem(item.category, item.id);
+    if (existing) {
+      return NextResponse.json({ error: 'Catalog item already exists' }, { status: 409 });
+    }
+
+    const saved = await new CatalogAdminService().saveItem(null, item, user);
+
+    return NextResponse.json({ success: true, item: saved }, { status: 201 });
+  } catch (error) {
+    console.error('Create catalog item error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
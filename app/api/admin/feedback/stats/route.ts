@@ -0,0 +1,42 @@
+/**
+ * 推荐反馈统计 API（仅管理员）
+ *
+ * GET /api/admin/feedback/stats?category=food  按条目汇总喜欢/不喜欢/不再推荐次数
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser, isAdminUser } from '@/lib/auth/server';
+import { isCatalogCategory } from '@/lib/catalog/types';
+import { getFeedbackRepository } from '@/lib/feedback';
+
+// 强制动态渲染
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    if (!isAdminUser(user)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const categoryParam = request.nextUrl.searchParams.get('category');
+    const category = categoryParam && isCatalogCategory(categoryParam) ? categoryParam : undefined;
+
+    if (categoryParam && !category) {
+      return NextResponse.json({ error: 'Invalid category' }, { status: 400 });
+    }
+
+    const stats = await getFeedbackRepository().getItemStats(category);
+
+    return NextResponse.json({ success: true, stats });
+  } catch (error) {
+    console.error('Get feedback stats error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -6,6 +6,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDEPLOY_REGION } from '@/lib/config/region';
 import { CloudBaseAuthService } from '@/lib/auth/services/cloudbase-auth';
 import { SupabaseAuthService } from '@/lib/auth/services/supabase-auth';
+import { getSessionContext, setSessionCookies, toClientSession } from '@/lib/auth/server';
 
 export async function POST(request: NextRequest) {
   try {
@@ -23,25 +24,17 @@ export async function POST(request: NextRequest) {
       ? new CloudBaseAuthService()
       : new SupabaseAuthService();
 
-    const result = await authService.signInWithEmail(email, password);
+    const result = await authService.signInWithEmail(email, password, getSessionContext(request));
 
     if (result.user) {
       const response = NextResponse.json({
         success: true,
         user: result.user,
-        session: result.session
+        session: toClientSession(result.session)
       });
 
       // 设置认证 token 到 cookie
-      if (result.session?.access_token) {
-        response.cookies.set('auth-token', result.session.access_token, {
-          httpOnly: true,
-          secure: process.env.NODE_ENV === 'production',
-          sameSite: 'lax',
-          maxAge: 60 * 60 * 24 * 7, // 7 days
-          path: '/'
-        });
-      }
+      setSessionCookies(response, result.session);
 
       return response;
     } else {
@@ -10,6 +10,15 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDEPLOY_REGION } from '@/lib/config/region';
 import { CloudBaseAuthService } from '@/lib/auth/services/cloudbase-auth';
 import { SupabaseAuthService } from '@/lib/auth/services/supabase-auth';
+import {
+  REFRESH_TOKEN_COOKIE,
+  clearSessionCookies,
+  getRequestToken,
+  getSessionContext,
+  setSessionCookies,
+  toClientSession,
+} from '@/lib/auth/server';
+import { SessionContext } from '@/lib/auth/sessions';
 
 // 动态获取认证服务
 function getAuthService() {
@@ -21,18 +30,19 @@ export async function POST(request: NextRequest) {
   try {
     const { action, ...credentials } = await request.json();
     const authService = getAuthService();
+    const sessionContext = getSessionContext(request);
 
     switch (action) {
       case 'login':
-        return handleLogin(authService, credentials);
+        return handleLogin(authService, credentials, sessionContext);
       case 'register':
-        return handleRegister(authService, credentials);
+        return handleRegister(authService, credentials, sessionContext);
       case 'login_wechat':
-        return handleWechatLogin(authService, credentials);
+        return handleWechatLogin(authService, credentials, sessionContext);
       case 'logout':
-        return handleLogout(authService);
+        return handleLogout(authService, getRequestToken(request));
       case 'refresh':
-        return handleRefreshToken(authService);
+        return handleRefreshToken(authService, request.cookies.get(REFRESH_TOKEN_COOKIE)?.value);
       default:
         return NextResponse.json(
           { success: false, error: 'Invalid action' },
@@ -48,7 +58,7 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function handleLogin(authService: any, credentials: { email: string; password: string }) {
+async function handleLogin(authService: any, credentials: { email: string; password: string }, sessionContext: SessionContext) {
   const { email, password } = credentials;
 
   if (!email || !password) {
@@ -59,24 +69,17 @@ async function handleLogin(authService: any, credentials: { email: string; passw
   }
 
   try {
-    const result = await authService.signInWithEmail(email, password);
+    const result = await authService.signInWithEmail(email, password, sessionContext);
 
     if (result.user) {
       // 设置 HTTP-only cookie
       const response = NextResponse.json({
         success: true,
         user: result.user,
-        session: result.session
+        session: toClientSession(result.session)
       });
 
-      if (result.session?.access_token) {
-        response.cookies.set('auth-token', result.session.access_token, {
-          httpOnly: true,
-          secure: process.env.NODE_ENV === 'production',
-          sameSite: 'lax',
-          maxAge: 60 * 60 * 24 * 7 // 7 days
-        });
-      }
+      setSessionCookies(response, result.session);
 
       return response;
     } else {
@@ -98,7 +101,7 @@ async function handleRegister(authService: any, credentials: {
   password: string;
   confirmPassword: string;
   name?: string;
-}) {
+}, sessionContext: SessionContext) {
   const { email, password, confirmPassword, name } = credentials;
 
   if (!email || !password || !confirmPassword) {
@@ -123,24 +126,17 @@ async function handleRegister(authService: any, credentials: {
   }
 
   try {
-    const result = await authService.signUpWithEmail(email, password, name);
+    const result = await authService.signUpWithEmail(email, password, name, sessionContext);
 
     if (result.user) {
       const response = NextResponse.json({
         success: true,
         user: result.user,
-        session: result.session,
+        session: toClientSession(result.session),
         message: 'Registration successful'
       });
 
-      if (result.session?.access_token) {
-        response.cookies.set('auth-token', result.session.access_token, {
-          httpOnly: true,
-          secure: process.env.NODE_ENV === 'production',
-          sameSite: 'lax',
-          maxAge: 60 * 60 * 24 * 7 // 7 days
-        });
-      }
+      setSessionCookies(response, result.session);
 
       return response;
     } else {
@@ -157,7 +153,7 @@ async function handleRegister(authService: any, credentials: {
   }
 }
 
-async function handleWechatLogin(authService: any, credentials: { code: string }) {
+async function handleWechatLogin(authService: any, credentials: { code: string }, sessionContext: SessionContext) {
   const { code } = credentials;
 
   if (!code) {
@@ -168,23 +164,16 @@ async function handleWechatLogin(authService: any, credentials: { code: string }
   }
 
   try {
-    const result = await authService.signInWithWechat?.(code);
+    const result = await authService.signInWithWechat?.(code, sessionContext);
 
     if (result?.user) {
       const response = NextResponse.json({
         success: true,
         user: result.user,
-        session: result.session
+        session: toClientSession(result.session)
       });
 
-      if (result.session?.access_token) {
-        response.cookies.set('auth-token', result.session.access_token, {
-          httpOnly: true,
-          secure: process.env.NODE_ENV === 'production',
-          sameSite: 'lax',
-          maxAge: 60 * 60 * 24 * 7 // 7 days
-        });
-      }
+      setSessionCookies(response, result.session);
 
       return response;
     } else {
@@ -201,9 +190,10 @@ async function handleWechatLogin(authService: any, credentials: { code: string }
   }
 }
 
-async function handleLogout(authService: any) {
+async function handleLogout(authService: any, token: string | null) {
   try {
-    await authService.signOut();
+    // CloudBase 需要 token 才能撤销当前会话
+    await authService.signOut(token);
 
     const response = NextResponse.json({
       success: true,
@@ -211,12 +201,7 @@ async function handleLogout(authService: any) {
     });
 
     // 清除认证 cookie
-    response.cookies.set('auth-token', '', {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 0
-    });
+    clearSessionCookies(response);
 
     return response;
   } catch (error) {
@@ -227,25 +212,53 @@ async function handleLogout(authService: any) {
   }
 }
 
-async function handleRefreshToken(authService: any) {
+/**
+ * 用 refresh token 换新的 access token 和 refresh token（旧 refresh token 随即失效）
+ * refresh token 只从 httpOnly 的 refresh-token cookie 读取，不接受请求体传入
+ */
+async function handleRefreshToken(authService: any, refreshToken: string | undefined) {
+  if (!refreshToken) {
+    return NextResponse.json(
+      { success: false, error: 'Refresh token is required', code: 'INVALID_REFRESH_TOKEN' },
+      { status: 401 }
+    );
+  }
+
   try {
-    const user = await authService.getCurrentUser();
+    const result = await authService.refreshSession(refreshToken);
 
-    if (user) {
-      return NextResponse.json({
+    if (result.user) {
+      const response = NextResponse.json({
         success: true,
-        user
+        user: result.user,
+        session: toClientSession(result.session)
       });
-    } else {
+
+      setSessionCookies(response, result.session);
+
+      return response;
+    }
+
+    const code = result.error?.name || 'INVALID_REFRESH_TOKEN';
+
+    // 其他标签页刚完成刷新：新令牌已经写入 cookie，不清除
+    if (code === 'REFRESH_TOKEN_ROTATED') {
       return NextResponse.json(
-        { success: false, error: 'Invalid session' },
-        { status: 401 }
+        { success: false, error: result.error.message, code },
+        { status: 409 }
       );
     }
+
+    const response = NextResponse.json(
+      { success: false, error: result.error?.message || 'Invalid session', code },
+      { status: 401 }
+    );
+    clearSessionCookies(response);
+    return response;
   } catch (error) {
     return NextResponse.json(
       { success: false, error: error instanceof Error ? error.message : 'Token refresh failed' },
       { status: 401 }
     );
   }
-}
\ No newline at end of file
+}
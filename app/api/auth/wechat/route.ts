@@ -6,6 +6,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDEPLOY_REGION } from '@/lib/config/region';
 import { CloudBaseAuthService } from '@/lib/auth/services/cloudbase-auth';
+import { getSessionContext, setSessionCookies, toClientSession } from '@/lib/auth/server';
+import { SessionContext } from '@/lib/auth/sessions';
 
 export async function POST(request: NextRequest) {
   try {
@@ -24,7 +26,7 @@ export async function POST(request: NextRequest) {
     }
 
     if (action === 'login' && code) {
-      return handleWechatLogin(code);
+      return handleWechatLogin(code, getSessionContext(request));
     }
 
     return NextResponse.json(
@@ -59,28 +61,20 @@ function getWechatLoginUrl() {
   });
 }
 
-async function handleWechatLogin(code: string) {
+async function handleWechatLogin(code: string, sessionContext: SessionContext) {
   try {
     const authService = new CloudBaseAuthService();
-    const result = await authService.signInWithWechat(code);
+    const result = await authService.signInWithWechat(code, sessionContext);
 
     if (result.user) {
       const response = NextResponse.json({
         success: true,
         user: result.user,
-        session: result.session
+        session: toClientSession(result.session)
       });
 
       // 设置认证 token 到 cookie
-      if (result.session?.access_token) {
-        response.cookies.set('auth-token', result.session.access_token, {
-          httpOnly: true,
-          secure: process.env.NODE_ENV === 'production',
-          sameSite: 'lax',
-          maxAge: 60 * 60 * 24 * 7, // 7 days
-          path: '/'
-        });
-      }
+      setSessionCookies(response, result.session);
 
       return response;
     } else {
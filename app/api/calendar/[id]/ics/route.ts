@@ -0,0 +1,39 @@
+/**
+ * 单个日历条目导出 API 路由
+ *
+ * GET /api/calendar/:id/ics  下载只包含该事件的 iCalendar (.ics) 文件
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth/server';
+import { CalendarService } from '@/lib/calendar';
+
+// 强制动态渲染
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const calendar = await new CalendarService().exportEntry(user.id, params.id);
+    if (!calendar) {
+      return NextResponse.json({ error: 'Calendar entry not found' }, { status: 404 });
+    }
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `attachment; filename="event-${params.id}.ics"`,
+      },
+    });
+  } catch (error) {
+    console.error('Export calendar entry error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * 单个日历条目 API 路由
+ *
+ * DELETE /api/calendar/:id  从日历中移除（订阅会在下次刷新时同步删除）
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth/server';
+import { getCalendarRepository } from '@/lib/calendar';
+
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const removed = await getCalendarRepository().removeEntry(user.id, params.id);
+    if (!removed) {
+      return NextResponse.json({ error: 'Calendar entry not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Remove calendar entry error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
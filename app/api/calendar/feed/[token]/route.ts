@@ -0,0 +1,36 @@
+/**
+ * 日历订阅 API 路由
+ *
+ * GET /api/calendar/feed/:token.ics  日历客户端订阅用，返回用户的全部日历条目
+ *
+ * 日历客户端不带登录态，凭地址中的密钥访问；密钥撤销或重新生成后返回 404
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { CalendarService } from '@/lib/calendar';
+
+// 强制动态渲染
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest, { params }: { params: { token: string } }) {
+  try {
+    const token = params.token.replace(/\.ics$/, '');
+    const calendar = await new CalendarService().exportFeed(token);
+    if (!calendar) {
+      return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 });
+    }
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Get calendar feed error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * 日历订阅管理 API 路由
+ *
+ * GET    /api/calendar/feed  查询订阅状态（不返回密钥）
+ * POST   /api/calendar/feed  生成新的订阅地址，之前的地址随即失效；地址只在此时返回一次
+ * DELETE /api/calendar/feed  撤销订阅
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth/server';
+import { CalendarService } from '@/lib/calendar';
+
+// 强制动态渲染
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const feed = await new CalendarService().getFeedStatus(user.id);
+
+    return NextResponse.json({ success: true, feed });
+  } catch (error) {
+    console.error('Get calendar feed error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const token = await new CalendarService().createFeedToken(user.id);
+    const url = new URL(`/api/calendar/feed/${token}.ics`, process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin);
+
+    return NextResponse.json({ success: true, url: url.toString() }, { status: 201 });
+  } catch (error) {
+    console.error('Create calendar feed error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const removed = await new CalendarService().revokeFeed(user.id);
+    if (!removed) {
+      return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Revoke calendar feed error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
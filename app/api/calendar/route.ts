@@ -0,0 +1,64 @@
+/**
+ * 日历 API 路由
+ *
+ * GET  /api/calendar  查询用户的日历条目（按日期和开始时间排序）
+ * POST /api/calendar  把接受的推荐加入日历 { category, itemId, date?, startTime }
+ *
+ * 事件时长取自条目的 duration 字段；未指定日期时按 X-Timezone-Offset 请求头换算的用户本地日期
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth/server';
+import { CalendarService, calendarEntryInputSchema, getCalendarRepository } from '@/lib/calendar';
+import { TIMEZONE_OFFSET_HEADER, getLocalDate, parseTimezoneOffset } from '@/lib/quota';
+
+// 强制动态渲染
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const entries = await getCalendarRepository().listEntries(user.id);
+
+    return NextResponse.json({ success: true, entries });
+  } catch (error) {
+    console.error('Get calendar entries error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const validationResult = calendarEntryInputSchema.safeParse(await request.json());
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
+      return NextResponse.json({ error: errors.join(', ') }, { status: 400 });
+    }
+
+    const today = getLocalDate(new Date(), parseTimezoneOffset(request.headers.get(TIMEZONE_OFFSET_HEADER)));
+    const entry = await new CalendarService().addEntry(user.id, validationResult.data, today);
+    if (!entry) {
+      return NextResponse.json({ error: 'Item not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, entry }, { status: 201 });
+  } catch (error) {
+    console.error('Add calendar entry error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
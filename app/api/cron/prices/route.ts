@@ -0,0 +1,35 @@
+/**
+ * 价格同步定时任务
+ *
+ * GET /api/cron/prices  从价格源同步购物条目价格并发出降价提醒
+ * 需携带 Authorization: Bearer <CRON_SECRET>（Vercel Cron 会自动携带）
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { PriceTracker } from '@/lib/pricing';
+
+// 强制动态渲染
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret) {
+      return NextResponse.json({ error: 'CRON_SECRET is not configured' }, { status: 503 });
+    }
+    if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await new PriceTracker().syncPrices();
+    console.log(`✅ Price sync (${result.source}): ${result.changes.length} changes, ${result.alerts} alerts`);
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Price sync error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
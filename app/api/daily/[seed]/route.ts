@@ -0,0 +1,53 @@
+/**
+ * 每日推荐分享 API（公开，无需登录）
+ *
+ * GET /api/daily/:seed  根据分享链接中的种子复现同一个推荐
+ * 按种子记录的地区目录挑选，保证与分享者看到的一致；文案和价格按查看者的语言和货币展示
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getCatalogRepository,
+  getContentLocale,
+  isAvailableInRegion,
+  localizeCatalogItem,
+  toRecommendation,
+} from '@/lib/catalog';
+import { getRequestGeo } from '@/lib/geo/request';
+import { getRequestLocale } from '@/lib/locale';
+import { parseDailySeed, pickDailyItem } from '@/lib/recommendation';
+
+export async function GET(request: NextRequest, { params }: { params: { seed: string } }) {
+  try {
+    const seed = parseDailySeed(params.seed);
+    if (!seed) {
+      return NextResponse.json({ error: 'Invalid seed' }, { status: 400 });
+    }
+
+    const items = (await getCatalogRepository().listItems(seed.category))
+      .filter(item => !seed.region || isAvailableInRegion(item, seed.region));
+    if (items.length === 0) {
+      return NextResponse.json({ error: 'No items available' }, { status: 404 });
+    }
+
+    const geo = await getRequestGeo(request);
+    const locale = getRequestLocale(request);
+    const item = localizeCatalogItem(pickDailyItem(items, seed), locale);
+
+    return NextResponse.json({
+      success: true,
+      category: seed.category,
+      date: seed.date,
+      seed: params.seed,
+      item: { ...toRecommendation(item, { currency: geo.currency }), locale: getContentLocale(item, locale) },
+    }, {
+      headers: { 'Content-Language': locale, Vary: 'Accept-Language, Cookie' },
+    });
+  } catch (error) {
+    console.error('Shared daily pick error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * 每日推荐 API
+ *
+ * GET /api/daily?category=food  当前用户今天的推荐（按用户本地日期，同一天结果不变）
+ * 未登录时按 IP 生成；只从访客所在地区可用的条目中挑选，价格按访客货币展示
+ * 返回的 seed 可用于分享链接 /daily/[seed]
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth/server';
+import {
+  getCatalogRepository,
+  getContentLocale,
+  isAvailableInRegion,
+  isCatalogCategory,
+  localizeCatalogItem,
+  toRecommendation,
+} from '@/lib/catalog';
+import { getRequestGeo } from '@/lib/geo/request';
+import { getRequestLocale } from '@/lib/locale';
+import { TIMEZONE_OFFSET_HEADER, getQuotaSubject, getQuotaSubjectKey, getQuotaWindow, parseTimezoneOffset } from '@/lib/quota';
+import { DEFAULT_PRNG, createDailySeed, formatDailySeed, hasPrng, pickDailyItem } from '@/lib/recommendation';
+
+// 强制动态渲染
+export const dynamic = 'force-dynamic';
+
+let dailyPrng: string | null = null;
+
+/**
+ * 每日推荐使用的伪随机数算法（DAILY_PRNG），首次请求时校验一次；未注册的算法回退到默认算法
+ */
+function getDailyPrng(): string {
+  if (dailyPrng === null) {
+    const configured = process.env.DAILY_PRNG;
+    if (configured && !hasPrng(configured)) {
+      console.warn(`⚠️ DAILY_PRNG=${configured} 不是已注册的算法，改用默认算法 ${DEFAULT_PRNG}`);
+    }
+    dailyPrng = configured && hasPrng(configured) ? configured : DEFAULT_PRNG;
+  }
+  return dailyPrng;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const category = request.nextUrl.searchParams.get('category');
+    if (!category || !isCatalogCategory(category)) {
+      return NextResponse.json({ error: 'Invalid category' }, { status: 400 });
+    }
+
+    const user = await getRequestUser(request);
+    const geo = await getRequestGeo(request, user);
+    const items = (await getCatalogRepository().listItems(category)).filter(item => isAvailableInRegion(item, geo.region));
+    if (items.length === 0) {
+      return NextResponse.json({ error: 'No items available in your region' }, { status: 404 });
+    }
+
+    const subject = getQuotaSubjectKey(getQuotaSubject(request, user));
+    const timezoneOffset = parseTimezoneOffset(request.headers.get(TIMEZONE_OFFSET_HEADER));
+    const date = getQuotaWindow(new Date(), timezoneOffset).id;
+
+    const seed = createDailySeed(subject, date, category, getDailyPrng(), geo.region);
+    const formatted = formatDailySeed(seed);
+    const locale = getRequestLocale(request);
+    const item = localizeCatalogItem(pickDailyItem(items, seed), locale);
+
+    return NextResponse.json({
+      success: true,
+      category,
+      date,
+      seed: formatted,
+      shareUrl: `/daily/${formatted}`,
+      item: { ...toRecommendation(item, { currency: geo.currency }), locale: getContentLocale(item, locale) },
+    }, {
+      headers: { 'Content-Language': locale, Vary: 'Accept-Language, Cookie' },
+    });
+  } catch (error) {
+    console.error('Daily pick error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * 单条收藏 API 路由
+ *
+ * DELETE /api/favorites/:id  取消收藏
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth/server';
+import { getFavoriteRepository } from '@/lib/favorites';
+
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const removed = await getFavoriteRepository().removeFavorite(user.id, params.id);
+    if (!removed) {
+      return NextResponse.json({ error: 'Favorite not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Remove favorite error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
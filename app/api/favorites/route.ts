@@ -0,0 +1,102 @@
+/**
+ * 收藏 API 路由
+ *
+ * GET  /api/favorites?category=food  查询收藏（不传分类则返回全部）
+ * POST /api/favorites                收藏条目 { category, itemId }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth/server';
+import { getCatalogRepository, isCatalogCategory, toRecommendation } from '@/lib/catalog';
+import { favoriteInputSchema, getFavoriteRepository } from '@/lib/favorites';
+import { getSubscriptionTier, getTierLimits } from '@/lib/subscription';
+
+// 强制动态渲染
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const categoryParam = request.nextUrl.searchParams.get('category');
+    const category = categoryParam && isCatalogCategory(categoryParam) ? categoryParam : undefined;
+
+    if (categoryParam && !category) {
+      return NextResponse.json({ error: 'Invalid category' }, { status: 400 });
+    }
+
+    const repository = getFavoriteRepository();
+    const [favorites, total] = await Promise.all([
+      repository.listFavorites(user.id, category),
+      repository.countFavorites(user.id),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      favorites,
+      total,
+      limit: getTierLimits(user).favorites,
+    });
+  } catch (error) {
+    console.error('Get favorites error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const validationResult = favoriteInputSchema.safeParse(await request.json());
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
+      return NextResponse.json({ error: errors.join(', ') }, { status: 400 });
+    }
+
+    const { category, itemId } = validationResult.data;
+    const repository = getFavoriteRepository();
+
+    // 重复收藏直接返回已有记录，不占用额度
+    const existing = await repository.findFavorite(user.id, category, itemId);
+    if (existing) {
+      return NextResponse.json({ success: true, favorite: existing });
+    }
+
+    // 已归档的条目不能再收藏
+    const item = await getCatalogRepository().getItem(category, itemId);
+    if (!item || item.archived) {
+      return NextResponse.json({ error: 'Item not found' }, { status: 404 });
+    }
+
+    const limit = getTierLimits(user).favorites;
+    const favorite = await repository.addFavorite(user.id, category, toRecommendation(item), limit);
+    if (!favorite) {
+      return NextResponse.json(
+        {
+          error: 'Favorites limit reached',
+          code: 'FAVORITES_LIMIT_REACHED',
+          tier: getSubscriptionTier(user),
+          limit,
+        },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({ success: true, favorite }, { status: 201 });
+  } catch (error) {
+    console.error('Add favorite error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
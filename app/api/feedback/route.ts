@@ -0,0 +1,106 @@
+/**
+ * 推荐反馈 API 路由
+ *
+ * GET    /api/feedback?category=food             查询当前用户的反馈
+ * POST   /api/feedback                           提交反馈 { category, itemId, value }
+ * DELETE /api/feedback?category=food&itemId=xxx  撤销反馈
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth/server';
+import { getCatalogRepository, isCatalogCategory } from '@/lib/catalog';
+import { feedbackInputSchema, getFeedbackRepository } from '@/lib/feedback';
+
+// 强制动态渲染
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const categoryParam = request.nextUrl.searchParams.get('category');
+    const category = categoryParam && isCatalogCategory(categoryParam) ? categoryParam : undefined;
+
+    if (categoryParam && !category) {
+      return NextResponse.json({ error: 'Invalid category' }, { status: 400 });
+    }
+
+    const feedback = await getFeedbackRepository().listFeedback(user.id, category);
+
+    return NextResponse.json({ success: true, feedback });
+  } catch (error) {
+    console.error('Get feedback error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const validationResult = feedbackInputSchema.safeParse(await request.json());
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
+      return NextResponse.json({ error: errors.join(', ') }, { status: 400 });
+    }
+
+    const { category, itemId, value } = validationResult.data;
+    const item = await getCatalogRepository().getItem(category, itemId);
+    if (!item) {
+      return NextResponse.json({ error: 'Item not found' }, { status: 404 });
+    }
+
+    const feedback = await getFeedbackRepository().setFeedback({
+      userId: user.id,
+      category,
+      itemId,
+      type: item.type,
+      title: item.title,
+      value,
+    });
+
+    return NextResponse.json({ success: true, feedback });
+  } catch (error) {
+    console.error('Submit feedback error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { searchParams } = request.nextUrl;
+    const category = searchParams.get('category');
+    const itemId = searchParams.get('itemId');
+
+    if (!category || !isCatalogCategory(category) || !itemId) {
+      return NextResponse.json({ error: 'category and itemId are required' }, { status: 400 });
+    }
+
+    const removed = await getFeedbackRepository().removeFeedback(user.id, category, itemId);
+
+    return NextResponse.json({ success: true, removed });
+  } catch (error) {
+    console.error('Remove feedback error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * 每日挑战 API 路由
+ *
+ * GET  /api/gamification/challenge  今天的挑战（无需登录；分类每天轮换，同一地区当天相同）
+ * POST /api/gamification/challenge  完成今天的挑战（今天须已摇到挑战条目），返回新解锁的成就
+ *
+ * 日期按 X-Timezone-Offset 请求头换算为用户本地日期
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth/server';
+import { GAMIFICATION_ERROR_STATUS, GamificationError, GamificationService } from '@/lib/gamification';
+import { getRequestGeo } from '@/lib/geo/request';
+import { TIMEZONE_OFFSET_HEADER, getLocalDate, parseTimezoneOffset } from '@/lib/quota';
+
+// 强制动态渲染
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    const geo = await getRequestGeo(request, user);
+    const today = getLocalDate(new Date(), parseTimezoneOffset(request.headers.get(TIMEZONE_OFFSET_HEADER)));
+
+    const challenge = await new GamificationService().getDailyChallenge(today, geo.region);
+    if (!challenge) {
+      return NextResponse.json({ error: 'No challenge available today' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, challenge });
+  } catch (error) {
+    console.error('Get daily challenge error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const geo = await getRequestGeo(request, user);
+    const timezoneOffset = parseTimezoneOffset(request.headers.get(TIMEZONE_OFFSET_HEADER));
+    const today = getLocalDate(new Date(), timezoneOffset);
+
+    const achievements = await new GamificationService().completeChallenge(user.id, today, timezoneOffset, geo.region);
+    if (!achievements) {
+      return NextResponse.json({ error: 'No challenge available today' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, achievements });
+  } catch (error) {
+    if (error instanceof GamificationError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: GAMIFICATION_ERROR_STATUS[error.code] });
+    }
+    console.error('Complete daily challenge error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * 成就进度 API 路由
+ *
+ * GET /api/gamification  各分类的连续天数、全部成就的进度，以及今天的挑战是否已完成
+ *
+ * 日期按 X-Timezone-Offset 请求头换算为用户本地日期
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth/server';
+import { GamificationService } from '@/lib/gamification';
+import { TIMEZONE_OFFSET_HEADER, getLocalDate, parseTimezoneOffset } from '@/lib/quota';
+
+// 强制动态渲染
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const today = getLocalDate(new Date(), parseTimezoneOffset(request.headers.get(TIMEZONE_OFFSET_HEADER)));
+    const summary = await new GamificationService().getSummary(user.id, today);
+
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error('Get gamification progress error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * 多人房间实时推送 API 路由
+ *
+ * GET /api/groups/:id/events  Server-Sent Events，房间有变化时推送 room 事件
+ *
+ * 连接会定期结束，由 EventSource 自动重连；不支持 SSE 的客户端可改为轮询 GET /api/groups/:id
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth/server';
+import { GROUP_ERROR_STATUS, GroupError, GroupService, createRoomEventStream } from '@/lib/group';
+
+// 强制动态渲染
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    // 先校验一次成员身份，失败时返回普通 JSON 错误
+    const service = new GroupService();
+    await service.getRoom(user.id, params.id);
+
+    const stream = createRoomEventStream(async () => {
+      try {
+        return await service.getRoom(user.id, params.id);
+      } catch (error) {
+        if (error instanceof GroupError) {
+          return null;
+        }
+        throw error;
+      }
+    }, request.signal);
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        // 关闭 Nginx 等反向代理的缓冲
+        'X-Accel-Buffering': 'no',
+      },
+    });
+  } catch (error) {
+    if (error instanceof GroupError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: GROUP_ERROR_STATUS[error.code] });
+    }
+    console.error('Group room events error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * 单个多人房间 API 路由
+ *
+ * GET    /api/groups/:id  读取房间（仅成员；也可用于不支持 SSE 时轮询）
+ * DELETE /api/groups/:id  离开房间；房主离开时关闭房间
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth/server';
+import { GROUP_ERROR_STATUS, GroupError, GroupService } from '@/lib/group';
+
+// 强制动态渲染
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const room = await new GroupService().getRoom(user.id, params.id);
+
+    return NextResponse.json({ success: true, room });
+  } catch (error) {
+    if (error instanceof GroupError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: GROUP_ERROR_STATUS[error.code] });
+    }
+    console.error('Get group room error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const room = await new GroupService().leaveRoom(user.id, params.id);
+
+    return NextResponse.json({ success: true, room });
+  } catch (error) {
+    if (error instanceof GroupError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: GROUP_ERROR_STATUS[error.code] });
+    }
+    console.error('Leave group room error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * 多人房间摇一摇 API 路由
+ *
+ * POST /api/groups/:id/shake  房主摇一次：合并全部成员的偏好和饮食禁忌，得到一个所有人都能接受的推荐
+ *
+ * 按发起请求的成员所在地区过滤条目，按其语言展示
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth/server';
+import { getRequestGeo } from '@/lib/geo/request';
+import { GROUP_ERROR_STATUS, GroupError, GroupService } from '@/lib/group';
+import { getRequestLocale } from '@/lib/locale';
+
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const geo = await getRequestGeo(request, user);
+    const room = await new GroupService().shake(user.id, params.id, {
+      region: geo.region,
+      currency: geo.currency,
+      locale: getRequestLocale(request),
+    });
+
+    return NextResponse.json({ success: true, room });
+  } catch (error) {
+    if (error instanceof GroupError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: GROUP_ERROR_STATUS[error.code] });
+    }
+    console.error('Shake group room error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
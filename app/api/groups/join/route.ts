@@ -0,0 +1,37 @@
+/**
+ * 加入多人房间 API 路由
+ *
+ * POST /api/groups/join  凭邀请码加入 { code }；已在房间中时直接返回房间
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth/server';
+import { GROUP_ERROR_STATUS, GroupError, GroupService, groupJoinSchema } from '@/lib/group';
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const validationResult = groupJoinSchema.safeParse(await request.json());
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
+      return NextResponse.json({ error: errors.join(', ') }, { status: 400 });
+    }
+
+    const room = await new GroupService().joinRoom(user, validationResult.data.code);
+
+    return NextResponse.json({ success: true, room });
+  } catch (error) {
+    if (error instanceof GroupError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: GROUP_ERROR_STATUS[error.code] });
+    }
+    console.error('Join group room error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * 多人房间 API 路由
+ *
+ * POST /api/groups  新建房间 { category?, vetoesPerMember? }，返回房间和邀请码
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth/server';
+import { GroupService, groupRoomInputSchema } from '@/lib/group';
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const validationResult = groupRoomInputSchema.safeParse(await request.json());
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
+      return NextResponse.json({ error: errors.join(', ') }, { status: 400 });
+    }
+
+    const room = await new GroupService().createRoom(user, validationResult.data);
+
+    return NextResponse.json({ success: true, room }, { status: 201 });
+  } catch (error) {
+    console.error('Create group room error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
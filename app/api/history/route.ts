@@ -0,0 +1,120 @@
+/**
+ * 推荐历史 API 路由
+ *
+ * GET    /api/history?category=food&action=view&page=1&pageSize=20  分页查询
+ * POST   /api/history  { category, itemId, action, rating? }       记录用户接受、拒绝或打分
+ * DELETE /api/history?category=food                                清空（不传分类则清空全部）
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth/server';
+import { getCatalogRepository } from '@/lib/catalog';
+import { isCatalogCategory } from '@/lib/catalog/types';
+import { getHistoryRepository, historyReactionSchema } from '@/lib/history';
+import { HISTORY_ACTIONS, HistoryAction } from '@/lib/recommendation';
+
+// 强制动态渲染
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { searchParams } = request.nextUrl;
+    const categoryParam = searchParams.get('category');
+    const category = categoryParam && isCatalogCategory(categoryParam) ? categoryParam : undefined;
+    const actionParam = searchParams.get('action');
+    const action = HISTORY_ACTIONS.find(value => value === actionParam) as HistoryAction | undefined;
+
+    if (categoryParam && !category) {
+      return NextResponse.json({ error: 'Invalid category' }, { status: 400 });
+    }
+    if (actionParam && !action) {
+      return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+    }
+
+    const result = await getHistoryRepository().listEntries(user.id, {
+      category,
+      action,
+      page: Number(searchParams.get('page')) || undefined,
+      pageSize: Number(searchParams.get('pageSize')) || undefined,
+    });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Get history error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const validationResult = historyReactionSchema.safeParse(await request.json());
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
+      return NextResponse.json({ error: errors.join(', ') }, { status: 400 });
+    }
+
+    const { category, itemId, action, rating } = validationResult.data;
+    const item = await getCatalogRepository().getItem(category, itemId);
+    if (!item || item.archived) {
+      return NextResponse.json({ error: 'Item not found' }, { status: 404 });
+    }
+
+    // 类型和标题以目录为准，不信任客户端
+    await getHistoryRepository().addEntries(user.id, [{
+      itemId,
+      category,
+      type: item.type,
+      title: item.title,
+      action,
+      rating,
+      timestamp: new Date().toISOString(),
+    }]);
+
+    return NextResponse.json({ success: true }, { status: 201 });
+  } catch (error) {
+    console.error('Record history error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const categoryParam = request.nextUrl.searchParams.get('category');
+    const category = categoryParam && isCatalogCategory(categoryParam) ? categoryParam : undefined;
+
+    if (categoryParam && !category) {
+      return NextResponse.json({ error: 'Invalid category' }, { status: 400 });
+    }
+
+    const deleted = await getHistoryRepository().clearEntries(user.id, category);
+
+    return NextResponse.json({ success: true, deleted });
+  } catch (error) {
+    console.error('Clear history error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
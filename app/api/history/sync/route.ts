@@ -0,0 +1,40 @@
+/**
+ * 推荐历史同步 API 路由
+ *
+ * 登录后将浏览器 localStorage 中的历史合并到服务端，重复记录会被跳过
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getRequestUser } from '@/lib/auth/server';
+import { getHistoryRepository } from '@/lib/history';
+import { historyEventSchema } from '@/lib/recommendation/types';
+
+const SyncSchema = z.object({
+  entries: z.array(historyEventSchema).max(500),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const validationResult = SyncSchema.safeParse(await request.json());
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
+      return NextResponse.json({ error: errors.join(', ') }, { status: 400 });
+    }
+
+    const merged = await getHistoryRepository().mergeEntries(user.id, validationResult.data.entries);
+
+    return NextResponse.json({ success: true, merged });
+  } catch (error) {
+    console.error('Sync history error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * 行程日历导出 API 路由
+ *
+ * GET /api/itineraries/:id/ics  下载 iCalendar (.ics) 文件，每个排得下的地点一个事件
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth/server';
+import { buildIcsCalendar } from '@/lib/calendar';
+import { getItineraryRepository, toIcsEvents } from '@/lib/itinerary';
+
+// 强制动态渲染
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const itinerary = await getItineraryRepository().getItinerary(user.id, params.id);
+    if (!itinerary) {
+      return NextResponse.json({ error: 'Itinerary not found' }, { status: 404 });
+    }
+
+    const calendar = buildIcsCalendar(toIcsEvents(itinerary), { name: itinerary.title });
+    // 文件名只用 ASCII，标题通过 filename* 提供
+    const filename = `itinerary-${itinerary.startDate}.ics`;
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"; filename*=UTF-8''${encodeURIComponent(`${itinerary.title}.ics`)}`,
+      },
+    });
+  } catch (error) {
+    console.error('Export itinerary error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
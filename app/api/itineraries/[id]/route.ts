@@ -0,0 +1,86 @@
+/**
+ * 单个行程 API 路由
+ *
+ * GET    /api/itineraries/:id  行程和排好的时间表
+ * PATCH  /api/itineraries/:id  修改设置或地点顺序 { title?, length?, days?, startDate?, startTime?, itemIds? }
+ * DELETE /api/itineraries/:id  删除行程
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth/server';
+import { ItineraryService, getItineraryRepository, itineraryUpdateSchema, scheduleItinerary } from '@/lib/itinerary';
+
+// 强制动态渲染
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const itinerary = await getItineraryRepository().getItinerary(user.id, params.id);
+    if (!itinerary) {
+      return NextResponse.json({ error: 'Itinerary not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, itinerary, schedule: scheduleItinerary(itinerary) });
+  } catch (error) {
+    console.error('Get itinerary error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const validationResult = itineraryUpdateSchema.safeParse(await request.json());
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
+      return NextResponse.json({ error: errors.join(', ') }, { status: 400 });
+    }
+
+    const itinerary = await new ItineraryService().updateItinerary(user.id, params.id, validationResult.data);
+    if (!itinerary) {
+      return NextResponse.json({ error: 'Itinerary not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, itinerary, schedule: scheduleItinerary(itinerary) });
+  } catch (error) {
+    console.error('Update itinerary error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const removed = await getItineraryRepository().removeItinerary(user.id, params.id);
+    if (!removed) {
+      return NextResponse.json({ error: 'Itinerary not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Remove itinerary error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * 行程地点 API 路由
+ *
+ * POST /api/itineraries/:id/stops  把出行条目加到行程末尾 { itemId }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getRequestUser } from '@/lib/auth/server';
+import { ItineraryService, scheduleItinerary } from '@/lib/itinerary';
+
+const addStopSchema = z.object({
+  itemId: z.string().min(1),
+});
+
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const validationResult = addStopSchema.safeParse(await request.json());
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
+      return NextResponse.json({ error: errors.join(', ') }, { status: 400 });
+    }
+
+    const itinerary = await new ItineraryService().addStop(user.id, params.id, validationResult.data.itemId);
+    if (!itinerary) {
+      return NextResponse.json({ error: 'Itinerary or item not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, itinerary, schedule: scheduleItinerary(itinerary) });
+  } catch (error) {
+    console.error('Add itinerary stop error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * 行程 API 路由
+ *
+ * GET  /api/itineraries  查询用户的行程（按更新时间倒序）
+ * POST /api/itineraries  新建行程 { title?, length, days?, startDate?, startTime?, itemIds? }
+ *
+ * 未指定出发日期时按 X-Timezone-Offset 请求头换算的用户本地日期从今天开始
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth/server';
+import { ItineraryService, getItineraryRepository, itineraryInputSchema } from '@/lib/itinerary';
+import { TIMEZONE_OFFSET_HEADER, getLocalDate, parseTimezoneOffset } from '@/lib/quota';
+
+// 强制动态渲染
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const itineraries = await getItineraryRepository().listItineraries(user.id);
+
+    return NextResponse.json({ success: true, itineraries });
+  } catch (error) {
+    console.error('Get itineraries error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const validationResult = itineraryInputSchema.safeParse(await request.json());
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
+      return NextResponse.json({ error: errors.join(', ') }, { status: 400 });
+    }
+
+    const today = getLocalDate(new Date(), parseTimezoneOffset(request.headers.get(TIMEZONE_OFFSET_HEADER)));
+    const itinerary = await new ItineraryService().createItinerary(user.id, validationResult.data, today);
+
+    return NextResponse.json({ success: true, itinerary }, { status: 201 });
+  } catch (error) {
+    console.error('Create itinerary error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
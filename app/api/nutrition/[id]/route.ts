@@ -0,0 +1,31 @@
+/**
+ * 单条热量记录 API 路由
+ *
+ * DELETE /api/nutrition/:id  删除记录（记错时撤销）
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth/server';
+import { NutritionService } from '@/lib/nutrition';
+
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const removed = await new NutritionService().removeEntry(user.id, params.id);
+    if (!removed) {
+      return NextResponse.json({ error: 'Nutrition entry not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Remove nutrition entry error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
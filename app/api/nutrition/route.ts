@@ -0,0 +1,124 @@
+/**
+ * 热量记录 API 路由
+ *
+ * GET  /api/nutrition  当天的热量汇总和记录，以及最近一周每天的汇总
+ * POST /api/nutrition  接受推荐 { category: 'food' | 'fitness', itemId }，食物记摄入，健身记估算消耗
+ * PUT  /api/nutrition  设置每日热量目标 { dailyCalorieTarget }，传 null 清除
+ *
+ * 接受推荐同时计入成就进度（菜系、运动次数），返回新解锁的成就
+ *
+ * 日期按 X-Timezone-Offset 请求头换算为用户本地日期
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getRequestUser } from '@/lib/auth/server';
+import { GamificationService } from '@/lib/gamification';
+import { NutritionService, nutritionLogInputSchema } from '@/lib/nutrition';
+import { MAX_DAILY_CALORIE_TARGET, MIN_DAILY_CALORIE_TARGET } from '@/lib/preferences';
+import { TIMEZONE_OFFSET_HEADER, getLocalDate, parseTimezoneOffset } from '@/lib/quota';
+
+// 强制动态渲染
+export const dynamic = 'force-dynamic';
+
+const targetInputSchema = z.object({
+  dailyCalorieTarget: z.number().int().min(MIN_DAILY_CALORIE_TARGET).max(MAX_DAILY_CALORIE_TARGET).nullable(),
+});
+
+function getRequestDate(request: NextRequest): string {
+  return getLocalDate(new Date(), parseTimezoneOffset(request.headers.get(TIMEZONE_OFFSET_HEADER)));
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const service = new NutritionService();
+    const date = getRequestDate(request);
+    const [today, week] = await Promise.all([
+      service.getDay(user.id, date),
+      service.getWeek(user.id, date),
+    ]);
+
+    return NextResponse.json({ success: true, today: today.summary, entries: today.entries, week });
+  } catch (error) {
+    console.error('Get nutrition error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const validationResult = nutritionLogInputSchema.safeParse(await request.json());
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
+      return NextResponse.json({ error: errors.join(', ') }, { status: 400 });
+    }
+
+    const service = new NutritionService();
+    const date = getRequestDate(request);
+    const entry = await service.logPick(user.id, validationResult.data, date);
+    if (!entry) {
+      return NextResponse.json({ error: 'Item not found' }, { status: 404 });
+    }
+
+    const [{ summary }, achievements] = await Promise.all([
+      service.getDay(user.id, date),
+      // 记录已写入，成就统计失败（如 PROGRESS_BUSY）只记日志
+      new GamificationService().recordActivity(user.id, {
+        kind: validationResult.data.category === 'food' ? 'eat' : 'workout',
+        category: validationResult.data.category,
+        key: validationResult.data.itemId,
+      }, date).catch(error => {
+        console.error('Record activity error:', error);
+        return [];
+      }),
+    ]);
+    return NextResponse.json({ success: true, entry, today: summary, achievements }, { status: 201 });
+  } catch (error) {
+    console.error('Log nutrition error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const validationResult = targetInputSchema.safeParse(await request.json());
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
+      return NextResponse.json({ error: errors.join(', ') }, { status: 400 });
+    }
+
+    const dailyCalorieTarget = await new NutritionService().setDailyTarget(
+      user.id,
+      validationResult.data.dailyCalorieTarget
+    );
+
+    return NextResponse.json({ success: true, dailyCalorieTarget: dailyCalorieTarget ?? null });
+  } catch (error) {
+    console.error('Set calorie target error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * 用户偏好 API 路由
+ *
+ * GET /api/preferences  读取偏好（completed 表示是否已完成引导问卷）
+ * PUT /api/preferences  保存偏好
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth/server';
+import { DEFAULT_PREFERENCES, getPreferencesRepository, userPreferencesSchema } from '@/lib/preferences';
+
+// 强制动态渲染
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const preferences = await getPreferencesRepository().getPreferences(user.id);
+
+    return NextResponse.json({
+      success: true,
+      completed: !!preferences,
+      preferences: preferences || DEFAULT_PREFERENCES,
+    });
+  } catch (error) {
+    console.error('Get preferences error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const validationResult = userPreferencesSchema.safeParse(await request.json());
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
+      return NextResponse.json({ error: errors.join(', ') }, { status: 400 });
+    }
+
+    const preferences = await getPreferencesRepository().savePreferences(user.id, validationResult.data);
+
+    return NextResponse.json({ success: true, completed: true, preferences });
+  } catch (error) {
+    console.error('Save preferences error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * 降价提醒 API 路由
+ *
+ * GET   /api/price-alerts?unread=1  查询降价提醒（unread=1 只返回未读）
+ * PATCH /api/price-alerts           全部标记为已读
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth/server';
+import { getPriceWatchRepository } from '@/lib/pricing';
+
+// 强制动态渲染
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const unreadOnly = request.nextUrl.searchParams.get('unread') === '1';
+    const alerts = await getPriceWatchRepository().listAlerts(user.id, { unreadOnly });
+
+    return NextResponse.json({
+      success: true,
+      alerts,
+      unread: alerts.filter(alert => !alert.readAt).length,
+    });
+  } catch (error) {
+    console.error('Get price alerts error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const updated = await getPriceWatchRepository().markAlertsRead(user.id);
+
+    return NextResponse.json({ success: true, updated });
+  } catch (error) {
+    console.error('Mark price alerts read error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
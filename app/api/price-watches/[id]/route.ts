@@ -0,0 +1,31 @@
+/**
+ * 单个降价关注 API 路由
+ *
+ * DELETE /api/price-watches/:id  取消关注
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth/server';
+import { getPriceWatchRepository } from '@/lib/pricing';
+
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const removed = await getPriceWatchRepository().removeWatch(user.id, params.id);
+    if (!removed) {
+      return NextResponse.json({ error: 'Price watch not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Remove price watch error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
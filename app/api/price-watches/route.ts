@@ -0,0 +1,82 @@
+/**
+ * 降价关注 API 路由
+ *
+ * GET  /api/price-watches  查询关注的条目（含当前价格和近期价格历史）
+ * POST /api/price-watches  关注条目 { itemId, targetPrice: { amount, currency } }，已关注时更新目标价
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth/server';
+import { getCatalogRepository, getItemPrice } from '@/lib/catalog';
+import { PriceTracker, getPriceHistoryRepository, getPriceWatchRepository, priceWatchInputSchema } from '@/lib/pricing';
+
+// 强制动态渲染
+export const dynamic = 'force-dynamic';
+
+/** 每个关注返回的历史记录条数 */
+const HISTORY_LIMIT = 10;
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const catalog = getCatalogRepository();
+    const history = getPriceHistoryRepository();
+    const watches = await getPriceWatchRepository().listWatches(user.id);
+
+    const results = await Promise.all(watches.map(async watch => {
+      const [item, points] = await Promise.all([
+        catalog.getItem('shopping', watch.itemId),
+        history.listHistory(watch.itemId),
+      ]);
+      return {
+        ...watch,
+        available: Boolean(item && !item.archived),
+        currentPrice: item ? getItemPrice(item, watch.targetPrice.currency) : null,
+        history: points
+          .filter(point => point.price.currency === watch.targetPrice.currency)
+          .slice(0, HISTORY_LIMIT),
+      };
+    }));
+
+    return NextResponse.json({ success: true, watches: results });
+  } catch (error) {
+    console.error('Get price watches error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const validationResult = priceWatchInputSchema.safeParse(await request.json());
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
+      return NextResponse.json({ error: errors.join(', ') }, { status: 400 });
+    }
+
+    const { itemId, targetPrice } = validationResult.data;
+    const watch = await new PriceTracker().watchItem(user.id, itemId, targetPrice);
+    if (!watch) {
+      return NextResponse.json({ error: 'Item not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, watch }, { status: 201 });
+  } catch (error) {
+    console.error('Add price watch error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
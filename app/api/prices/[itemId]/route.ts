@@ -0,0 +1,33 @@
+/**
+ * 价格历史 API 路由
+ *
+ * GET /api/prices/:itemId?currency=USD  查询购物条目的价格历史（可按币种过滤）
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCatalogRepository } from '@/lib/catalog';
+import { getPriceHistoryRepository } from '@/lib/pricing';
+
+// 强制动态渲染
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest, { params }: { params: { itemId: string } }) {
+  try {
+    const item = await getCatalogRepository().getItem('shopping', params.itemId);
+    if (!item) {
+      return NextResponse.json({ error: 'Item not found' }, { status: 404 });
+    }
+
+    const currency = request.nextUrl.searchParams.get('currency');
+    const history = (await getPriceHistoryRepository().listHistory(item.id))
+      .filter(point => !currency || point.price.currency === currency);
+
+    return NextResponse.json({ success: true, itemId: item.id, price: item.price, history });
+  } catch (error) {
+    console.error('Get price history error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
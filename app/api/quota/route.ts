@@ -0,0 +1,27 @@
+/**
+ * 推荐配额查询 API
+ *
+ * GET /api/quota  返回今日剩余推荐次数及重置时间（不消耗次数）
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth/server';
+import { QuotaService, getQuotaHeaders, getQuotaSubject } from '@/lib/quota';
+
+// 强制动态渲染
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    const quota = await new QuotaService().getRecommendationQuota(getQuotaSubject(request, user));
+
+    return NextResponse.json({ success: true, quota }, { headers: getQuotaHeaders(quota) });
+  } catch (error) {
+    console.error('Get quota error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get quota' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,193 +1,196 @@
 import { type NextRequest, NextResponse } from "next/server"
-
-// Mock databases
-const ENTERTAINMENT = [
-  {
-    id: "1",
-    type: "sci-fi",
-    title: "三体",
-    description: "刘慈欣经典科幻小说，探索宇宙文明的宏大史诗",
-  },
-  {
-    id: "2",
-    type: "game",
-    title: "原神",
-    description: "开放世界冒险游戏，探索提瓦特大陆的奇幻世界",
-  },
-  {
-    id: "3",
-    type: "song",
-    title: "稻香",
-    description: "周杰伦经典歌曲，回忆童年美好时光",
-  },
-  {
-    id: "4",
-    type: "movie",
-    title: "流浪地球",
-    description: "中国科幻电影巅峰之作，人类拯救地球的壮举",
-  },
-]
-
-const SHOPPING = [
-  {
-    id: "1",
-    type: "fashion",
-    title: "Uniqlo 基础T恤",
-    price: "¥99",
-    description: "简约百搭，舒适透气",
-  },
-  {
-    id: "2",
-    type: "shoes",
-    title: "Nike Air Force 1",
-    price: "¥899",
-    description: "经典白色板鞋，百搭时尚",
-  },
-  {
-    id: "3",
-    type: "gadget",
-    title: "AirPods Pro",
-    price: "¥1899",
-    description: "主动降噪，音质出色",
-  },
-  {
-    id: "4",
-    type: "daily",
-    title: "无印良品收纳盒",
-    price: "¥49",
-    description: "简约设计，整理收纳好帮手",
-  },
-]
-
-const FOOD = [
-  {
-    id: "1",
-    title: "四川火锅",
-    reason: "基于您最近5次川菜选择",
-    calories: 650,
-    description: "麻辣鲜香，暖胃暖心",
-  },
-  {
-    id: "2",
-    title: "日式拉面",
-    reason: "根据当前天气推荐热汤面",
-    calories: 480,
-    description: "浓郁汤头，Q弹面条",
-  },
-  {
-    id: "3",
-    title: "意大利披萨",
-    reason: "您上次评价很高的西餐",
-    calories: 520,
-    description: "芝士拉丝，香脆饼底",
-  },
-  {
-    id: "4",
-    title: "广式点心",
-    reason: "适合下午茶时光",
-    calories: 320,
-    description: "精致小巧，口感丰富",
-  },
-]
-
-const TRAVEL = [
-  {
-    id: "1",
-    title: "西湖漫步",
-    description: "在杭州西湖边悠闲散步，欣赏湖光山色",
-    duration: "2-3小时",
-    weather: "晴朗 22°C",
-  },
-  {
-    id: "2",
-    title: "故宫博物院",
-    description: "探索中国古代皇家建筑的宏伟与精美",
-    duration: "半天",
-    weather: "多云 18°C",
-  },
-  {
-    id: "3",
-    title: "黄山登山",
-    description: "挑战自我，登顶黄山观日出云海",
-    duration: "全天",
-    weather: "晴朗 15°C",
-  },
-]
-
-const FITNESS = [
-  {
-    id: "1",
-    title: "晨跑",
-    description: "在公园里进行30分钟轻松慢跑",
-    duration: "30分钟",
-    weather: "适宜运动",
-  },
-  {
-    id: "2",
-    title: "瑜伽练习",
-    description: "在家进行舒缓的瑜伽拉伸运动",
-    duration: "45分钟",
-    weather: "室内运动",
-  },
-  {
-    id: "3",
-    title: "游泳",
-    description: "在游泳池进行有氧游泳训练",
-    duration: "1小时",
-    weather: "室内运动",
-  },
-]
-
-function getRandomItem<T>(array: T[]): T {
-  return array[Math.floor(Math.random() * array.length)]
-}
-
-function aiRecommendation(history: any[], category: string) {
-  // Simple AI logic - in real app, this would use ML models
-  const preferences = ["川菜", "日料", "西餐", "粤菜"]
-  const randomPreference = preferences[Math.floor(Math.random() * preferences.length)]
-
-  return {
-    ...getRandomItem(FOOD),
-    reason: `基于您对${randomPreference}的偏好推荐`,
-  }
-}
+import { z } from "zod"
+import { getRequestUser } from "@/lib/auth/server"
+import {
+  getCatalogRepository,
+  getContentLocale,
+  isAvailableInRegion,
+  isCatalogCategory,
+  isCatalogCurrency,
+  localizeCatalogItem,
+  toRecommendation,
+  type FoodItem,
+} from "@/lib/catalog"
+import { applyContextRules, describeWeather, getContextProvider, usesWeather } from "@/lib/context"
+import { GamificationService } from "@/lib/gamification"
+import { getRequestGeo } from "@/lib/geo/request"
+import { getHistoryRepository } from "@/lib/history"
+import { getRequestLocale } from "@/lib/locale"
+import { NutritionService, applyCalorieBudget } from "@/lib/nutrition"
+import {
+  type BudgetRange,
+  applyBudgetFilter,
+  applyPreferenceFilters,
+  budgetRangeSchema,
+  getPreferredTypes,
+} from "@/lib/preferences"
+import {
+  QuotaService,
+  TIMEZONE_OFFSET_HEADER,
+  getQuotaHeaders,
+  getLocalDate,
+  getQuotaSubject,
+  parseTimezoneOffset,
+} from "@/lib/quota"
+import {
+  filterBlockedItems,
+  historyEventSchema,
+  recommendItem,
+  type HistoryEvent,
+  type ItemFeedback,
+} from "@/lib/recommendation"
+import { loadUserSignals } from "@/lib/recommendation/signals"
+
+const RecommendRequestSchema = z.object({
+  // 仅用于未登录用户；已登录用户使用服务端历史
+  history: z.array(historyEventSchema).optional(),
+  seed: z.union([z.string(), z.number()]).optional(),
+  // 仅购物分类使用，优先于偏好中保存的预算；未指定货币时使用访客货币
+  budget: budgetRangeSchema.optional(),
+})
 
 export async function POST(request: NextRequest, { params }: { params: { category: string } }) {
   try {
     const body = await request.json()
-    const { user_id } = body
     const category = params.category
 
-    let recommendation
+    if (!isCatalogCategory(category)) {
+      return NextResponse.json({ error: "Invalid category" }, { status: 400 })
+    }
+
+    const parsed = RecommendRequestSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 })
+    }
+
+    const user = await getRequestUser(request)
+    const geo = await getRequestGeo(request, user)
+    const budget = parsed.data.budget && {
+      currency: isCatalogCurrency(geo.currency) ? geo.currency : undefined,
+      ...parsed.data.budget,
+    }
+
+    // 只推荐访客所在地区可用的条目（例如国内景点不推荐给海外用户）
+    const catalogItems = (await getCatalogRepository().listItems(category)).filter((entry) =>
+      isAvailableInRegion(entry, geo.region)
+    )
+    if (catalogItems.length === 0) {
+      return NextResponse.json({ error: "No items available in your region" }, { status: 404 })
+    }
 
-    switch (category) {
-      case "entertainment":
-        recommendation = getRandomItem(ENTERTAINMENT)
-        break
+    const historyRepository = getHistoryRepository()
+
+    let history: HistoryEvent[] = parsed.data.history || []
+    let feedback: ItemFeedback[] = []
+    let items = catalogItems
+    let preferredTypes: string[] = []
+    let homeCity: string | undefined
+    let preferredLocale: string | undefined
+    let dailyCalorieTarget: number | undefined
+    let savedBudget: BudgetRange | undefined
+    if (user) {
+      const signals = await loadUserSignals(user, category)
+      history = signals.history
+      feedback = signals.feedback
+
+      // 偏好是硬过滤：不吃辣的用户不会摇到四川火锅
+      // 预算统一由下方 applyBudgetFilter 处理，请求中的预算优先于保存的预算
+      if (signals.preferences) {
+        items = applyPreferenceFilters(catalogItems, { ...signals.preferences, budget: undefined })
+        savedBudget = signals.preferences.budget
+        preferredTypes = getPreferredTypes(category, signals.preferences)
+        homeCity = signals.preferences.homeCity
+        preferredLocale = signals.preferences.locale
+        dailyCalorieTarget = signals.preferences.dailyCalorieTarget
+      }
+    }
 
-      case "shopping":
-        recommendation = getRandomItem(SHOPPING)
-        break
+    if (items.length === 0) {
+      return NextResponse.json({ error: "No items match your preferences" }, { status: 404 })
+    }
+    items = applyBudgetFilter(items, budget ?? savedBudget)
+    if (items.length === 0) {
+      return NextResponse.json({ error: "No items within your budget", code: "NO_ITEMS_IN_BUDGET" }, { status: 404 })
+    }
+    items = filterBlockedItems(items, feedback)
+    if (items.length === 0) {
+      return NextResponse.json({ error: "All items in this category are hidden" }, { status: 404 })
+    }
 
-      case "food":
-        // Use AI recommendation for food
-        recommendation = aiRecommendation([], category)
-        break
+    // 先本地化条目，上下文理由中引用的标题也随之本地化
+    const locale = getRequestLocale(request, preferredLocale)
+    items = items.map((entry) => localizeCatalogItem(entry, locale))
 
-      case "travel":
-        recommendation = getRandomItem(TRAVEL)
-        break
+    const timezoneOffset = parseTimezoneOffset(request.headers.get(TIMEZONE_OFFSET_HEADER))
+    const context = await getContextProvider().getContext({ city: homeCity, timezoneOffset })
+    const adjusted = applyContextRules(items, context, locale)
 
-      case "fitness":
-        recommendation = getRandomItem(FITNESS)
-        break
+    // 设置了每日热量目标时，优先推荐放得进当天剩余额度的食物
+    let boosts = adjusted.boosts
+    if (user && category === "food" && dailyCalorieTarget !== undefined) {
+      const { summary } = await new NutritionService().getDay(user.id, getLocalDate(new Date(), timezoneOffset))
+      const foods = adjusted.items.filter((entry): entry is FoodItem => entry.category === "food")
+      boosts = applyCalorieBudget(foods, summary.remaining ?? dailyCalorieTarget, boosts, locale)
+    }
+
+    const quota = await new QuotaService().consumeRecommendation(getQuotaSubject(request, user))
+    const quotaHeaders = getQuotaHeaders(quota)
+
+    if (!quota.allowed) {
+      return NextResponse.json(
+        {
+          error: "Daily recommendation limit reached",
+          code: "QUOTA_EXCEEDED",
+          tier: quota.tier,
+          limit: quota.limit,
+          remaining: 0,
+          resetAt: quota.resetAt,
+        },
+        { status: 429, headers: quotaHeaders }
+      )
+    }
+
+    const { item, reason } = recommendItem(adjusted.items, history, {
+      seed: parsed.data.seed,
+      feedback,
+      preferredTypes,
+      boosts,
+      locale,
+    })
+
+    if (user) {
+      await historyRepository.addEntries(user.id, [
+        {
+          itemId: item.id,
+          category,
+          type: item.type,
+          title: item.title,
+          action: "view",
+          timestamp: new Date().toISOString(),
+        },
+      ])
+      // 配额已扣、历史已写入，成就统计失败（如 PROGRESS_BUSY）不影响本次推荐
+      await new GamificationService()
+        .recordActivity(
+          user.id,
+          { kind: "pick", category, key: item.id, itemType: item.type },
+          getLocalDate(new Date(), timezoneOffset)
+        )
+        .catch(error => console.error("Record activity error:", error))
+    }
 
-      default:
-        return NextResponse.json({ error: "Invalid category" }, { status: 400 })
+    const recommendation = {
+      ...toRecommendation(item, { currency: geo.currency }),
+      reason,
+      locale: getContentLocale(item, locale),
+      ...(usesWeather(item) && {
+        weather: describeWeather(context.weather.condition, context.weather.temperature, locale),
+      }),
     }
 
-    return NextResponse.json(recommendation)
+    return NextResponse.json(recommendation, {
+      headers: { ...quotaHeaders, "Content-Language": locale, Vary: "Accept-Language, Cookie" },
+    })
   } catch (error) {
     console.error("API Error:", error)
     return NextResponse.json({ error: "Internal server error" }, { status: 500 })
@@ -0,0 +1,162 @@
+/**
+ * “规划我的一天”组合推荐 API
+ *
+ * POST /api/recommend/day-plan
+ * { budget?, includeShopping?, seed?, locked?, exclude? }
+ * 换一个某个时段时，把其他时段放进 locked，把当前条目放进 exclude
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getRequestUser } from '@/lib/auth/server';
+import {
+  CATALOG_CATEGORIES,
+  getCatalogRepository,
+  isAvailableInRegion,
+  isCatalogCurrency,
+  localizeCatalogItem,
+  toRecommendation,
+} from '@/lib/catalog';
+import { applyContextRules, getContextProvider, usesWeather } from '@/lib/context';
+import { getRequestGeo } from '@/lib/geo/request';
+import { getHistoryRepository } from '@/lib/history';
+import { getRequestLocale } from '@/lib/locale';
+import { StoredPreferences, applyPreferenceFilters, getPreferredTypes } from '@/lib/preferences';
+import {
+  QuotaService,
+  TIMEZONE_OFFSET_HEADER,
+  getQuotaHeaders,
+  getQuotaSubject,
+  parseTimezoneOffset,
+} from '@/lib/quota';
+import {
+  DAY_PLAN_SLOTS,
+  DayPlanCandidates,
+  HistoryEvent,
+  ItemBoost,
+  ItemFeedback,
+  buildDayPlan,
+  filterBlockedItems,
+} from '@/lib/recommendation';
+import { loadUserSignals } from '@/lib/recommendation/signals';
+
+const DayPlanRequestSchema = z.object({
+  // 购物预算，按访客货币计
+  budget: z.number().positive().optional(),
+  includeShopping: z.boolean().optional(),
+  seed: z.union([z.string(), z.number()]).optional(),
+  locked: z.record(z.enum(DAY_PLAN_SLOTS), z.string().min(1)).optional(),
+  exclude: z.array(z.string().min(1)).max(50).optional(),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const validationResult = DayPlanRequestSchema.safeParse(await request.json());
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
+      return NextResponse.json({ error: errors.join(', ') }, { status: 400 });
+    }
+    const { budget, includeShopping, seed, locked = {}, exclude } = validationResult.data;
+
+    const user = await getRequestUser(request);
+    let history: HistoryEvent[] = [];
+    let feedback: ItemFeedback[] = [];
+    let preferences: StoredPreferences | null = null;
+    if (user) {
+      ({ history, feedback, preferences } = await loadUserSignals(user));
+    }
+    const geo = await getRequestGeo(request, user);
+    const currency = isCatalogCurrency(geo.currency) ? geo.currency : undefined;
+    const locale = getRequestLocale(request, preferences?.locale);
+
+    const context = await getContextProvider().getContext({
+      city: preferences?.homeCity,
+      timezoneOffset: parseTimezoneOffset(request.headers.get(TIMEZONE_OFFSET_HEADER)),
+    });
+
+    // 各分类候选：访客地区可用 + 偏好硬过滤 + 排除“不再推荐” + 本地化 + 天气/时段规则
+    const catalog = getCatalogRepository();
+    const boosts: Record<string, ItemBoost> = {};
+    const entries = await Promise.all(CATALOG_CATEGORIES.map(async category => {
+      const items = (await catalog.listItems(category)).filter(item => isAvailableInRegion(item, geo.region));
+      const allowed = filterBlockedItems(preferences ? applyPreferenceFilters(items, preferences) : items, feedback)
+        .map(item => localizeCatalogItem(item, locale));
+      const adjusted = applyContextRules(allowed, context, locale);
+      Object.assign(boosts, adjusted.boosts);
+      return [category, adjusted.items] as const;
+    }));
+    const candidates = Object.fromEntries(entries) as DayPlanCandidates;
+
+    if (candidates.food.length === 0 || candidates.fitness.length === 0) {
+      return NextResponse.json({ error: 'Not enough items to plan a day' }, { status: 404 });
+    }
+
+    // 一次组合推荐（含换一个）计为一次推荐
+    const quota = await new QuotaService().consumeRecommendation(getQuotaSubject(request, user));
+    const quotaHeaders = getQuotaHeaders(quota);
+
+    if (!quota.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Daily recommendation limit reached',
+          code: 'QUOTA_EXCEEDED',
+          tier: quota.tier,
+          limit: quota.limit,
+          remaining: 0,
+          resetAt: quota.resetAt,
+        },
+        { status: 429, headers: quotaHeaders }
+      );
+    }
+
+    const plan = buildDayPlan(candidates, {
+      budget,
+      currency,
+      locale,
+      includeShopping,
+      seed,
+      history,
+      feedback,
+      preferredTypes: preferences
+        ? Object.fromEntries(CATALOG_CATEGORIES.map(category => [category, getPreferredTypes(category, preferences!)]))
+        : undefined,
+      boosts,
+      locked,
+      exclude,
+    });
+
+    // 只记录本次新选出的时段；用户是否接受由 POST /api/history 单独记录
+    if (user) {
+      const timestamp = new Date().toISOString();
+      await getHistoryRepository().addEntries(user.id, plan.slots
+        .filter(slot => locked[slot.slot] !== slot.item.id)
+        .map(slot => ({
+          itemId: slot.item.id,
+          category: slot.category,
+          type: slot.item.type,
+          title: slot.item.title,
+          action: 'view' as const,
+          timestamp,
+        })));
+    }
+
+    return NextResponse.json({
+      success: true,
+      weather: context.weather.description,
+      totals: plan.totals,
+      slots: plan.slots.map(slot => ({
+        ...slot,
+        item: {
+          ...toRecommendation(slot.item, { currency: geo.currency }),
+          ...(usesWeather(slot.item) && { weather: context.weather.description }),
+        },
+      })),
+    }, { headers: { ...quotaHeaders, 'Content-Language': locale, Vary: 'Accept-Language, Cookie' } });
+  } catch (error) {
+    console.error('Day plan error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * 训练计划 API 路由
+ *
+ * GET  /api/workout-plans  进行中的计划、打卡记录和连续打卡统计（没有计划时 plan 为 null）
+ * POST /api/workout-plans  生成新计划 { fitnessLevel?, days: [0-6], weeks? }，从今天开始，之前的计划归档
+ *
+ * 日期按 X-Timezone-Offset 请求头换算为用户本地日期
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth/server';
+import { TIMEZONE_OFFSET_HEADER, getLocalDate, parseTimezoneOffset } from '@/lib/quota';
+import { WorkoutPlanService, workoutPlanInputSchema } from '@/lib/workout';
+
+// 强制动态渲染
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const today = getLocalDate(new Date(), parseTimezoneOffset(request.headers.get(TIMEZONE_OFFSET_HEADER)));
+    const overview = await new WorkoutPlanService().getOverview(user.id, today);
+
+    return NextResponse.json({
+      success: true,
+      today,
+      plan: overview?.plan ?? null,
+      completions: overview?.completions ?? [],
+      streak: overview?.streak ?? null,
+    });
+  } catch (error) {
+    console.error('Get workout plan error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const validationResult = workoutPlanInputSchema.safeParse(await request.json());
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
+      return NextResponse.json({ error: errors.join(', ') }, { status: 400 });
+    }
+
+    const today = getLocalDate(new Date(), parseTimezoneOffset(request.headers.get(TIMEZONE_OFFSET_HEADER)));
+    const plan = await new WorkoutPlanService().createPlan(user.id, validationResult.data, today);
+
+    return NextResponse.json({ success: true, plan }, { status: 201 });
+  } catch (error) {
+    console.error('Create workout plan error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * 训练打卡 API 路由
+ *
+ * POST   /api/workout-plans/sessions/:id  完成训练（只能为今天及之前的训练打卡）
+ * DELETE /api/workout-plans/sessions/:id  取消打卡
+ *
+ * 均返回最新的连续打卡统计；完成训练时同时计入成就进度，返回新解锁的成就
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth/server';
+import { GamificationService } from '@/lib/gamification';
+import { TIMEZONE_OFFSET_HEADER, getLocalDate, parseTimezoneOffset } from '@/lib/quota';
+import { WorkoutPlanService } from '@/lib/workout';
+
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const service = new WorkoutPlanService();
+    const found = await service.findSession(user.id, params.id);
+    if (!found) {
+      return NextResponse.json({ error: 'Workout session not found' }, { status: 404 });
+    }
+
+    const today = getLocalDate(new Date(), parseTimezoneOffset(request.headers.get(TIMEZONE_OFFSET_HEADER)));
+    if (found.session.date > today) {
+      return NextResponse.json({ error: 'Workout session is not due yet' }, { status: 400 });
+    }
+
+    const [streak, achievements] = await Promise.all([
+      service.completeSession(found.plan, found.session, today),
+      // 成就统计失败（如 PROGRESS_BUSY）只记日志，不影响完成训练
+      new GamificationService().recordActivity(user.id, { kind: 'workout', category: 'fitness', key: found.session.id }, today).catch(error => {
+        console.error('Record activity error:', error);
+        return [];
+      }),
+    ]);
+    return NextResponse.json({ success: true, sessionId: found.session.id, streak, achievements });
+  } catch (error) {
+    console.error('Complete workout session error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const service = new WorkoutPlanService();
+    const found = await service.findSession(user.id, params.id);
+    if (!found) {
+      return NextResponse.json({ error: 'Workout session not found' }, { status: 404 });
+    }
+
+    const today = getLocalDate(new Date(), parseTimezoneOffset(request.headers.get(TIMEZONE_OFFSET_HEADER)));
+    const streak = await service.undoSession(found.plan, found.session, today);
+    return NextResponse.json({ success: true, sessionId: found.session.id, streak });
+  } catch (error) {
+    console.error('Undo workout session error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
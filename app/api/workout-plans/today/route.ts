@@ -0,0 +1,44 @@
+/**
+ * 今日训练 API 路由
+ *
+ * GET /api/workout-plans/today  进行中计划里今天的训练（休息日时返回下一次训练），没有计划时返回 404
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth/server';
+import { TIMEZONE_OFFSET_HEADER, getLocalDate, parseTimezoneOffset } from '@/lib/quota';
+import { WorkoutPlanService } from '@/lib/workout';
+
+// 强制动态渲染
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const today = getLocalDate(new Date(), parseTimezoneOffset(request.headers.get(TIMEZONE_OFFSET_HEADER)));
+    const workout = await new WorkoutPlanService().getTodayWorkout(user.id, today);
+    if (!workout) {
+      return NextResponse.json({ error: 'No active workout plan', code: 'NO_ACTIVE_PLAN' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      today,
+      planId: workout.plan.id,
+      session: workout.session,
+      completed: workout.completed,
+      next: workout.next,
+      streak: workout.streak,
+    });
+  } catch (error) {
+    console.error('Get today workout error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,7 @@ import { useEffect, useState, Suspense } from 'react'
 import { useRouter } from 'next/navigation'
 import { useSearchParams } from 'next/navigation'
 import { auth } from '@/lib/auth/client'
+import { syncLocalHistory } from '@/lib/history/client'
 
 function AuthCallbackContent() {
   const router = useRouter()
@@ -31,6 +32,7 @@ function AuthCallbackContent() {
         // 检查用户是否已登录
         const { data } = await auth.getUser()
         if (data.user) {
+          await syncLocalHistory(data.user.id)
           router.push('/')
         } else {
           router.push('/login')
@@ -36,6 +36,15 @@ function WeChatCallbackContent() {
         const data = await response.json();
 
         if (data.success) {
+          // 保存会话以便自动刷新，并通知已打开的页面
+          if (data.session?.access_token) {
+            auth.setSession({
+              access_token: data.session.access_token,
+              expires_at: data.session.expires_at,
+              user: { id: data.user.id, email: data.user.email, user_metadata: data.user.metadata || {} },
+            });
+          }
+
           // 登录成功，重定向到主页
           router.push('/');
         } else {
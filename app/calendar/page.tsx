@@ -0,0 +1,222 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { ArrowLeft, CalendarDays, Copy, Download, RefreshCw, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { addMinutes, type CalendarEntry, type CalendarFeedStatus } from "@/lib/calendar/types"
+
+export default function CalendarPage() {
+  const [entries, setEntries] = useState<CalendarEntry[]>([])
+  const [feed, setFeed] = useState<CalendarFeedStatus>({ enabled: false })
+  // The subscription URL is only returned when it is generated
+  const [feedUrl, setFeedUrl] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [requiresLogin, setRequiresLogin] = useState(false)
+
+  useEffect(() => {
+    const loadCalendar = async () => {
+      try {
+        const [entriesResponse, feedResponse] = await Promise.all([
+          fetch("/api/calendar", { credentials: "include" }),
+          fetch("/api/calendar/feed", { credentials: "include" }),
+        ])
+        if (entriesResponse.status === 401) {
+          setRequiresLogin(true)
+          return
+        }
+        if (entriesResponse.ok) {
+          const data = await entriesResponse.json()
+          setEntries(data.entries)
+        }
+        if (feedResponse.ok) {
+          const data = await feedResponse.json()
+          setFeed(data.feed)
+        }
+      } catch (error) {
+        console.error("Error loading calendar:", error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadCalendar()
+  }, [])
+
+  const removeEntry = async (entryId: string) => {
+    try {
+      const response = await fetch(`/api/calendar/${entryId}`, {
+        method: "DELETE",
+        credentials: "include",
+      })
+      if (response.ok || response.status === 404) {
+        setEntries((current) => current.filter((entry) => entry.id !== entryId))
+      }
+    } catch (error) {
+      console.error("Error removing calendar entry:", error)
+    }
+  }
+
+  const createFeed = async () => {
+    try {
+      const response = await fetch("/api/calendar/feed", {
+        method: "POST",
+        credentials: "include",
+      })
+      if (response.ok) {
+        const data = await response.json()
+        setFeedUrl(data.url)
+        setFeed({ enabled: true, createdAt: new Date().toISOString() })
+        setCopied(false)
+      }
+    } catch (error) {
+      console.error("Error creating calendar feed:", error)
+    }
+  }
+
+  const revokeFeed = async () => {
+    try {
+      const response = await fetch("/api/calendar/feed", {
+        method: "DELETE",
+        credentials: "include",
+      })
+      if (response.ok || response.status === 404) {
+        setFeed({ enabled: false })
+        setFeedUrl(null)
+      }
+    } catch (error) {
+      console.error("Error revoking calendar feed:", error)
+    }
+  }
+
+  const copyFeedUrl = async () => {
+    if (!feedUrl) return
+    try {
+      await navigator.clipboard.writeText(feedUrl)
+      setCopied(true)
+    } catch (error) {
+      console.error("Error copying feed url:", error)
+    }
+  }
+
+  const formatEntryTime = (entry: CalendarEntry) => {
+    const end = addMinutes(entry.date, entry.startTime, entry.durationMinutes)
+    return `${entry.date} ${entry.startTime}–${end.date === entry.date ? end.time : `${end.date} ${end.time}`}`
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[#F7F9FC] flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-[#F7F9FC] p-4">
+      <div className="max-w-md mx-auto">
+        {/* Header */}
+        <div className="flex items-center mb-8 pt-8">
+          <Link href="/">
+            <Button variant="ghost" size="sm" className="mr-4">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-800">我的日历</h1>
+        </div>
+
+        {requiresLogin ? (
+          <Card className="p-6 text-center">
+            <p className="text-gray-600 mb-4">登录后即可把推荐加入日历</p>
+            <Link href="/login">
+              <Button className="bg-[#FF6B6B] hover:bg-[#FF5252]">去登录</Button>
+            </Link>
+          </Card>
+        ) : (
+          <div className="space-y-8">
+            {/* Subscription */}
+            <Card className="p-4 space-y-3">
+              <div className="flex items-center gap-2">
+                <CalendarDays className="h-5 w-5 text-[#4ECDC4]" />
+                <h2 className="font-semibold text-gray-800">日历订阅</h2>
+              </div>
+              <p className="text-sm text-gray-600">
+                在系统日历或 Google 日历中订阅这个地址，加入日历的推荐会自动同步过去
+              </p>
+
+              {feedUrl && (
+                <div className="space-y-2">
+                  <div className="flex gap-2">
+                    <Input readOnly value={feedUrl} onFocus={(e) => e.target.select()} />
+                    <Button variant="outline" size="icon" onClick={copyFeedUrl} aria-label="复制">
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {copied ? "已复制。" : ""}地址只显示这一次，请妥善保存；知道地址的人都能看到你的日历
+                  </p>
+                  <a href={feedUrl.replace(/^https?:/, "webcal:")} className="text-sm underline">
+                    用系统日历打开
+                  </a>
+                </div>
+              )}
+
+              {!feedUrl && feed.enabled && (
+                <p className="text-sm text-gray-500">
+                  订阅已开启{feed.createdAt && `（${new Date(feed.createdAt).toLocaleDateString()} 生成）`}
+                  。忘记地址可以重新生成，旧地址会失效
+                </p>
+              )}
+
+              <div className="flex gap-2">
+                <Button variant="outline" className="flex-1" onClick={createFeed}>
+                  <RefreshCw className="h-4 w-4 mr-1" />
+                  {feed.enabled ? "重新生成地址" : "生成订阅地址"}
+                </Button>
+                {feed.enabled && (
+                  <Button variant="ghost" className="text-gray-500" onClick={revokeFeed}>
+                    停止订阅
+                  </Button>
+                )}
+              </div>
+            </Card>
+
+            {/* Entries */}
+            <section>
+              <h2 className="text-lg font-semibold text-gray-800 mb-4">已加入日历</h2>
+              {entries.length === 0 ? (
+                <Card className="p-6 text-center text-gray-600">
+                  还没有日历事件，在随机出行或随机健身中点击「加入日历」
+                </Card>
+              ) : (
+                <div className="space-y-2">
+                  {entries.map((entry) => (
+                    <Card key={entry.id} className="p-3">
+                      <div className="flex items-center gap-2">
+                        <div className="flex-1 min-w-0">
+                          <h4 className="font-medium text-gray-800 truncate">{entry.title}</h4>
+                          <p className="text-xs text-gray-500">{formatEntryTime(entry)}</p>
+                        </div>
+                        <a href={`/api/calendar/${entry.id}/ics`}>
+                          <Button variant="ghost" size="icon" aria-label="下载 .ics">
+                            <Download className="h-4 w-4" />
+                          </Button>
+                        </a>
+                        <Button variant="ghost" size="icon" onClick={() => removeEntry(entry.id)} aria-label="移除">
+                          <X className="h-4 w-4 text-gray-400" />
+                        </Button>
+                      </div>
+                    </Card>
+                  ))}
+                </div>
+              )}
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -3,21 +3,68 @@
 import { useState, useEffect } from "react"
 import { motion, AnimatePresence } from "framer-motion"
 import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { Ban, Bell, CalendarPlus, Check, Flame, Heart, MapPinned, Share2, Star, ThumbsDown, ThumbsUp } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import { WorkoutSessionCard } from "@/components/workout-session-card"
+import { formatPrice, type CatalogCurrency, type Recommendation } from "@/lib/catalog/types"
+import type { FeedbackValue } from "@/lib/feedback/types"
+import type { DailyNutrition } from "@/lib/nutrition/types"
+import type { PriceWatch } from "@/lib/pricing/types"
+import { WORKOUT_FOCUS_LABELS, type WorkoutSession, type WorkoutStreak } from "@/lib/workout/types"
 
-interface Recommendation {
-  id: string
-  type: string
-  title: string
-  description?: string
-  image?: string
-  price?: string
-  calories?: number
-  reason?: string
-  duration?: string
-  weather?: string
+interface HistoryEntry extends Recommendation {
+  pickedAt?: string
+}
+
+interface DailyPick {
+  date: string
+  shareUrl: string
+  item: Recommendation
+}
+
+interface QuotaInfo {
+  limit: number | null
+  remaining: number | null
+  resetAt: string
+}
+
+interface TodayWorkout {
+  session: WorkoutSession | null
+  completed: boolean
+  next: WorkoutSession | null
+  streak: WorkoutStreak
+}
+
+// Lets the server reset the daily quota on the user's local midnight
+const getTimezoneHeaders = () => ({
+  "X-Timezone-Offset": String(new Date().getTimezoneOffset()),
+})
+
+const readQuotaHeaders = (response: Response): QuotaInfo | null => {
+  const resetAt = response.headers.get("X-Quota-Reset")
+  if (!resetAt) return null
+
+  const limit = response.headers.get("X-Quota-Limit")
+  const remaining = response.headers.get("X-Quota-Remaining")
+  return {
+    limit: limit !== null ? Number(limit) : null,
+    remaining: remaining !== null ? Number(remaining) : null,
+    resetAt,
+  }
+}
+
+// Slider range for "surprise me under ¥200"
+const budgetSliderRanges: Record<CatalogCurrency, { max: number; step: number; initial: number }> = {
+  CNY: { max: 2000, step: 50, initial: 200 },
+  USD: { max: 300, step: 5, initial: 30 },
+  EUR: { max: 300, step: 5, initial: 30 },
 }
 
 const categoryConfig = {
@@ -50,21 +97,713 @@ const categoryConfig = {
 
 export default function CategoryPage({ params }: { params: { id: string } }) {
   const [currentRecommendation, setCurrentRecommendation] = useState<Recommendation | null>(null)
-  const [history, setHistory] = useState<Recommendation[]>([])
+  const [history, setHistory] = useState<HistoryEntry[]>([])
   const [isShaking, setIsShaking] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
+  const [isSignedIn, setIsSignedIn] = useState(false)
+  const [quota, setQuota] = useState<QuotaInfo | null>(null)
+  const [quotaMessage, setQuotaMessage] = useState<string | null>(null)
+  // itemId -> favorite id
+  const [favoriteIds, setFavoriteIds] = useState<Record<string, string>>({})
+  const [favoriteMessage, setFavoriteMessage] = useState<string | null>(null)
+  // itemId -> feedback value
+  const [feedback, setFeedback] = useState<Record<string, FeedbackValue>>({})
+  const [feedbackMessage, setFeedbackMessage] = useState<string | null>(null)
+  // itemId -> accept/reject recorded to history in this session, and the latest rating
+  const [reactions, setReactions] = useState<Record<string, "pick" | "skip">>({})
+  const [ratings, setRatings] = useState<Record<string, number>>({})
+  const [dailyPick, setDailyPick] = useState<DailyPick | null>(null)
+  const [shareMessage, setShareMessage] = useState<string | null>(null)
+  // itemId -> price watch
+  const [priceWatches, setPriceWatches] = useState<Record<string, PriceWatch>>({})
+  const [watchTarget, setWatchTarget] = useState<string | null>(null)
+  // itemId -> nutrition entry id, for picks accepted in this session
+  const [loggedPicks, setLoggedPicks] = useState<Record<string, string>>({})
+  const [nutritionMessage, setNutritionMessage] = useState<string | null>(null)
+  // Signed-in fitness users with an active plan shake for today's session instead of a random pick
+  const [hasWorkoutPlan, setHasWorkoutPlan] = useState(false)
+  const [todayWorkout, setTodayWorkout] = useState<TodayWorkout | null>(null)
+  // Most recently edited itinerary; travel picks are added to it
+  const [latestItinerary, setLatestItinerary] = useState<{ id: string; title: string; itemIds: string[] } | null>(null)
+  const [itineraryMessage, setItineraryMessage] = useState<string | null>(null)
+  // Date/time picker for putting the current pick on the calendar, and the last entry added
+  const [calendarDraft, setCalendarDraft] = useState<{ date: string; startTime: string } | null>(null)
+  const [calendarEntry, setCalendarEntry] = useState<{ id: string; itemId: string; date: string; startTime: string } | null>(null)
+  const [budgetMode, setBudgetMode] = useState(false)
+  const [budgetMax, setBudgetMax] = useState(budgetSliderRanges.CNY.initial)
+  const [budgetCurrency, setBudgetCurrency] = useState<CatalogCurrency>("CNY")
+  const router = useRouter()
 
   const category = categoryConfig[params.id as keyof typeof categoryConfig]
 
   useEffect(() => {
-    // Load history from localStorage
-    const savedHistory = localStorage.getItem(`history_${params.id}`)
-    if (savedHistory) {
-      setHistory(JSON.parse(savedHistory))
+    const loadHistory = async () => {
+      // Signed-in users get their history from the server so it follows them across devices
+      try {
+        const response = await fetch(`/api/history?category=${params.id}&action=view&pageSize=3`, {
+          credentials: "include",
+        })
+        if (response.ok) {
+          const data = await response.json()
+          setIsSignedIn(true)
+          setHistory(
+            data.entries.map((entry: any) => ({
+              id: entry.itemId,
+              type: entry.type,
+              title: entry.title || "",
+              pickedAt: entry.timestamp,
+            })),
+          )
+          return
+        }
+      } catch (error) {
+        console.error("Error loading history:", error)
+      }
+
+      // Fall back to localStorage for anonymous users
+      const savedHistory = localStorage.getItem(`history_${params.id}`)
+      if (savedHistory) {
+        setHistory(JSON.parse(savedHistory))
+      }
     }
+
+    loadHistory()
   }, [params.id])
 
+  useEffect(() => {
+    const loadQuota = async () => {
+      try {
+        const response = await fetch("/api/quota", {
+          headers: getTimezoneHeaders(),
+          credentials: "include",
+        })
+        if (response.ok) {
+          const data = await response.json()
+          setQuota(data.quota)
+        }
+      } catch (error) {
+        console.error("Error loading quota:", error)
+      }
+    }
+
+    loadQuota()
+  }, [])
+
+  useEffect(() => {
+    const loadDailyPick = async () => {
+      try {
+        const response = await fetch(`/api/daily?category=${params.id}`, {
+          headers: getTimezoneHeaders(),
+          credentials: "include",
+        })
+        if (response.ok) {
+          setDailyPick(await response.json())
+        }
+      } catch (error) {
+        console.error("Error loading daily pick:", error)
+      }
+    }
+
+    loadDailyPick()
+  }, [params.id])
+
+  const shareDailyPick = async () => {
+    if (!dailyPick) return
+    const url = `${window.location.origin}${dailyPick.shareUrl}`
+
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: `今日推荐：${dailyPick.item.title}`, url })
+        return
+      }
+      await navigator.clipboard.writeText(url)
+      setShareMessage("链接已复制")
+    } catch (error) {
+      console.error("Error sharing daily pick:", error)
+    }
+  }
+
+  useEffect(() => {
+    if (!isSignedIn) return
+
+    const loadFavorites = async () => {
+      try {
+        const response = await fetch(`/api/favorites?category=${params.id}`, {
+          credentials: "include",
+        })
+        if (response.ok) {
+          const data = await response.json()
+          setFavoriteIds(
+            Object.fromEntries(data.favorites.map((favorite: any) => [favorite.itemId, favorite.id])),
+          )
+        }
+      } catch (error) {
+        console.error("Error loading favorites:", error)
+      }
+    }
+
+    loadFavorites()
+  }, [isSignedIn, params.id])
+
+  useEffect(() => {
+    if (!isSignedIn) return
+
+    const loadFeedback = async () => {
+      try {
+        const response = await fetch(`/api/feedback?category=${params.id}`, {
+          credentials: "include",
+        })
+        if (response.ok) {
+          const data = await response.json()
+          setFeedback(Object.fromEntries(data.feedback.map((entry: any) => [entry.itemId, entry.value])))
+        }
+      } catch (error) {
+        console.error("Error loading feedback:", error)
+      }
+    }
+
+    loadFeedback()
+  }, [isSignedIn, params.id])
+
+  useEffect(() => {
+    if (!isSignedIn || params.id !== "shopping") return
+
+    const loadPriceWatches = async () => {
+      try {
+        const response = await fetch("/api/price-watches", { credentials: "include" })
+        if (response.ok) {
+          const data = await response.json()
+          setPriceWatches(Object.fromEntries(data.watches.map((watch: PriceWatch) => [watch.itemId, watch])))
+        }
+      } catch (error) {
+        console.error("Error loading price watches:", error)
+      }
+    }
+
+    loadPriceWatches()
+  }, [isSignedIn, params.id])
+
+  useEffect(() => {
+    if (!isSignedIn || params.id !== "fitness") return
+
+    const loadWorkoutPlan = async () => {
+      try {
+        const response = await fetch("/api/workout-plans/today", {
+          headers: getTimezoneHeaders(),
+          credentials: "include",
+        })
+        setHasWorkoutPlan(response.ok)
+      } catch (error) {
+        console.error("Error loading workout plan:", error)
+      }
+    }
+
+    loadWorkoutPlan()
+  }, [isSignedIn, params.id])
+
+  useEffect(() => {
+    if (!isSignedIn || params.id !== "travel") return
+
+    const loadItineraries = async () => {
+      try {
+        const response = await fetch("/api/itineraries", { credentials: "include" })
+        if (response.ok) {
+          const data = await response.json()
+          const [latest] = data.itineraries
+          if (latest) {
+            setLatestItinerary({
+              id: latest.id,
+              title: latest.title,
+              itemIds: latest.stops.map((stop: { itemId: string }) => stop.itemId),
+            })
+          }
+        }
+      } catch (error) {
+        console.error("Error loading itineraries:", error)
+      }
+    }
+
+    loadItineraries()
+  }, [isSignedIn, params.id])
+
+  const addToItinerary = async (rec: Recommendation) => {
+    if (!isSignedIn) {
+      router.push("/login")
+      return
+    }
+
+    setItineraryMessage(null)
+    try {
+      const response = latestItinerary
+        ? await fetch(`/api/itineraries/${latestItinerary.id}/stops`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            credentials: "include",
+            body: JSON.stringify({ itemId: rec.id }),
+          })
+        : await fetch("/api/itineraries", {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              ...getTimezoneHeaders(),
+            },
+            credentials: "include",
+            body: JSON.stringify({ itemIds: [rec.id] }),
+          })
+
+      if (response.ok) {
+        const data = await response.json()
+        setLatestItinerary({
+          id: data.itinerary.id,
+          title: data.itinerary.title,
+          itemIds: data.itinerary.stops.map((stop: { itemId: string }) => stop.itemId),
+        })
+        setItineraryMessage(`已加入行程「${data.itinerary.title}」`)
+        recordReaction(rec, "pick")
+      } else if (response.status === 404 && latestItinerary) {
+        // The itinerary was deleted elsewhere; start a new one next time
+        setLatestItinerary(null)
+        setItineraryMessage("行程不存在了，再点一次会新建行程")
+      }
+    } catch (error) {
+      console.error("Error adding to itinerary:", error)
+    }
+  }
+
+  const openCalendarDraft = () => {
+    if (!isSignedIn) {
+      router.push("/login")
+      return
+    }
+    // Default to the next full hour in the user's local time
+    const next = new Date()
+    next.setHours(next.getHours() + 1, 0, 0, 0)
+    const local = new Date(next.getTime() - next.getTimezoneOffset() * 60 * 1000).toISOString()
+    setCalendarDraft({ date: local.slice(0, 10), startTime: local.slice(11, 16) })
+  }
+
+  const saveCalendarEntry = async (rec: Recommendation) => {
+    if (!calendarDraft) return
+
+    try {
+      const response = await fetch("/api/calendar", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...getTimezoneHeaders(),
+        },
+        credentials: "include",
+        body: JSON.stringify({ category: params.id, itemId: rec.id, ...calendarDraft }),
+      })
+      if (response.ok) {
+        const data = await response.json()
+        setCalendarEntry({
+          id: data.entry.id,
+          itemId: rec.id,
+          date: data.entry.date,
+          startTime: data.entry.startTime,
+        })
+        setCalendarDraft(null)
+        recordReaction(rec, "pick")
+      }
+    } catch (error) {
+      console.error("Error adding to calendar:", error)
+    }
+  }
+
+  const renderCalendarAdd = (rec: Recommendation) => {
+    if (calendarDraft) {
+      return (
+        <div className="flex items-center gap-2 mt-4">
+          <Input
+            type="date"
+            value={calendarDraft.date}
+            onChange={(event) => setCalendarDraft({ ...calendarDraft, date: event.target.value })}
+            aria-label="日期"
+          />
+          <Input
+            type="time"
+            className="w-28"
+            value={calendarDraft.startTime}
+            onChange={(event) => setCalendarDraft({ ...calendarDraft, startTime: event.target.value })}
+            aria-label="开始时间"
+          />
+          <Button variant="outline" onClick={() => saveCalendarEntry(rec)}>
+            确定
+          </Button>
+          <Button variant="ghost" onClick={() => setCalendarDraft(null)}>
+            取消
+          </Button>
+        </div>
+      )
+    }
+
+    return (
+      <Button variant="outline" className="w-full mt-4" onClick={openCalendarDraft}>
+        <CalendarPlus className="h-4 w-4 mr-1" />
+        {calendarEntry?.itemId === rec.id ? "已加入日历" : "加入日历"}
+      </Button>
+    )
+  }
+
+  const showTodayWorkout = async () => {
+    setIsShaking(true)
+    setIsLoading(true)
+
+    try {
+      const response = await fetch("/api/workout-plans/today", {
+        headers: getTimezoneHeaders(),
+        credentials: "include",
+      })
+      if (!response.ok) {
+        setHasWorkoutPlan(false)
+        setIsShaking(false)
+        setIsLoading(false)
+        return
+      }
+
+      const workout = await response.json()
+      setTimeout(() => {
+        setTodayWorkout(workout)
+        setIsShaking(false)
+        setIsLoading(false)
+      }, 1500)
+    } catch (error) {
+      console.error("Error loading today's workout:", error)
+      setIsShaking(false)
+      setIsLoading(false)
+    }
+  }
+
+  const toggleTodayWorkout = async () => {
+    const session = todayWorkout?.session
+    if (!session) return
+
+    try {
+      const response = await fetch(`/api/workout-plans/sessions/${session.id}`, {
+        method: todayWorkout.completed ? "DELETE" : "POST",
+        headers: getTimezoneHeaders(),
+        credentials: "include",
+      })
+      if (response.ok) {
+        const data = await response.json()
+        setTodayWorkout({ ...todayWorkout, completed: !todayWorkout.completed, streak: data.streak })
+      }
+    } catch (error) {
+      console.error("Error updating workout session:", error)
+    }
+  }
+
+  const openPriceWatch = (rec: Recommendation) => {
+    if (!isSignedIn) {
+      router.push("/login")
+      return
+    }
+    const watch = priceWatches[rec.id]
+    // Suggest 10% off the current price as the default target
+    const suggested = watch?.targetPrice.amount ?? Math.floor((rec.priceAmount || 0) * 0.9)
+    setWatchTarget(String(suggested))
+  }
+
+  const savePriceWatch = async (rec: Recommendation) => {
+    const amount = Number(watchTarget)
+    if (!rec.currency || !Number.isFinite(amount) || amount <= 0) return
+
+    try {
+      const response = await fetch("/api/price-watches", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: JSON.stringify({ itemId: rec.id, targetPrice: { amount, currency: rec.currency } }),
+      })
+      if (response.ok) {
+        const data = await response.json()
+        setPriceWatches((current) => ({ ...current, [rec.id]: data.watch }))
+        setWatchTarget(null)
+      }
+    } catch (error) {
+      console.error("Error saving price watch:", error)
+    }
+  }
+
+  const renderPriceWatch = (rec: Recommendation) => {
+    const watch = priceWatches[rec.id]
+
+    if (watchTarget !== null) {
+      return (
+        <div className="flex items-center gap-2 mb-4">
+          <Input
+            type="number"
+            min={0}
+            step="0.01"
+            value={watchTarget}
+            onChange={(event) => setWatchTarget(event.target.value)}
+            aria-label="目标价"
+          />
+          <Button variant="outline" onClick={() => savePriceWatch(rec)}>
+            确定
+          </Button>
+          <Button variant="ghost" onClick={() => setWatchTarget(null)}>
+            取消
+          </Button>
+        </div>
+      )
+    }
+
+    return (
+      <Button variant="outline" size="sm" className="mb-4" onClick={() => openPriceWatch(rec)}>
+        <Bell className={`h-4 w-4 mr-1 ${watch ? "fill-current" : ""}`} />
+        {watch ? `降到 ${formatPrice(watch.targetPrice)} 时提醒我` : "降价提醒"}
+      </Button>
+    )
+  }
+
+  const describeNutrition = (today: DailyNutrition) =>
+    today.remaining !== undefined
+      ? `今日净摄入 ${today.net} 千卡，还剩 ${today.remaining} 千卡`
+      : `今日净摄入 ${today.net} 千卡`
+
+  const toggleNutritionLog = async (rec: Recommendation) => {
+    if (!isSignedIn) {
+      router.push("/login")
+      return
+    }
+
+    const entryId = loggedPicks[rec.id]
+    setNutritionMessage(null)
+
+    try {
+      if (entryId) {
+        const response = await fetch(`/api/nutrition/${entryId}`, {
+          method: "DELETE",
+          credentials: "include",
+        })
+        if (response.ok || response.status === 404) {
+          setLoggedPicks(({ [rec.id]: _, ...rest }) => rest)
+          setNutritionMessage("已撤销记录")
+        }
+        return
+      }
+
+      const response = await fetch("/api/nutrition", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...getTimezoneHeaders(),
+        },
+        credentials: "include",
+        body: JSON.stringify({ category: params.id, itemId: rec.id }),
+      })
+      if (response.ok) {
+        const data = await response.json()
+        setLoggedPicks((current) => ({ ...current, [rec.id]: data.entry.id }))
+        const logged = data.entry.kind === "intake" ? `已记录摄入 ${data.entry.calories} 千卡` : `已记录消耗 ${data.entry.calories} 千卡`
+        setNutritionMessage(`${logged}，${describeNutrition(data.today)}`)
+        recordReaction(rec, "pick")
+      }
+    } catch (error) {
+      console.error("Error logging nutrition:", error)
+    }
+  }
+
+  const renderNutritionLog = (rec: Recommendation) => {
+    const logged = Boolean(loggedPicks[rec.id])
+    return (
+      <Button
+        className={logged ? "w-full mt-4" : "w-full mt-4 bg-[#4ECDC4] hover:bg-[#3DBDB4]"}
+        variant={logged ? "outline" : "default"}
+        onClick={() => toggleNutritionLog(rec)}
+      >
+        {logged ? <Check className="h-4 w-4 mr-1" /> : <Flame className="h-4 w-4 mr-1" />}
+        {logged ? "已记录（点击撤销）" : params.id === "food" ? "就吃这个" : "去运动"}
+      </Button>
+    )
+  }
+
+  const toggleFavorite = async (rec: Recommendation) => {
+    if (!isSignedIn) {
+      router.push("/login")
+      return
+    }
+
+    const favoriteId = favoriteIds[rec.id]
+    setFavoriteMessage(null)
+
+    try {
+      if (favoriteId) {
+        const response = await fetch(`/api/favorites/${favoriteId}`, {
+          method: "DELETE",
+          credentials: "include",
+        })
+        if (response.ok || response.status === 404) {
+          setFavoriteIds((current) => {
+            const { [rec.id]: _removed, ...rest } = current
+            return rest
+          })
+        }
+        return
+      }
+
+      const response = await fetch("/api/favorites", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: JSON.stringify({ category: params.id, itemId: rec.id }),
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setFavoriteIds((current) => ({ ...current, [rec.id]: data.favorite.id }))
+        recordReaction(rec, "pick")
+      } else if (data.code === "FAVORITES_LIMIT_REACHED") {
+        setFavoriteMessage(`免费版最多收藏 ${data.limit} 个，升级 Pro 即可无限收藏`)
+      }
+    } catch (error) {
+      console.error("Error updating favorite:", error)
+    }
+  }
+
+  // Accepting (favorite, log, calendar, itinerary), rejecting and rating go to history; shown items are logged by the server
+  const recordReaction = async (rec: Recommendation, action: "pick" | "skip" | "rating", rating?: number) => {
+    if (!isSignedIn || (action !== "rating" && reactions[rec.id] === action)) return
+
+    try {
+      const response = await fetch("/api/history", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: JSON.stringify({ category: params.id, itemId: rec.id, action, rating }),
+      })
+      if (!response.ok) return
+
+      if (action === "rating") {
+        setRatings((current) => ({ ...current, [rec.id]: rating! }))
+      } else {
+        setReactions((current) => ({ ...current, [rec.id]: action }))
+      }
+    } catch (error) {
+      console.error("Error recording reaction:", error)
+    }
+  }
+
+  const submitRating = (rec: Recommendation, rating: number) => {
+    if (!isSignedIn) {
+      router.push("/login")
+      return
+    }
+    recordReaction(rec, "rating", rating)
+  }
+
+  const submitFeedback = async (rec: Recommendation, value: FeedbackValue) => {
+    if (!isSignedIn) {
+      router.push("/login")
+      return
+    }
+
+    try {
+      // Clicking the active thumb again clears it
+      if (feedback[rec.id] === value) {
+        const response = await fetch(`/api/feedback?category=${params.id}&itemId=${encodeURIComponent(rec.id)}`, {
+          method: "DELETE",
+          credentials: "include",
+        })
+        if (response.ok) {
+          setFeedback((current) => {
+            const { [rec.id]: _removed, ...rest } = current
+            return rest
+          })
+        }
+        return
+      }
+
+      const response = await fetch("/api/feedback", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: JSON.stringify({ category: params.id, itemId: rec.id, value }),
+      })
+      if (!response.ok) return
+
+      setFeedback((current) => ({ ...current, [rec.id]: value }))
+      if (value !== "like") {
+        recordReaction(rec, "skip")
+      }
+      if (value === "block") {
+        setCurrentRecommendation(null)
+        setFeedbackMessage(`已隐藏「${rec.title}」，以后不会再推荐`)
+      } else {
+        setFeedbackMessage(value === "like" ? "收到！会多推荐类似的内容" : "收到！会少推荐类似的内容")
+      }
+    } catch (error) {
+      console.error("Error submitting feedback:", error)
+    }
+  }
+
+  const renderFeedbackActions = (rec: Recommendation) => (
+    <>
+      <div className="flex justify-center gap-1 mt-4">
+        {[1, 2, 3, 4, 5].map((value) => (
+          <button key={value} type="button" onClick={() => submitRating(rec, value)} aria-label={`${value} 星`}>
+            <Star
+              className={`h-5 w-5 ${value <= (ratings[rec.id] || 0) ? "fill-[#FFD93D] text-[#FFD93D]" : "text-gray-300"}`}
+            />
+          </button>
+        ))}
+      </div>
+      <div className="flex justify-center gap-2 mt-2">
+        <Button
+          variant={feedback[rec.id] === "like" ? "default" : "outline"}
+          size="sm"
+          onClick={() => submitFeedback(rec, "like")}
+          aria-label="喜欢"
+        >
+          <ThumbsUp className="h-4 w-4" />
+        </Button>
+        <Button
+          variant={feedback[rec.id] === "dislike" ? "default" : "outline"}
+          size="sm"
+          onClick={() => submitFeedback(rec, "dislike")}
+          aria-label="不喜欢"
+        >
+          <ThumbsDown className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => submitFeedback(rec, "block")}>
+          <Ban className="h-4 w-4 mr-1" />
+          不再推荐
+        </Button>
+      </div>
+    </>
+  )
+
+  const renderFavoriteButton = (rec: Recommendation) => {
+    const isFavorite = Boolean(favoriteIds[rec.id])
+    return (
+      <Button
+        variant="ghost"
+        size="icon"
+        className="absolute top-2 right-2"
+        onClick={() => toggleFavorite(rec)}
+        aria-label={isFavorite ? "取消收藏" : "收藏"}
+      >
+        <Heart className={`h-5 w-5 ${isFavorite ? "fill-[#FF6B6B] text-[#FF6B6B]" : "text-gray-400"}`} />
+      </Button>
+    )
+  }
+
   const handleShake = async () => {
+    if (hasWorkoutPlan) {
+      await showTodayWorkout()
+      return
+    }
+
     setIsShaking(true)
     setIsLoading(true)
 
@@ -73,19 +812,70 @@ export default function CategoryPage({ params }: { params: { id: string } }) {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          ...getTimezoneHeaders(),
         },
-        body: JSON.stringify({ user_id: "default" }),
+        credentials: "include",
+        body: JSON.stringify({
+          budget: budgetMode ? { max: budgetMax, currency: budgetCurrency } : undefined,
+          history: isSignedIn
+            ? undefined
+            : history
+                .filter((item) => item.pickedAt)
+                .map((item) => ({
+                  itemId: item.id,
+                  category: params.id,
+                  type: item.type,
+                  title: item.title,
+                  action: "view",
+                  timestamp: item.pickedAt,
+                })),
+        }),
       })
 
+      const quotaInfo = readQuotaHeaders(response)
+      if (quotaInfo) {
+        setQuota(quotaInfo)
+      }
+
+      if (response.status === 429) {
+        const data = await response.json()
+        const resetTime = new Date(data.resetAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+        setQuotaMessage(`今日推荐次数已用完，将于 ${resetTime} 重置。升级 Pro 即可无限使用`)
+        setIsShaking(false)
+        setIsLoading(false)
+        return
+      }
+
+      if (response.status === 404) {
+        const data = await response.json()
+        setFeedbackMessage(
+          data.code === "NO_ITEMS_IN_BUDGET" ? "预算内暂时没有合适的商品，试试提高预算" : "暂时没有可推荐的内容",
+        )
+        setIsShaking(false)
+        setIsLoading(false)
+        return
+      }
+
       const recommendation = await response.json()
+      setQuotaMessage(null)
+      setFeedbackMessage(null)
+      // Follow the currency the server priced the item in, so the slider matches what is shown
+      if (recommendation.currency && recommendation.currency !== budgetCurrency) {
+        setBudgetCurrency(recommendation.currency)
+        setBudgetMax(budgetSliderRanges[recommendation.currency as CatalogCurrency].initial)
+      }
 
       setTimeout(() => {
         setCurrentRecommendation(recommendation)
+        setWatchTarget(null)
+        setCalendarDraft(null)
 
         // Update history
-        const newHistory = [recommendation, ...history.slice(0, 2)]
+        const newHistory = [{ ...recommendation, pickedAt: new Date().toISOString() }, ...history.slice(0, 2)]
         setHistory(newHistory)
-        localStorage.setItem(`history_${params.id}`, JSON.stringify(newHistory))
+        if (!isSignedIn) {
+          localStorage.setItem(`history_${params.id}`, JSON.stringify(newHistory))
+        }
 
         setIsShaking(false)
         setIsLoading(false)
@@ -101,7 +891,8 @@ export default function CategoryPage({ params }: { params: { id: string } }) {
     switch (params.id) {
       case "entertainment":
         return (
-          <Card className="p-6 text-center">
+          <Card className="relative p-6 text-center">
+            {renderFavoriteButton(rec)}
             <div className="w-32 h-48 mx-auto mb-4 bg-gray-200 rounded-lg flex items-center justify-center">
               <span className="text-4xl">
                 {rec.type === "sci-fi" ? "📚" : rec.type === "game" ? "🎮" : rec.type === "song" ? "🎵" : "🎬"}
@@ -109,12 +900,14 @@ export default function CategoryPage({ params }: { params: { id: string } }) {
             </div>
             <h3 className="text-xl font-semibold mb-2">{rec.title}</h3>
             <p className="text-gray-600">{rec.description}</p>
+            {renderFeedbackActions(rec)}
           </Card>
         )
 
       case "shopping":
         return (
-          <Card className="p-6 text-center">
+          <Card className="relative p-6 text-center">
+            {renderFavoriteButton(rec)}
             <div className="w-32 h-32 mx-auto mb-4 bg-gray-200 rounded-lg flex items-center justify-center">
               <span className="text-4xl">
                 {rec.type === "fashion" ? "👕" : rec.type === "shoes" ? "👟" : rec.type === "gadget" ? "📱" : "🏠"}
@@ -122,13 +915,16 @@ export default function CategoryPage({ params }: { params: { id: string } }) {
             </div>
             <h3 className="text-xl font-semibold mb-2">{rec.title}</h3>
             <p className="text-2xl font-bold text-[#FF6B6B] mb-4">{rec.price}</p>
+            {renderPriceWatch(rec)}
             <Button className="w-full bg-[#FF6B6B] hover:bg-[#FF5252]">Buy Now</Button>
+            {renderFeedbackActions(rec)}
           </Card>
         )
 
       case "food":
         return (
-          <Card className="p-6 text-center">
+          <Card className="relative p-6 text-center">
+            {renderFavoriteButton(rec)}
             <Badge className="mb-4 bg-[#4ECDC4] text-white">AI Recommendation</Badge>
             <div className="w-32 h-32 mx-auto mb-4 bg-gray-200 rounded-lg flex items-center justify-center">
               <span className="text-4xl">🍜</span>
@@ -136,13 +932,16 @@ export default function CategoryPage({ params }: { params: { id: string } }) {
             <h3 className="text-xl font-semibold mb-2">{rec.title}</h3>
             {rec.reason && <p className="text-sm text-gray-600 mb-2">{rec.reason}</p>}
             {rec.calories && <p className="text-lg font-medium text-[#4ECDC4]">{rec.calories} calories</p>}
+            {renderNutritionLog(rec)}
+            {renderFeedbackActions(rec)}
           </Card>
         )
 
       case "travel":
       case "fitness":
         return (
-          <Card className="p-6 text-center">
+          <Card className="relative p-6 text-center">
+            {renderFavoriteButton(rec)}
             <div className="w-full h-32 mb-4 bg-gray-200 rounded-lg flex items-center justify-center">
               <span className="text-4xl">{params.id === "travel" ? "🗺️" : "🏃‍♂️"}</span>
             </div>
@@ -150,6 +949,15 @@ export default function CategoryPage({ params }: { params: { id: string } }) {
             <p className="text-gray-600 mb-2">{rec.description}</p>
             {rec.duration && <p className="text-sm text-gray-500 mb-1">Duration: {rec.duration}</p>}
             {rec.weather && <p className="text-sm text-gray-500">Weather: {rec.weather}</p>}
+            {params.id === "fitness" && renderNutritionLog(rec)}
+            {params.id === "travel" && (
+              <Button variant="outline" className="w-full mt-4" onClick={() => addToItinerary(rec)}>
+                <MapPinned className="h-4 w-4 mr-1" />
+                {latestItinerary?.itemIds.includes(rec.id) ? "已在行程中" : "加入行程"}
+              </Button>
+            )}
+            {renderCalendarAdd(rec)}
+            {renderFeedbackActions(rec)}
           </Card>
         )
 
@@ -184,6 +992,47 @@ export default function CategoryPage({ params }: { params: { id: string } }) {
           </div>
         </div>
 
+        {/* Daily Pick */}
+        {dailyPick && (
+          <Card className="p-4 mb-8">
+            <div className="flex items-center justify-between">
+              <div className="min-w-0">
+                <p className="text-xs text-gray-500">今日推荐 · {dailyPick.date}</p>
+                <h3 className="font-semibold text-gray-800 truncate">{dailyPick.item.title}</h3>
+                {shareMessage && <p className="text-xs text-[#4ECDC4]">{shareMessage}</p>}
+              </div>
+              <Button variant="ghost" size="icon" onClick={shareDailyPick} aria-label="分享">
+                <Share2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </Card>
+        )}
+
+        {/* Budget Mode */}
+        {params.id === "shopping" && (
+          <Card className="p-4 mb-8">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="budget-mode">
+                {budgetMode
+                  ? `${formatPrice({ amount: budgetMax, currency: budgetCurrency })} 以内随便来一个`
+                  : "按预算推荐"}
+              </Label>
+              <Switch id="budget-mode" checked={budgetMode} onCheckedChange={setBudgetMode} />
+            </div>
+            {budgetMode && (
+              <Slider
+                className="mt-4"
+                min={budgetSliderRanges[budgetCurrency].step}
+                max={budgetSliderRanges[budgetCurrency].max}
+                step={budgetSliderRanges[budgetCurrency].step}
+                value={[budgetMax]}
+                onValueChange={([value]) => setBudgetMax(value)}
+                aria-label="预算上限"
+              />
+            )}
+          </Card>
+        )}
+
         {/* Shake Button */}
         <div className="text-center mb-8">
           <motion.div
@@ -199,7 +1048,7 @@ export default function CategoryPage({ params }: { params: { id: string } }) {
           >
             <Button
               onClick={handleShake}
-              disabled={isLoading}
+              disabled={isLoading || quota?.remaining === 0}
               className="w-32 h-32 rounded-full bg-[#FF6B6B] hover:bg-[#FF5252] text-white text-lg font-semibold shadow-lg"
             >
               {isLoading ? (
@@ -214,9 +1063,57 @@ export default function CategoryPage({ params }: { params: { id: string } }) {
               )}
             </Button>
           </motion.div>
-          <p className="text-gray-600 mt-4">Tap to get a random recommendation</p>
+          <p className="text-gray-600 mt-4">
+            {hasWorkoutPlan ? "看看今天练什么" : "Tap to get a random recommendation"}
+          </p>
+          {params.id === "fitness" && isSignedIn && (
+            <Link href="/workouts" className="text-sm text-[#4ECDC4] underline">
+              {hasWorkoutPlan ? "查看训练计划" : "生成我的训练计划"}
+            </Link>
+          )}
+          {quota && quota.limit !== null && (
+            <p className="text-sm text-gray-500 mt-1">
+              今日剩余 {quota.remaining}/{quota.limit} 次
+            </p>
+          )}
+          {quotaMessage && (
+            <div className="mt-3 text-sm text-[#FF6B6B]">
+              <p>{quotaMessage}</p>
+              <Link href="/pro" className="underline">
+                查看 Pro 方案
+              </Link>
+            </div>
+          )}
         </div>
 
+        {/* Today's Workout */}
+        {hasWorkoutPlan && todayWorkout && (
+          <div className="mb-8 space-y-3">
+            {todayWorkout.session ? (
+              <WorkoutSessionCard
+                session={todayWorkout.session}
+                completed={todayWorkout.completed}
+                onToggleComplete={toggleTodayWorkout}
+              />
+            ) : (
+              <Card className="p-6 text-center">
+                <h3 className="text-xl font-semibold mb-2">今天是休息日</h3>
+                {todayWorkout.next ? (
+                  <p className="text-gray-600">
+                    下次训练：{todayWorkout.next.date} {WORKOUT_FOCUS_LABELS[todayWorkout.next.focus]}
+                  </p>
+                ) : (
+                  <p className="text-gray-600">这期计划已经结束，去生成新的计划吧</p>
+                )}
+              </Card>
+            )}
+            <p className="text-sm text-center text-gray-500">
+              已连续完成 {todayWorkout.streak.current} 次训练 · 共完成 {todayWorkout.streak.completed}/
+              {todayWorkout.streak.total}
+            </p>
+          </div>
+        )}
+
         {/* Current Recommendation */}
         <AnimatePresence mode="wait">
           {currentRecommendation && (
@@ -229,10 +1126,52 @@ export default function CategoryPage({ params }: { params: { id: string } }) {
               className="mb-8"
             >
               {renderRecommendation(currentRecommendation)}
+              {favoriteMessage && (
+                <p className="mt-2 text-sm text-center text-[#FF6B6B]">
+                  {favoriteMessage}{" "}
+                  <Link href="/pro" className="underline">
+                    查看 Pro 方案
+                  </Link>
+                </p>
+              )}
             </motion.div>
           )}
         </AnimatePresence>
 
+        {feedbackMessage && <p className="mb-8 text-sm text-center text-gray-500">{feedbackMessage}</p>}
+
+        {itineraryMessage && (
+          <p className="mb-8 text-sm text-center text-gray-500">
+            {itineraryMessage}{" "}
+            {latestItinerary && (
+              <Link href={`/itineraries/${latestItinerary.id}`} className="underline">
+                查看行程
+              </Link>
+            )}
+          </p>
+        )}
+
+        {calendarEntry && calendarEntry.itemId === currentRecommendation?.id && (
+          <p className="mb-8 text-sm text-center text-gray-500">
+            已加入日历：{calendarEntry.date} {calendarEntry.startTime}{" "}
+            <a href={`/api/calendar/${calendarEntry.id}/ics`} className="underline">
+              下载 .ics
+            </a>{" "}
+            <Link href="/calendar" className="underline">
+              管理日历订阅
+            </Link>
+          </p>
+        )}
+
+        {nutritionMessage && (
+          <p className="mb-8 text-sm text-center text-gray-500">
+            {nutritionMessage}{" "}
+            <Link href="/nutrition" className="underline">
+              查看本周热量
+            </Link>
+          </p>
+        )}
+
         {/* History */}
         {history.length > 0 && (
           <div>
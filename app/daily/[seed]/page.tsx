@@ -0,0 +1,80 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import type { Recommendation } from "@/lib/catalog/types"
+
+interface DailyPick {
+  category: string
+  date: string
+  item: Recommendation
+}
+
+const categoryLabels: Record<string, { title: string; icon: string }> = {
+  entertainment: { title: "随机娱乐", icon: "🎲" },
+  shopping: { title: "随机购物", icon: "🛍️" },
+  food: { title: "随机吃", icon: "🍜" },
+  travel: { title: "随机出行", icon: "🏞️" },
+  fitness: { title: "随机健身", icon: "💪" },
+}
+
+export default function SharedDailyPage({ params }: { params: { seed: string } }) {
+  const [pick, setPick] = useState<DailyPick | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadPick = async () => {
+      try {
+        const response = await fetch(`/api/daily/${encodeURIComponent(params.seed)}`)
+        const data = await response.json()
+        if (response.ok) {
+          setPick(data)
+        } else {
+          setError(data.error === "Invalid seed" ? "分享链接无效" : "暂时无法加载推荐")
+        }
+      } catch (error) {
+        console.error("Error loading shared pick:", error)
+        setError("暂时无法加载推荐")
+      }
+    }
+
+    loadPick()
+  }, [params.seed])
+
+  const label = pick ? categoryLabels[pick.category] : null
+
+  return (
+    <div className="min-h-screen bg-[#F7F9FC] p-4">
+      <div className="max-w-md mx-auto pt-12">
+        <div className="text-center mb-8">
+          <h1 className="text-2xl font-bold text-gray-800">RandomLife</h1>
+          <p className="text-gray-600 text-sm">Daily Discovery</p>
+        </div>
+
+        {error && <Card className="p-6 text-center text-gray-600">{error}</Card>}
+
+        {pick && label && (
+          <Card className="p-6 text-center">
+            <Badge className="mb-4 bg-[#4ECDC4] text-white">
+              {label.icon} {label.title} · {pick.date}
+            </Badge>
+            <h2 className="text-xl font-semibold mb-2">{pick.item.title}</h2>
+            {pick.item.description && <p className="text-gray-600 mb-2">{pick.item.description}</p>}
+            {pick.item.price && <p className="text-2xl font-bold text-[#FF6B6B]">{pick.item.price}</p>}
+            {pick.item.calories && <p className="text-lg font-medium text-[#4ECDC4]">{pick.item.calories} calories</p>}
+            {pick.item.duration && <p className="text-sm text-gray-500">Duration: {pick.item.duration}</p>}
+          </Card>
+        )}
+
+        <div className="text-center mt-8">
+          <Link href={pick ? `/category/${pick.category}` : "/"}>
+            <Button className="bg-[#FF6B6B] hover:bg-[#FF5252]">我也要摇一摇</Button>
+          </Link>
+        </div>
+      </div>
+    </div>
+  )
+}
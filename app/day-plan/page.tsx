@@ -0,0 +1,213 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { motion } from "framer-motion"
+import { ArrowLeft, RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { formatPrice, type CatalogCurrency, type Recommendation } from "@/lib/catalog/types"
+
+interface PlanSlot {
+  slot: string
+  label: string
+  startTime: string
+  endTime: string
+  category: string
+  item: Recommendation
+  reason: string
+}
+
+interface DayPlan {
+  weather: string
+  totals: {
+    caloriesIn: number
+    caloriesOut: number
+    spend: number
+    currency: CatalogCurrency
+  }
+  slots: PlanSlot[]
+}
+
+const categoryIcons: Record<string, string> = {
+  entertainment: "🎲",
+  shopping: "🛍️",
+  food: "🍜",
+  travel: "🏞️",
+  fitness: "💪",
+}
+
+export default function DayPlanPage() {
+  const [plan, setPlan] = useState<DayPlan | null>(null)
+  const [budget, setBudget] = useState("")
+  const [includeShopping, setIncludeShopping] = useState(true)
+  const [loadingSlot, setLoadingSlot] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const requestPlan = async (body: Record<string, unknown>, slot = "all") => {
+    setLoadingSlot(slot)
+    setError(null)
+
+    try {
+      const response = await fetch("/api/recommend/day-plan", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Timezone-Offset": String(new Date().getTimezoneOffset()),
+        },
+        credentials: "include",
+        body: JSON.stringify({
+          budget: budget ? Number(budget) : undefined,
+          includeShopping,
+          ...body,
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(
+          data.code === "QUOTA_EXCEEDED" ? "今日推荐次数已用完，升级 Pro 即可无限使用" : data.error || "生成失败",
+        )
+        return
+      }
+      setPlan(data)
+    } catch (error) {
+      console.error("Error fetching day plan:", error)
+      setError("生成失败，请稍后再试")
+    } finally {
+      setLoadingSlot(null)
+    }
+  }
+
+  useEffect(() => {
+    requestPlan({})
+  }, [])
+
+  // Keep every other slot and exclude the current pick of the rerolled one
+  const rerollSlot = (target: PlanSlot) => {
+    if (!plan) return
+    const locked = Object.fromEntries(
+      plan.slots.filter((slot) => slot.slot !== target.slot).map((slot) => [slot.slot, slot.item.id]),
+    )
+    requestPlan({ locked, exclude: [target.item.id] }, target.slot)
+  }
+
+  return (
+    <div className="min-h-screen bg-[#F7F9FC] p-4">
+      <div className="max-w-md mx-auto">
+        {/* Header */}
+        <div className="flex items-center mb-6 pt-8">
+          <Link href="/">
+            <Button variant="ghost" size="sm" className="mr-4">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-800">规划我的一天</h1>
+            {plan && <p className="text-sm text-gray-500">今日天气：{plan.weather}</p>}
+          </div>
+        </div>
+
+        {/* Options */}
+        <Card className="p-4 mb-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="includeShopping">包含购物</Label>
+            <Switch id="includeShopping" checked={includeShopping} onCheckedChange={setIncludeShopping} />
+          </div>
+          {includeShopping && (
+            <div className="space-y-2">
+              <Label htmlFor="budget">购物预算{plan ? `（${plan.totals.currency}）` : ""}</Label>
+              <Input
+                id="budget"
+                type="number"
+                min={0}
+                placeholder="不限"
+                value={budget}
+                onChange={(e) => setBudget(e.target.value)}
+              />
+            </div>
+          )}
+          <Button
+            className="w-full bg-[#FF6B6B] hover:bg-[#FF5252]"
+            disabled={loadingSlot !== null}
+            onClick={() => requestPlan({})}
+          >
+            {loadingSlot === "all" ? "生成中..." : "重新规划"}
+          </Button>
+        </Card>
+
+        {error && <p className="mb-4 text-sm text-center text-[#FF6B6B]">{error}</p>}
+
+        {/* Timeline */}
+        {plan && (
+          <div className="relative pl-6">
+            <div className="absolute left-2 top-0 bottom-0 w-px bg-gray-300" />
+            <div className="space-y-4">
+              {plan.slots.map((slot, index) => (
+                <motion.div
+                  key={slot.slot}
+                  initial={{ opacity: 0, x: -20 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  transition={{ delay: index * 0.1 }}
+                  className="relative"
+                >
+                  <div className="absolute -left-[21px] top-5 h-3 w-3 rounded-full bg-[#FF6B6B]" />
+                  <Card className="p-4">
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-xs text-gray-500">
+                          {slot.startTime} - {slot.endTime} · {slot.label}
+                        </p>
+                        <h3 className="font-semibold text-gray-800 mt-1">
+                          {categoryIcons[slot.category]} {slot.item.title}
+                        </h3>
+                        {slot.item.description && <p className="text-sm text-gray-600">{slot.item.description}</p>}
+                        <div className="flex flex-wrap gap-x-3 text-xs text-gray-500 mt-1">
+                          {slot.item.duration && <span>时长 {slot.item.duration}</span>}
+                          {slot.item.calories && <span>{slot.item.calories} 千卡</span>}
+                          {slot.item.price && <span>{slot.item.price}</span>}
+                          {slot.item.weather && <span>{slot.item.weather}</span>}
+                        </div>
+                        <p className="text-xs text-[#4ECDC4] mt-1">{slot.reason}</p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={loadingSlot !== null}
+                        onClick={() => rerollSlot(slot)}
+                        aria-label="换一个"
+                      >
+                        <RefreshCw className={`h-4 w-4 ${loadingSlot === slot.slot ? "animate-spin" : ""}`} />
+                      </Button>
+                    </div>
+                  </Card>
+                </motion.div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Totals */}
+        {plan && (
+          <Card className="p-4 mt-6 grid grid-cols-3 text-center text-sm">
+            <div>
+              <p className="text-gray-500">摄入</p>
+              <p className="font-semibold">{plan.totals.caloriesIn} 千卡</p>
+            </div>
+            <div>
+              <p className="text-gray-500">消耗</p>
+              <p className="font-semibold">{plan.totals.caloriesOut} 千卡</p>
+            </div>
+            <div>
+              <p className="text-gray-500">花费</p>
+              <p className="font-semibold">{formatPrice({ amount: plan.totals.spend, currency: plan.totals.currency })}</p>
+            </div>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
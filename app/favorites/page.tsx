@@ -0,0 +1,148 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { ArrowLeft, Heart } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { CATALOG_CATEGORIES, type CatalogCategory } from "@/lib/catalog/types"
+import type { Favorite } from "@/lib/favorites/types"
+
+const categoryLabels: Record<CatalogCategory, { title: string; icon: string }> = {
+  entertainment: { title: "随机娱乐", icon: "🎲" },
+  shopping: { title: "随机购物", icon: "🛍️" },
+  food: { title: "随机吃", icon: "🍜" },
+  travel: { title: "随机出行", icon: "🏞️" },
+  fitness: { title: "随机健身", icon: "💪" },
+}
+
+export default function FavoritesPage() {
+  const [favorites, setFavorites] = useState<Favorite[]>([])
+  const [limit, setLimit] = useState<number | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [requiresLogin, setRequiresLogin] = useState(false)
+
+  useEffect(() => {
+    const loadFavorites = async () => {
+      try {
+        const response = await fetch("/api/favorites", { credentials: "include" })
+        if (response.status === 401) {
+          setRequiresLogin(true)
+          return
+        }
+        if (response.ok) {
+          const data = await response.json()
+          setFavorites(data.favorites)
+          setLimit(data.limit)
+        }
+      } catch (error) {
+        console.error("Error loading favorites:", error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadFavorites()
+  }, [])
+
+  const removeFavorite = async (favorite: Favorite) => {
+    try {
+      const response = await fetch(`/api/favorites/${favorite.id}`, {
+        method: "DELETE",
+        credentials: "include",
+      })
+      if (response.ok || response.status === 404) {
+        setFavorites((current) => current.filter((entry) => entry.id !== favorite.id))
+      }
+    } catch (error) {
+      console.error("Error removing favorite:", error)
+    }
+  }
+
+  const groups = CATALOG_CATEGORIES.map((category) => ({
+    category,
+    items: favorites.filter((favorite) => favorite.category === category),
+  })).filter((group) => group.items.length > 0)
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[#F7F9FC] flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-[#F7F9FC] p-4">
+      <div className="max-w-md mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8 pt-8">
+          <div className="flex items-center">
+            <Link href="/">
+              <Button variant="ghost" size="sm" className="mr-4">
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+            </Link>
+            <h1 className="text-2xl font-bold text-gray-800">我的收藏</h1>
+          </div>
+          {limit !== null && (
+            <span className="text-sm text-gray-500">
+              {favorites.length}/{limit}
+            </span>
+          )}
+        </div>
+
+        {requiresLogin ? (
+          <Card className="p-6 text-center">
+            <p className="text-gray-600 mb-4">登录后即可收藏喜欢的推荐</p>
+            <Link href="/login">
+              <Button className="bg-[#FF6B6B] hover:bg-[#FF5252]">去登录</Button>
+            </Link>
+          </Card>
+        ) : groups.length === 0 ? (
+          <Card className="p-6 text-center text-gray-600">
+            还没有收藏，摇一摇时点击 ♡ 即可收藏
+          </Card>
+        ) : (
+          <div className="space-y-8">
+            {groups.map(({ category, items }) => (
+              <section key={category}>
+                <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-800 mb-4">
+                  <span>{categoryLabels[category].icon}</span>
+                  {categoryLabels[category].title}
+                  <Badge variant="secondary">{items.length}</Badge>
+                </h2>
+                <div className="space-y-3">
+                  {items.map((favorite) => (
+                    <Card key={favorite.id} className="p-4">
+                      <div className="flex items-center space-x-3">
+                        <div className="flex-1 min-w-0">
+                          <h4 className="font-medium text-gray-800">{favorite.item.title}</h4>
+                          {favorite.item.description && (
+                            <p className="text-sm text-gray-600 truncate">{favorite.item.description}</p>
+                          )}
+                          {favorite.item.price && (
+                            <p className="text-sm font-medium text-[#FF6B6B]">{favorite.item.price}</p>
+                          )}
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => removeFavorite(favorite)}
+                          aria-label="取消收藏"
+                        >
+                          <Heart className="h-5 w-5 fill-[#FF6B6B] text-[#FF6B6B]" />
+                        </Button>
+                      </div>
+                    </Card>
+                  ))}
+                </div>
+              </section>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,278 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { ArrowLeft, Copy, Crown, Shuffle, ThumbsDown } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { useAuth } from "@/hooks/use-auth"
+import { GROUP_EVENTS_POLL_MS } from "@/lib/group/events"
+import { getVetoesUsed, isRoomOpen, type GroupRoom } from "@/lib/group/types"
+
+const getTimezoneHeaders = () => ({
+  "X-Timezone-Offset": String(new Date().getTimezoneOffset()),
+})
+
+const errorMessages: Record<string, string> = {
+  NO_MATCHING_ITEMS: "没有能同时满足所有人的选项了",
+  NO_VETOES_LEFT: "你的否决次数已用完",
+  ROOM_CLOSED: "房间已关闭",
+  ROOM_BUSY: "大家操作太快了，请再试一次",
+}
+
+export default function GroupRoomPage({ params }: { params: { id: string } }) {
+  const router = useRouter()
+  const { user } = useAuth()
+  const userId = user?.id ?? null
+  const [room, setRoom] = useState<GroupRoom | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [requiresLogin, setRequiresLogin] = useState(false)
+  const [gone, setGone] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [copied, setCopied] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // 只接受更新的版本，避免推送和操作响应乱序时回退
+  const applyRoom = useCallback((next: GroupRoom) => {
+    setRoom((current) => (current && current.version > next.version ? current : next))
+  }, [])
+
+  const loadRoom = useCallback(async () => {
+    const response = await fetch(`/api/groups/${params.id}`, { credentials: "include" })
+    if (response.status === 401) {
+      setRequiresLogin(true)
+      return false
+    }
+    if (!response.ok) {
+      setGone(true)
+      return false
+    }
+    const data = await response.json()
+    applyRoom(data.room)
+    return true
+  }, [params.id, applyRoom])
+
+  useEffect(() => {
+    let cancelled = false
+    let source: EventSource | null = null
+    let pollTimer: ReturnType<typeof setInterval> | undefined
+
+    // 不支持 SSE 或连接失败时改为轮询
+    const startPolling = () => {
+      if (pollTimer || cancelled) return
+      pollTimer = setInterval(async () => {
+        try {
+          if (!(await loadRoom())) clearInterval(pollTimer)
+        } catch (error) {
+          console.error("Error polling group room:", error)
+        }
+      }, GROUP_EVENTS_POLL_MS * 2)
+    }
+
+    const connect = async () => {
+      try {
+        const loaded = await loadRoom()
+        if (cancelled || !loaded) return
+
+        if (typeof EventSource === "undefined") {
+          startPolling()
+          return
+        }
+        source = new EventSource(`/api/groups/${params.id}/events`, { withCredentials: true })
+        source.addEventListener("room", (event) => {
+          const next = JSON.parse((event as MessageEvent).data) as GroupRoom
+          applyRoom(next)
+          if (!isRoomOpen(next)) source?.close()
+        })
+        source.addEventListener("gone", () => {
+          source?.close()
+          setGone(true)
+        })
+        source.onerror = () => {
+          // 服务器主动结束连接时浏览器会自动重连；连接被拒绝时才回退到轮询
+          if (source?.readyState === EventSource.CLOSED) startPolling()
+        }
+      } catch (error) {
+        console.error("Error loading group room:", error)
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    connect()
+    return () => {
+      cancelled = true
+      source?.close()
+      clearInterval(pollTimer)
+    }
+  }, [params.id, loadRoom, applyRoom])
+
+  const runAction = async (path: string, method: "POST" | "DELETE" = "POST") => {
+    setBusy(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/groups/${params.id}${path}`, {
+        method,
+        headers: getTimezoneHeaders(),
+        credentials: "include",
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(errorMessages[data.code] || data.error)
+        return null
+      }
+      applyRoom(data.room)
+      return data.room as GroupRoom
+    } catch (error) {
+      console.error("Error updating group room:", error)
+      setError("网络错误，请稍后重试")
+      return null
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const leaveRoom = async () => {
+    if (await runAction("", "DELETE")) {
+      router.push("/group")
+    }
+  }
+
+  const shareUrl = room && typeof window !== "undefined" ? `${window.location.origin}/group/join/${room.code}` : ""
+
+  const copyShareUrl = async () => {
+    try {
+      await navigator.clipboard.writeText(shareUrl)
+      setCopied(true)
+    } catch (error) {
+      console.error("Error copying share url:", error)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[#F7F9FC] flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  const me = room?.members.find((member) => member.userId === userId)
+  const isHost = Boolean(room && room.hostId === userId)
+  const open = Boolean(room && isRoomOpen(room))
+  const vetoesLeft = room && me ? room.vetoesPerMember - getVetoesUsed(room, me.userId) : 0
+  const pickedBy = room?.current && room.members.find((member) => member.userId === room.current?.pickedBy)
+
+  return (
+    <div className="min-h-screen bg-[#F7F9FC] p-4">
+      <div className="max-w-md mx-auto">
+        {/* Header */}
+        <div className="flex items-center mb-8 pt-8">
+          <Link href="/group">
+            <Button variant="ghost" size="sm" className="mr-4">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-800">一起摇</h1>
+        </div>
+
+        {requiresLogin ? (
+          <Card className="p-6 text-center">
+            <p className="text-gray-600 mb-4">登录后即可加入房间</p>
+            <Link href="/login">
+              <Button className="bg-[#FF6B6B] hover:bg-[#FF5252]">去登录</Button>
+            </Link>
+          </Card>
+        ) : gone || !room ? (
+          <Card className="p-6 text-center text-gray-600">房间不存在，或你已不在这个房间中</Card>
+        ) : (
+          <div className="space-y-6">
+            {/* Invite */}
+            {open && (
+              <Card className="p-4 space-y-2">
+                <div className="flex items-center justify-between">
+                  <h2 className="font-semibold text-gray-800">邀请码</h2>
+                  <span className="text-xl font-mono tracking-widest text-[#FF6B6B]">{room.code}</span>
+                </div>
+                <div className="flex gap-2">
+                  <Input readOnly value={shareUrl} onFocus={(e) => e.target.select()} />
+                  <Button variant="outline" size="icon" onClick={copyShareUrl} aria-label="复制链接">
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                {copied && <p className="text-xs text-gray-500">已复制，发给朋友即可加入</p>}
+              </Card>
+            )}
+
+            {/* Current pick */}
+            <Card className="p-6 text-center space-y-3">
+              {room.current ? (
+                <>
+                  <h2 className="text-2xl font-bold text-gray-800">{room.current.recommendation.title}</h2>
+                  {room.current.recommendation.description && (
+                    <p className="text-gray-600">{room.current.recommendation.description}</p>
+                  )}
+                  {room.current.recommendation.price && (
+                    <p className="text-sm text-gray-500">{room.current.recommendation.price}</p>
+                  )}
+                  {room.current.recommendation.reason && (
+                    <p className="text-xs text-gray-400">{room.current.recommendation.reason}</p>
+                  )}
+                  {pickedBy && <p className="text-xs text-gray-400">由 {pickedBy.name} 摇出</p>}
+                </>
+              ) : (
+                <p className="text-gray-600">{isHost ? "人到齐后点击「摇一摇」" : "等待房主摇一摇"}</p>
+              )}
+
+              {open && (
+                <div className="flex gap-2 justify-center pt-2">
+                  {isHost && (
+                    <Button className="bg-[#FF6B6B] hover:bg-[#FF5252]" disabled={busy} onClick={() => runAction("/shake")}>
+                      <Shuffle className="h-4 w-4 mr-1" />
+                      {room.current ? "重新摇" : "摇一摇"}
+                    </Button>
+                  )}
+                  {room.current && (
+                    <Button variant="outline" disabled={busy || vetoesLeft <= 0} onClick={() => runAction("/veto")}>
+                      <ThumbsDown className="h-4 w-4 mr-1" />
+                      否决（剩 {vetoesLeft} 次）
+                    </Button>
+                  )}
+                </div>
+              )}
+              {!open && <p className="text-sm text-gray-500">房间已关闭</p>}
+              {error && <p className="text-sm text-red-600">{error}</p>}
+            </Card>
+
+            {/* Members */}
+            <section>
+              <h2 className="text-lg font-semibold text-gray-800 mb-4">成员（{room.members.length}）</h2>
+              <div className="space-y-2">
+                {room.members.map((member) => (
+                  <Card key={member.userId} className="p-3 flex items-center gap-2">
+                    <span className="flex-1 text-gray-800 truncate">
+                      {member.name}
+                      {member.userId === userId && <span className="text-gray-400">（我）</span>}
+                    </span>
+                    {member.userId === room.hostId && <Crown className="h-4 w-4 text-yellow-500" />}
+                    <span className="text-xs text-gray-500">
+                      否决 {getVetoesUsed(room, member.userId)}/{room.vetoesPerMember}
+                    </span>
+                  </Card>
+                ))}
+              </div>
+            </section>
+
+            {open && (
+              <Button variant="ghost" className="w-full text-gray-500" disabled={busy} onClick={leaveRoom}>
+                {isHost ? "关闭房间" : "离开房间"}
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
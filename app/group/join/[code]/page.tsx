@@ -0,0 +1,71 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+
+export default function JoinGroupPage({ params }: { params: { code: string } }) {
+  const router = useRouter()
+  const [error, setError] = useState<string | null>(null)
+  const [requiresLogin, setRequiresLogin] = useState(false)
+
+  useEffect(() => {
+    const joinRoom = async () => {
+      try {
+        const response = await fetch("/api/groups/join", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify({ code: params.code }),
+        })
+        if (response.status === 401) {
+          setRequiresLogin(true)
+          return
+        }
+        const data = await response.json()
+        if (!response.ok) {
+          setError(data.code === "ROOM_FULL" ? "房间人数已满" : "房间不存在或已关闭")
+          return
+        }
+        router.replace(`/group/${data.room.id}`)
+      } catch (error) {
+        console.error("Error joining group room:", error)
+        setError("网络错误，请稍后重试")
+      }
+    }
+
+    joinRoom()
+  }, [params.code, router])
+
+  if (!requiresLogin && !error) {
+    return (
+      <div className="min-h-screen bg-[#F7F9FC] flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-[#F7F9FC] p-4 flex items-center justify-center">
+      <Card className="p-6 text-center max-w-sm w-full">
+        {requiresLogin ? (
+          <>
+            <p className="text-gray-600 mb-4">登录后即可加入好友的房间</p>
+            <Link href="/login">
+              <Button className="bg-[#FF6B6B] hover:bg-[#FF5252]">去登录</Button>
+            </Link>
+          </>
+        ) : (
+          <>
+            <p className="text-gray-600 mb-4">{error}</p>
+            <Link href="/group">
+              <Button variant="outline">返回</Button>
+            </Link>
+          </>
+        )}
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,149 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { ArrowLeft, Users } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { CATALOG_CATEGORIES, type CatalogCategory } from "@/lib/catalog/types"
+import { DEFAULT_GROUP_VETOES, GROUP_CODE_LENGTH, MAX_GROUP_VETOES } from "@/lib/group/types"
+
+const categoryLabels: Record<CatalogCategory, string> = {
+  entertainment: "娱乐",
+  shopping: "购物",
+  food: "吃饭",
+  travel: "出行",
+  fitness: "健身",
+}
+
+const vetoOptions = Array.from({ length: MAX_GROUP_VETOES + 1 }, (_, index) => index)
+
+export default function GroupPage() {
+  const router = useRouter()
+  const [category, setCategory] = useState<CatalogCategory>("food")
+  const [vetoes, setVetoes] = useState(DEFAULT_GROUP_VETOES)
+  const [code, setCode] = useState("")
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const submit = async (url: string, body: unknown) => {
+    setSubmitting(true)
+    setError(null)
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(body),
+      })
+      if (response.status === 401) {
+        router.push("/login")
+        return
+      }
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.code === "ROOM_NOT_FOUND" ? "没有找到这个房间，请检查邀请码" : data.error)
+        return
+      }
+      router.push(`/group/${data.room.id}`)
+    } catch (error) {
+      console.error("Error entering group room:", error)
+      setError("网络错误，请稍后重试")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-[#F7F9FC] p-4">
+      <div className="max-w-md mx-auto">
+        {/* Header */}
+        <div className="flex items-center mb-8 pt-8">
+          <Link href="/">
+            <Button variant="ghost" size="sm" className="mr-4">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-800">一起摇</h1>
+        </div>
+
+        <div className="space-y-6">
+          <Card className="p-4 space-y-4">
+            <div className="flex items-center gap-2">
+              <Users className="h-5 w-5 text-[#4ECDC4]" />
+              <h2 className="font-semibold text-gray-800">新建房间</h2>
+            </div>
+            <p className="text-sm text-gray-600">
+              把邀请码或链接发给朋友，所有人的偏好和饮食禁忌会合并在一起，摇出一个大家都能接受的结果
+            </p>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>分类</Label>
+                <Select value={category} onValueChange={(value) => setCategory(value as CatalogCategory)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CATALOG_CATEGORIES.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {categoryLabels[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>每人否决次数</Label>
+                <Select value={String(vetoes)} onValueChange={(value) => setVetoes(Number(value))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {vetoOptions.map((value) => (
+                      <SelectItem key={value} value={String(value)}>
+                        {value} 次
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <Button
+              className="w-full bg-[#FF6B6B] hover:bg-[#FF5252]"
+              disabled={submitting}
+              onClick={() => submit("/api/groups", { category, vetoesPerMember: vetoes })}
+            >
+              新建房间
+            </Button>
+          </Card>
+
+          <Card className="p-4 space-y-4">
+            <h2 className="font-semibold text-gray-800">加入房间</h2>
+            <div className="flex gap-2">
+              <Input
+                value={code}
+                maxLength={GROUP_CODE_LENGTH}
+                placeholder="输入邀请码"
+                className="uppercase tracking-widest"
+                onChange={(e) => setCode(e.target.value.toUpperCase())}
+              />
+              <Button
+                variant="outline"
+                disabled={submitting || code.trim().length !== GROUP_CODE_LENGTH}
+                onClick={() => submit("/api/groups/join", { code })}
+              >
+                加入
+              </Button>
+            </div>
+          </Card>
+
+          {error && <p className="text-sm text-red-600 text-center">{error}</p>}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,347 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { ArrowDown, ArrowLeft, ArrowUp, CalendarPlus, Printer, Trash2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  ITINERARY_LENGTHS,
+  ITINERARY_LENGTH_LABELS,
+  MAX_ITINERARY_DAYS,
+  MIN_ITINERARY_DAYS,
+  type Itinerary,
+  type ItineraryLength,
+  type ItinerarySchedule,
+} from "@/lib/itinerary/types"
+
+const dayOptions = Array.from(
+  { length: MAX_ITINERARY_DAYS - MIN_ITINERARY_DAYS + 1 },
+  (_, index) => index + MIN_ITINERARY_DAYS,
+)
+
+export default function ItineraryPage({ params }: { params: { id: string } }) {
+  const router = useRouter()
+  const [itinerary, setItinerary] = useState<Itinerary | null>(null)
+  const [schedule, setSchedule] = useState<ItinerarySchedule | null>(null)
+  const [settings, setSettings] = useState({
+    title: "",
+    length: "full-day" as ItineraryLength,
+    days: MIN_ITINERARY_DAYS,
+    startDate: "",
+    startTime: "09:00",
+  })
+  const [loading, setLoading] = useState(true)
+  const [notFound, setNotFound] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const applyResponse = (data: { itinerary: Itinerary; schedule: ItinerarySchedule }) => {
+    setItinerary(data.itinerary)
+    setSchedule(data.schedule)
+    setSettings({
+      title: data.itinerary.title,
+      length: data.itinerary.length,
+      days: Math.max(data.itinerary.days, MIN_ITINERARY_DAYS),
+      startDate: data.itinerary.startDate,
+      startTime: data.itinerary.startTime,
+    })
+  }
+
+  useEffect(() => {
+    const loadItinerary = async () => {
+      try {
+        const response = await fetch(`/api/itineraries/${params.id}`, { credentials: "include" })
+        if (response.status === 401) {
+          router.push("/login")
+          return
+        }
+        if (response.status === 404) {
+          setNotFound(true)
+          return
+        }
+        if (response.ok) {
+          applyResponse(await response.json())
+        }
+      } catch (error) {
+        console.error("Error loading itinerary:", error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadItinerary()
+  }, [params.id, router])
+
+  const updateItinerary = async (changes: Record<string, unknown>) => {
+    setError(null)
+    try {
+      const response = await fetch(`/api/itineraries/${params.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(changes),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || "保存失败")
+        return
+      }
+      applyResponse(data)
+    } catch (error) {
+      console.error("Error updating itinerary:", error)
+    }
+  }
+
+  const saveSettings = () =>
+    updateItinerary({
+      ...settings,
+      days: settings.length === "multi-day" ? settings.days : undefined,
+    })
+
+  const moveStop = (index: number, offset: number) => {
+    if (!itinerary) return
+    const itemIds = itinerary.stops.map((stop) => stop.itemId)
+    const target = index + offset
+    if (target < 0 || target >= itemIds.length) return
+    const [moved] = itemIds.splice(index, 1)
+    itemIds.splice(target, 0, moved)
+    updateItinerary({ itemIds })
+  }
+
+  const removeStop = (itemId: string) => {
+    if (!itinerary) return
+    updateItinerary({ itemIds: itinerary.stops.map((stop) => stop.itemId).filter((id) => id !== itemId) })
+  }
+
+  const deleteItinerary = async () => {
+    try {
+      const response = await fetch(`/api/itineraries/${params.id}`, {
+        method: "DELETE",
+        credentials: "include",
+      })
+      if (response.ok || response.status === 404) {
+        router.push("/itineraries")
+      }
+    } catch (error) {
+      console.error("Error deleting itinerary:", error)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[#F7F9FC] flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-[#F7F9FC] p-4">
+      <div className="max-w-md mx-auto">
+        {/* Header */}
+        <div className="flex items-center mb-8 pt-8">
+          <Link href="/itineraries">
+            <Button variant="ghost" size="sm" className="mr-4">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-800 truncate">{itinerary?.title ?? "行程"}</h1>
+        </div>
+
+        {notFound || !itinerary || !schedule ? (
+          <Card className="p-6 text-center text-gray-600">行程不存在或已删除</Card>
+        ) : (
+          <div className="space-y-8">
+            {/* Settings */}
+            <Card className="p-4 space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="title">行程名称</Label>
+                <Input
+                  id="title"
+                  value={settings.title}
+                  onChange={(e) => setSettings((current) => ({ ...current, title: e.target.value }))}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>行程长度</Label>
+                <RadioGroup
+                  className="flex gap-4"
+                  value={settings.length}
+                  onValueChange={(value) =>
+                    setSettings((current) => ({ ...current, length: value as ItineraryLength }))
+                  }
+                >
+                  {ITINERARY_LENGTHS.map((length) => (
+                    <label key={length} className="flex items-center gap-2 text-sm">
+                      <RadioGroupItem value={length} />
+                      {ITINERARY_LENGTH_LABELS[length]}
+                    </label>
+                  ))}
+                </RadioGroup>
+              </div>
+
+              <div className="flex gap-2">
+                <div className="space-y-2 flex-1">
+                  <Label htmlFor="startDate">出发日期</Label>
+                  <Input
+                    id="startDate"
+                    type="date"
+                    value={settings.startDate}
+                    onChange={(e) => setSettings((current) => ({ ...current, startDate: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2 w-28">
+                  <Label htmlFor="startTime">出发时间</Label>
+                  <Input
+                    id="startTime"
+                    type="time"
+                    value={settings.startTime}
+                    onChange={(e) => setSettings((current) => ({ ...current, startTime: e.target.value }))}
+                  />
+                </div>
+                {settings.length === "multi-day" && (
+                  <div className="space-y-2">
+                    <Label>天数</Label>
+                    <Select
+                      value={String(settings.days)}
+                      onValueChange={(value) => setSettings((current) => ({ ...current, days: Number(value) }))}
+                    >
+                      <SelectTrigger className="w-20">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {dayOptions.map((days) => (
+                          <SelectItem key={days} value={String(days)}>
+                            {days} 天
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+
+              {error && <p className="text-sm text-red-500">{error}</p>}
+
+              <Button variant="outline" className="w-full" onClick={saveSettings}>
+                保存设置
+              </Button>
+            </Card>
+
+            {/* Stops */}
+            <section>
+              <h2 className="text-lg font-semibold text-gray-800 mb-4">地点顺序</h2>
+              {itinerary.stops.length === 0 ? (
+                <Card className="p-6 text-center text-gray-600">
+                  还没有地点，在
+                  <Link href="/category/travel" className="underline mx-1">
+                    随机出行
+                  </Link>
+                  中点击「加入行程」
+                </Card>
+              ) : (
+                <div className="space-y-2">
+                  {itinerary.stops.map((stop, index) => (
+                    <Card key={stop.itemId} className="p-3">
+                      <div className="flex items-center gap-2">
+                        <span className="w-6 text-center text-sm text-gray-400">{index + 1}</span>
+                        <div className="flex-1 min-w-0">
+                          <h4 className="font-medium text-gray-800 truncate">{stop.title}</h4>
+                          <p className="text-xs text-gray-500">{stop.duration ?? `${stop.durationMinutes} 分钟`}</p>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          disabled={index === 0}
+                          onClick={() => moveStop(index, -1)}
+                          aria-label="上移"
+                        >
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          disabled={index === itinerary.stops.length - 1}
+                          onClick={() => moveStop(index, 1)}
+                          aria-label="下移"
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => removeStop(stop.itemId)} aria-label="移除">
+                          <X className="h-4 w-4 text-gray-400" />
+                        </Button>
+                      </div>
+                    </Card>
+                  ))}
+                </div>
+              )}
+            </section>
+
+            {/* Schedule */}
+            {itinerary.stops.length > 0 && (
+              <section>
+                <h2 className="text-lg font-semibold text-gray-800 mb-4">时间安排</h2>
+                <div className="space-y-4">
+                  {schedule.days.map((day) => (
+                    <Card key={day.day} className="p-4">
+                      <p className="text-xs text-gray-500 mb-2">
+                        第 {day.day} 天 · {day.date}
+                      </p>
+                      {day.stops.length === 0 ? (
+                        <p className="text-sm text-gray-400">自由活动</p>
+                      ) : (
+                        <ul className="space-y-2">
+                          {day.stops.map((stop) => (
+                            <li key={stop.itemId} className="flex gap-3 text-sm">
+                              <span className="w-24 shrink-0 text-gray-500">
+                                {stop.start}–{stop.end}
+                              </span>
+                              <span className="text-gray-800">{stop.title}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </Card>
+                  ))}
+                  {schedule.unscheduled.length > 0 && (
+                    <p className="text-sm text-[#FF6B6B]">
+                      时间不够，未能安排：{schedule.unscheduled.map((stop) => stop.title).join("、")}
+                      。可以延长行程或调整顺序
+                    </p>
+                  )}
+                </div>
+              </section>
+            )}
+
+            {/* Export */}
+            <div className="flex gap-2">
+              <a href={`/api/itineraries/${itinerary.id}/ics`} className="flex-1">
+                <Button variant="outline" className="w-full">
+                  <CalendarPlus className="h-4 w-4 mr-1" />
+                  导出日历
+                </Button>
+              </a>
+              <Link href={`/itineraries/${itinerary.id}/print`} className="flex-1">
+                <Button variant="outline" className="w-full">
+                  <Printer className="h-4 w-4 mr-1" />
+                  打印
+                </Button>
+              </Link>
+            </div>
+
+            <Button variant="ghost" className="w-full text-gray-500" onClick={deleteItinerary}>
+              <Trash2 className="h-4 w-4 mr-1" />
+              删除行程
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
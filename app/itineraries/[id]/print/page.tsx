@@ -0,0 +1,119 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { ArrowLeft, Printer } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  ITINERARY_LENGTH_LABELS,
+  type Itinerary,
+  type ItinerarySchedule,
+} from "@/lib/itinerary/types"
+
+export default function ItineraryPrintPage({ params }: { params: { id: string } }) {
+  const [itinerary, setItinerary] = useState<Itinerary | null>(null)
+  const [schedule, setSchedule] = useState<ItinerarySchedule | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const loadItinerary = async () => {
+      try {
+        const response = await fetch(`/api/itineraries/${params.id}`, { credentials: "include" })
+        if (response.ok) {
+          const data = await response.json()
+          setItinerary(data.itinerary)
+          setSchedule(data.schedule)
+        }
+      } catch (error) {
+        console.error("Error loading itinerary:", error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadItinerary()
+  }, [params.id])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!itinerary || !schedule) {
+    return <div className="p-8 text-center text-gray-600">行程不存在或已删除</div>
+  }
+
+  return (
+    <div className="min-h-screen bg-white p-8 text-gray-900">
+      <div className="max-w-2xl mx-auto">
+        {/* Toolbar (not printed) */}
+        <div className="flex items-center justify-between mb-8 print:hidden">
+          <Link href={`/itineraries/${itinerary.id}`}>
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              返回编辑
+            </Button>
+          </Link>
+          <Button variant="outline" size="sm" onClick={() => window.print()}>
+            <Printer className="h-4 w-4 mr-1" />
+            打印
+          </Button>
+        </div>
+
+        <header className="mb-8 border-b pb-4">
+          <h1 className="text-3xl font-bold">{itinerary.title}</h1>
+          <p className="text-sm text-gray-600 mt-1">
+            {itinerary.length === "multi-day" ? `${itinerary.days} 日游` : ITINERARY_LENGTH_LABELS[itinerary.length]}
+            {" · "}
+            {schedule.days[0].date}
+            {schedule.days.length > 1 && ` 至 ${schedule.days[schedule.days.length - 1].date}`}
+          </p>
+        </header>
+
+        {schedule.days.map((day) => (
+          <section key={day.day} className="mb-8 break-inside-avoid">
+            <h2 className="text-lg font-semibold mb-3">
+              第 {day.day} 天 · {day.date}
+            </h2>
+            {day.stops.length === 0 ? (
+              <p className="text-sm text-gray-500">自由活动</p>
+            ) : (
+              <table className="w-full text-sm">
+                <tbody>
+                  {day.stops.map((stop) => (
+                    <tr key={stop.itemId} className="border-b align-top">
+                      <td className="py-2 pr-4 w-32 whitespace-nowrap text-gray-600">
+                        {stop.start}–{stop.end}
+                      </td>
+                      <td className="py-2">
+                        <p className="font-medium">{stop.title}</p>
+                        {stop.description && <p className="text-gray-600">{stop.description}</p>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+        ))}
+
+        {schedule.unscheduled.length > 0 && (
+          <section className="break-inside-avoid">
+            <h2 className="text-lg font-semibold mb-3">备选地点</h2>
+            <ul className="list-disc pl-5 text-sm text-gray-600">
+              {schedule.unscheduled.map((stop) => (
+                <li key={stop.itemId}>
+                  {stop.title}
+                  {stop.duration && `（${stop.duration}）`}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+    </div>
+  )
+}
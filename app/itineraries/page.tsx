@@ -0,0 +1,130 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { ArrowLeft, MapPinned, Plus } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { ITINERARY_LENGTH_LABELS, type Itinerary } from "@/lib/itinerary/types"
+
+const getTimezoneHeaders = () => ({
+  "X-Timezone-Offset": String(new Date().getTimezoneOffset()),
+})
+
+export default function ItinerariesPage() {
+  const router = useRouter()
+  const [itineraries, setItineraries] = useState<Itinerary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [requiresLogin, setRequiresLogin] = useState(false)
+
+  useEffect(() => {
+    const loadItineraries = async () => {
+      try {
+        const response = await fetch("/api/itineraries", { credentials: "include" })
+        if (response.status === 401) {
+          setRequiresLogin(true)
+          return
+        }
+        if (response.ok) {
+          const data = await response.json()
+          setItineraries(data.itineraries)
+        }
+      } catch (error) {
+        console.error("Error loading itineraries:", error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadItineraries()
+  }, [])
+
+  const createItinerary = async () => {
+    try {
+      const response = await fetch("/api/itineraries", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...getTimezoneHeaders(),
+        },
+        credentials: "include",
+        body: JSON.stringify({}),
+      })
+      if (response.ok) {
+        const data = await response.json()
+        router.push(`/itineraries/${data.itinerary.id}`)
+      }
+    } catch (error) {
+      console.error("Error creating itinerary:", error)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[#F7F9FC] flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-[#F7F9FC] p-4">
+      <div className="max-w-md mx-auto">
+        {/* Header */}
+        <div className="flex items-center mb-8 pt-8">
+          <Link href="/">
+            <Button variant="ghost" size="sm" className="mr-4">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-800">我的行程</h1>
+        </div>
+
+        {requiresLogin ? (
+          <Card className="p-6 text-center">
+            <p className="text-gray-600 mb-4">登录后即可规划行程</p>
+            <Link href="/login">
+              <Button className="bg-[#FF6B6B] hover:bg-[#FF5252]">去登录</Button>
+            </Link>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            <Button variant="outline" className="w-full" onClick={createItinerary}>
+              <Plus className="h-4 w-4 mr-1" />
+              新建行程
+            </Button>
+
+            {itineraries.length === 0 ? (
+              <Card className="p-6 text-center text-gray-600">
+                还没有行程，在随机出行中点击「加入行程」即可开始规划
+              </Card>
+            ) : (
+              itineraries.map((itinerary) => (
+                <Link key={itinerary.id} href={`/itineraries/${itinerary.id}`} className="block">
+                  <Card className="p-4 hover:shadow-md transition-shadow">
+                    <div className="flex items-center space-x-3">
+                      <MapPinned className="h-5 w-5 text-[#4ECDC4]" />
+                      <div className="flex-1 min-w-0">
+                        <h4 className="font-medium text-gray-800 truncate">{itinerary.title}</h4>
+                        <p className="text-sm text-gray-600">
+                          {itinerary.startDate} · {itinerary.stops.length} 个地点
+                        </p>
+                      </div>
+                      <Badge variant="secondary">
+                        {itinerary.length === "multi-day"
+                          ? `${itinerary.days} 日游`
+                          : ITINERARY_LENGTH_LABELS[itinerary.length]}
+                      </Badge>
+                    </div>
+                  </Card>
+                </Link>
+              ))
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
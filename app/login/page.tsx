@@ -6,6 +6,7 @@ import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
 import { auth } from '@/lib/auth/client'
 import { isChinaDeployment } from '@/lib/config/deployment'
+import { syncLocalHistory } from '@/lib/history/client'
 
 export default function LoginPage() {
   const router = useRouter()
@@ -34,10 +35,8 @@ export default function LoginPage() {
       if (response.data.user) {
         console.log('✅ 登录成功，用户:', response.data.user)
 
-        // 保存 token 到 cookie（如果存在）
-        if (response.data.session?.access_token) {
-          document.cookie = `auth-token=${response.data.session.access_token}; path=/; max-age=604800`
-        }
+        // 将未登录时的本地历史合并到账户
+        await syncLocalHistory(response.data.user.id)
 
         router.push('/')
         router.refresh()
@@ -0,0 +1,241 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { ArrowLeft, Dumbbell, Trash2, UtensilsCrossed } from "lucide-react"
+import { Bar, BarChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from "recharts"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart"
+import type { DailyNutrition, NutritionEntry } from "@/lib/nutrition/types"
+import { MAX_DAILY_CALORIE_TARGET, MIN_DAILY_CALORIE_TARGET } from "@/lib/preferences/types"
+
+const chartConfig = {
+  intake: { label: "摄入", color: "#FF6B6B" },
+  burned: { label: "消耗", color: "#4ECDC4" },
+} satisfies ChartConfig
+
+const weekdayLabels = ["日", "一", "二", "三", "四", "五", "六"]
+
+// Dates are the user's local dates, so read them back as UTC to keep the weekday
+const formatDay = (date: string) => `周${weekdayLabels[new Date(`${date}T00:00:00Z`).getUTCDay()]}`
+
+const getTimezoneHeaders = () => ({
+  "X-Timezone-Offset": String(new Date().getTimezoneOffset()),
+})
+
+export default function NutritionPage() {
+  const [today, setToday] = useState<DailyNutrition | null>(null)
+  const [entries, setEntries] = useState<NutritionEntry[]>([])
+  const [week, setWeek] = useState<DailyNutrition[]>([])
+  const [target, setTarget] = useState("")
+  const [targetMessage, setTargetMessage] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [requiresLogin, setRequiresLogin] = useState(false)
+
+  const loadNutrition = async () => {
+    try {
+      const response = await fetch("/api/nutrition", {
+        headers: getTimezoneHeaders(),
+        credentials: "include",
+      })
+      if (response.status === 401) {
+        setRequiresLogin(true)
+        return
+      }
+      if (response.ok) {
+        const data = await response.json()
+        setToday(data.today)
+        setEntries(data.entries)
+        setWeek(data.week)
+        setTarget(data.today.target?.toString() ?? "")
+      }
+    } catch (error) {
+      console.error("Error loading nutrition:", error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadNutrition()
+  }, [])
+
+  const saveTarget = async () => {
+    setTargetMessage(null)
+    try {
+      const response = await fetch("/api/nutrition", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ dailyCalorieTarget: target ? Number(target) : null }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setTargetMessage(data.error || "保存失败")
+        return
+      }
+      setTargetMessage(data.dailyCalorieTarget ? "已保存，食物推荐会优先考虑剩余额度" : "已清除每日目标")
+      await loadNutrition()
+    } catch (error) {
+      console.error("Error saving calorie target:", error)
+    }
+  }
+
+  const removeEntry = async (entry: NutritionEntry) => {
+    try {
+      const response = await fetch(`/api/nutrition/${entry.id}`, {
+        method: "DELETE",
+        credentials: "include",
+      })
+      if (response.ok || response.status === 404) {
+        await loadNutrition()
+      }
+    } catch (error) {
+      console.error("Error removing nutrition entry:", error)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[#F7F9FC] flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-[#F7F9FC] p-4">
+      <div className="max-w-md mx-auto">
+        {/* Header */}
+        <div className="flex items-center mb-8 pt-8">
+          <Link href="/">
+            <Button variant="ghost" size="sm" className="mr-4">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-800">热量记录</h1>
+        </div>
+
+        {requiresLogin ? (
+          <Card className="p-6 text-center">
+            <p className="text-gray-600 mb-4">登录后即可记录每天的热量</p>
+            <Link href="/login">
+              <Button className="bg-[#FF6B6B] hover:bg-[#FF5252]">去登录</Button>
+            </Link>
+          </Card>
+        ) : (
+          <div className="space-y-8">
+            {/* Today */}
+            {today && (
+              <Card className="p-4">
+                <p className="text-xs text-gray-500 mb-3">今天 · {today.date}</p>
+                <div className="grid grid-cols-3 gap-2 text-center">
+                  <div>
+                    <p className="text-xs text-gray-500">摄入</p>
+                    <p className="font-semibold">{today.intake} 千卡</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-500">消耗</p>
+                    <p className="font-semibold">{today.burned} 千卡</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-500">剩余额度</p>
+                    <p className={`font-semibold ${today.remaining !== undefined && today.remaining < 0 ? "text-[#FF6B6B]" : ""}`}>
+                      {today.remaining !== undefined ? `${today.remaining} 千卡` : "-"}
+                    </p>
+                  </div>
+                </div>
+              </Card>
+            )}
+
+            {/* Daily target */}
+            <section className="space-y-3">
+              <Label htmlFor="dailyCalorieTarget">每日热量目标（千卡）</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  id="dailyCalorieTarget"
+                  type="number"
+                  min={MIN_DAILY_CALORIE_TARGET}
+                  max={MAX_DAILY_CALORIE_TARGET}
+                  step={50}
+                  placeholder="例如：2000"
+                  value={target}
+                  onChange={(event) => setTarget(event.target.value)}
+                />
+                <Button variant="outline" onClick={saveTarget}>
+                  保存
+                </Button>
+              </div>
+              {targetMessage && <p className="text-sm text-gray-500">{targetMessage}</p>}
+            </section>
+
+            {/* Weekly chart */}
+            <section>
+              <h2 className="text-lg font-semibold text-gray-800 mb-4">最近 7 天</h2>
+              <Card className="p-4">
+                <ChartContainer config={chartConfig} className="aspect-auto h-56 w-full">
+                  <BarChart data={week.map((day) => ({ ...day, label: formatDay(day.date) }))}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                    <YAxis tickLine={false} axisLine={false} width={40} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar dataKey="intake" fill="var(--color-intake)" radius={4} />
+                    <Bar dataKey="burned" fill="var(--color-burned)" radius={4} />
+                    {today?.target !== undefined && (
+                      <ReferenceLine y={today.target} stroke="#9CA3AF" strokeDasharray="4 4" />
+                    )}
+                  </BarChart>
+                </ChartContainer>
+              </Card>
+            </section>
+
+            {/* Today's entries */}
+            <section>
+              <h2 className="text-lg font-semibold text-gray-800 mb-4">今天的记录</h2>
+              {entries.length === 0 ? (
+                <Card className="p-6 text-center text-gray-600">
+                  还没有记录，在随机美食中点击「就吃这个」或在随机健身中点击「去运动」即可记录
+                </Card>
+              ) : (
+                <div className="space-y-3">
+                  {entries.map((entry) => (
+                    <Card key={entry.id} className="p-4">
+                      <div className="flex items-center space-x-3">
+                        {entry.kind === "intake" ? (
+                          <UtensilsCrossed className="h-5 w-5 text-[#FF6B6B]" />
+                        ) : (
+                          <Dumbbell className="h-5 w-5 text-[#4ECDC4]" />
+                        )}
+                        <div className="flex-1 min-w-0">
+                          <h4 className="font-medium text-gray-800 truncate">{entry.title}</h4>
+                          <p className="text-sm text-gray-600">
+                            {entry.kind === "intake" ? "+" : "-"}
+                            {entry.calories} 千卡
+                          </p>
+                        </div>
+                        <Button variant="ghost" size="icon" onClick={() => removeEntry(entry)} aria-label="删除记录">
+                          <Trash2 className="h-5 w-5 text-gray-400" />
+                        </Button>
+                      </div>
+                    </Card>
+                  ))}
+                </div>
+              )}
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
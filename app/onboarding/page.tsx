@@ -0,0 +1,31 @@
+"use client"
+
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { PreferencesForm } from "@/components/preferences-form"
+
+export default function OnboardingPage() {
+  const router = useRouter()
+
+  return (
+    <div className="min-h-screen bg-[#F7F9FC] p-4">
+      <div className="max-w-md mx-auto pt-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>告诉我们你的喜好</CardTitle>
+            <CardDescription>只需一分钟，推荐会更懂你。之后可以随时在设置中修改。</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <PreferencesForm submitLabel="开始探索" onSaved={() => router.push("/")} />
+            <div className="mt-4 text-center">
+              <Link href="/" className="text-sm text-gray-500 hover:text-gray-700">
+                先跳过
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
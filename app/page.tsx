@@ -5,16 +5,14 @@ import { useEffect, useState } from "react"
 import Link from "next/link"
 import { Card } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
-import { Settings } from "lucide-react"
-import { auth } from "@/lib/auth/client"
+import { Bell, CalendarDays, Dumbbell, Flame, Heart, MapPinned, Settings, Users } from "lucide-react"
+import { useAuth } from "@/hooks/use-auth"
+import type { CatalogCategory } from "@/lib/catalog/types"
+import type { DailyChallenge, GamificationSummary } from "@/lib/gamification/types"
 
-interface User {
-  id: string
-  email?: string
-  name?: string
-  subscriptionTier?: string
-  isPro?: boolean
-}
+const getTimezoneHeaders = () => ({
+  "X-Timezone-Offset": String(new Date().getTimezoneOffset()),
+})
 
 const categories = [
   {
@@ -55,37 +53,97 @@ const categories = [
 ]
 
 export default function HomePage() {
-  const [user, setUser] = useState<User | null>(null)
-  const [loading, setLoading] = useState(true)
+  const { user, loading, signOut } = useAuth()
+  const [unreadAlerts, setUnreadAlerts] = useState(0)
+  const [challenge, setChallenge] = useState<DailyChallenge | null>(null)
+  const [progress, setProgress] = useState<GamificationSummary | null>(null)
+  const [achievementMessage, setAchievementMessage] = useState<string | null>(null)
 
   useEffect(() => {
-    // 获取当前用户信息
-    const getCurrentUser = async () => {
+    if (!user) return
+
+    const loadUnreadAlerts = async () => {
+      try {
+        const response = await fetch("/api/price-alerts?unread=1", { credentials: "include" })
+        if (response.ok) {
+          const data = await response.json()
+          setUnreadAlerts(data.unread)
+        }
+      } catch (error) {
+        console.error("Failed to load price alerts:", error)
+      }
+    }
+
+    loadUnreadAlerts()
+  }, [user])
+
+  useEffect(() => {
+    const loadChallenge = async () => {
       try {
-        const { data } = await auth.getUser()
-        if (data.user) {
-          setUser(data.user as User)
+        const response = await fetch("/api/gamification/challenge", {
+          headers: getTimezoneHeaders(),
+          credentials: "include",
+        })
+        if (response.ok) {
+          const data = await response.json()
+          setChallenge(data.challenge)
         }
       } catch (error) {
-        console.error('Failed to get current user:', error)
-      } finally {
-        setLoading(false)
+        console.error("Failed to load daily challenge:", error)
       }
     }
 
-    getCurrentUser()
+    loadChallenge()
   }, [])
 
-  const handleLogout = async () => {
+  const loadProgress = async () => {
     try {
-      await auth.signOut()
-      setUser(null)
-      window.location.href = '/'
+      const response = await fetch("/api/gamification", {
+        headers: getTimezoneHeaders(),
+        credentials: "include",
+      })
+      if (response.ok) {
+        setProgress(await response.json())
+      }
     } catch (error) {
-      console.error('Logout failed:', error)
+      console.error("Failed to load progress:", error)
     }
   }
 
+  useEffect(() => {
+    if (!user) return
+    loadProgress()
+  }, [user])
+
+  const getStreak = (categoryId: string) => progress?.streaks[categoryId as CatalogCategory] ?? 0
+
+  const completeChallenge = async () => {
+    try {
+      const response = await fetch("/api/gamification/challenge", {
+        method: "POST",
+        headers: getTimezoneHeaders(),
+        credentials: "include",
+      })
+      const data = await response.json()
+      if (response.ok) {
+        const titles = (data.achievements as { id: string }[])
+          .map(({ id }) => progress?.achievements.find((achievement) => achievement.id === id)?.title)
+          .filter(Boolean)
+        setAchievementMessage(titles.length > 0 ? `解锁成就：${titles.join("、")}` : null)
+        await loadProgress()
+      } else if (data.code === "CHALLENGE_NOT_DONE") {
+        setAchievementMessage("今天还没有摇到挑战条目，先去摇一摇吧")
+      }
+    } catch (error) {
+      console.error("Failed to complete challenge:", error)
+    }
+  }
+
+  const handleLogout = async () => {
+    await signOut()
+    window.location.href = '/'
+  }
+
   if (loading) {
     return (
       <div className="min-h-screen bg-[#F7F9FC] flex items-center justify-center">
@@ -112,6 +170,46 @@ export default function HomePage() {
             )}
             {user ? (
               <>
+                <Link href="/price-watches">
+                  <Button variant="ghost" size="icon" className="relative h-8 w-8" aria-label="降价提醒">
+                    <Bell className="h-4 w-4" />
+                    {unreadAlerts > 0 && (
+                      <span className="absolute -top-0.5 -right-0.5 h-4 min-w-4 px-1 rounded-full bg-[#FF6B6B] text-[10px] leading-4 text-white">
+                        {unreadAlerts}
+                      </span>
+                    )}
+                  </Button>
+                </Link>
+                <Link href="/group">
+                  <Button variant="ghost" size="icon" className="h-8 w-8" aria-label="一起摇">
+                    <Users className="h-4 w-4" />
+                  </Button>
+                </Link>
+                <Link href="/itineraries">
+                  <Button variant="ghost" size="icon" className="h-8 w-8" aria-label="我的行程">
+                    <MapPinned className="h-4 w-4" />
+                  </Button>
+                </Link>
+                <Link href="/calendar">
+                  <Button variant="ghost" size="icon" className="h-8 w-8" aria-label="我的日历">
+                    <CalendarDays className="h-4 w-4" />
+                  </Button>
+                </Link>
+                <Link href="/workouts">
+                  <Button variant="ghost" size="icon" className="h-8 w-8" aria-label="训练计划">
+                    <Dumbbell className="h-4 w-4" />
+                  </Button>
+                </Link>
+                <Link href="/nutrition">
+                  <Button variant="ghost" size="icon" className="h-8 w-8" aria-label="热量记录">
+                    <Flame className="h-4 w-4" />
+                  </Button>
+                </Link>
+                <Link href="/favorites">
+                  <Button variant="ghost" size="icon" className="h-8 w-8">
+                    <Heart className="h-4 w-4" />
+                  </Button>
+                </Link>
                 <Link href="/settings">
                   <Button variant="ghost" size="icon" className="h-8 w-8">
                     <Settings className="h-4 w-4" />
@@ -132,6 +230,36 @@ export default function HomePage() {
           <p className="text-gray-600">Choose a category</p>
         </motion.div>
 
+        {/* Daily Challenge */}
+        {challenge && (
+          <Card className="p-4 mb-4 border-0 bg-gradient-to-r from-amber-50 to-orange-50">
+            <div className="flex items-center gap-3">
+              <span className="text-2xl">🎯</span>
+              <div className="flex-1 min-w-0">
+                <p className="text-xs text-gray-500">今日挑战</p>
+                <Link href={`/category/${challenge.category}`} className="font-semibold text-gray-800 hover:underline">
+                  {challenge.prompt}
+                </Link>
+              </div>
+              {user ? (
+                <Button
+                  size="sm"
+                  variant={progress?.challengeCompleted ? "outline" : "default"}
+                  disabled={progress?.challengeCompleted}
+                  onClick={completeChallenge}
+                >
+                  {progress?.challengeCompleted ? "已完成" : "完成"}
+                </Button>
+              ) : (
+                <Link href="/login">
+                  <Button size="sm" variant="outline">登录参加</Button>
+                </Link>
+              )}
+            </div>
+            {achievementMessage && <p className="mt-2 text-sm text-[#FF6B6B]">{achievementMessage}</p>}
+          </Card>
+        )}
+
         {/* Category Cards */}
         <div className="space-y-4">
           {categories.map((category, index) => (
@@ -162,7 +290,14 @@ export default function HomePage() {
                       {category.icon}
                     </motion.div>
                     <div className="flex-1">
-                      <h3 className="text-xl font-semibold text-gray-800 mb-1">{category.title}</h3>
+                      <h3 className="text-xl font-semibold text-gray-800 mb-1">
+                        {category.title}
+                        {getStreak(category.id) > 0 && (
+                          <span className="ml-2 align-middle text-xs font-medium text-orange-500">
+                            🔥 连续 {getStreak(category.id)} 天
+                          </span>
+                        )}
+                      </h3>
                       <p className="text-gray-600 text-sm">{category.subtitle}</p>
                     </div>
                     <div className="text-gray-400">
@@ -181,6 +316,53 @@ export default function HomePage() {
           ))}
         </div>
 
+        {/* Day Plan */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: categories.length * 0.1 }}
+          className="mt-4"
+        >
+          <Link href="/day-plan">
+            <Card className="p-4 cursor-pointer hover:shadow-lg transition-all duration-300 border-dashed text-center">
+              <p className="font-semibold text-gray-800">🗓️ 规划我的一天</p>
+              <p className="text-gray-600 text-sm">Plan My Day</p>
+            </Card>
+          </Link>
+        </motion.div>
+
+        {/* Achievements */}
+        {progress && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: (categories.length + 1) * 0.1 }}
+            className="mt-8"
+          >
+            <h2 className="text-sm font-semibold text-gray-600 mb-3">
+              成就 {progress.achievements.filter((achievement) => achievement.unlockedAt).length}/
+              {progress.achievements.length}
+            </h2>
+            <div className="grid grid-cols-4 gap-3">
+              {progress.achievements.map((achievement) => (
+                <div
+                  key={achievement.id}
+                  className={`text-center ${achievement.unlockedAt ? "" : "opacity-40 grayscale"}`}
+                  title={achievement.description}
+                >
+                  <div className="text-2xl">{achievement.icon}</div>
+                  <p className="text-xs text-gray-700 truncate">{achievement.title}</p>
+                  {!achievement.unlockedAt && (
+                    <p className="text-[10px] text-gray-500">
+                      {achievement.current}/{achievement.target}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </motion.div>
+        )}
+
         {/* Footer */}
         <motion.div
           initial={{ opacity: 0 }}
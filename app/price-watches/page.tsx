@@ -0,0 +1,180 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { ArrowLeft, BellOff, TrendingDown } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { formatPrice, type Price } from "@/lib/catalog/types"
+import type { PriceAlert, PricePoint, PriceWatch } from "@/lib/pricing/types"
+
+interface WatchWithPrice extends PriceWatch {
+  available: boolean
+  currentPrice: Price | null
+  history: PricePoint[]
+}
+
+export default function PriceWatchesPage() {
+  const [watches, setWatches] = useState<WatchWithPrice[]>([])
+  const [alerts, setAlerts] = useState<PriceAlert[]>([])
+  const [loading, setLoading] = useState(true)
+  const [requiresLogin, setRequiresLogin] = useState(false)
+
+  useEffect(() => {
+    const loadWatches = async () => {
+      try {
+        const [watchesResponse, alertsResponse] = await Promise.all([
+          fetch("/api/price-watches", { credentials: "include" }),
+          fetch("/api/price-alerts", { credentials: "include" }),
+        ])
+        if (watchesResponse.status === 401) {
+          setRequiresLogin(true)
+          return
+        }
+        if (watchesResponse.ok) {
+          const data = await watchesResponse.json()
+          setWatches(data.watches)
+        }
+        if (alertsResponse.ok) {
+          const data = await alertsResponse.json()
+          setAlerts(data.alerts)
+          // Opening this page counts as reading the alerts
+          if (data.unread > 0) {
+            await fetch("/api/price-alerts", { method: "PATCH", credentials: "include" })
+          }
+        }
+      } catch (error) {
+        console.error("Error loading price watches:", error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadWatches()
+  }, [])
+
+  const removeWatch = async (watch: WatchWithPrice) => {
+    try {
+      const response = await fetch(`/api/price-watches/${watch.id}`, {
+        method: "DELETE",
+        credentials: "include",
+      })
+      if (response.ok || response.status === 404) {
+        setWatches((current) => current.filter((entry) => entry.id !== watch.id))
+      }
+    } catch (error) {
+      console.error("Error removing price watch:", error)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[#F7F9FC] flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-[#F7F9FC] p-4">
+      <div className="max-w-md mx-auto">
+        {/* Header */}
+        <div className="flex items-center mb-8 pt-8">
+          <Link href="/">
+            <Button variant="ghost" size="sm" className="mr-4">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-800">降价提醒</h1>
+        </div>
+
+        {requiresLogin ? (
+          <Card className="p-6 text-center">
+            <p className="text-gray-600 mb-4">登录后即可关注商品降价</p>
+            <Link href="/login">
+              <Button className="bg-[#FF6B6B] hover:bg-[#FF5252]">去登录</Button>
+            </Link>
+          </Card>
+        ) : (
+          <div className="space-y-8">
+            {/* Alerts */}
+            {alerts.length > 0 && (
+              <section>
+                <h2 className="text-lg font-semibold text-gray-800 mb-4">最新提醒</h2>
+                <div className="space-y-3">
+                  {alerts.map((alert) => (
+                    <Card key={alert.id} className="p-4">
+                      <div className="flex items-start gap-3">
+                        <TrendingDown className="h-5 w-5 text-green-600 mt-0.5" />
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2">
+                            <h4 className="font-medium text-gray-800">{alert.title}</h4>
+                            {!alert.readAt && <Badge>新</Badge>}
+                          </div>
+                          <p className="text-sm text-gray-600">
+                            {alert.previousPrice && (
+                              <span className="line-through mr-2">{formatPrice(alert.previousPrice)}</span>
+                            )}
+                            <span className="font-medium text-[#FF6B6B]">{formatPrice(alert.price)}</span>
+                            ，已低于目标价 {formatPrice(alert.targetPrice)}
+                          </p>
+                          <p className="text-xs text-gray-400">{new Date(alert.createdAt).toLocaleString()}</p>
+                        </div>
+                      </div>
+                    </Card>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            {/* Watches */}
+            <section>
+              <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-800 mb-4">
+                关注的商品
+                <Badge variant="secondary">{watches.length}</Badge>
+              </h2>
+              {watches.length === 0 ? (
+                <Card className="p-6 text-center text-gray-600">
+                  还没有关注的商品，在随机购物中点击「降价提醒」即可关注
+                </Card>
+              ) : (
+                <div className="space-y-3">
+                  {watches.map((watch) => (
+                    <Card key={watch.id} className="p-4">
+                      <div className="flex items-start space-x-3">
+                        <div className="flex-1 min-w-0">
+                          <h4 className="font-medium text-gray-800">{watch.title}</h4>
+                          <p className="text-sm text-gray-600">
+                            当前{" "}
+                            <span className="font-medium text-[#FF6B6B]">
+                              {watch.currentPrice ? formatPrice(watch.currentPrice) : "-"}
+                            </span>
+                            {" · "}目标 {formatPrice(watch.targetPrice)}
+                          </p>
+                          {!watch.available && <p className="text-xs text-gray-400">商品已下架</p>}
+                          {watch.history.length > 1 && (
+                            <p className="text-xs text-gray-400 truncate">
+                              价格走势：
+                              {[...watch.history]
+                                .reverse()
+                                .map((point) => formatPrice(point.price))
+                                .join(" → ")}
+                            </p>
+                          )}
+                        </div>
+                        <Button variant="ghost" size="icon" onClick={() => removeWatch(watch)} aria-label="取消关注">
+                          <BellOff className="h-5 w-5 text-gray-400" />
+                        </Button>
+                      </div>
+                    </Card>
+                  ))}
+                </div>
+              )}
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState } from "react"
 import { useRouter } from "next/navigation"
 import Link from "next/link"
 import { Button } from "@/components/ui/button"
@@ -10,22 +10,13 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { Label } from "@/components/ui/label"
 import { Check, Crown, Zap, Building2, CreditCard, ArrowLeft } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
-import { auth } from "@/lib/auth/client"
+import { useAuth } from "@/hooks/use-auth"
 
 type PaymentMethod = "stripe" | "paypal"
 type Tier = "free" | "pro" | "enterprise"
 
-interface User {
-  id: string
-  email?: string
-  name?: string
-  subscriptionTier?: string
-  isPro?: boolean
-}
-
 export default function PricingPage() {
-  const [user, setUser] = useState<User | null>(null)
-  const [loading, setLoading] = useState(true)
+  const { user, loading, refreshUser } = useAuth()
   const router = useRouter()
   const { toast } = useToast()
   const [selectedPayment, setSelectedPayment] = useState<PaymentMethod>("stripe")
@@ -33,24 +24,6 @@ export default function PricingPage() {
 
   const currentTier = user?.subscriptionTier || "free"
 
-  useEffect(() => {
-    // 获取当前用户信息
-    const getCurrentUser = async () => {
-      try {
-        const { data } = await auth.getUser()
-        if (data.user) {
-          setUser(data.user as User)
-        }
-      } catch (error) {
-        console.error('Failed to get current user:', error)
-      } finally {
-        setLoading(false)
-      }
-    }
-
-    getCurrentUser()
-  }, [])
-
   const handleSubscribe = async (tier: Tier) => {
     if (!user) {
       router.push("/login")
@@ -90,7 +63,9 @@ export default function PricingPage() {
         // In production, redirect to actual payment URL
         // window.location.href = data.url || data.approvalUrl
 
-        setTimeout(() => {
+        setTimeout(async () => {
+          // 会员等级可能已变化，同步到所有页面和标签页
+          await refreshUser()
           router.push("/settings")
         }, 2000)
       }
@@ -198,7 +173,7 @@ export default function PricingPage() {
         </div>
 
         {/* Payment Method Selector */}
-        {session && (
+        {user && (
           <Card className="max-w-md mx-auto mb-8">
             <CardHeader>
               <CardTitle className="text-lg">Payment Method</CardTitle>
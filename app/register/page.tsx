@@ -61,8 +61,8 @@ export default function RegisterPage() {
       })
 
       if (response.data.user) {
-        // 注册成功，重定向到主页
-        router.push('/')
+        // 注册成功，进入偏好引导
+        router.push('/onboarding')
         router.refresh()
       } else {
         setError(response.error?.message || '注册失败')
@@ -9,24 +9,15 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Separator } from "@/components/ui/separator"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { ArrowLeft, CreditCard, User, Crown } from "lucide-react"
+import { ArrowLeft, CreditCard, User, Crown, SlidersHorizontal } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
-import { auth } from "@/lib/auth/client"
-
-interface User {
-  id: string
-  email?: string
-  name?: string
-  subscriptionTier?: string
-  isPro?: boolean
-  paymentMethod?: string
-}
+import { useAuth } from "@/hooks/use-auth"
+import { PreferencesForm } from "@/components/preferences-form"
 
 export default function SettingsPage() {
   const router = useRouter()
   const { toast } = useToast()
-  const [user, setUser] = useState<User | null>(null)
-  const [loading, setLoading] = useState(true)
+  const { user, loading } = useAuth()
 
   const [cardNumber, setCardNumber] = useState("")
   const [cardName, setCardName] = useState("")
@@ -35,25 +26,11 @@ export default function SettingsPage() {
   const [isLoading, setIsLoading] = useState(false)
 
   useEffect(() => {
-    // 获取当前用户信息
-    const getCurrentUser = async () => {
-      try {
-        const { data } = await auth.getUser()
-        if (data.user) {
-          setUser(data.user as User)
-        } else {
-          router.push("/login")
-        }
-      } catch (error) {
-        console.error('Failed to get current user:', error)
-        router.push("/login")
-      } finally {
-        setLoading(false)
-      }
+    // 未登录或在其他标签页登出时跳转到登录页
+    if (!loading && !user) {
+      router.push("/login")
     }
-
-    getCurrentUser()
-  }, [router])
+  }, [loading, user, router])
 
   if (loading) {
     return (
@@ -64,7 +41,6 @@ export default function SettingsPage() {
   }
 
   if (!user) {
-    router.push("/login")
     return null
   }
 
@@ -123,11 +99,15 @@ export default function SettingsPage() {
         </div>
 
         <Tabs defaultValue="account" className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="account">
               <User className="h-4 w-4 mr-2" />
               Account
             </TabsTrigger>
+            <TabsTrigger value="preferences">
+              <SlidersHorizontal className="h-4 w-4 mr-2" />
+              Preferences
+            </TabsTrigger>
             <TabsTrigger value="payment">
               <CreditCard className="h-4 w-4 mr-2" />
               Payment
@@ -190,6 +170,28 @@ export default function SettingsPage() {
             </Card>
           </TabsContent>
 
+          {/* Preferences Tab */}
+          <TabsContent value="preferences" className="mt-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Preferences</CardTitle>
+                <CardDescription>
+                  Recommendations never include items that conflict with these settings
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <PreferencesForm
+                  onSaved={() =>
+                    toast({
+                      title: "Preferences saved",
+                      description: "Your next recommendations will follow these settings.",
+                    })
+                  }
+                />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           {/* Payment Tab */}
           <TabsContent value="payment" className="mt-6">
             <Card>
@@ -0,0 +1,300 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { ArrowLeft, Flame, Trophy } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { WorkoutSessionCard } from "@/components/workout-session-card"
+import { FITNESS_LEVELS, type FitnessLevel } from "@/lib/preferences/types"
+import {
+  DEFAULT_PLAN_WEEKS,
+  type WorkoutCompletion,
+  type WorkoutPlan,
+  type WorkoutStreak,
+} from "@/lib/workout/types"
+
+const fitnessLevelLabels: Record<FitnessLevel, string> = {
+  beginner: "入门",
+  intermediate: "进阶",
+  advanced: "高手",
+}
+
+// Monday first, values match Date#getDay
+const weekdayOptions = [
+  { value: 1, label: "周一" },
+  { value: 2, label: "周二" },
+  { value: 3, label: "周三" },
+  { value: 4, label: "周四" },
+  { value: 5, label: "周五" },
+  { value: 6, label: "周六" },
+  { value: 0, label: "周日" },
+]
+
+const weekOptions = [2, 4, 6, 8, 12]
+
+const getTimezoneHeaders = () => ({
+  "X-Timezone-Offset": String(new Date().getTimezoneOffset()),
+})
+
+export default function WorkoutsPage() {
+  const [plan, setPlan] = useState<WorkoutPlan | null>(null)
+  const [completedIds, setCompletedIds] = useState<Set<string>>(new Set())
+  const [streak, setStreak] = useState<WorkoutStreak | null>(null)
+  const [today, setToday] = useState("")
+  const [loading, setLoading] = useState(true)
+  const [requiresLogin, setRequiresLogin] = useState(false)
+  const [editing, setEditing] = useState(false)
+  const [fitnessLevel, setFitnessLevel] = useState<FitnessLevel | "auto">("auto")
+  const [days, setDays] = useState<number[]>([1, 3, 5])
+  const [weeks, setWeeks] = useState(DEFAULT_PLAN_WEEKS)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadPlan = async () => {
+    try {
+      const response = await fetch("/api/workout-plans", {
+        headers: getTimezoneHeaders(),
+        credentials: "include",
+      })
+      if (response.status === 401) {
+        setRequiresLogin(true)
+        return
+      }
+      if (response.ok) {
+        const data = await response.json()
+        setPlan(data.plan)
+        setCompletedIds(new Set(data.completions.map((completion: WorkoutCompletion) => completion.sessionId)))
+        setStreak(data.streak)
+        setToday(data.today)
+      }
+    } catch (error) {
+      console.error("Error loading workout plan:", error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadPlan()
+  }, [])
+
+  const createPlan = async () => {
+    setError(null)
+    try {
+      const response = await fetch("/api/workout-plans", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...getTimezoneHeaders(),
+        },
+        credentials: "include",
+        body: JSON.stringify({
+          fitnessLevel: fitnessLevel === "auto" ? undefined : fitnessLevel,
+          days,
+          weeks,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || "生成失败")
+        return
+      }
+      setEditing(false)
+      await loadPlan()
+    } catch (error) {
+      console.error("Error creating workout plan:", error)
+    }
+  }
+
+  const toggleSession = async (sessionId: string) => {
+    const completed = completedIds.has(sessionId)
+    try {
+      const response = await fetch(`/api/workout-plans/sessions/${sessionId}`, {
+        method: completed ? "DELETE" : "POST",
+        headers: getTimezoneHeaders(),
+        credentials: "include",
+      })
+      if (response.ok) {
+        const data = await response.json()
+        setStreak(data.streak)
+        setCompletedIds((current) => {
+          const next = new Set(current)
+          if (completed) {
+            next.delete(sessionId)
+          } else {
+            next.add(sessionId)
+          }
+          return next
+        })
+      }
+    } catch (error) {
+      console.error("Error updating workout session:", error)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[#F7F9FC] flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  const weeksOfPlan = plan ? Array.from({ length: plan.weeks }, (_, index) => index + 1) : []
+
+  return (
+    <div className="min-h-screen bg-[#F7F9FC] p-4">
+      <div className="max-w-md mx-auto">
+        {/* Header */}
+        <div className="flex items-center mb-8 pt-8">
+          <Link href="/">
+            <Button variant="ghost" size="sm" className="mr-4">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-800">训练计划</h1>
+        </div>
+
+        {requiresLogin ? (
+          <Card className="p-6 text-center">
+            <p className="text-gray-600 mb-4">登录后即可生成训练计划</p>
+            <Link href="/login">
+              <Button className="bg-[#FF6B6B] hover:bg-[#FF5252]">去登录</Button>
+            </Link>
+          </Card>
+        ) : !plan || editing ? (
+          <Card className="p-6 space-y-6">
+            <div className="space-y-3">
+              <Label>健身水平</Label>
+              <RadioGroup
+                className="flex flex-wrap gap-4"
+                value={fitnessLevel}
+                onValueChange={(value) => setFitnessLevel(value as FitnessLevel | "auto")}
+              >
+                <label className="flex items-center gap-2 text-sm">
+                  <RadioGroupItem value="auto" />
+                  跟随偏好设置
+                </label>
+                {FITNESS_LEVELS.map((level) => (
+                  <label key={level} className="flex items-center gap-2 text-sm">
+                    <RadioGroupItem value={level} />
+                    {fitnessLevelLabels[level]}
+                  </label>
+                ))}
+              </RadioGroup>
+            </div>
+
+            <div className="space-y-3">
+              <Label>每周哪几天有空</Label>
+              <div className="flex flex-wrap gap-3">
+                {weekdayOptions.map((option) => (
+                  <label key={option.value} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={days.includes(option.value)}
+                      onCheckedChange={(checked) =>
+                        setDays((current) =>
+                          checked ? [...current, option.value] : current.filter((day) => day !== option.value),
+                        )
+                      }
+                    />
+                    {option.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <Label>计划周数</Label>
+              <Select value={String(weeks)} onValueChange={(value) => setWeeks(Number(value))}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {weekOptions.map((option) => (
+                    <SelectItem key={option} value={String(option)}>
+                      {option} 周
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {error && <p className="text-sm text-red-500">{error}</p>}
+
+            <div className="flex gap-2">
+              <Button
+                className="flex-1 bg-[#4ECDC4] hover:bg-[#3DBDB4]"
+                disabled={days.length === 0}
+                onClick={createPlan}
+              >
+                生成计划
+              </Button>
+              {plan && (
+                <Button variant="outline" onClick={() => setEditing(false)}>
+                  取消
+                </Button>
+              )}
+            </div>
+          </Card>
+        ) : (
+          <div className="space-y-8">
+            {/* Streak */}
+            {streak && (
+              <Card className="p-4">
+                <div className="grid grid-cols-3 gap-2 text-center mb-4">
+                  <div>
+                    <Flame className="h-5 w-5 mx-auto text-[#FF6B6B]" />
+                    <p className="font-semibold">{streak.current}</p>
+                    <p className="text-xs text-gray-500">连续完成</p>
+                  </div>
+                  <div>
+                    <Trophy className="h-5 w-5 mx-auto text-yellow-500" />
+                    <p className="font-semibold">{streak.longest}</p>
+                    <p className="text-xs text-gray-500">最长连续</p>
+                  </div>
+                  <div>
+                    <p className="h-5 text-sm text-gray-500">{fitnessLevelLabels[plan.fitnessLevel]}</p>
+                    <p className="font-semibold">
+                      {streak.completed} / {streak.total}
+                    </p>
+                    <p className="text-xs text-gray-500">已完成</p>
+                  </div>
+                </div>
+                <Progress value={streak.total > 0 ? (streak.completed / streak.total) * 100 : 0} />
+              </Card>
+            )}
+
+            <Button variant="outline" className="w-full" onClick={() => setEditing(true)}>
+              重新生成计划
+            </Button>
+
+            {/* Sessions by week */}
+            {weeksOfPlan.map((week) => (
+              <section key={week}>
+                <h2 className="text-lg font-semibold text-gray-800 mb-4">第 {week} 周</h2>
+                <div className="space-y-3">
+                  {plan.sessions
+                    .filter((session) => session.week === week)
+                    .map((session) => (
+                      <WorkoutSessionCard
+                        key={session.id}
+                        session={session}
+                        completed={completedIds.has(session.id)}
+                        className={session.date === today ? "border-[#4ECDC4]" : ""}
+                        onToggleComplete={session.date <= today ? () => toggleSession(session.id) : undefined}
+                      />
+                    ))}
+                </div>
+              </section>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
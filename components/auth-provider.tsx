@@ -1,10 +1,76 @@
 "use client"
-import type { ReactNode } from 'react'
 
-export default function AuthProvider({ children }: { children: ReactNode }) {
-  // 简单的认证上下文提供者
-  // 实际的认证状态通过各页面的 auth.getUser() 来获取
-  return <>{children}</>
+import { createContext, useCallback, useEffect, useMemo, useState, type ReactNode } from "react"
+import { auth, type AuthSession, type AuthUser } from "@/lib/auth/client"
+
+export interface AuthContextValue {
+  user: AuthUser | null
+  session: AuthSession | null
+  /** 首次读取用户信息完成前为 true */
+  loading: boolean
+  signOut: () => Promise<void>
+  /** 重新读取用户信息并通知其他标签页 */
+  refreshUser: () => Promise<void>
 }
 
+export const AuthContext = createContext<AuthContextValue | null>(null)
+
+/**
+ * 认证状态提供者
+ * 挂载时读取一次当前用户，之后通过 auth.onAuthStateChange 跟随登录、登出、刷新（包括其他标签页）更新
+ */
+export default function AuthProvider({ children }: { children: ReactNode }) {
+  const [user, setUser] = useState<AuthUser | null>(null)
+  const [session, setSession] = useState<AuthSession | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const loadUser = useCallback(async () => {
+    try {
+      const { data } = await auth.getUser()
+      setUser(data.user)
+    } catch (error) {
+      console.error("Failed to get current user:", error)
+      setUser(null)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadUser()
+    auth.getSession().then(({ data }) => setSession(data.session))
 
+    const {
+      data: { subscription },
+    } = auth.onAuthStateChange((event, nextSession) => {
+      setSession(nextSession)
+      if (event === "SIGNED_OUT") {
+        setUser(null)
+        setLoading(false)
+      } else if (event !== "TOKEN_REFRESHED") {
+        // 刷新令牌不会改变用户信息，其余事件重新读取
+        loadUser()
+      }
+    })
+
+    return () => subscription.unsubscribe()
+  }, [loadUser])
+
+  const signOut = useCallback(async () => {
+    const { error } = await auth.signOut()
+    if (error) {
+      console.error("Logout failed:", error)
+    }
+  }, [])
+
+  const refreshUser = useCallback(async () => {
+    await auth.refreshUser()
+  }, [])
+
+  const value = useMemo(
+    () => ({ user, session, loading, signOut, refreshUser }),
+    [user, session, loading, signOut, refreshUser],
+  )
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>
+}
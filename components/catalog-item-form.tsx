@@ -0,0 +1,477 @@
+"use client"
+
+import { useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import { Button } from "@/components/ui/button"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  CATALOG_CATEGORIES,
+  CATALOG_CATEGORY_FIELDS,
+  CATALOG_CURRENCIES,
+  CATALOG_REGIONS,
+  type CatalogCategory,
+  type CatalogItem,
+} from "@/lib/catalog/types"
+
+export const categoryLabels: Record<CatalogCategory, string> = {
+  entertainment: "娱乐",
+  shopping: "购物",
+  food: "美食",
+  travel: "出行",
+  fitness: "健身",
+}
+
+const itemFormSchema = z
+  .object({
+    category: z.enum(CATALOG_CATEGORIES),
+    id: z.string(),
+    type: z.string().trim().min(1, "请填写类型"),
+    title: z.string().trim().min(1, "请填写标题"),
+    description: z.string(),
+    titleEn: z.string(),
+    descriptionEn: z.string(),
+    image: z.string(),
+    tags: z.string(),
+    regions: z.string(),
+    price: z.string(),
+    currency: z.enum(CATALOG_CURRENCIES),
+    regionalPrices: z.string(),
+    calories: z.string(),
+    duration: z.string(),
+  })
+  .superRefine((values, ctx) => {
+    const fields = CATALOG_CATEGORY_FIELDS[values.category]
+    if (fields.includes("price")) {
+      const price = Number(values.price)
+      if (!values.price.trim() || !Number.isFinite(price) || price < 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["price"], message: "购物条目需要填写有效的价格" })
+      }
+    }
+    const unknownRegions = values.regions
+      .split(/[,，]/)
+      .map((region) => region.trim())
+      .filter((region) => region && !(CATALOG_REGIONS as string[]).includes(region))
+    if (unknownRegions.length > 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["regions"],
+        message: `未知地区：${unknownRegions.join(", ")}（可选 ${CATALOG_REGIONS.join(", ")}）`,
+      })
+    }
+    if (fields.includes("calories")) {
+      const calories = Number(values.calories)
+      if (!values.calories.trim() || !Number.isFinite(calories) || calories < 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["calories"], message: "请填写有效的热量（千卡）" })
+      }
+    }
+    if (fields.includes("duration") && !values.duration.trim()) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["duration"], message: "请填写时长，例如 30分钟" })
+    }
+  })
+
+type ItemFormValues = z.infer<typeof itemFormSchema>
+
+function toFormValues(item: CatalogItem | null, category: CatalogCategory): ItemFormValues {
+  return {
+    category: item?.category || category,
+    id: item?.id || "",
+    type: item?.type || "",
+    title: item?.title || "",
+    description: item?.description || "",
+    titleEn: item?.translations?.en?.title || "",
+    descriptionEn: item?.translations?.en?.description || "",
+    image: item?.image || "",
+    tags: (item?.tags || []).join(", "),
+    regions: (item?.regions || []).join(", "),
+    price: item && "price" in item ? String(item.price.amount) : "",
+    currency: item && "price" in item ? item.price.currency : "CNY",
+    regionalPrices:
+      item && "price" in item
+        ? (item.regionalPrices || []).map((price) => `${price.currency} ${price.amount}`).join(", ")
+        : "",
+    calories: item && "calories" in item ? String(item.calories) : "",
+    duration: item && "duration" in item ? item.duration : "",
+  }
+}
+
+/**
+ * 表单值 → 提交给 API 的条目，只保留当前分类需要的专属字段
+ * 表单只编辑英文标题和描述，其余译文原样保留
+ */
+function toItemPayload(values: ItemFormValues, item: CatalogItem | null): Record<string, unknown> {
+  const fields = CATALOG_CATEGORY_FIELDS[values.category]
+  const splitList = (value: string) =>
+    value
+      .split(/[,，]/)
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+  const tags = splitList(values.tags)
+  const regions = splitList(values.regions)
+  const regionalPrices = splitList(values.regionalPrices)
+
+  const english = {
+    ...item?.translations?.en,
+    title: values.titleEn.trim() || undefined,
+    description: values.descriptionEn.trim() || undefined,
+  }
+  const hasEnglish = Object.values(english).some(Boolean)
+  const translations = { ...item?.translations, en: hasEnglish ? english : undefined }
+
+  return {
+    ...(item && { archived: item.archived, externalId: item.externalId }),
+    category: values.category,
+    id: values.id.trim() || undefined,
+    type: values.type.trim(),
+    title: values.title.trim(),
+    description: values.description.trim() || undefined,
+    image: values.image || undefined,
+    tags: tags.length > 0 ? tags : undefined,
+    regions: regions.length > 0 ? regions : undefined,
+    translations: Object.values(translations).some(Boolean) ? translations : undefined,
+    ...(fields.includes("price") && {
+      price: { amount: Number(values.price), currency: values.currency },
+      // 其他货币的价格以文本提交，例如 "USD 15"，由服务端解析
+      regionalPrices: regionalPrices.length > 0 ? regionalPrices : undefined,
+    }),
+    ...(fields.includes("calories") && { calories: Number(values.calories) }),
+    ...(fields.includes("duration") && { duration: values.duration.trim() }),
+  }
+}
+
+interface CatalogItemFormProps {
+  /** 为空表示新建 */
+  item: CatalogItem | null
+  defaultCategory: CatalogCategory
+  onSaved: (item: CatalogItem) => void
+}
+
+export function CatalogItemForm({ item, defaultCategory, onSaved }: CatalogItemFormProps) {
+  const [uploading, setUploading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const form = useForm<ItemFormValues>({
+    resolver: zodResolver(itemFormSchema),
+    defaultValues: toFormValues(item, defaultCategory),
+  })
+
+  const category = form.watch("category")
+  const image = form.watch("image")
+  const fields = CATALOG_CATEGORY_FIELDS[category]
+
+  const uploadImage = async (file: File) => {
+    setUploading(true)
+    setError(null)
+    try {
+      const formData = new FormData()
+      formData.append("file", file)
+      formData.append("category", category)
+
+      const response = await fetch("/api/admin/catalog/images", {
+        method: "POST",
+        credentials: "include",
+        body: formData,
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || "图片上传失败")
+        return
+      }
+      form.setValue("image", data.url, { shouldDirty: true })
+    } catch (error) {
+      console.error("Error uploading image:", error)
+      setError("图片上传失败")
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const onSubmit = async (values: ItemFormValues) => {
+    setError(null)
+    try {
+      const response = await fetch(
+        item ? `/api/admin/catalog/${item.category}/${item.id}` : "/api/admin/catalog",
+        {
+          method: item ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify(toItemPayload(values, item)),
+        }
+      )
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || "保存失败")
+        return
+      }
+      onSaved(data.item)
+    } catch (error) {
+      console.error("Error saving catalog item:", error)
+      setError("保存失败")
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="category"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>分类</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange} disabled={Boolean(item)}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {CATALOG_CATEGORIES.map((entry) => (
+                      <SelectItem key={entry} value={entry}>
+                        {categoryLabels[entry]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="id"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>ID</FormLabel>
+                <FormControl>
+                  <Input placeholder="留空自动生成" disabled={Boolean(item)} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="title"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>标题</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="type"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>类型</FormLabel>
+                <FormControl>
+                  <Input placeholder="例如 sichuan、museum" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>描述</FormLabel>
+              <FormControl>
+                <Textarea rows={2} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="titleEn"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>英文标题</FormLabel>
+                <FormControl>
+                  <Input placeholder="可选" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="descriptionEn"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>英文描述</FormLabel>
+                <FormControl>
+                  <Input placeholder="可选" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {fields.includes("price") && (
+          <>
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="price"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>价格</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} step="0.01" placeholder="例如 99" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>货币</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {CATALOG_CURRENCIES.map((currency) => (
+                          <SelectItem key={currency} value={currency}>
+                            {currency}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="regionalPrices"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>其他货币定价</FormLabel>
+                  <FormControl>
+                    <Input placeholder="逗号分隔，例如 USD 15, EUR 14；留空按汇率换算" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </>
+        )}
+        {fields.includes("calories") && (
+          <FormField
+            control={form.control}
+            name="calories"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>热量（千卡）</FormLabel>
+                <FormControl>
+                  <Input type="number" min={0} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+        {fields.includes("duration") && (
+          <FormField
+            control={form.control}
+            name="duration"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>时长</FormLabel>
+                <FormControl>
+                  <Input placeholder="例如 30分钟、2-3小时、半天" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <FormField
+          control={form.control}
+          name="tags"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>标签</FormLabel>
+              <FormControl>
+                <Input placeholder="逗号分隔，例如 spicy, hot-soup" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="regions"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>适用地区</FormLabel>
+              <FormControl>
+                <Input placeholder="逗号分隔，例如 china, usa；留空表示全球可用" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="space-y-2">
+          <FormLabel>图片</FormLabel>
+          <div className="flex items-center gap-3">
+            {image && <img src={image} alt="" className="h-12 w-12 rounded object-cover" />}
+            <Input
+              type="file"
+              accept="image/jpeg,image/png,image/webp,image/gif"
+              disabled={uploading}
+              onChange={(event) => {
+                const file = event.target.files?.[0]
+                if (file) uploadImage(file)
+              }}
+            />
+            {image && (
+              <Button type="button" variant="ghost" size="sm" onClick={() => form.setValue("image", "")}>
+                移除
+              </Button>
+            )}
+          </div>
+          {uploading && <p className="text-xs text-gray-500">上传中...</p>}
+        </div>
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        <Button type="submit" className="w-full" disabled={uploading || form.formState.isSubmitting}>
+          {form.formState.isSubmitting ? "保存中..." : item ? "保存修改" : "创建条目"}
+        </Button>
+      </form>
+    </Form>
+  )
+}
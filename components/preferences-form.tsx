@@ -0,0 +1,310 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { CATALOG_CURRENCIES, type CatalogCurrency } from "@/lib/catalog/types"
+import { LOCALES, type Locale } from "@/lib/locale/types"
+import { TYPE_LABELS } from "@/lib/recommendation/labels"
+import {
+  DEFAULT_PREFERENCES,
+  DIETARY_RESTRICTIONS,
+  FITNESS_LEVELS,
+  MAX_DAILY_CALORIE_TARGET,
+  MIN_DAILY_CALORIE_TARGET,
+  SETTING_PREFERENCES,
+  type DietaryRestriction,
+  type FitnessLevel,
+  type SettingPreference,
+  type UserPreferences,
+} from "@/lib/preferences/types"
+
+const restrictionLabels: Record<DietaryRestriction, string> = {
+  "no-spicy": "不吃辣",
+  vegetarian: "素食",
+  "no-pork": "不吃猪肉",
+  "no-seafood": "不吃海鲜",
+  "no-dairy": "不含乳制品",
+  "no-gluten": "无麸质",
+}
+
+const fitnessLevelLabels: Record<FitnessLevel, string> = {
+  beginner: "入门",
+  intermediate: "进阶",
+  advanced: "高阶",
+}
+
+const localeLabels: Record<Locale, string> = {
+  zh: "中文",
+  en: "English",
+}
+
+const settingLabels: Record<SettingPreference, string> = {
+  any: "都可以",
+  indoor: "室内",
+  outdoor: "户外",
+}
+
+interface PreferencesFormProps {
+  submitLabel?: string
+  onSaved?: (preferences: UserPreferences) => void
+}
+
+export function PreferencesForm({ submitLabel = "保存", onSaved }: PreferencesFormProps) {
+  const [preferences, setPreferences] = useState<UserPreferences>(DEFAULT_PREFERENCES)
+  const [budgetMin, setBudgetMin] = useState("")
+  const [budgetMax, setBudgetMax] = useState("")
+  const [budgetCurrency, setBudgetCurrency] = useState<CatalogCurrency>("CNY")
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadPreferences = async () => {
+      try {
+        const response = await fetch("/api/preferences", { credentials: "include" })
+        if (response.ok) {
+          const data = await response.json()
+          setPreferences(data.preferences)
+          setBudgetMin(data.preferences.budget?.min?.toString() ?? "")
+          setBudgetMax(data.preferences.budget?.max?.toString() ?? "")
+          setBudgetCurrency(data.preferences.budget?.currency ?? "CNY")
+        }
+      } catch (error) {
+        console.error("Error loading preferences:", error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadPreferences()
+  }, [])
+
+  const toggleValue = <T extends string>(values: T[], value: T, checked: boolean) =>
+    checked ? [...values, value] : values.filter((entry) => entry !== value)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setError(null)
+
+    const budget =
+      budgetMin || budgetMax
+        ? {
+            min: budgetMin ? Number(budgetMin) : undefined,
+            max: budgetMax ? Number(budgetMax) : undefined,
+            currency: budgetCurrency,
+          }
+        : undefined
+
+    try {
+      const response = await fetch("/api/preferences", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: JSON.stringify({ ...preferences, budget, homeCity: preferences.homeCity || undefined }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || "保存失败")
+        return
+      }
+
+      setPreferences(data.preferences)
+      onSaved?.(data.preferences)
+    } catch (error) {
+      console.error("Error saving preferences:", error)
+      setError("保存失败，请稍后再试")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="space-y-3">
+        <Label>饮食禁忌</Label>
+        <div className="grid grid-cols-2 gap-2">
+          {DIETARY_RESTRICTIONS.map((restriction) => (
+            <label key={restriction} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={preferences.dietaryRestrictions.includes(restriction)}
+                onCheckedChange={(checked) =>
+                  setPreferences((current) => ({
+                    ...current,
+                    dietaryRestrictions: toggleValue(current.dietaryRestrictions, restriction, checked === true),
+                  }))
+                }
+              />
+              {restrictionLabels[restriction]}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <Label>喜欢的菜系</Label>
+        <div className="grid grid-cols-2 gap-2">
+          {Object.entries(TYPE_LABELS.zh.food).map(([cuisine, label]) => (
+            <label key={cuisine} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={preferences.cuisines.includes(cuisine)}
+                onCheckedChange={(checked) =>
+                  setPreferences((current) => ({
+                    ...current,
+                    cuisines: toggleValue(current.cuisines, cuisine, checked === true),
+                  }))
+                }
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <Label>购物预算</Label>
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min={0}
+            placeholder="最低"
+            value={budgetMin}
+            onChange={(e) => setBudgetMin(e.target.value)}
+          />
+          <span className="text-gray-500">-</span>
+          <Input
+            type="number"
+            min={0}
+            placeholder="最高"
+            value={budgetMax}
+            onChange={(e) => setBudgetMax(e.target.value)}
+          />
+          <Select value={budgetCurrency} onValueChange={(value) => setBudgetCurrency(value as CatalogCurrency)}>
+            <SelectTrigger className="w-24">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CATALOG_CURRENCIES.map((currency) => (
+                <SelectItem key={currency} value={currency}>
+                  {currency}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <Label>健身水平</Label>
+        <RadioGroup
+          className="flex gap-4"
+          value={preferences.fitnessLevel ?? ""}
+          onValueChange={(value) =>
+            setPreferences((current) => ({ ...current, fitnessLevel: value as FitnessLevel }))
+          }
+        >
+          {FITNESS_LEVELS.map((level) => (
+            <label key={level} className="flex items-center gap-2 text-sm">
+              <RadioGroupItem value={level} />
+              {fitnessLevelLabels[level]}
+            </label>
+          ))}
+        </RadioGroup>
+      </div>
+
+      <div className="space-y-3">
+        <Label htmlFor="dailyCalorieTarget">每日热量目标（千卡）</Label>
+        <Input
+          id="dailyCalorieTarget"
+          type="number"
+          min={MIN_DAILY_CALORIE_TARGET}
+          max={MAX_DAILY_CALORIE_TARGET}
+          step={50}
+          placeholder="不设置"
+          value={preferences.dailyCalorieTarget ?? ""}
+          onChange={(e) =>
+            setPreferences((current) => ({
+              ...current,
+              dailyCalorieTarget: e.target.value ? Number(e.target.value) : undefined,
+            }))
+          }
+        />
+      </div>
+
+      <div className="space-y-3">
+        <Label>室内还是户外</Label>
+        <RadioGroup
+          className="flex gap-4"
+          value={preferences.setting}
+          onValueChange={(value) =>
+            setPreferences((current) => ({ ...current, setting: value as SettingPreference }))
+          }
+        >
+          {SETTING_PREFERENCES.map((setting) => (
+            <label key={setting} className="flex items-center gap-2 text-sm">
+              <RadioGroupItem value={setting} />
+              {settingLabels[setting]}
+            </label>
+          ))}
+        </RadioGroup>
+      </div>
+
+      <div className="space-y-3">
+        <Label htmlFor="homeCity">常住城市</Label>
+        <Input
+          id="homeCity"
+          placeholder="例如：杭州"
+          value={preferences.homeCity ?? ""}
+          onChange={(e) => setPreferences((current) => ({ ...current, homeCity: e.target.value }))}
+        />
+      </div>
+
+      <div className="space-y-3">
+        <Label>内容语言</Label>
+        <RadioGroup
+          className="flex gap-4"
+          value={preferences.locale ?? "auto"}
+          onValueChange={(value) =>
+            setPreferences((current) => ({
+              ...current,
+              locale: value === "auto" ? undefined : (value as Locale),
+            }))
+          }
+        >
+          <label className="flex items-center gap-2 text-sm">
+            <RadioGroupItem value="auto" />
+            跟随浏览器
+          </label>
+          {LOCALES.map((locale) => (
+            <label key={locale} className="flex items-center gap-2 text-sm">
+              <RadioGroupItem value={locale} />
+              {localeLabels[locale]}
+            </label>
+          ))}
+        </RadioGroup>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <Button type="submit" className="w-full" disabled={saving}>
+        {saving ? "保存中..." : submitLabel}
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,63 @@
+"use client"
+
+import { Check, Timer } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import {
+  WORKOUT_FOCUS_LABELS,
+  WORKOUT_INTENSITY_LABELS,
+  describeExercise,
+  type WorkoutSession,
+} from "@/lib/workout/types"
+
+interface WorkoutSessionCardProps {
+  session: WorkoutSession
+  completed: boolean
+  /** Hidden for sessions that are not due yet */
+  onToggleComplete?: () => void
+  className?: string
+}
+
+export function WorkoutSessionCard({ session, completed, onToggleComplete, className }: WorkoutSessionCardProps) {
+  const intensity = session.exercises[0]?.intensity
+
+  return (
+    <Card className={`p-4 ${className ?? ""}`}>
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <p className="text-xs text-gray-500">
+            第 {session.week} 周 · {session.date}
+          </p>
+          <h3 className="font-semibold text-gray-800">{WORKOUT_FOCUS_LABELS[session.focus]}</h3>
+        </div>
+        <div className="flex items-center gap-2">
+          {intensity && <Badge variant="secondary">{WORKOUT_INTENSITY_LABELS[intensity]}</Badge>}
+          <span className="flex items-center text-xs text-gray-500">
+            <Timer className="h-3 w-3 mr-1" />约 {session.estimatedMinutes} 分钟
+          </span>
+        </div>
+      </div>
+
+      <ul className="space-y-1 text-sm">
+        {session.exercises.map((exercise) => (
+          <li key={exercise.name} className="flex justify-between gap-2">
+            <span className="text-gray-800">{exercise.name}</span>
+            <span className="text-gray-500">{describeExercise(exercise)}</span>
+          </li>
+        ))}
+      </ul>
+
+      {onToggleComplete && (
+        <Button
+          className={completed ? "w-full mt-4" : "w-full mt-4 bg-[#4ECDC4] hover:bg-[#3DBDB4]"}
+          variant={completed ? "outline" : "default"}
+          onClick={onToggleComplete}
+        >
+          {completed && <Check className="h-4 w-4 mr-1" />}
+          {completed ? "已完成（点击撤销）" : "完成训练"}
+        </Button>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,13 @@
+/**
+ * 读取当前登录状态（需要在 AuthProvider 内使用）
+ */
+import * as React from "react"
+import { AuthContext, type AuthContextValue } from "@/components/auth-provider"
+
+export function useAuth(): AuthContextValue {
+  const context = React.useContext(AuthContext)
+  if (!context) {
+    throw new Error("useAuth must be used within AuthProvider")
+  }
+  return context
+}
@@ -18,6 +18,36 @@ export interface AuthUser {
   user_metadata?: Record<string, any>;
 }
 
+/**
+ * 调用服务端认证路由；令牌由服务端写入 httpOnly cookie，响应中不含 refresh token
+ */
+async function postAuthRequest(url: string, body: Record<string, string>, fallbackError: string): Promise<AuthResponse> {
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      return {
+        user: null,
+        error: new Error(errorData.error || fallbackError),
+      };
+    }
+
+    const data = await response.json();
+    return {
+      user: data.user,
+      session: data.session,
+    };
+  } catch (error) {
+    return { user: null, error: error as Error };
+  }
+}
+
 /**
  * 认证适配器接口实现
  */
@@ -37,7 +67,11 @@ class SupabaseAuthAdapter implements AuthAdapter {
         return;
       }
 
-      this.supabase = createClient(supabaseUrl, supabaseAnonKey);
+      // 令牌由 auth 客户端（lib/auth/client.ts）统一刷新，
+      // 关闭 supabase-js 的自动刷新，避免两处同时轮换 refresh token 触发重用检测
+      this.supabase = createClient(supabaseUrl, supabaseAnonKey, {
+        auth: { autoRefreshToken: false },
+      });
       console.log('✅ Supabase adapter initialized');
     } catch (error) {
       console.error('Failed to initialize Supabase adapter:', error);
@@ -45,58 +79,15 @@ class SupabaseAuthAdapter implements AuthAdapter {
     }
   }
 
+  /**
+   * 邮箱登录和注册走服务端路由，由服务端把令牌写入 httpOnly cookie
+   */
   async signInWithEmail(email: string, password: string): Promise<AuthResponse> {
-    if (!this.supabase) {
-      throw new Error("Supabase 客户端未初始化");
-    }
-
-    const { data, error } = await this.supabase.auth.signInWithPassword({
-      email,
-      password,
-    });
-
-    if (error) {
-      return { user: null, error };
-    }
-
-    return {
-      user: {
-        id: data.user.id,
-        email: data.user.email,
-        name: data.user.user_metadata?.name,
-        avatar: data.user.user_metadata?.avatar_url,
-        createdAt: new Date(data.user.created_at),
-        metadata: data.user.user_metadata,
-      },
-      session: data.session,
-    };
+    return postAuthRequest("/api/auth/login", { email, password }, "Login failed");
   }
 
   async signUpWithEmail(email: string, password: string): Promise<AuthResponse> {
-    if (!this.supabase) {
-      throw new Error("Supabase 客户端未初始化");
-    }
-
-    const { data, error } = await this.supabase.auth.signUp({
-      email,
-      password,
-    });
-
-    if (error) {
-      return { user: null, error };
-    }
-
-    return {
-      user: data.user ? {
-        id: data.user.id,
-        email: data.user.email,
-        name: data.user.user_metadata?.name,
-        avatar: data.user.user_metadata?.avatar_url,
-        createdAt: new Date(data.user.created_at),
-        metadata: data.user.user_metadata,
-      } : null,
-      session: data.session,
-    };
+    return postAuthRequest("/api/auth/register", { email, password, confirmPassword: password }, "Registration failed");
   }
 
   async signInWithOAuth(provider: "google" | "github"): Promise<void> {
@@ -118,6 +109,18 @@ class SupabaseAuthAdapter implements AuthAdapter {
     }
 
     await this.supabase.auth.signOut();
+
+    // 清除服务端刷新时写入的认证 cookie
+    try {
+      await fetch("/api/auth", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ action: "logout" }),
+      });
+    } catch (error) {
+      console.error("Failed to clear auth cookies:", error);
+    }
   }
 
   async getCurrentUser(): Promise<User | null> {
@@ -172,57 +175,14 @@ class CloudBaseAuthAdapter implements AuthAdapter {
   }
 
   async signInWithEmail(email: string, password: string): Promise<AuthResponse> {
-    try {
-      const response = await fetch("/api/auth/login", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ email, password }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        return {
-          user: null,
-          error: new Error(errorData.error || "Login failed"),
-        };
-      }
-
-      const data = await response.json();
-      return {
-        user: data.user,
-        session: data.session,
-      };
-    } catch (error) {
-      return { user: null, error: error as Error };
-    }
+    return postAuthRequest("/api/auth/login", { email, password }, "Login failed");
   }
 
   async signUpWithEmail(email: string, password: string): Promise<AuthResponse> {
-    try {
-      const response = await fetch("/api/auth/register", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ email, password, confirmPassword: password }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        return {
-          user: null,
-          error: new Error(errorData.error || "Registration failed"),
-        };
-      }
-
-      const data = await response.json();
-      return {
-        user: data.user,
-        session: data.session,
-      };
-    } catch (error) {
-      return { user: null, error: error as Error };
-    }
+    return postAuthRequest("/api/auth/register", { email, password, confirmPassword: password }, "Registration failed");
   }
 
+
   async toDefaultLoginPage(redirectUrl?: string): Promise<void> {
     // 实现腾讯云默认登录页面跳转
     const authUrl = `https://auth.cloud.tencent.com/login?redirect_uri=${encodeURIComponent(redirectUrl || window.location.href)}`;
@@ -230,6 +190,17 @@ class CloudBaseAuthAdapter implements AuthAdapter {
   }
 
   async signOut(): Promise<void> {
+    // 通知服务端撤销当前会话；撤销失败时保留本地状态，由调用方提示重试
+    const response = await fetch("/api/auth", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify({ action: "logout" }),
+    });
+    if (!response.ok) {
+      throw new Error("Failed to revoke session");
+    }
+
     console.log("✅ 登出");
     if (typeof window !== "undefined") {
       localStorage.removeItem("auth-token");
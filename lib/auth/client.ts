@@ -14,19 +14,33 @@ import { AuthResponse, DeploymentRegion } from '../core/types';
 export interface AuthUser {
   id: string;
   email?: string;
+  name?: string;
+  subscriptionTier?: string;
+  isPro?: boolean;
+  paymentMethod?: string;
   user_metadata?: Record<string, any>;
 }
 
 /**
- * 统一的会话类型
+ * 统一的会话类型；refresh token 只保存在 httpOnly cookie 中，不暴露给页面脚本
  */
 export interface AuthSession {
   access_token: string;
-  refresh_token?: string;
+  /** access token 过期时间（Unix 秒） */
   expires_at?: number;
   user: AuthUser;
 }
 
+/**
+ * 认证状态变化事件
+ */
+export type AuthChangeEvent = 'SIGNED_IN' | 'SIGNED_OUT' | 'TOKEN_REFRESHED' | 'USER_UPDATED';
+
+/**
+ * 认证状态监听器
+ */
+export type AuthStateListener = (event: AuthChangeEvent, session: AuthSession | null) => void;
+
 /**
  * 统一的认证响应类型
  */
@@ -108,10 +122,10 @@ export interface AuthClient {
   }>;
 
   /**
-   * 监听认证状态变化
+   * 监听认证状态变化（包括其他标签页中的登录、登出和刷新）
    */
   onAuthStateChange(
-    callback: (event: string, session: AuthSession | null) => void
+    callback: AuthStateListener
   ): { data: { subscription: { unsubscribe: () => void } } };
 }
 
@@ -122,6 +136,219 @@ function getCurrentRegion(): DeploymentRegion {
   return isChinaDeployment() ? DeploymentRegion.CN : DeploymentRegion.INTL;
 }
 
+/** 本地保存会话的 localStorage 键 */
+const SESSION_STORAGE_KEY = 'auth-session';
+
+/** 在 access token 过期前多久刷新 */
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+/** 跨标签页同步认证事件的 BroadcastChannel 名 */
+const AUTH_CHANNEL_NAME = 'auth';
+
+/** 不支持 BroadcastChannel 时用于触发 storage 事件的 localStorage 键 */
+const AUTH_EVENT_STORAGE_KEY = 'auth-event';
+
+let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+let refreshPromise: Promise<AuthSession | null> | null = null;
+let authChannel: BroadcastChannel | null = null;
+const authListeners = new Set<AuthStateListener>();
+
+function notifyAuthListeners(event: AuthChangeEvent, session: AuthSession | null): void {
+  authListeners.forEach(listener => {
+    try {
+      listener(event, session);
+    } catch (error) {
+      console.error('Auth state listener error:', error);
+    }
+  });
+}
+
+/**
+ * 通知本标签页的监听器，并广播给其他标签页
+ * 只广播事件名，其他标签页从 localStorage 读取会话
+ */
+function emitAuthEvent(event: AuthChangeEvent, session: AuthSession | null): void {
+  notifyAuthListeners(event, session);
+  if (typeof window === 'undefined') {
+    return;
+  }
+
+  if (authChannel) {
+    authChannel.postMessage({ event });
+    return;
+  }
+  try {
+    localStorage.setItem(AUTH_EVENT_STORAGE_KEY, JSON.stringify({ event, at: Date.now() }));
+  } catch (error) {
+    console.error('Failed to broadcast auth event:', error);
+  }
+}
+
+/**
+ * 收到其他标签页的认证事件
+ */
+function handleRemoteAuthEvent(event: AuthChangeEvent): void {
+  const session = loadStoredSession();
+  scheduleRefresh(session);
+  notifyAuthListeners(event, session);
+}
+
+/**
+ * 读取本地保存的会话
+ */
+function loadStoredSession(): AuthSession | null {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+
+  try {
+    const saved = localStorage.getItem(SESSION_STORAGE_KEY);
+    if (!saved) {
+      return null;
+    }
+
+    // 旧版本保存过 refresh token，读取时顺便清除
+    const { refresh_token: legacyRefreshToken, ...session } = JSON.parse(saved);
+    if (legacyRefreshToken) {
+      localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+    }
+    return session;
+  } catch (error) {
+    console.error('Failed to read stored session:', error);
+    return null;
+  }
+}
+
+/**
+ * 保存会话并安排下一次刷新；传入 null 时清除
+ */
+function storeSession(session: AuthSession | null): void {
+  if (typeof window === 'undefined') {
+    return;
+  }
+
+  if (session) {
+    const { access_token, expires_at, user } = session;
+    localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify({ access_token, expires_at, user }));
+  } else {
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+  }
+  scheduleRefresh(session);
+}
+
+/**
+ * 在 access token 过期前自动刷新
+ */
+function scheduleRefresh(session: AuthSession | null): void {
+  clearTimeout(refreshTimer);
+  if (typeof window === 'undefined' || !session?.expires_at) {
+    return;
+  }
+
+  const delay = Math.max(0, session.expires_at * 1000 - Date.now() - REFRESH_MARGIN_MS);
+  refreshTimer = setTimeout(() => {
+    // 其他标签页可能已经刷新过，会话未到刷新时间时不会重复请求
+    ensureFreshSession();
+  }, delay);
+}
+
+/**
+ * 调用 /api/auth 刷新会话，refresh token 由服务端从 httpOnly cookie 读取
+ */
+async function requestRefresh(): Promise<AuthSession | null> {
+  const current = loadStoredSession();
+
+  try {
+    const response = await fetch('/api/auth', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ action: 'refresh' }),
+    });
+    const data = await response.json().catch(() => ({}));
+
+    if (response.ok && data.session) {
+      const session: AuthSession = {
+        access_token: data.session.access_token,
+        expires_at: data.session.expires_at,
+        user: current?.user || {
+          id: data.user.id,
+          email: data.user.email,
+          user_metadata: data.user.metadata || {},
+        },
+      };
+      storeSession(session);
+      emitAuthEvent('TOKEN_REFRESHED', session);
+      return session;
+    }
+
+    if (response.status === 409) {
+      // 其他标签页刚刷新过，改用它保存的新会话
+      const latest = loadStoredSession();
+      scheduleRefresh(latest);
+      return latest;
+    }
+
+    console.warn('⚠️ 会话刷新失败，需要重新登录:', data.code || response.status);
+    const hadSession = Boolean(current);
+    storeSession(null);
+    if (hadSession) {
+      emitAuthEvent('SIGNED_OUT', null);
+    }
+    return null;
+  } catch (error) {
+    // 网络错误时保留当前会话，稍后再试
+    console.error('Session refresh error:', error);
+    return current;
+  }
+}
+
+/**
+ * 刷新会话；同时发起的多次刷新合并为一次请求
+ */
+function refreshSession(): Promise<AuthSession | null> {
+  if (!refreshPromise) {
+    refreshPromise = requestRefresh().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+}
+
+/**
+ * 获取未过期的会话，快过期时先刷新
+ */
+async function ensureFreshSession(): Promise<AuthSession | null> {
+  const session = loadStoredSession();
+  if (!session?.expires_at || session.expires_at * 1000 - Date.now() > REFRESH_MARGIN_MS) {
+    return session;
+  }
+  return refreshSession();
+}
+
+if (typeof window !== 'undefined') {
+  scheduleRefresh(loadStoredSession());
+  // 后台标签页的定时器可能被推迟，回到前台时检查一次
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'visible') {
+      ensureFreshSession();
+    }
+  });
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    authChannel = new BroadcastChannel(AUTH_CHANNEL_NAME);
+    authChannel.onmessage = (message: MessageEvent<{ event: AuthChangeEvent }>) => {
+      handleRemoteAuthEvent(message.data.event);
+    };
+  } else {
+    window.addEventListener('storage', (storageEvent) => {
+      if (storageEvent.key === AUTH_EVENT_STORAGE_KEY && storageEvent.newValue) {
+        handleRemoteAuthEvent(JSON.parse(storageEvent.newValue).event);
+      }
+    });
+  }
+}
+
 /**
  * 转换认证响应格式
  */
@@ -131,7 +358,6 @@ function convertAuthResponse(authResponse: AuthResponse): ClientAuthResponse {
   if (authResponse.user) {
     const sessionData = authResponse.session ? {
       access_token: authResponse.session.access_token,
-      refresh_token: authResponse.session.refresh_token,
       expires_at: authResponse.session.expires_at,
       user: {
         id: authResponse.user.id,
@@ -140,12 +366,9 @@ function convertAuthResponse(authResponse: AuthResponse): ClientAuthResponse {
       },
     } : null;
 
-    // 如果有 access_token，保存到 cookie
+    // 认证 cookie 由服务端以 httpOnly 方式写入，这里只保存会话用于定时刷新
     if (sessionData?.access_token) {
-      if (typeof window !== 'undefined') {
-        document.cookie = `auth-token=${sessionData.access_token}; path=/; max-age=${7 * 24 * 60 * 60}; secure=${window.location.protocol === 'https:'}; samesite=strict`;
-        console.log('✅ Token 已保存到 cookie');
-      }
+      storeSession(sessionData);
     }
 
     return {
@@ -180,7 +403,11 @@ export const auth = {
       const auth = getAuth(getCurrentRegion());
       const result = await auth.signInWithEmail?.(params.email, params.password);
       if (result) {
-        return convertAuthResponse(result);
+        const response = convertAuthResponse(result);
+        if (response.data.session) {
+          emitAuthEvent('SIGNED_IN', response.data.session);
+        }
+        return response;
       }
       return { data: { user: null, session: null }, error: new Error('Not supported') };
     } catch (error) {
@@ -192,7 +419,11 @@ export const auth = {
       const auth = getAuth(getCurrentRegion());
       const result = await auth.signUpWithEmail?.(params.email, params.password);
       if (result) {
-        return convertAuthResponse(result);
+        const response = convertAuthResponse(result);
+        if (response.data.session) {
+          emitAuthEvent('SIGNED_IN', response.data.session);
+        }
+        return response;
       }
       return { data: { user: null, session: null }, error: new Error('Not supported') };
     } catch (error) {
@@ -203,6 +434,8 @@ export const auth = {
     try {
       const auth = getAuth(getCurrentRegion());
       await auth.signOut();
+      storeSession(null);
+      emitAuthEvent('SIGNED_OUT', null);
       return { error: null };
     } catch (error) {
       return { error: error as Error };
@@ -212,73 +445,27 @@ export const auth = {
     try {
       console.log('🔍 获取当前用户信息...');
 
-      // 首先检查本地存储的 token
-      const token = typeof window !== 'undefined'
-        ? document.cookie.split('; ').find(row => row.startsWith('auth-token='))?.split('=')[1]
-        : null;
-
-      console.log('🔍 本地 Token 状态:', token ? '存在' : '不存在');
-
-      // 优先尝试直接从 Supabase 获取用户（更可靠的方式）
-      if (token) {
-        console.log('🔍 尝试通过 token 从 Supabase 获取用户');
-        try {
-          // 动态导入 Supabase 并直��验证 token
-          const { createClient } = await import('@supabase/supabase-js');
-          const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || process.env.SUPABASE_URL;
-          const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || process.env.SUPABASE_ANON_KEY;
-
-          if (supabaseUrl && supabaseAnonKey) {
-            const supabase = createClient(supabaseUrl, supabaseAnonKey);
-            const { data: { user }, error } = await supabase.auth.getUser(token);
-
-            console.log('🔍 Supabase token 验证结果:', { user, error });
-
-            if (user && !error) {
-              // 获取 profiles 表数据
-              const { data: profile } = await supabase
-                .from('profiles')
-                .select('*')
-                .eq('id', user.id)
-                .single();
-
-              console.log('✅ 直接获取到用户和资料:', { user, profile });
-
-              return {
-                data: {
-                  user: {
-                    id: user.id,
-                    email: user.email,
-                    name: profile?.name || user.user_metadata?.name,
-                    subscriptionTier: profile?.subscription_tier || 'free',
-                    isPro: profile?.subscription_tier !== 'free' || false,
-                    paymentMethod: profile?.payment_method,
-                    user_metadata: {
-                      ...user.user_metadata,
-                      ...profile,
-                    },
-                  },
-                },
-                error: null,
-              };
-            }
-          }
-        } catch (supabaseError) {
-          console.error('❌ 直接验证 Supabase token 失败:', supabaseError);
-        }
-      }
+      // access token 快过期时先刷新
+      await ensureFreshSession();
 
-      // 如果直接获取失败，再尝试 API
-      console.log('⚠️ 直接获取失败，尝试 API 调用');
-      const response = await fetch('/api/auth/user', {
+      // 认证 cookie 是 httpOnly 的，由服务端校验并返回用户
+      let response = await fetch('/api/auth/user', {
         method: 'GET',
         credentials: 'include', // 包含 cookies
       });
 
+      // access token 已过期（例如本地没有保存会话时），用 refresh-token cookie 刷新后重试一次
+      if (response.status === 401 && await refreshSession()) {
+        response = await fetch('/api/auth/user', {
+          method: 'GET',
+          credentials: 'include',
+        });
+      }
+
       console.log('🔍 API 响应状态:', response.status);
 
       if (!response.ok) {
-        console.log('❌ API 调用也失败');
+        console.log('❌ 获取用户失败');
         return { data: { user: null }, error: null };
       }
 
@@ -310,35 +497,44 @@ export const auth = {
   },
   getSession: async () => {
     try {
-      const auth = getAuth(getCurrentRegion());
-      const user = await auth.getCurrentUser();
-      if (user) {
-        return {
-          data: {
-            session: {
-              access_token: 'mock-token',
-              user: {
-                id: user.id,
-                email: user.email,
-                user_metadata: user.metadata || {},
-              },
-            },
-          },
-          error: null,
-        };
-      }
-      return { data: { session: null }, error: null };
+      const session = await ensureFreshSession();
+      return { data: { session }, error: null };
     } catch (error) {
       return { data: { session: null }, error: error as Error };
     }
   },
-  onAuthStateChange: (
-    callback: (event: string, session: AuthSession | null) => void
-  ) => ({
-    data: {
-      subscription: { unsubscribe: () => {} },
-    },
-  }),
+  /**
+   * 保存服务端返回的会话（例如微信登录回调）
+   */
+  setSession: (session: AuthSession) => {
+    storeSession(session);
+    emitAuthEvent('SIGNED_IN', session);
+  },
+  /**
+   * 重新读取用户信息（例如会员等级变化后），并通知所有标签页
+   */
+  refreshUser: async () => {
+    const result = await auth.getUser();
+    if (result.data.user) {
+      emitAuthEvent('USER_UPDATED', loadStoredSession());
+    }
+    return result;
+  },
+  refreshSession: async () => {
+    const session = await refreshSession();
+    return {
+      data: { session },
+      error: session ? null : new Error('Session expired, please sign in again'),
+    };
+  },
+  onAuthStateChange: (callback: AuthStateListener) => {
+    authListeners.add(callback);
+    return {
+      data: {
+        subscription: { unsubscribe: () => { authListeners.delete(callback); } },
+      },
+    };
+  },
   signInWithOAuth: async (params: { provider: string; options?: any }) => {
     try {
       const auth = getAuth(getCurrentRegion());
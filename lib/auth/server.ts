@@ -0,0 +1,159 @@
+/**
+ * 服务端认证工具
+ *
+ * 供 API 路由从请求中解析当前登录用户
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { User } from '../core/types';
+import { isChinaRegion } from '../config/region';
+import { getDatabaseClient } from '../database/adapter';
+import { CloudBaseAuthService } from './services/cloudbase-auth';
+import { SESSION_COOKIE_MAX_AGE, SessionContext } from './sessions';
+
+/** access token 所在的 cookie */
+export const ACCESS_TOKEN_COOKIE = 'auth-token';
+
+/** refresh token 所在的 cookie，只发往 /api/auth */
+export const REFRESH_TOKEN_COOKIE = 'refresh-token';
+
+const REFRESH_TOKEN_COOKIE_PATH = '/api/auth';
+
+/**
+ * 从请求中读取认证 token（优先 Authorization 头，其次 auth-token cookie）
+ */
+export function getRequestToken(request: NextRequest): string | null {
+  const authHeader = request.headers.get('authorization');
+  if (authHeader?.startsWith('Bearer ')) {
+    return authHeader.slice('Bearer '.length).trim() || null;
+  }
+  return request.cookies.get(ACCESS_TOKEN_COOKIE)?.value || null;
+}
+
+/**
+ * 登录或刷新成功后写入认证 cookie
+ */
+export function setSessionCookies(
+  response: NextResponse,
+  session: { access_token?: string; refresh_token?: string } | null | undefined
+): void {
+  const options = {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    maxAge: SESSION_COOKIE_MAX_AGE,
+  };
+
+  if (session?.access_token) {
+    response.cookies.set(ACCESS_TOKEN_COOKIE, session.access_token, { ...options, path: '/' });
+  }
+  if (session?.refresh_token) {
+    response.cookies.set(REFRESH_TOKEN_COOKIE, session.refresh_token, { ...options, path: REFRESH_TOKEN_COOKIE_PATH });
+  }
+}
+
+/**
+ * 返回给浏览器的会话：去掉 refresh token，它只保存在 httpOnly cookie 中
+ */
+export function toClientSession<T extends { refresh_token?: string }>(
+  session: T | null | undefined
+): Omit<T, 'refresh_token'> | null {
+  if (!session) {
+    return null;
+  }
+  const { refresh_token: _refreshToken, ...rest } = session;
+  return rest;
+}
+
+/**
+ * 登出或会话失效时清除认证 cookie
+ */
+export function clearSessionCookies(response: NextResponse): void {
+  const options = {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    maxAge: 0,
+  };
+
+  response.cookies.set(ACCESS_TOKEN_COOKIE, '', { ...options, path: '/' });
+  response.cookies.set(REFRESH_TOKEN_COOKIE, '', { ...options, path: REFRESH_TOKEN_COOKIE_PATH });
+}
+
+/**
+ * 创建会话时记录的请求信息，用于区分登录设备
+ */
+export function getSessionContext(request: NextRequest): SessionContext {
+  return { userAgent: request.headers.get('user-agent') };
+}
+
+/**
+ * 通过 Supabase 校验 token
+ * metadata 只来自 profiles 表；user_metadata 用户可自行修改，不能用于判断订阅等级等权限
+ */
+async function getSupabaseUser(token: string): Promise<User | null> {
+  const supabase = await getDatabaseClient('supabase');
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+
+  if (error || !user) {
+    return null;
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('id', user.id)
+    .maybeSingle();
+
+  return {
+    id: user.id,
+    email: user.email,
+    name: profile?.name || user.user_metadata?.name,
+    avatar: profile?.avatar_url || user.user_metadata?.avatar_url,
+    createdAt: new Date(user.created_at),
+    metadata: {
+      ...profile,
+      subscription_tier: profile?.subscription_tier || 'free',
+      pro: profile ? profile.subscription_tier !== 'free' : false,
+      region: profile?.region || 'INTL'
+    }
+  };
+}
+
+/**
+ * 获取当前请求的登录用户，未登录或 token 无效时返回 null
+ */
+export async function getRequestUser(request: NextRequest): Promise<User | null> {
+  const token = getRequestToken(request);
+  if (!token) {
+    return null;
+  }
+
+  try {
+    if (isChinaRegion()) {
+      return await new CloudBaseAuthService().validateTokenAndGetUser(token);
+    }
+    return await getSupabaseUser(token);
+  } catch (error) {
+    console.error('Failed to resolve request user:', error);
+    return null;
+  }
+}
+
+/**
+ * 判断用户是否为管理员
+ * 管理员邮箱通过 ADMIN_EMAILS 配置（逗号分隔）
+ * 不读取 user_metadata，用户可自行修改该字段
+ */
+export function isAdminUser(user: User | null): boolean {
+  if (!user?.email) {
+    return false;
+  }
+
+  const adminEmails = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+
+  return adminEmails.includes(user.email.toLowerCase());
+}
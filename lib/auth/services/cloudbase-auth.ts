@@ -6,6 +6,21 @@
 import { AuthResponse, User } from '../../core/types';
 import { CloudBaseConnector } from '../../database/connectors/cloudbase-connector';
 import bcrypt from 'bcryptjs';
+import {
+  IssuedSession,
+  SESSIONS_COLLECTION,
+  SessionContext,
+  SessionError,
+  StoredSession,
+  createSessionRecord,
+  hashSessionToken,
+  isAccessTokenExpired,
+  isConcurrentRefresh,
+  isSessionExpired,
+  issueSessionTokens,
+  rotateSessionRecord,
+  toIssuedSession,
+} from '../sessions';
 
 export class CloudBaseAuthService {
   private db: any = null;
@@ -47,7 +62,7 @@ export class CloudBaseAuthService {
     }
   }
 
-  async signInWithEmail(email: string, password: string): Promise<AuthResponse> {
+  async signInWithEmail(email: string, password: string, context: SessionContext = {}): Promise<AuthResponse> {
     try {
       await this.waitForInitialization();
 
@@ -68,17 +83,17 @@ export class CloudBaseAuthService {
         return { user: null, error: new Error('Invalid password') };
       }
 
-      // 生成会话令牌
-      const sessionToken = this.generateSessionToken();
-
-      // 更新最后登录时间
+      // 更新最后登录时间，并清除旧版本保存在用户文档上的明文令牌
       await this.db.collection('users')
         .doc(user._id)
         .update({
           lastLoginAt: new Date().toISOString(),
-          sessionToken
+          sessionToken: this.db.command.remove()
         });
 
+      // 创建会话
+      const issuedSession = await this.createSession(user._id, context);
+
       // 构建用户对象
       const authUser: User = {
         id: user._id,
@@ -93,8 +108,7 @@ export class CloudBaseAuthService {
       };
 
       const session = {
-        access_token: sessionToken,
-        expires_at: Date.now() + (7 * 24 * 60 * 60 * 1000), // 7 days
+        ...issuedSession,
         user: authUser
       };
 
@@ -105,7 +119,7 @@ export class CloudBaseAuthService {
     }
   }
 
-  async signUpWithEmail(email: string, password: string, name?: string): Promise<AuthResponse> {
+  async signUpWithEmail(email: string, password: string, name?: string, context: SessionContext = {}): Promise<AuthResponse> {
     try {
       await this.waitForInitialization();
 
@@ -137,13 +151,8 @@ export class CloudBaseAuthService {
 
       const result = await this.db.collection('users').add(userData);
 
-      // 生成会话令牌
-      const sessionToken = this.generateSessionToken();
-
-      // 更新会话令牌
-      await this.db.collection('users')
-        .doc(result.id)
-        .update({ sessionToken });
+      // 创建会话
+      const issuedSession = await this.createSession(result.id, context);
 
       // 构建用户对象
       const authUser: User = {
@@ -159,8 +168,7 @@ export class CloudBaseAuthService {
       };
 
       const session = {
-        access_token: sessionToken,
-        expires_at: Date.now() + (7 * 24 * 60 * 60 * 1000), // 7 days
+        ...issuedSession,
         user: authUser
       };
 
@@ -171,7 +179,7 @@ export class CloudBaseAuthService {
     }
   }
 
-  async signInWithWechat(code: string): Promise<AuthResponse> {
+  async signInWithWechat(code: string, context: SessionContext = {}): Promise<AuthResponse> {
     try {
       await this.waitForInitialization();
 
@@ -192,20 +200,16 @@ export class CloudBaseAuthService {
       if (existingUser.data.length > 0) {
         // 用户已存在，更新登录信息
         user = existingUser.data[0];
-        const sessionToken = this.generateSessionToken();
 
         await this.db.collection('users')
           .doc(user._id)
           .update({
             lastLoginAt: new Date().toISOString(),
-            sessionToken,
+            sessionToken: this.db.command.remove(),
             wechatInfo: wechatUser
           });
-
-        user.sessionToken = sessionToken;
       } else {
         // 创建新用户
-        const sessionToken = this.generateSessionToken();
         const userData = {
           wechatOpenId: wechatUser.openid,
           name: wechatUser.nickname || wechatUser.userName,
@@ -218,7 +222,6 @@ export class CloudBaseAuthService {
           region: 'CN',
           subscriptionTier: 'free',
           paymentMethod: null,
-          sessionToken,
           wechatInfo: wechatUser
         };
 
@@ -226,6 +229,9 @@ export class CloudBaseAuthService {
         user = { ...userData, _id: result.id };
       }
 
+      // 创建会话
+      const issuedSession = await this.createSession(user._id, context);
+
       // 构建用户对象
       const authUser: User = {
         id: user._id,
@@ -241,8 +247,7 @@ export class CloudBaseAuthService {
       };
 
       const session = {
-        access_token: user.sessionToken,
-        expires_at: Date.now() + (7 * 24 * 60 * 60 * 1000), // 7 days
+        ...issuedSession,
         user: authUser
       };
 
@@ -266,51 +271,106 @@ export class CloudBaseAuthService {
     }
   }
 
-  async signOut(): Promise<void> {
-    try {
-      await this.waitForInitialization();
+  /**
+   * 登出：撤销当前设备的会话（整个令牌家族），其他设备不受影响
+   * 撤销失败时抛出错误，由调用方返回失败，避免会话仍有效却被当作已登出
+   */
+  async signOut(token?: string | null): Promise<void> {
+    await this.waitForInitialization();
 
-      // 在实际实现中，这里应该清除用户的 sessionToken
-      // 需要传入用户 ID 或 token
-    } catch (error) {
-      console.error('CloudBase sign out error:', error);
+    if (!token) {
+      return;
     }
+
+    await this.db.collection(SESSIONS_COLLECTION)
+      .where({ accessTokenHash: hashSessionToken(token) })
+      .remove();
   }
 
   /**
-   * 验证token并获取用户信息
+   * 验证 access token 并获取用户信息
+   * access token 过期时返回 null，客户端应使用 refresh token 刷新；会话过期时同时删除会话
    */
   async validateTokenAndGetUser(token: string): Promise<User | null> {
     try {
       await this.waitForInitialization();
 
-      // 通过sessionToken查找用户
-      const result = await this.db.collection('users')
-        .where({ sessionToken: token })
-        .get();
+      const session = await this.findSession({ accessTokenHash: hashSessionToken(token) });
+      if (!session) {
+        return null;
+      }
 
-      const user = result.data[0];
-      if (!user) {
+      const now = new Date();
+      if (isSessionExpired(session, now)) {
+        await this.db.collection(SESSIONS_COLLECTION).doc(session._id).remove();
+        return null;
+      }
+      if (isAccessTokenExpired(session, now)) {
         return null;
       }
 
-      return {
-        id: user._id,
-        email: user.email,
-        name: user.name,
-        avatar: user.avatar,
-        createdAt: new Date(user.createdAt),
-        metadata: {
-          pro: user.pro || false,
-          region: user.region || 'CN'
-        }
-      };
+      return await this.getSessionUser(session.userId);
     } catch (error) {
       console.error('CloudBase validate token error:', error);
       return null;
     }
   }
 
+  /**
+   * 用 refresh token 换一组新令牌，旧的 refresh token 随即失效
+   * 已轮换掉的 refresh token 再次使用时撤销整个会话（多个标签页同时刷新的情况除外）
+   */
+  async refreshSession(refreshToken: string): Promise<AuthResponse> {
+    try {
+      await this.waitForInitialization();
+
+      const sessions = this.db.collection(SESSIONS_COLLECTION);
+      const refreshTokenHash = hashSessionToken(refreshToken);
+      const now = new Date();
+
+      const session = await this.findSession({ refreshTokenHash });
+      if (!session) {
+        const reused = await this.findSession({ previousRefreshTokenHashes: refreshTokenHash });
+        if (!reused) {
+          return { user: null, error: new SessionError('INVALID_REFRESH_TOKEN', 'Invalid refresh token') };
+        }
+        if (isConcurrentRefresh(reused, refreshTokenHash, now)) {
+          return { user: null, error: new SessionError('REFRESH_TOKEN_ROTATED', 'Refresh token was just rotated') };
+        }
+
+        console.warn('⚠️ 检测到 refresh token 重用，撤销会话:', reused._id);
+        await sessions.doc(reused._id).remove();
+        return { user: null, error: new SessionError('REFRESH_TOKEN_REUSED', 'Refresh token reuse detected') };
+      }
+
+      if (isSessionExpired(session, now)) {
+        await sessions.doc(session._id).remove();
+        return { user: null, error: new SessionError('SESSION_EXPIRED', 'Session expired') };
+      }
+
+      // 以旧的 refresh token 为条件更新，同时到达的两次刷新只有一次成功
+      const tokens = issueSessionTokens();
+      const rotated = rotateSessionRecord(session, tokens, now);
+      const result = await sessions
+        .where({ _id: session._id, refreshTokenHash })
+        .update({ ...rotated, previousRefreshTokenHashes: this.db.command.set(rotated.previousRefreshTokenHashes) });
+      if (!result.updated) {
+        return { user: null, error: new SessionError('REFRESH_TOKEN_ROTATED', 'Refresh token was just rotated') };
+      }
+
+      const user = await this.getSessionUser(session.userId);
+      if (!user) {
+        await sessions.doc(session._id).remove();
+        return { user: null, error: new SessionError('INVALID_REFRESH_TOKEN', 'User not found') };
+      }
+
+      return { user, session: { ...toIssuedSession(tokens, rotated), user } };
+    } catch (error) {
+      console.error('CloudBase refresh session error:', error);
+      return { user: null, error: error as Error };
+    }
+  }
+
   /**
    * 更新用户订阅等级
    */
@@ -331,8 +391,54 @@ export class CloudBaseAuthService {
     }
   }
 
-  private generateSessionToken(): string {
-    return Buffer.from(`${Date.now()}-${Math.random().toString(36).substr(2, 9)}`).toString('base64');
+  /**
+   * 创建会话，返回只出现这一次的明文令牌
+   * 同时清理该用户已过期的会话
+   */
+  private async createSession(userId: string, context: SessionContext): Promise<IssuedSession> {
+    const sessions = this.db.collection(SESSIONS_COLLECTION);
+    const tokens = issueSessionTokens();
+    const record = createSessionRecord(userId, tokens, context);
+
+    await sessions
+      .where({ userId, expiresAt: this.db.command.lt(record.createdAt) })
+      .remove();
+    await sessions.add(record);
+
+    return toIssuedSession(tokens, record);
+  }
+
+  private async findSession(query: Record<string, string>): Promise<(StoredSession & { _id: string }) | null> {
+    const result = await this.db.collection(SESSIONS_COLLECTION)
+      .where(query)
+      .limit(1)
+      .get();
+    return result.data[0] || null;
+  }
+
+  private async getSessionUser(userId: string): Promise<User | null> {
+    const result = await this.db.collection('users')
+      .doc(userId)
+      .get();
+
+    const user = result.data[0];
+    if (!user) {
+      return null;
+    }
+
+    return {
+      id: user._id,
+      email: user.email,
+      name: user.name,
+      avatar: user.avatar,
+      createdAt: new Date(user.createdAt),
+      metadata: {
+        pro: user.pro || false,
+        region: user.region || 'CN',
+        // 早期用户只有 pro 标记，没有 subscriptionTier
+        subscriptionTier: user.subscriptionTier || (user.pro ? 'pro' : 'free')
+      }
+    };
   }
 
   private async getWechatUserInfo(code: string): Promise<any> {
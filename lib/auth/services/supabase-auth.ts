@@ -226,6 +226,44 @@ export class SupabaseAuthService {
     }
   }
 
+  /**
+   * 用 refresh token 换新会话
+   * 轮换和重用检测由 Supabase Auth 完成（需开启 Refresh Token Rotation，见 docs/supabase-setup.md）
+   */
+  async refreshSession(refreshToken: string): Promise<AuthResponse> {
+    try {
+      await this.waitForInitialization();
+
+      const { data, error } = await this.supabase.auth.refreshSession({ refresh_token: refreshToken });
+
+      if (error || !data.session || !data.user) {
+        const refreshError = new Error(error?.message || 'Invalid refresh token');
+        refreshError.name = 'INVALID_REFRESH_TOKEN';
+        return { user: null, error: refreshError };
+      }
+
+      const authUser: User = {
+        id: data.user.id,
+        email: data.user.email,
+        name: data.user.user_metadata?.name,
+        avatar: data.user.user_metadata?.avatar_url,
+        createdAt: new Date(data.user.created_at),
+        metadata: {
+          ...data.user.user_metadata,
+          region: 'INTL'
+        }
+      };
+
+      return {
+        user: authUser,
+        session: data.session
+      };
+    } catch (error) {
+      console.error('Supabase refresh session error:', error);
+      return { user: null, error: error as Error };
+    }
+  }
+
   async signOut(): Promise<void> {
     try {
       await this.waitForInitialization();
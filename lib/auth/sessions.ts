@@ -0,0 +1,215 @@
+/**
+ * 登录会话工具（CloudBase）
+ *
+ * 每台设备登录都会创建独立的会话，会话即一个令牌家族：
+ * 短期的 access token 用于请求，refresh token 每次使用后轮换；
+ * 令牌只在签发时返回给客户端一次，数据库中只保存其 SHA-256 哈希。
+ * 已轮换掉的 refresh token 再次出现说明令牌可能泄露，此时撤销整个会话
+ */
+
+import { createHash, randomBytes } from 'crypto';
+
+/** 会话集合名 */
+export const SESSIONS_COLLECTION = 'sessions';
+
+/** 会话令牌字节数 */
+export const SESSION_TOKEN_BYTES = 32;
+
+/** access token 有效期 */
+export const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;
+
+/** 闲置多久后会话过期（每次刷新时顺延） */
+export const SESSION_IDLE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** 会话最长有效期，顺延不会超过登录时间加上这个值 */
+export const SESSION_MAX_LIFETIME_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * 刚被轮换掉的 refresh token 在这段时间内再次使用时，视为多个标签页同时刷新，不撤销会话
+ */
+export const REFRESH_TOKEN_REUSE_GRACE_MS = 10 * 1000;
+
+/** 保留的已轮换 refresh token 哈希数量，用于重用检测 */
+const MAX_PREVIOUS_REFRESH_TOKENS = 20;
+
+/** 认证 cookie 的有效期（秒），与会话最长有效期一致，实际是否有效由服务端判断 */
+export const SESSION_COOKIE_MAX_AGE = SESSION_MAX_LIFETIME_MS / 1000;
+
+/**
+ * 会话记录
+ */
+export interface StoredSession {
+  userId: string;
+  accessTokenHash: string;
+  accessExpiresAt: string;
+  refreshTokenHash: string;
+  /** 已轮换掉的 refresh token 哈希，最近的在最后 */
+  previousRefreshTokenHashes: string[];
+  /** 登录设备的 User-Agent，用于区分设备 */
+  userAgent?: string;
+  createdAt: string;
+  lastUsedAt: string;
+  /** 最近一次轮换时间 */
+  rotatedAt?: string;
+  /** 会话（refresh token）过期时间 */
+  expiresAt: string;
+}
+
+/**
+ * 签发的一组令牌及其哈希
+ */
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  accessTokenHash: string;
+  refreshTokenHash: string;
+}
+
+/**
+ * 返回给客户端的会话（字段名和时间单位与 Supabase 的 session 一致）
+ */
+export interface IssuedSession {
+  access_token: string;
+  refresh_token: string;
+  /** access token 过期时间（Unix 秒） */
+  expires_at: number;
+}
+
+/**
+ * 创建会话时的请求信息
+ */
+export interface SessionContext {
+  userAgent?: string | null;
+}
+
+/**
+ * 刷新失败的原因
+ */
+export const SESSION_ERROR_CODES = [
+  "INVALID_REFRESH_TOKEN",
+  "REFRESH_TOKEN_REUSED",
+  "REFRESH_TOKEN_ROTATED",
+  "SESSION_EXPIRED",
+] as const;
+
+export type SessionErrorCode = typeof SESSION_ERROR_CODES[number];
+
+/**
+ * 会话错误；name 与 code 相同，便于路由把 error.name 作为错误码返回
+ */
+export class SessionError extends Error {
+  public readonly code: SessionErrorCode;
+
+  constructor(code: SessionErrorCode, message: string) {
+    super(message);
+    this.name = code;
+    this.code = code;
+  }
+}
+
+/**
+ * 生成会话令牌
+ */
+export function generateSessionToken(): string {
+  return randomBytes(SESSION_TOKEN_BYTES).toString('base64url');
+}
+
+/**
+ * 会话令牌的哈希（数据库中只保存哈希）
+ */
+export function hashSessionToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * 签发一组新的 access token 和 refresh token
+ */
+export function issueSessionTokens(): SessionTokens {
+  const accessToken = generateSessionToken();
+  const refreshToken = generateSessionToken();
+  return {
+    accessToken,
+    refreshToken,
+    accessTokenHash: hashSessionToken(accessToken),
+    refreshTokenHash: hashSessionToken(refreshToken),
+  };
+}
+
+/**
+ * 返回给客户端的会话
+ */
+export function toIssuedSession(tokens: SessionTokens, session: Pick<StoredSession, 'accessExpiresAt'>): IssuedSession {
+  return {
+    access_token: tokens.accessToken,
+    refresh_token: tokens.refreshToken,
+    expires_at: Math.floor(new Date(session.accessExpiresAt).getTime() / 1000),
+  };
+}
+
+/**
+ * 新建会话记录
+ */
+export function createSessionRecord(
+  userId: string,
+  tokens: SessionTokens,
+  context: SessionContext = {},
+  now: Date = new Date()
+): StoredSession {
+  return {
+    userId,
+    accessTokenHash: tokens.accessTokenHash,
+    accessExpiresAt: new Date(now.getTime() + ACCESS_TOKEN_TTL_MS).toISOString(),
+    refreshTokenHash: tokens.refreshTokenHash,
+    previousRefreshTokenHashes: [],
+    ...(context.userAgent && { userAgent: context.userAgent.slice(0, 256) }),
+    createdAt: now.toISOString(),
+    lastUsedAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + SESSION_IDLE_TTL_MS).toISOString(),
+  };
+}
+
+/**
+ * 轮换令牌后需要写回的字段；会话过期时间顺延，但不超过最长有效期
+ */
+export function rotateSessionRecord(
+  session: StoredSession,
+  tokens: SessionTokens,
+  now: Date = new Date()
+): Omit<StoredSession, 'userId' | 'userAgent' | 'createdAt'> {
+  const maxExpiresAt = new Date(session.createdAt).getTime() + SESSION_MAX_LIFETIME_MS;
+  return {
+    accessTokenHash: tokens.accessTokenHash,
+    accessExpiresAt: new Date(Math.min(now.getTime() + ACCESS_TOKEN_TTL_MS, maxExpiresAt)).toISOString(),
+    refreshTokenHash: tokens.refreshTokenHash,
+    previousRefreshTokenHashes: [...session.previousRefreshTokenHashes, session.refreshTokenHash].slice(-MAX_PREVIOUS_REFRESH_TOKENS),
+    lastUsedAt: now.toISOString(),
+    rotatedAt: now.toISOString(),
+    expiresAt: new Date(Math.min(now.getTime() + SESSION_IDLE_TTL_MS, maxExpiresAt)).toISOString(),
+  };
+}
+
+/**
+ * 会话是否已过期（闲置过期或超过最长有效期）
+ */
+export function isSessionExpired(session: StoredSession, now: Date = new Date()): boolean {
+  const createdAt = new Date(session.createdAt).getTime();
+  return new Date(session.expiresAt).getTime() <= now.getTime()
+    || createdAt + SESSION_MAX_LIFETIME_MS <= now.getTime();
+}
+
+/**
+ * access token 是否已过期
+ */
+export function isAccessTokenExpired(session: StoredSession, now: Date = new Date()): boolean {
+  return new Date(session.accessExpiresAt).getTime() <= now.getTime();
+}
+
+/**
+ * 已轮换掉的 refresh token 是否属于多个标签页同时刷新的情况（是最近一次被轮换掉的且仍在宽限期内）
+ */
+export function isConcurrentRefresh(session: StoredSession, refreshTokenHash: string, now: Date = new Date()): boolean {
+  const previous = session.previousRefreshTokenHashes;
+  return previous[previous.length - 1] === refreshTokenHash
+    && Boolean(session.rotatedAt)
+    && now.getTime() - new Date(session.rotatedAt as string).getTime() < REFRESH_TOKEN_REUSE_GRACE_MS;
+}
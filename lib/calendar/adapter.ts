@@ -0,0 +1,85 @@
+/**
+ * 日历仓库接口
+ */
+
+import { StoreProvider, resolveStoreProvider } from '../database/adapter';
+import { CalendarEntry, CalendarFeed } from './types';
+
+/**
+ * 日历仓库接口
+ */
+export interface CalendarRepository {
+  /**
+   * 查询用户的日历条目（按日期和开始时间排序）
+   */
+  listEntries(userId: string): Promise<CalendarEntry[]>;
+
+  /**
+   * 读取单个条目，不存在或不属于该用户时返回 null
+   */
+  getEntry(userId: string, entryId: string): Promise<CalendarEntry | null>;
+
+  /**
+   * 保存条目；同一条目在同一时间已存在时返回已有记录
+   */
+  addEntry(entry: Omit<CalendarEntry, 'id' | 'createdAt'>): Promise<CalendarEntry>;
+
+  /**
+   * 删除条目，返回是否删除成功
+   */
+  removeEntry(userId: string, entryId: string): Promise<boolean>;
+
+  /**
+   * 读取用户的订阅，没有时返回 null
+   */
+  getFeed(userId: string): Promise<CalendarFeed | null>;
+
+  /**
+   * 按密钥哈希查找订阅
+   */
+  findFeedByTokenHash(tokenHash: string): Promise<CalendarFeed | null>;
+
+  /**
+   * 保存订阅，替换用户之前的订阅（旧地址随即失效）
+   */
+  saveFeed(userId: string, tokenHash: string): Promise<CalendarFeed>;
+
+  /**
+   * 撤销订阅，返回是否删除成功
+   */
+  removeFeed(userId: string): Promise<boolean>;
+}
+
+/**
+ * 创建日历仓库工厂函数
+ */
+export function createCalendarRepository(type: StoreProvider): CalendarRepository {
+  switch (type) {
+    case "supabase":
+      const { SupabaseCalendarRepository } = require("./repositories/supabase-repository");
+      return new SupabaseCalendarRepository();
+    case "cloudbase":
+      const { CloudBaseCalendarRepository } = require("./repositories/cloudbase-repository");
+      return new CloudBaseCalendarRepository();
+    case "memory":
+      const { MemoryCalendarRepository } = require("./repositories/memory-repository");
+      return new MemoryCalendarRepository();
+    default:
+      throw new Error(`Unsupported calendar store: ${type}`);
+  }
+}
+
+/**
+ * 全局实例（单例模式）
+ */
+let calendarInstance: CalendarRepository | null = null;
+
+/**
+ * 获取日历仓库
+ */
+export function getCalendarRepository(): CalendarRepository {
+  if (!calendarInstance) {
+    calendarInstance = createCalendarRepository(resolveStoreProvider(process.env.CALENDAR_STORE));
+  }
+  return calendarInstance;
+}
@@ -0,0 +1,122 @@
+/**
+ * iCalendar (.ics) 生成（RFC 5545）
+ *
+ * 事件时间使用浮动时间（不带时区），日历客户端按用户所在时区显示，
+ * 与行程、日历条目中保存的用户本地日期一致
+ */
+
+/**
+ * 日历事件
+ */
+export interface IcsEvent {
+  /** 全局唯一标识，同一事件多次导出时保持不变，客户端据此去重 */
+  uid: string;
+  title: string;
+  description?: string;
+  location?: string;
+  /** 本地日期，例如 2025-01-31 */
+  date: string;
+  /** 本地时间，例如 09:00 */
+  start: string;
+  end: string;
+  /** 结束日期，跨过午夜时为次日；默认与 date 相同 */
+  endDate?: string;
+}
+
+/**
+ * 日历选项
+ */
+export interface IcsCalendarOptions {
+  /** 日历名称（X-WR-CALNAME） */
+  name?: string;
+  /** 生成时间，用于 DTSTAMP */
+  now?: Date;
+}
+
+const PRODUCT_ID = '-//RandomLife//Calendar//ZH';
+
+/** 单行最大字节数（不含换行） */
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * 转义文本值中的特殊字符
+ */
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * 按 75 字节折行，续行以空格开头；不拆开多字节字符
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // 续行开头的空格占一个字节
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+/**
+ * 本地日期和时间转为浮动时间，例如 20250131T090000
+ */
+function formatLocalDateTime(date: string, time: string): string {
+  return `${date.replace(/-/g, '')}T${time.replace(':', '')}00`;
+}
+
+/**
+ * UTC 时间，例如 20250131T010000Z
+ */
+function formatUtcDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * 生成 .ics 文件内容
+ */
+export function buildIcsCalendar(events: IcsEvent[], options: IcsCalendarOptions = {}): string {
+  const stamp = formatUtcDateTime(options.now || new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...(options.name ? [`X-WR-CALNAME:${escapeIcsText(options.name)}`] : []),
+  ];
+
+  events.forEach(event => {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatLocalDateTime(event.date, event.start)}`,
+      `DTEND:${formatLocalDateTime(event.endDate || event.date, event.end)}`,
+      `SUMMARY:${escapeIcsText(event.title)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeIcsText(event.description)}`] : []),
+      ...(event.location ? [`LOCATION:${escapeIcsText(event.location)}`] : []),
+      'END:VEVENT'
+    );
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
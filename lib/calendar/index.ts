@@ -0,0 +1,12 @@
+/**
+ * 日历模块统一导出
+ */
+
+export * from './ics';
+export * from './types';
+export * from './adapter';
+export * from './service';
+
+// 便捷导出
+export { getCalendarRepository } from './adapter';
+export { CalendarService } from './service';
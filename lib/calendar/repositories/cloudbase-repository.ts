@@ -0,0 +1,129 @@
+/**
+ * CloudBase 日历仓库
+ * 数据存放在 calendar_entries 和 calendar_feeds 集合；订阅以用户 ID 作为文档 ID，每个用户最多一个
+ */
+
+import { getDatabaseClient } from '../../database/adapter';
+import { CalendarRepository } from '../adapter';
+import { CalendarEntry, CalendarFeed } from '../types';
+
+const ENTRIES_COLLECTION = 'calendar_entries';
+const FEEDS_COLLECTION = 'calendar_feeds';
+
+/** 单个用户的日历条目数上限 */
+const MAX_ENTRIES = 500;
+
+export class CloudBaseCalendarRepository implements CalendarRepository {
+  async listEntries(userId: string): Promise<CalendarEntry[]> {
+    const db = await getDatabaseClient('cloudbase');
+
+    const result = await db.collection(ENTRIES_COLLECTION)
+      .where({ userId })
+      .orderBy('date', 'asc')
+      .orderBy('startTime', 'asc')
+      .limit(MAX_ENTRIES)
+      .get();
+
+    return result.data.map((doc: any) => this.fromEntryDocument(doc));
+  }
+
+  async getEntry(userId: string, entryId: string): Promise<CalendarEntry | null> {
+    const db = await getDatabaseClient('cloudbase');
+
+    const result = await db.collection(ENTRIES_COLLECTION)
+      .where({ _id: entryId, userId })
+      .limit(1)
+      .get();
+
+    return result.data.length > 0 ? this.fromEntryDocument(result.data[0]) : null;
+  }
+
+  async addEntry(entry: Omit<CalendarEntry, 'id' | 'createdAt'>): Promise<CalendarEntry> {
+    const db = await getDatabaseClient('cloudbase');
+
+    const existing = await db.collection(ENTRIES_COLLECTION)
+      .where({
+        userId: entry.userId,
+        category: entry.category,
+        itemId: entry.itemId,
+        date: entry.date,
+        startTime: entry.startTime,
+      })
+      .limit(1)
+      .get();
+
+    if (existing.data.length > 0) {
+      return this.fromEntryDocument(existing.data[0]);
+    }
+
+    const document = { ...entry, createdAt: new Date().toISOString() };
+    const result = await db.collection(ENTRIES_COLLECTION).add(document);
+    return { ...document, id: result.id };
+  }
+
+  async removeEntry(userId: string, entryId: string): Promise<boolean> {
+    const db = await getDatabaseClient('cloudbase');
+
+    const result = await db.collection(ENTRIES_COLLECTION)
+      .where({ _id: entryId, userId })
+      .remove();
+
+    return (result.deleted || 0) > 0;
+  }
+
+  async getFeed(userId: string): Promise<CalendarFeed | null> {
+    const db = await getDatabaseClient('cloudbase');
+
+    const result = await db.collection(FEEDS_COLLECTION)
+      .doc(userId)
+      .get();
+
+    const doc = result.data[0];
+    return doc ? this.fromFeedDocument(doc) : null;
+  }
+
+  async findFeedByTokenHash(tokenHash: string): Promise<CalendarFeed | null> {
+    const db = await getDatabaseClient('cloudbase');
+
+    const result = await db.collection(FEEDS_COLLECTION)
+      .where({ tokenHash })
+      .limit(1)
+      .get();
+
+    return result.data.length > 0 ? this.fromFeedDocument(result.data[0]) : null;
+  }
+
+  async saveFeed(userId: string, tokenHash: string): Promise<CalendarFeed> {
+    const db = await getDatabaseClient('cloudbase');
+    const feed: CalendarFeed = { userId, tokenHash, createdAt: new Date().toISOString() };
+
+    await db.collection(FEEDS_COLLECTION)
+      .doc(userId)
+      .set(feed);
+
+    return feed;
+  }
+
+  async removeFeed(userId: string): Promise<boolean> {
+    const db = await getDatabaseClient('cloudbase');
+
+    const result = await db.collection(FEEDS_COLLECTION)
+      .doc(userId)
+      .remove();
+
+    return (result.deleted || 0) > 0;
+  }
+
+  private fromEntryDocument(doc: any): CalendarEntry {
+    const { _id, ...entry } = doc;
+    return { ...entry, id: _id } as CalendarEntry;
+  }
+
+  private fromFeedDocument(doc: any): CalendarFeed {
+    return {
+      userId: doc.userId,
+      tokenHash: doc.tokenHash,
+      createdAt: doc.createdAt,
+    };
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * 内存日历仓库
+ */
+
+import { getMemoryCollection } from '../../database/adapter';
+import { generateId } from '../../utils/helpers';
+import { CalendarRepository } from '../adapter';
+import { CalendarEntry, CalendarFeed } from '../types';
+
+export class MemoryCalendarRepository implements CalendarRepository {
+  private entries = getMemoryCollection<CalendarEntry[]>('calendar_entries');
+  private feeds = getMemoryCollection<CalendarFeed>('calendar_feeds');
+
+  async listEntries(userId: string): Promise<CalendarEntry[]> {
+    return [...(this.entries.get(userId) || [])]
+      .sort((a, b) => `${a.date} ${a.startTime}`.localeCompare(`${b.date} ${b.startTime}`));
+  }
+
+  async getEntry(userId: string, entryId: string): Promise<CalendarEntry | null> {
+    return (this.entries.get(userId) || []).find(entry => entry.id === entryId) || null;
+  }
+
+  async addEntry(entry: Omit<CalendarEntry, 'id' | 'createdAt'>): Promise<CalendarEntry> {
+    const existing = this.entries.get(entry.userId) || [];
+    const current = existing.find(saved =>
+      saved.category === entry.category &&
+      saved.itemId === entry.itemId &&
+      saved.date === entry.date &&
+      saved.startTime === entry.startTime
+    );
+    if (current) {
+      return current;
+    }
+
+    const saved: CalendarEntry = { ...entry, id: generateId('event'), createdAt: new Date().toISOString() };
+    this.entries.set(entry.userId, [...existing, saved]);
+    return saved;
+  }
+
+  async removeEntry(userId: string, entryId: string): Promise<boolean> {
+    const existing = this.entries.get(userId) || [];
+    const kept = existing.filter(entry => entry.id !== entryId);
+    this.entries.set(userId, kept);
+    return kept.length < existing.length;
+  }
+
+  async getFeed(userId: string): Promise<CalendarFeed | null> {
+    return this.feeds.get(userId) || null;
+  }
+
+  async findFeedByTokenHash(tokenHash: string): Promise<CalendarFeed | null> {
+    return Array.from(this.feeds.values()).find(feed => feed.tokenHash === tokenHash) || null;
+  }
+
+  async saveFeed(userId: string, tokenHash: string): Promise<CalendarFeed> {
+    const feed: CalendarFeed = { userId, tokenHash, createdAt: new Date().toISOString() };
+    this.feeds.set(userId, feed);
+    return feed;
+  }
+
+  async removeFeed(userId: string): Promise<boolean> {
+    return this.feeds.delete(userId);
+  }
+}
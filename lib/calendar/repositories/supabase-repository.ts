@@ -0,0 +1,188 @@
+/**
+ * Supabase 日历仓库
+ * 数据存放在 calendar_entries 和 calendar_feeds 表（见 supabase/calendar.sql）
+ */
+
+import { getDatabaseClient } from '../../database/adapter';
+import { CalendarRepository } from '../adapter';
+import { CalendarEntry, CalendarFeed } from '../types';
+
+const ENTRIES_TABLE = 'calendar_entries';
+const FEEDS_TABLE = 'calendar_feeds';
+
+export class SupabaseCalendarRepository implements CalendarRepository {
+  async listEntries(userId: string): Promise<CalendarEntry[]> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { data, error } = await supabase
+      .from(ENTRIES_TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .order('date', { ascending: true })
+      .order('start_time', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+    return (data || []).map((row: any) => this.fromEntryRow(row));
+  }
+
+  async getEntry(userId: string, entryId: string): Promise<CalendarEntry | null> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { data, error } = await supabase
+      .from(ENTRIES_TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .eq('id', entryId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    return data ? this.fromEntryRow(data) : null;
+  }
+
+  async addEntry(entry: Omit<CalendarEntry, 'id' | 'createdAt'>): Promise<CalendarEntry> {
+    const supabase = await getDatabaseClient('supabase');
+
+    // 同一条目同一时间只保留一条，重复加入时返回已有记录
+    const { data, error } = await supabase
+      .from(ENTRIES_TABLE)
+      .upsert({
+        user_id: entry.userId,
+        category: entry.category,
+        item_id: entry.itemId,
+        title: entry.title,
+        description: entry.description ?? null,
+        date: entry.date,
+        start_time: entry.startTime,
+        duration_minutes: entry.durationMinutes,
+      }, { onConflict: 'user_id,category,item_id,date,start_time', ignoreDuplicates: true })
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    if (data) {
+      return this.fromEntryRow(data);
+    }
+
+    const { data: existing, error: fetchError } = await supabase
+      .from(ENTRIES_TABLE)
+      .select('*')
+      .eq('user_id', entry.userId)
+      .eq('category', entry.category)
+      .eq('item_id', entry.itemId)
+      .eq('date', entry.date)
+      .eq('start_time', entry.startTime)
+      .single();
+
+    if (fetchError) {
+      throw fetchError;
+    }
+    return this.fromEntryRow(existing);
+  }
+
+  async removeEntry(userId: string, entryId: string): Promise<boolean> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { error, count } = await supabase
+      .from(ENTRIES_TABLE)
+      .delete({ count: 'exact' })
+      .eq('user_id', userId)
+      .eq('id', entryId);
+
+    if (error) {
+      throw error;
+    }
+    return (count || 0) > 0;
+  }
+
+  async getFeed(userId: string): Promise<CalendarFeed | null> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { data, error } = await supabase
+      .from(FEEDS_TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    return data ? this.fromFeedRow(data) : null;
+  }
+
+  async findFeedByTokenHash(tokenHash: string): Promise<CalendarFeed | null> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { data, error } = await supabase
+      .from(FEEDS_TABLE)
+      .select('*')
+      .eq('token_hash', tokenHash)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    return data ? this.fromFeedRow(data) : null;
+  }
+
+  async saveFeed(userId: string, tokenHash: string): Promise<CalendarFeed> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { data, error } = await supabase
+      .from(FEEDS_TABLE)
+      .upsert({
+        user_id: userId,
+        token_hash: tokenHash,
+        created_at: new Date().toISOString(),
+      }, { onConflict: 'user_id' })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+    return this.fromFeedRow(data);
+  }
+
+  async removeFeed(userId: string): Promise<boolean> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { error, count } = await supabase
+      .from(FEEDS_TABLE)
+      .delete({ count: 'exact' })
+      .eq('user_id', userId);
+
+    if (error) {
+      throw error;
+    }
+    return (count || 0) > 0;
+  }
+
+  private fromEntryRow(row: any): CalendarEntry {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      category: row.category,
+      itemId: row.item_id,
+      title: row.title,
+      description: row.description ?? undefined,
+      date: row.date,
+      startTime: String(row.start_time).slice(0, 5),
+      durationMinutes: row.duration_minutes,
+      createdAt: new Date(row.created_at).toISOString(),
+    };
+  }
+
+  private fromFeedRow(row: any): CalendarFeed {
+    return {
+      userId: row.user_id,
+      tokenHash: row.token_hash,
+      createdAt: new Date(row.created_at).toISOString(),
+    };
+  }
+}
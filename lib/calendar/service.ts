@@ -0,0 +1,103 @@
+/**
+ * 日历服务
+ *
+ * 把接受的推荐排进日历、导出单个事件，并管理可撤销的订阅地址
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { CatalogRepository, getCatalogRepository } from '../catalog/adapter';
+import { parseDurationMinutes } from '../catalog/types';
+import { CalendarRepository, getCalendarRepository } from './adapter';
+import { buildIcsCalendar } from './ics';
+import {
+  CalendarEntry,
+  CalendarEntryInput,
+  CalendarFeedStatus,
+  DEFAULT_EVENT_MINUTES,
+  FEED_TOKEN_BYTES,
+  toCalendarEvent,
+} from './types';
+
+/**
+ * 订阅密钥的哈希（数据库只保存哈希）
+ */
+export function hashFeedToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export class CalendarService {
+  constructor(
+    private repository: CalendarRepository = getCalendarRepository(),
+    private catalog: CatalogRepository = getCatalogRepository()
+  ) {}
+
+  /**
+   * 把推荐条目加入日历；条目不存在或已归档时返回 null
+   */
+  async addEntry(userId: string, input: CalendarEntryInput, today: string): Promise<CalendarEntry | null> {
+    const item = await this.catalog.getItem(input.category, input.itemId);
+    if (!item || item.archived) {
+      return null;
+    }
+
+    const duration = "duration" in item ? parseDurationMinutes(item.duration) : null;
+    return this.repository.addEntry({
+      userId,
+      category: input.category,
+      itemId: item.id,
+      title: item.title,
+      description: item.description,
+      date: input.date || today,
+      startTime: input.startTime,
+      durationMinutes: duration || DEFAULT_EVENT_MINUTES,
+    });
+  }
+
+  /**
+   * 单个条目的 .ics 内容；条目不存在时返回 null
+   */
+  async exportEntry(userId: string, entryId: string): Promise<string | null> {
+    const entry = await this.repository.getEntry(userId, entryId);
+    if (!entry) {
+      return null;
+    }
+    return buildIcsCalendar([toCalendarEvent(entry)], { name: entry.title });
+  }
+
+  /**
+   * 订阅状态
+   */
+  async getFeedStatus(userId: string): Promise<CalendarFeedStatus> {
+    const feed = await this.repository.getFeed(userId);
+    return feed ? { enabled: true, createdAt: feed.createdAt } : { enabled: false };
+  }
+
+  /**
+   * 生成新的订阅密钥并返回明文；之前的订阅地址随即失效
+   */
+  async createFeedToken(userId: string): Promise<string> {
+    const token = randomBytes(FEED_TOKEN_BYTES).toString('base64url');
+    await this.repository.saveFeed(userId, hashFeedToken(token));
+    return token;
+  }
+
+  /**
+   * 撤销订阅，返回是否存在订阅
+   */
+  async revokeFeed(userId: string): Promise<boolean> {
+    return this.repository.removeFeed(userId);
+  }
+
+  /**
+   * 订阅地址对应的全部日历事件；密钥无效或已撤销时返回 null
+   */
+  async exportFeed(token: string): Promise<string | null> {
+    const feed = await this.repository.findFeedByTokenHash(hashFeedToken(token));
+    if (!feed) {
+      return null;
+    }
+
+    const entries = await this.repository.listEntries(feed.userId);
+    return buildIcsCalendar(entries.map(toCalendarEvent), { name: "RandomLife" });
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * 日历条目类型定义
+ *
+ * 用户接受某条推荐后把它排进日历，可以单独下载 .ics，
+ * 也可以通过带密钥的订阅地址让日历客户端自动同步
+ */
+
+import { z } from 'zod';
+import { CATALOG_CATEGORIES, CatalogCategory } from '../catalog/types';
+import { IcsEvent } from './ics';
+
+/** 条目没有时长字段（或无法解析）时的默认时长 */
+export const DEFAULT_EVENT_MINUTES = 60;
+
+/** 订阅地址密钥的随机字节数 */
+export const FEED_TOKEN_BYTES = 32;
+
+/**
+ * 日历条目（保存接受时的推荐快照，目录修改不影响已排进日历的事件）
+ */
+export interface CalendarEntry {
+  id: string;
+  userId: string;
+  category: CatalogCategory;
+  itemId: string;
+  title: string;
+  description?: string;
+  /** 用户本地日期，例如 2025-01-31 */
+  date: string;
+  /** 开始时间，例如 18:30 */
+  startTime: string;
+  /** 时长（分钟），取自条目的 duration 字段 */
+  durationMinutes: number;
+  createdAt: string;
+}
+
+/**
+ * 日历订阅；只保存密钥的哈希，明文只在生成时返回一次
+ */
+export interface CalendarFeed {
+  userId: string;
+  tokenHash: string;
+  createdAt: string;
+}
+
+/**
+ * 订阅状态（不含密钥）
+ */
+export interface CalendarFeedStatus {
+  enabled: boolean;
+  createdAt?: string;
+}
+
+/**
+ * 日期必须真实存在（例如 2024-02-30 会被拒绝）
+ */
+export const calendarDateSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD")
+  .refine(value => {
+    const date = new Date(`${value}T00:00:00Z`);
+    return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+  }, "Invalid date");
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected HH:MM");
+
+/**
+ * 加入日历请求；未指定日期时为今天
+ */
+export const calendarEntryInputSchema = z.object({
+  category: z.enum(CATALOG_CATEGORIES),
+  itemId: z.string().min(1),
+  date: calendarDateSchema.optional(),
+  startTime: timeSchema,
+});
+
+export type CalendarEntryInput = z.infer<typeof calendarEntryInputSchema>;
+
+/**
+ * 在开始时间上加若干分钟，返回结束日期和时间（可能跨到后面的日期）
+ */
+export function addMinutes(date: string, time: string, minutes: number): { date: string; time: string } {
+  const [hours, mins] = time.split(":").map(Number);
+  const end = new Date(new Date(`${date}T00:00:00Z`).getTime() + (hours * 60 + mins + minutes) * 60 * 1000);
+  return {
+    date: end.toISOString().slice(0, 10),
+    time: end.toISOString().slice(11, 16),
+  };
+}
+
+/**
+ * 日历条目转为日历事件；UID 只依赖条目 ID，重复导出或订阅刷新时客户端不会产生重复事件
+ */
+export function toCalendarEvent(entry: CalendarEntry): IcsEvent {
+  const end = addMinutes(entry.date, entry.startTime, entry.durationMinutes);
+  return {
+    uid: `${entry.id}@randomlife`,
+    title: entry.title,
+    description: entry.description,
+    date: entry.date,
+    start: entry.startTime,
+    end: end.time,
+    endDate: end.date,
+  };
+}
@@ -0,0 +1,138 @@
+/**
+ * 推荐内容目录仓库接口
+ */
+
+import { StoreProvider, resolveStoreProvider } from '../database/adapter';
+import {
+  CatalogCategory,
+  CatalogChange,
+  CatalogChangeQuery,
+  CatalogItem,
+  CatalogItemMap,
+  CatalogQuery,
+} from './types';
+
+/**
+ * 目录仓库接口
+ * 路由只依赖此接口，具体存储由 Supabase / CloudBase / 内存实现
+ */
+export interface CatalogRepository {
+  /**
+   * 列出某个分类下的条目（默认不含已归档条目）
+   */
+  listItems<C extends CatalogCategory>(category: C, query?: CatalogQuery): Promise<CatalogItemMap[C][]>;
+
+  /**
+   * 获取单个条目
+   */
+  getItem<C extends CatalogCategory>(category: C, id: string): Promise<CatalogItemMap[C] | null>;
+
+  /**
+   * 新建或更新条目
+   */
+  saveItem(item: CatalogItem): Promise<CatalogItem>;
+
+  /**
+   * 归档条目（不再出现在推荐中）
+   */
+  archiveItem(category: CatalogCategory, id: string): Promise<void>;
+}
+
+/**
+ * 目录仓库配置
+ */
+export interface CatalogRepositoryConfig {
+  /** 内存实现的初始数据 */
+  items?: CatalogItem[];
+  /** 内存实现的 JSON 文件路径（读写持久化） */
+  filePath?: string;
+}
+
+/**
+ * 创建目录仓库工厂函数
+ */
+export function createCatalogRepository(
+  type: StoreProvider,
+  config: CatalogRepositoryConfig = {}
+): CatalogRepository {
+  switch (type) {
+    case "supabase":
+      const { SupabaseCatalogRepository } = require("./repositories/supabase-repository");
+      return new SupabaseCatalogRepository();
+    case "cloudbase":
+      const { CloudBaseCatalogRepository } = require("./repositories/cloudbase-repository");
+      return new CloudBaseCatalogRepository();
+    case "memory":
+      const { MemoryCatalogRepository } = require("./repositories/memory-repository");
+      return new MemoryCatalogRepository(config);
+    default:
+      throw new Error(`Unsupported catalog store: ${type}`);
+  }
+}
+
+/**
+ * 全局目录仓库实例（单例模式）
+ */
+let catalogInstance: CatalogRepository | null = null;
+
+/**
+ * 获取目录仓库
+ * 通过 CATALOG_STORE 显式指定存储，未指定时跟随部署区域的数据库
+ */
+export function getCatalogRepository(): CatalogRepository {
+  if (!catalogInstance) {
+    catalogInstance = createCatalogRepository(resolveStoreProvider(process.env.CATALOG_STORE), {
+      filePath: process.env.CATALOG_JSON_PATH,
+    });
+  }
+  return catalogInstance;
+}
+
+/**
+ * 目录变更记录仓库接口
+ */
+export interface CatalogChangeRepository {
+  /**
+   * 追加一条变更记录
+   */
+  addChange(change: Omit<CatalogChange, 'id' | 'createdAt'>): Promise<CatalogChange>;
+
+  /**
+   * 按时间倒序列出变更记录
+   */
+  listChanges(query?: CatalogChangeQuery): Promise<CatalogChange[]>;
+}
+
+/**
+ * 创建目录变更记录仓库工厂函数
+ */
+export function createCatalogChangeRepository(type: StoreProvider): CatalogChangeRepository {
+  switch (type) {
+    case "supabase":
+      const { SupabaseCatalogChangeRepository } = require("./repositories/supabase-change-repository");
+      return new SupabaseCatalogChangeRepository();
+    case "cloudbase":
+      const { CloudBaseCatalogChangeRepository } = require("./repositories/cloudbase-change-repository");
+      return new CloudBaseCatalogChangeRepository();
+    case "memory":
+      const { MemoryCatalogChangeRepository } = require("./repositories/memory-change-repository");
+      return new MemoryCatalogChangeRepository();
+    default:
+      throw new Error(`Unsupported catalog store: ${type}`);
+  }
+}
+
+/**
+ * 全局目录变更记录仓库实例（单例模式）
+ */
+let changeInstance: CatalogChangeRepository | null = null;
+
+/**
+ * 获取目录变更记录仓库，与目录使用同一存储
+ */
+export function getCatalogChangeRepository(): CatalogChangeRepository {
+  if (!changeInstance) {
+    changeInstance = createCatalogChangeRepository(resolveStoreProvider(process.env.CATALOG_STORE));
+  }
+  return changeInstance;
+}
@@ -0,0 +1,152 @@
+/**
+ * 目录管理服务
+ *
+ * 管理后台对条目的新建、编辑、归档都经由此服务，写入条目的同时记录变更历史
+ */
+
+import { User } from '../core/types';
+import {
+  CatalogChangeRepository,
+  CatalogRepository,
+  getCatalogChangeRepository,
+  getCatalogRepository,
+} from './adapter';
+import {
+  CATALOG_CATEGORIES,
+  CatalogCategory,
+  CatalogChangeAction,
+  CatalogItem,
+  diffCatalogItems,
+} from './types';
+import { CatalogImportPlan, CatalogImportRow, planCatalogImport } from './transfer';
+
+/**
+ * 批量导入选项
+ */
+export interface CatalogImportOptions {
+  /** 只生成变更计划，不写入 */
+  dryRun?: boolean;
+  /** 归档文件中已不存在的条目 */
+  archiveMissing?: boolean;
+}
+
+/**
+ * 批量导入结果
+ */
+export interface CatalogImportResult {
+  plan: CatalogImportPlan;
+  /** 是否已写入；试运行或存在行级错误时为 false */
+  applied: boolean;
+}
+
+/**
+ * 判断条目是否匹配搜索关键词（标题、描述、类型、ID、标签）
+ */
+export function matchesCatalogSearch(item: CatalogItem, search: string): boolean {
+  const keyword = search.trim().toLowerCase();
+  if (!keyword) {
+    return true;
+  }
+
+  return [item.id, item.type, item.title, item.description || '', ...(item.tags || [])]
+    .some(value => value.toLowerCase().includes(keyword));
+}
+
+/**
+ * 操作人，命令行脚本或定时任务操作时为 null
+ */
+export type CatalogActor = Pick<User, 'id' | 'email'> | null;
+
+export class CatalogAdminService {
+  constructor(
+    private repository: CatalogRepository = getCatalogRepository(),
+    private changes: CatalogChangeRepository = getCatalogChangeRepository()
+  ) {}
+
+  /**
+   * 列出条目，包含已归档条目；未指定分类时返回全部分类
+   */
+  async listItems(category?: CatalogCategory, search = ''): Promise<CatalogItem[]> {
+    const categories = category ? [category] : [...CATALOG_CATEGORIES];
+    const groups = await Promise.all(
+      categories.map(entry => this.repository.listItems(entry, { includeArchived: true }))
+    );
+
+    return groups
+      .flat()
+      .filter((item: CatalogItem) => matchesCatalogSearch(item, search));
+  }
+
+  /**
+   * 保存条目并记录变更；before 为空表示新建
+   */
+  async saveItem(before: CatalogItem | null, item: CatalogItem, actor: CatalogActor): Promise<CatalogItem> {
+    const saved = await this.repository.saveItem(item);
+    const changes = diffCatalogItems(before, saved);
+
+    if (changes.length > 0) {
+      await this.changes.addChange({
+        category: saved.category,
+        itemId: saved.id,
+        action: this.getAction(before, saved),
+        actorId: actor?.id,
+        actorEmail: actor?.email,
+        changes,
+      });
+    }
+
+    return saved;
+  }
+
+  /**
+   * 归档条目
+   */
+  async archiveItem(item: CatalogItem, actor: CatalogActor): Promise<CatalogItem> {
+    return this.saveItem(item, { ...item, archived: true }, actor);
+  }
+
+  /**
+   * 批量导入某个分类的条目
+   * 任意一行校验失败时整批不写入，避免表格只导入一半
+   */
+  async importItems(
+    category: CatalogCategory,
+    rows: CatalogImportRow[],
+    options: CatalogImportOptions,
+    actor: CatalogActor
+  ): Promise<CatalogImportResult> {
+    const existing = await this.repository.listItems(category, { includeArchived: true });
+    const plan = planCatalogImport(category, rows, existing);
+
+    if (options.dryRun || plan.errors.length > 0) {
+      return { plan, applied: false };
+    }
+
+    for (const item of plan.created) {
+      await this.saveItem(null, item, actor);
+    }
+    for (const { before, after } of plan.updated) {
+      await this.saveItem(before, after, actor);
+    }
+    if (options.archiveMissing) {
+      for (const item of plan.removed) {
+        await this.archiveItem(item, actor);
+      }
+    }
+
+    return { plan, applied: true };
+  }
+
+  private getAction(before: CatalogItem | null, after: CatalogItem): CatalogChangeAction {
+    if (!before) {
+      return "create";
+    }
+    if (!before.archived && after.archived) {
+      return "archive";
+    }
+    if (before.archived && !after.archived) {
+      return "restore";
+    }
+    return "update";
+  }
+}
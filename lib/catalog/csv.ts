@@ -0,0 +1,69 @@
+/**
+ * 最小 CSV 读写（RFC 4180）
+ *
+ * 支持引号包裹、字段内逗号/换行、双引号转义，兼容 Excel 导出的 BOM 和 CRLF
+ */
+
+/**
+ * 解析 CSV 文本为二维数组，跳过空行
+ */
+export function parseCsv(content: string): string[][] {
+  const text = content.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('Invalid CSV: unterminated quoted field');
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(entry => entry.some(value => value.trim() !== ''));
+}
+
+/**
+ * 将二维数组序列化为 CSV 文本
+ */
+export function toCsv(rows: string[][]): string {
+  const escape = (value: string) =>
+    /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+  return rows.map(row => row.map(escape).join(',')).join('\n') + '\n';
+}
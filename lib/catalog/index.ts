@@ -0,0 +1,16 @@
+/**
+ * 推荐内容目录模块统一导出
+ */
+
+export * from './types';
+export * from './adapter';
+export * from './admin';
+export * from './transfer';
+export { DEFAULT_CATALOG_ITEMS } from './seed';
+
+// 便捷导出
+export {
+  createCatalogRepository,
+  getCatalogRepository,
+  getCatalogChangeRepository
+} from './adapter';
@@ -0,0 +1,45 @@
+/**
+ * CloudBase 目录变更记录仓库
+ * 数据存放在 catalog_changes 集合
+ */
+
+import { getDatabaseClient } from '../../database/adapter';
+import { CatalogChangeRepository } from '../adapter';
+import { CatalogChange, CatalogChangeQuery } from '../types';
+
+const COLLECTION = 'catalog_changes';
+const DEFAULT_LIMIT = 50;
+
+export class CloudBaseCatalogChangeRepository implements CatalogChangeRepository {
+  async addChange(change: Omit<CatalogChange, 'id' | 'createdAt'>): Promise<CatalogChange> {
+    const db = await getDatabaseClient('cloudbase');
+    const document = { ...change, createdAt: new Date().toISOString() };
+
+    const result = await db.collection(COLLECTION).add(document);
+
+    return { ...document, id: result.id };
+  }
+
+  async listChanges(query: CatalogChangeQuery = {}): Promise<CatalogChange[]> {
+    const db = await getDatabaseClient('cloudbase');
+
+    const conditions: Record<string, any> = {};
+    if (query.category) {
+      conditions.category = query.category;
+    }
+    if (query.itemId) {
+      conditions.itemId = query.itemId;
+    }
+
+    const result = await db.collection(COLLECTION)
+      .where(conditions)
+      .orderBy('createdAt', 'desc')
+      .limit(query.limit ?? DEFAULT_LIMIT)
+      .get();
+
+    return result.data.map((doc: any) => {
+      const { _id, ...change } = doc;
+      return { ...change, id: _id } as CatalogChange;
+    });
+  }
+}
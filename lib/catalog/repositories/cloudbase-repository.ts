@@ -0,0 +1,84 @@
+/**
+ * CloudBase 目录仓库
+ * 数据存放在 catalog_items 集合，文档 ID 为 `${category}:${id}`
+ */
+
+import { getDatabaseClient } from '../../database/adapter';
+import { CatalogRepository } from '../adapter';
+import { CatalogCategory, CatalogItem, CatalogItemMap, CatalogQuery, catalogItemSchema } from '../types';
+
+const COLLECTION = 'catalog_items';
+
+/** CloudBase 单次查询上限 */
+const QUERY_LIMIT = 1000;
+
+export class CloudBaseCatalogRepository implements CatalogRepository {
+  async listItems<C extends CatalogCategory>(category: C, query: CatalogQuery = {}): Promise<CatalogItemMap[C][]> {
+    const db = await getDatabaseClient('cloudbase');
+
+    const conditions: Record<string, any> = { category };
+    if (!query.includeArchived) {
+      conditions.archived = false;
+    }
+    if (query.type) {
+      conditions.type = query.type;
+    }
+
+    const result = await db.collection(COLLECTION)
+      .where(conditions)
+      .limit(QUERY_LIMIT)
+      .get();
+
+    return result.data.map((doc: any) => this.fromDocument(doc) as CatalogItemMap[C]);
+  }
+
+  async getItem<C extends CatalogCategory>(category: C, id: string): Promise<CatalogItemMap[C] | null> {
+    const db = await getDatabaseClient('cloudbase');
+
+    const result = await db.collection(COLLECTION)
+      .doc(this.documentId(category, id))
+      .get();
+
+    const doc = result.data[0];
+    return doc ? (this.fromDocument(doc) as CatalogItemMap[C]) : null;
+  }
+
+  async saveItem(item: CatalogItem): Promise<CatalogItem> {
+    const db = await getDatabaseClient('cloudbase');
+
+    const now = new Date().toISOString();
+    const existing = await this.getItem(item.category, item.id);
+    const saved = {
+      ...item,
+      archived: item.archived ?? false,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    } as CatalogItem;
+
+    await db.collection(COLLECTION)
+      .doc(this.documentId(item.category, item.id))
+      .set(saved);
+
+    return saved;
+  }
+
+  async archiveItem(category: CatalogCategory, id: string): Promise<void> {
+    const db = await getDatabaseClient('cloudbase');
+
+    await db.collection(COLLECTION)
+      .doc(this.documentId(category, id))
+      .update({
+        archived: true,
+        updatedAt: new Date().toISOString()
+      });
+  }
+
+  private documentId(category: CatalogCategory, id: string): string {
+    return `${category}:${id}`;
+  }
+
+  private fromDocument(doc: any): CatalogItem {
+    const { _id, ...item } = doc;
+    return catalogItemSchema.parse(item);
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * 内存目录变更记录仓库
+ */
+
+import { getMemoryCollection } from '../../database/adapter';
+import { generateId } from '../../utils/helpers';
+import { CatalogChangeRepository } from '../adapter';
+import { CatalogChange, CatalogChangeQuery } from '../types';
+
+const DEFAULT_LIMIT = 50;
+
+export class MemoryCatalogChangeRepository implements CatalogChangeRepository {
+  private changes = getMemoryCollection<CatalogChange>('catalog_changes');
+
+  async addChange(change: Omit<CatalogChange, 'id' | 'createdAt'>): Promise<CatalogChange> {
+    const saved: CatalogChange = {
+      ...change,
+      id: generateId('change'),
+      createdAt: new Date().toISOString(),
+    };
+    this.changes.set(saved.id, saved);
+    return saved;
+  }
+
+  async listChanges(query: CatalogChangeQuery = {}): Promise<CatalogChange[]> {
+    // 先按写入顺序倒序，同一毫秒内的记录也保持最新在前
+    return Array.from(this.changes.values())
+      .reverse()
+      .filter(change =>
+        (!query.category || change.category === query.category) &&
+        (!query.itemId || change.itemId === query.itemId)
+      )
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, query.limit ?? DEFAULT_LIMIT);
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * 内存目录仓库
+ * 适用于本地开发；配置 filePath 后会从 JSON 文件加载并回写修改
+ * 未指定初始数据时使用进程内共享集合，管理后台的修改对所有路由可见
+ */
+
+import { promises as fs } from 'fs';
+import { getMemoryCollection } from '../../database/adapter';
+import { CatalogRepository, CatalogRepositoryConfig } from '../adapter';
+import { DEFAULT_CATALOG_ITEMS } from '../seed';
+import { CatalogCategory, CatalogItem, CatalogItemMap, CatalogQuery, catalogItemSchema } from '../types';
+
+export class MemoryCatalogRepository implements CatalogRepository {
+  private items: Map<string, CatalogItem>;
+  private filePath?: string;
+  private loadPromise: Promise<void> | null = null;
+
+  constructor(config: CatalogRepositoryConfig = {}) {
+    this.filePath = config.filePath;
+    this.items = config.items ? new Map() : getMemoryCollection<CatalogItem>('catalog_items');
+
+    if (config.items) {
+      this.setItems(config.items);
+    } else if (!this.filePath && this.items.size === 0) {
+      this.setItems(DEFAULT_CATALOG_ITEMS);
+    }
+  }
+
+  async listItems<C extends CatalogCategory>(category: C, query: CatalogQuery = {}): Promise<CatalogItemMap[C][]> {
+    await this.ensureLoaded();
+
+    return Array.from(this.items.values()).filter(
+      (item): item is CatalogItemMap[C] =>
+        item.category === category &&
+        (query.includeArchived || !item.archived) &&
+        (!query.type || item.type === query.type)
+    );
+  }
+
+  async getItem<C extends CatalogCategory>(category: C, id: string): Promise<CatalogItemMap[C] | null> {
+    await this.ensureLoaded();
+    return (this.items.get(this.key(category, id)) as CatalogItemMap[C] | undefined) || null;
+  }
+
+  async saveItem(item: CatalogItem): Promise<CatalogItem> {
+    await this.ensureLoaded();
+
+    const now = new Date().toISOString();
+    const existing = this.items.get(this.key(item.category, item.id));
+    const saved = {
+      ...item,
+      createdAt: existing?.createdAt || item.createdAt || now,
+      updatedAt: now,
+    } as CatalogItem;
+
+    this.items.set(this.key(item.category, item.id), saved);
+    await this.persist();
+    return saved;
+  }
+
+  async archiveItem(category: CatalogCategory, id: string): Promise<void> {
+    const item = await this.getItem(category, id);
+    if (!item) {
+      throw new Error(`Catalog item not found: ${category}/${id}`);
+    }
+    await this.saveItem({ ...item, archived: true });
+  }
+
+  private key(category: CatalogCategory, id: string): string {
+    return `${category}:${id}`;
+  }
+
+  private setItems(items: CatalogItem[]): void {
+    this.items.clear();
+    items.forEach(item => this.items.set(this.key(item.category, item.id), item));
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    if (!this.filePath) {
+      return;
+    }
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadFromFile(this.filePath);
+    }
+    await this.loadPromise;
+  }
+
+  private async loadFromFile(filePath: string): Promise<void> {
+    try {
+      const raw = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+      const items = (Array.isArray(raw) ? raw : []).map(item => catalogItemSchema.parse(item));
+      this.setItems(items);
+      console.log(`✅ Catalog loaded from ${filePath} (${items.length} items)`);
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        throw error;
+      }
+      // 文件不存在时使用默认数据并写入文件
+      this.setItems(DEFAULT_CATALOG_ITEMS);
+      await this.persist();
+    }
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.filePath) {
+      return;
+    }
+    await fs.writeFile(this.filePath, JSON.stringify(Array.from(this.items.values()), null, 2), 'utf-8');
+  }
+}
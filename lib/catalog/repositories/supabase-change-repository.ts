@@ -0,0 +1,69 @@
+/**
+ * Supabase 目录变更记录仓库
+ * 数据存放在 catalog_changes 表（见 supabase/catalog_changes.sql）
+ */
+
+import { getDatabaseClient } from '../../database/adapter';
+import { CatalogChangeRepository } from '../adapter';
+import { CatalogChange, CatalogChangeQuery } from '../types';
+
+const TABLE = 'catalog_changes';
+const DEFAULT_LIMIT = 50;
+
+export class SupabaseCatalogChangeRepository implements CatalogChangeRepository {
+  async addChange(change: Omit<CatalogChange, 'id' | 'createdAt'>): Promise<CatalogChange> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { data, error } = await supabase
+      .from(TABLE)
+      .insert({
+        category: change.category,
+        item_id: change.itemId,
+        action: change.action,
+        actor_id: change.actorId ?? null,
+        actor_email: change.actorEmail ?? null,
+        changes: change.changes,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+    return this.fromRow(data);
+  }
+
+  async listChanges(query: CatalogChangeQuery = {}): Promise<CatalogChange[]> {
+    const supabase = await getDatabaseClient('supabase');
+
+    let request = supabase.from(TABLE).select('*');
+    if (query.category) {
+      request = request.eq('category', query.category);
+    }
+    if (query.itemId) {
+      request = request.eq('item_id', query.itemId);
+    }
+
+    const { data, error } = await request
+      .order('created_at', { ascending: false })
+      .limit(query.limit ?? DEFAULT_LIMIT);
+
+    if (error) {
+      throw error;
+    }
+    return (data || []).map((row: any) => this.fromRow(row));
+  }
+
+  private fromRow(row: any): CatalogChange {
+    return {
+      id: row.id,
+      category: row.category,
+      itemId: row.item_id,
+      action: row.action,
+      actorId: row.actor_id ?? undefined,
+      actorEmail: row.actor_email ?? undefined,
+      changes: row.changes || [],
+      createdAt: row.created_at,
+    };
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Supabase 目录仓库
+ * 数据存放在 catalog_items 表（见 supabase/catalog.sql）
+ */
+
+import { getDatabaseClient } from '../../database/adapter';
+import { CatalogRepository } from '../adapter';
+import { CatalogCategory, CatalogItem, CatalogItemMap, CatalogQuery, catalogItemSchema } from '../types';
+
+const TABLE = 'catalog_items';
+
+/**
+ * 表中固定列，其余分类专属字段存入 attributes
+ */
+const COLUMN_FIELDS = ['id', 'category', 'type', 'title', 'description', 'image', 'tags', 'archived', 'createdAt', 'updatedAt'];
+
+export class SupabaseCatalogRepository implements CatalogRepository {
+  async listItems<C extends CatalogCategory>(category: C, query: CatalogQuery = {}): Promise<CatalogItemMap[C][]> {
+    const supabase = await getDatabaseClient('supabase');
+
+    let request = supabase.from(TABLE).select('*').eq('category', category);
+    if (!query.includeArchived) {
+      request = request.eq('archived', false);
+    }
+    if (query.type) {
+      request = request.eq('type', query.type);
+    }
+
+    const { data, error } = await request.order('id');
+    if (error) {
+      throw error;
+    }
+
+    return (data || []).map((row: any) => this.fromRow(row) as CatalogItemMap[C]);
+  }
+
+  async getItem<C extends CatalogCategory>(category: C, id: string): Promise<CatalogItemMap[C] | null> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { data, error } = await supabase
+      .from(TABLE)
+      .select('*')
+      .eq('category', category)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data ? (this.fromRow(data) as CatalogItemMap[C]) : null;
+  }
+
+  async saveItem(item: CatalogItem): Promise<CatalogItem> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { data, error } = await supabase
+      .from(TABLE)
+      .upsert(this.toRow(item), { onConflict: 'category,id' })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return this.fromRow(data);
+  }
+
+  async archiveItem(category: CatalogCategory, id: string): Promise<void> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { error } = await supabase
+      .from(TABLE)
+      .update({ archived: true, updated_at: new Date().toISOString() })
+      .eq('category', category)
+      .eq('id', id);
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  private toRow(item: CatalogItem): Record<string, any> {
+    const attributes: Record<string, any> = {};
+    Object.entries(item).forEach(([key, value]) => {
+      if (!COLUMN_FIELDS.includes(key)) {
+        attributes[key] = value;
+      }
+    });
+
+    return {
+      id: item.id,
+      category: item.category,
+      type: item.type,
+      title: item.title,
+      description: item.description ?? null,
+      image: item.image ?? null,
+      tags: item.tags ?? [],
+      archived: item.archived ?? false,
+      attributes,
+      updated_at: new Date().toISOString(),
+    };
+  }
+
+  private fromRow(row: any): CatalogItem {
+    return catalogItemSchema.parse({
+      ...row.attributes,
+      id: row.id,
+      category: row.category,
+      type: row.type,
+      title: row.title,
+      description: row.description ?? undefined,
+      image: row.image ?? undefined,
+      tags: row.tags ?? undefined,
+      archived: row.archived ?? false,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    });
+  }
+}
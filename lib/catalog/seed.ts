@@ -0,0 +1,333 @@
+/**
+ * 默认目录数据
+ *
+ * 内存仓库的初始数据，也可作为 Supabase / CloudBase 的初始化数据导入
+ * 出行和健身条目的天气由上下文提供者实时生成，不在目录中保存
+ * title / description 为中文，英文内容写在 translations.en 中
+ * 价格以人民币为基础价格，海外常见货币单独定价；国内景点只推荐给中国大陆用户
+ */
+
+import { CatalogItem } from './types';
+
+export const DEFAULT_CATALOG_ITEMS: CatalogItem[] = [
+  // 娱乐
+  {
+    id: "entertainment-1",
+    category: "entertainment",
+    type: "sci-fi",
+    title: "三体",
+    description: "刘慈欣经典科幻小说，探索宇宙文明的宏大史诗",
+    translations: {
+      en: {
+        title: "The Three-Body Problem",
+        description: "Liu Cixin's classic sci-fi epic about the fate of civilizations across the universe",
+      },
+    },
+  },
+  {
+    id: "entertainment-2",
+    category: "entertainment",
+    type: "game",
+    title: "原神",
+    description: "开放世界冒险游戏，探索提瓦特大陆的奇幻世界",
+    translations: {
+      en: {
+        title: "Genshin Impact",
+        description: "An open-world adventure game set in the fantasy land of Teyvat",
+      },
+    },
+  },
+  {
+    id: "entertainment-3",
+    category: "entertainment",
+    type: "song",
+    title: "稻香",
+    description: "周杰伦经典歌曲，回忆童年美好时光",
+    translations: {
+      en: {
+        title: "Rice Field",
+        description: "A Jay Chou classic that brings back carefree childhood memories",
+      },
+    },
+  },
+  {
+    id: "entertainment-4",
+    category: "entertainment",
+    type: "movie",
+    title: "流浪地球",
+    description: "中国科幻电影巅峰之作，人类拯救地球的壮举",
+    translations: {
+      en: {
+        title: "The Wandering Earth",
+        description: "A landmark Chinese sci-fi film about humanity's mission to save the Earth",
+      },
+    },
+  },
+
+  // 购物
+  {
+    id: "shopping-1",
+    category: "shopping",
+    type: "fashion",
+    title: "Uniqlo 基础T恤",
+    price: { amount: 99, currency: "CNY" },
+    regionalPrices: [{ amount: 14.9, currency: "USD" }, { amount: 14.9, currency: "EUR" }],
+    description: "简约百搭，舒适透气",
+    translations: {
+      en: {
+        title: "Uniqlo Basic T-Shirt",
+        description: "Simple, versatile, comfortable and breathable",
+      },
+    },
+  },
+  {
+    id: "shopping-2",
+    category: "shopping",
+    type: "shoes",
+    title: "Nike Air Force 1",
+    price: { amount: 899, currency: "CNY" },
+    regionalPrices: [{ amount: 115, currency: "USD" }, { amount: 119.99, currency: "EUR" }],
+    description: "经典白色板鞋，百搭时尚",
+    translations: {
+      en: {
+        title: "Nike Air Force 1",
+        description: "Classic white sneakers that go with everything",
+      },
+    },
+  },
+  {
+    id: "shopping-3",
+    category: "shopping",
+    type: "gadget",
+    title: "AirPods Pro",
+    price: { amount: 1899, currency: "CNY" },
+    regionalPrices: [{ amount: 249, currency: "USD" }, { amount: 279, currency: "EUR" }],
+    description: "主动降噪，音质出色",
+    translations: {
+      en: {
+        title: "AirPods Pro",
+        description: "Active noise cancellation with great sound",
+      },
+    },
+  },
+  {
+    id: "shopping-4",
+    category: "shopping",
+    type: "daily",
+    title: "无印良品收纳盒",
+    price: { amount: 49, currency: "CNY" },
+    description: "简约设计，整理收纳好帮手",
+    translations: {
+      en: {
+        title: "MUJI Storage Box",
+        description: "Minimalist design that keeps things tidy",
+      },
+    },
+  },
+
+  // 美食（type 为菜系）
+  {
+    id: "food-1",
+    category: "food",
+    type: "sichuan",
+    title: "四川火锅",
+    calories: 650,
+    description: "麻辣鲜香，暖胃暖心",
+    tags: ["spicy", "meat", "hot-soup"],
+    translations: {
+      en: {
+        title: "Sichuan Hot Pot",
+        description: "Numbing, spicy and warming",
+      },
+    },
+  },
+  {
+    id: "food-2",
+    category: "food",
+    type: "japanese",
+    title: "日式拉面",
+    calories: 480,
+    description: "浓郁汤头，Q弹面条",
+    tags: ["pork", "meat", "gluten", "hot-soup"],
+    translations: {
+      en: {
+        title: "Japanese Ramen",
+        description: "Rich broth with springy noodles",
+      },
+    },
+  },
+  {
+    id: "food-3",
+    category: "food",
+    type: "western",
+    title: "意大利披萨",
+    calories: 520,
+    description: "芝士拉丝，香脆饼底",
+    tags: ["dairy", "gluten"],
+    translations: {
+      en: {
+        title: "Italian Pizza",
+        description: "Stretchy cheese on a crispy crust",
+      },
+    },
+  },
+  {
+    id: "food-4",
+    category: "food",
+    type: "cantonese",
+    title: "广式点心",
+    calories: 320,
+    description: "精致小巧，口感丰富",
+    tags: ["pork", "seafood", "meat", "gluten"],
+    translations: {
+      en: {
+        title: "Cantonese Dim Sum",
+        description: "Dainty bites with a variety of textures",
+      },
+    },
+  },
+
+  // 出行
+  {
+    id: "travel-1",
+    category: "travel",
+    type: "city-walk",
+    title: "西湖漫步",
+    description: "在杭州西湖边悠闲散步，欣赏湖光山色",
+    tags: ["outdoor", "intensity:low"],
+    regions: ["china"],
+    duration: "2-3小时",
+    translations: {
+      en: {
+        title: "West Lake Stroll",
+        description: "A leisurely walk around Hangzhou's West Lake and its scenery",
+      },
+    },
+  },
+  {
+    id: "travel-2",
+    category: "travel",
+    type: "museum",
+    title: "故宫博物院",
+    description: "探索中国古代皇家建筑的宏伟与精美",
+    tags: ["indoor", "intensity:low"],
+    regions: ["china"],
+    duration: "半天",
+    translations: {
+      en: {
+        title: "The Palace Museum",
+        description: "Explore the grandeur and detail of China's imperial architecture",
+      },
+    },
+  },
+  {
+    id: "travel-3",
+    category: "travel",
+    type: "hiking",
+    title: "黄山登山",
+    description: "挑战自我，登顶黄山观日出云海",
+    tags: ["outdoor", "intensity:high"],
+    regions: ["china"],
+    duration: "全天",
+    translations: {
+      en: {
+        title: "Huangshan Hike",
+        description: "Challenge yourself and watch the sunrise over a sea of clouds",
+      },
+    },
+  },
+  {
+    id: "travel-4",
+    category: "travel",
+    type: "city-walk",
+    title: "中央公园漫步",
+    description: "在纽约中央公园散步，穿过草坪、湖泊和林荫道",
+    tags: ["outdoor", "intensity:low"],
+    regions: ["usa"],
+    duration: "2-3小时",
+    translations: {
+      en: {
+        title: "Central Park Stroll",
+        description: "Wander New York's Central Park past its lawns, lakes and tree-lined paths",
+      },
+    },
+  },
+  {
+    id: "travel-5",
+    category: "travel",
+    type: "museum",
+    title: "大英博物馆",
+    description: "在伦敦看遍跨越两百万年的人类文明藏品",
+    tags: ["indoor", "intensity:low"],
+    regions: ["europe"],
+    duration: "半天",
+    translations: {
+      en: {
+        title: "The British Museum",
+        description: "Two million years of human history under one roof in London",
+      },
+    },
+  },
+  {
+    id: "travel-6",
+    category: "travel",
+    type: "hiking",
+    title: "郊野公园徒步",
+    description: "去离家最近的郊野公园走一走，呼吸新鲜空气",
+    tags: ["outdoor", "intensity:medium"],
+    duration: "2-3小时",
+    translations: {
+      en: {
+        title: "Nature Trail Hike",
+        description: "Head to the nearest country park for some fresh air",
+      },
+    },
+  },
+
+  // 健身
+  {
+    id: "fitness-1",
+    category: "fitness",
+    type: "running",
+    title: "晨跑",
+    description: "在公园里进行30分钟轻松慢跑",
+    tags: ["outdoor", "intensity:medium", "time:morning"],
+    duration: "30分钟",
+    translations: {
+      en: {
+        title: "Morning Run",
+        description: "An easy 30-minute jog in the park",
+      },
+    },
+  },
+  {
+    id: "fitness-2",
+    category: "fitness",
+    type: "yoga",
+    title: "瑜伽练习",
+    description: "在家进行舒缓的瑜伽拉伸运动",
+    tags: ["indoor", "intensity:low"],
+    duration: "45分钟",
+    translations: {
+      en: {
+        title: "Yoga Session",
+        description: "Gentle yoga stretches at home",
+      },
+    },
+  },
+  {
+    id: "fitness-3",
+    category: "fitness",
+    type: "swimming",
+    title: "游泳",
+    description: "在游泳池进行有氧游泳训练",
+    tags: ["indoor", "intensity:medium"],
+    duration: "1小时",
+    translations: {
+      en: {
+        title: "Swimming",
+        description: "An aerobic swim workout at the pool",
+      },
+    },
+  },
+];
@@ -0,0 +1,296 @@
+/**
+ * 目录批量导入导出
+ *
+ * 内容团队用表格维护条目，每个分类一个 CSV / JSON 文件；
+ * 导入按 externalId 幂等更新，先生成变更计划（新增 / 修改 / 移除），确认后再写入
+ */
+
+import { DEFAULT_LOCALE, LOCALES, isLocale } from '../locale/types';
+import { parseCsv, toCsv } from './csv';
+import {
+  CATALOG_CATEGORY_FIELDS,
+  CatalogCategory,
+  CatalogFieldChange,
+  CatalogItem,
+  catalogItemSchemas,
+  diffCatalogItems,
+} from './types';
+
+/**
+ * 支持的文件格式
+ */
+export const CATALOG_TRANSFER_FORMATS = ["csv", "json"] as const;
+
+export type CatalogTransferFormat = typeof CATALOG_TRANSFER_FORMATS[number];
+
+/**
+ * CSV 中列表（标签、地区、其他货币定价）的分隔符（逗号已用于分列）
+ */
+const TAG_SEPARATOR = '|';
+
+/**
+ * CSV 中以分隔符拆分的列表列
+ */
+const LIST_COLUMNS = ['tags', 'regions', 'regionalPrices'];
+
+/**
+ * CSV 中的译文列，例如 title_en、description_en
+ */
+const TRANSLATION_COLUMN = /^(title|description|reason)_([a-z]{2})$/;
+
+/**
+ * 待导入的一行数据
+ */
+export interface CatalogImportRow {
+  /** 文件中的行号（CSV 含表头，从 1 开始） */
+  row: number;
+  values: Record<string, unknown>;
+}
+
+/**
+ * 行级校验错误
+ */
+export interface CatalogImportRowError {
+  row: number;
+  externalId?: string;
+  errors: string[];
+}
+
+/**
+ * 导入计划
+ */
+export interface CatalogImportPlan {
+  created: CatalogItem[];
+  updated: { before: CatalogItem; after: CatalogItem; changes: CatalogFieldChange[] }[];
+  /** 之前导入过、但本次文件中不存在的条目 */
+  removed: CatalogItem[];
+  unchanged: number;
+  errors: CatalogImportRowError[];
+}
+
+/**
+ * 分类的导出列：通用字段 + 各语言译文 + 分类专属字段
+ * 价格写作 "CNY 99"，其他货币定价写作 "USD 15|EUR 14"
+ */
+export function getCatalogColumns(category: CatalogCategory): string[] {
+  const translationColumns = LOCALES
+    .filter(locale => locale !== DEFAULT_LOCALE)
+    .flatMap(locale => [`title_${locale}`, `description_${locale}`]);
+
+  return [
+    'externalId', 'id', 'type', 'title', 'description', ...translationColumns,
+    'image', 'tags', 'regions', ...CATALOG_CATEGORY_FIELDS[category],
+    ...(category === "shopping" ? ['regionalPrices'] : []),
+  ];
+}
+
+/**
+ * 解析导入文件
+ * 文件格式错误（非法 JSON、缺少表头等）直接抛出，行内容的校验在 planCatalogImport 中完成
+ */
+export function parseCatalogImport(format: CatalogTransferFormat, content: string): CatalogImportRow[] {
+  if (format === "json") {
+    const data = JSON.parse(content);
+    const items = Array.isArray(data) ? data : data?.items;
+    if (!Array.isArray(items)) {
+      throw new Error('JSON import must be an array of items');
+    }
+    return items.map((values, index) => ({ row: index + 1, values }));
+  }
+
+  const [header, ...lines] = parseCsv(content);
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map(column => column.trim());
+  return lines.map((cells, index) => {
+    const values: Record<string, unknown> = {};
+    columns.forEach((column, position) => {
+      const cell = (cells[position] ?? '').trim();
+      if (column && cell) {
+        values[column] = cell;
+      }
+    });
+    return { row: index + 2, values };
+  });
+}
+
+/**
+ * 规范化单行数据：CSV 中的数字、列表从字符串转换，译文列合并到 translations，空值去掉
+ * 价格文本（"CNY 99"）由 schema 解析
+ */
+function normalizeRow(values: Record<string, unknown>): Record<string, unknown> {
+  const normalized: Record<string, unknown> = {};
+  const translations: Record<string, Record<string, unknown>> = {};
+
+  Object.entries(values).forEach(([key, value]) => {
+    if (value === '' || value === null || value === undefined) {
+      return;
+    }
+
+    const translation = key.match(TRANSLATION_COLUMN);
+    if (translation && isLocale(translation[2])) {
+      const [, field, locale] = translation;
+      translations[locale] = { ...translations[locale], [field]: value };
+      return;
+    }
+
+    if (key === 'calories' && typeof value === 'string') {
+      normalized[key] = Number(value);
+    } else if (LIST_COLUMNS.includes(key) && typeof value === 'string') {
+      normalized[key] = value.split(TAG_SEPARATOR).map(tag => tag.trim()).filter(Boolean);
+    } else if (key === 'externalId' || key === 'id') {
+      normalized[key] = String(value).trim();
+    } else {
+      normalized[key] = value;
+    }
+  });
+
+  if (Object.keys(translations).length > 0) {
+    normalized.translations = { ...(normalized.translations as object), ...translations };
+  }
+  return normalized;
+}
+
+/**
+ * 由 externalId 生成条目 ID
+ */
+function toItemId(category: CatalogCategory, externalId: string): string {
+  const slug = externalId.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${category}-${slug || externalId}`;
+}
+
+/**
+ * 根据现有条目生成导入计划，不写入任何数据
+ *
+ * 匹配顺序：externalId 相同的条目 → 行内指定的 id 且该条目未绑定 externalId（认领已有条目）→ 新建。
+ * 文件是该分类的完整清单，行中未填写的字段会被清空；只有带 externalId 的条目才会被判定为移除
+ */
+export function planCatalogImport(
+  category: CatalogCategory,
+  rows: CatalogImportRow[],
+  existing: CatalogItem[]
+): CatalogImportPlan {
+  const plan: CatalogImportPlan = { created: [], updated: [], removed: [], unchanged: 0, errors: [] };
+  const byExternalId = new Map(
+    existing.filter(item => item.externalId).map(item => [item.externalId as string, item])
+  );
+  const byId = new Map(existing.map(item => [item.id, item]));
+  const seen = new Set<string>();
+  const claimedIds = new Set<string>();
+
+  rows.forEach(({ row, values }) => {
+    const normalized = normalizeRow(values);
+    const externalId = typeof normalized.externalId === 'string' ? normalized.externalId : undefined;
+
+    if (!externalId) {
+      plan.errors.push({ row, errors: ['externalId: Required'] });
+      return;
+    }
+    if (seen.has(externalId)) {
+      plan.errors.push({ row, externalId, errors: ['externalId: Duplicate in file'] });
+      return;
+    }
+    seen.add(externalId);
+
+    const requestedId = typeof normalized.id === 'string' ? normalized.id : undefined;
+    let before = byExternalId.get(externalId) || null;
+    if (!before && requestedId) {
+      const owner = byId.get(requestedId);
+      if (owner?.externalId) {
+        plan.errors.push({ row, externalId, errors: [`id: Already used by externalId ${owner.externalId}`] });
+        return;
+      }
+      before = owner || null;
+    }
+
+    const id = before?.id || requestedId || toItemId(category, externalId);
+    if (claimedIds.has(id)) {
+      plan.errors.push({ row, externalId, errors: [`id: Duplicate in file (${id})`] });
+      return;
+    }
+    claimedIds.add(id);
+
+    const result = catalogItemSchemas[category].safeParse({
+      ...normalized,
+      category,
+      id,
+      externalId,
+      archived: false,
+      ...(before?.createdAt && { createdAt: before.createdAt }),
+      ...(before?.updatedAt && { updatedAt: before.updatedAt }),
+    });
+    if (!result.success) {
+      plan.errors.push({
+        row,
+        externalId,
+        errors: result.error.errors.map(err => `${err.path.join('.')}: ${err.message}`),
+      });
+      return;
+    }
+
+    const after = result.data as CatalogItem;
+    if (!before) {
+      plan.created.push(after);
+      return;
+    }
+
+    const changes = diffCatalogItems({ ...before, archived: before.archived ?? false }, after);
+    if (changes.length === 0) {
+      plan.unchanged++;
+    } else {
+      plan.updated.push({ before, after, changes });
+    }
+  });
+
+  plan.removed = existing.filter(item => item.externalId && !item.archived && !seen.has(item.externalId));
+  return plan;
+}
+
+/**
+ * CSV 单元格文本：价格写作 "CNY 99"，列表以分隔符连接
+ */
+function toCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.map(toCell).join(TAG_SEPARATOR);
+  }
+  if (typeof value === 'object' && 'amount' in value && 'currency' in value) {
+    return `${value.currency} ${value.amount}`;
+  }
+  return String(value);
+}
+
+/**
+ * 导出条目为 CSV / JSON 文本，格式与导入一致，可直接编辑后重新导入
+ * 未绑定 externalId 的条目以 id 代替，重新导入时会认领该条目
+ */
+export function exportCatalogItems(
+  category: CatalogCategory,
+  items: CatalogItem[],
+  format: CatalogTransferFormat
+): string {
+  if (format === "json") {
+    const rows = items.map(({ category: _category, archived, createdAt, updatedAt, ...rest }) => ({
+      ...rest,
+      externalId: rest.externalId || rest.id,
+    }));
+    return JSON.stringify(rows, null, 2) + '\n';
+  }
+
+  const columns = getCatalogColumns(category);
+  const rows = items.map(item => {
+    const values: Record<string, unknown> = { ...item, externalId: item.externalId || item.id };
+    Object.entries(item.translations || {}).forEach(([locale, fields]) => {
+      Object.entries(fields || {}).forEach(([field, value]) => {
+        values[`${field}_${locale}`] = value;
+      });
+    });
+    return columns.map(column => toCell(values[column]));
+  });
+
+  return toCsv([columns, ...rows]);
+}
@@ -0,0 +1,404 @@
+/**
+ * 推荐内容目录 - 类型与校验定义
+ *
+ * 每个分类都有独立的 schema，字段与前端 Recommendation 接口保持一致
+ */
+
+import { z } from 'zod';
+import { Region } from '../geo/ip-detection';
+import { DEFAULT_LOCALE, LOCALES, Locale } from '../locale/types';
+import { convertCurrency } from '../payment/config';
+
+/**
+ * 支持的推荐分类
+ */
+export const CATALOG_CATEGORIES = ["entertainment", "shopping", "food", "travel", "fitness"] as const;
+
+export type CatalogCategory = typeof CATALOG_CATEGORIES[number];
+
+/**
+ * 判断字符串是否为合法分类
+ */
+export function isCatalogCategory(value: string): value is CatalogCategory {
+  return (CATALOG_CATEGORIES as readonly string[]).includes(value);
+}
+
+/**
+ * 条目可限定的地区，与地理检测的区域一致
+ */
+export const CATALOG_REGIONS: [Region, ...Region[]] = ["china", "usa", "india", "singapore", "europe", "other"];
+
+/**
+ * 目录价格支持的货币
+ */
+export const CATALOG_CURRENCIES = ["CNY", "USD", "EUR"] as const;
+
+export type CatalogCurrency = typeof CATALOG_CURRENCIES[number];
+
+/**
+ * 判断字符串是否为支持的货币
+ */
+export function isCatalogCurrency(value: string): value is CatalogCurrency {
+  return (CATALOG_CURRENCIES as readonly string[]).includes(value);
+}
+
+/**
+ * 货币符号，用于展示
+ */
+const CURRENCY_SYMBOLS: Record<CatalogCurrency, string> = {
+  CNY: "¥",
+  USD: "$",
+  EUR: "€",
+};
+
+/**
+ * 结构化价格
+ */
+export const priceSchema = z.object({
+  amount: z.number().nonnegative(),
+  currency: z.enum(CATALOG_CURRENCIES),
+});
+
+export type Price = z.infer<typeof priceSchema>;
+
+/**
+ * 兼容旧数据和表格导入的价格文本，例如 "¥99"、"USD 15"、"14.9 EUR"；未标明货币时按人民币处理
+ */
+function parsePriceText(value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  const amount = parsePriceAmount(value);
+  if (amount === null) {
+    return value;
+  }
+
+  const text = value.toUpperCase();
+  let currency: CatalogCurrency = "CNY";
+  if (text.includes('$') || text.includes('USD')) {
+    currency = "USD";
+  } else if (text.includes('€') || text.includes('EUR')) {
+    currency = "EUR";
+  }
+  return { amount, currency };
+}
+
+/**
+ * 价格输入：结构化价格或价格文本
+ */
+export const priceInputSchema = z.preprocess(parsePriceText, priceSchema);
+
+/**
+ * 可翻译的字段
+ */
+export const localizedFieldsSchema = z.object({
+  title: z.string().min(1).optional(),
+  description: z.string().optional(),
+  reason: z.string().optional(),
+});
+
+export type LocalizedFields = z.infer<typeof localizedFieldsSchema>;
+
+/**
+ * 所有分类共享的基础字段
+ * title / description / reason 使用源语言（DEFAULT_LOCALE），其他语言写在 translations 中
+ */
+const baseItemSchema = z.object({
+  id: z.string().min(1),
+  /** 外部系统（内容表格）中的 ID，批量导入按此字段幂等更新 */
+  externalId: z.string().min(1).optional(),
+  type: z.string().min(1),
+  title: z.string().min(1),
+  description: z.string().optional(),
+  image: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  /** 仅在这些地区推荐，为空表示全球可用 */
+  regions: z.array(z.enum(CATALOG_REGIONS)).optional(),
+  translations: z.record(z.enum(LOCALES), localizedFieldsSchema).optional(),
+  archived: z.boolean().optional(),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+});
+
+export const entertainmentItemSchema = baseItemSchema.extend({
+  category: z.literal("entertainment"),
+});
+
+export const shoppingItemSchema = baseItemSchema.extend({
+  category: z.literal("shopping"),
+  /** 基础价格，其他货币没有单独定价时按汇率换算 */
+  price: priceInputSchema,
+  /** 各地区的单独定价，每种货币一条 */
+  regionalPrices: z.array(priceInputSchema).optional(),
+});
+
+export const foodItemSchema = baseItemSchema.extend({
+  category: z.literal("food"),
+  calories: z.number().nonnegative(),
+  reason: z.string().optional(),
+});
+
+export const travelItemSchema = baseItemSchema.extend({
+  category: z.literal("travel"),
+  duration: z.string().min(1),
+  weather: z.string().optional(),
+});
+
+export const fitnessItemSchema = baseItemSchema.extend({
+  category: z.literal("fitness"),
+  duration: z.string().min(1),
+  weather: z.string().optional(),
+});
+
+/**
+ * 分类 → schema 映射
+ */
+export const catalogItemSchemas = {
+  entertainment: entertainmentItemSchema,
+  shopping: shoppingItemSchema,
+  food: foodItemSchema,
+  travel: travelItemSchema,
+  fitness: fitnessItemSchema,
+} as const;
+
+/**
+ * 各分类的专属必填字段
+ */
+export const CATALOG_CATEGORY_FIELDS: Record<CatalogCategory, ("price" | "calories" | "duration")[]> = {
+  entertainment: [],
+  shopping: ["price"],
+  food: ["calories"],
+  travel: ["duration"],
+  fitness: ["duration"],
+};
+
+export const catalogItemSchema = z.discriminatedUnion("category", [
+  entertainmentItemSchema,
+  shoppingItemSchema,
+  foodItemSchema,
+  travelItemSchema,
+  fitnessItemSchema,
+]);
+
+export type EntertainmentItem = z.infer<typeof entertainmentItemSchema>;
+export type ShoppingItem = z.infer<typeof shoppingItemSchema>;
+export type FoodItem = z.infer<typeof foodItemSchema>;
+export type TravelItem = z.infer<typeof travelItemSchema>;
+export type FitnessItem = z.infer<typeof fitnessItemSchema>;
+
+/**
+ * 分类 → 条目类型映射
+ */
+export interface CatalogItemMap {
+  entertainment: EntertainmentItem;
+  shopping: ShoppingItem;
+  food: FoodItem;
+  travel: TravelItem;
+  fitness: FitnessItem;
+}
+
+export type CatalogItem = CatalogItemMap[CatalogCategory];
+
+/**
+ * 返回给前端的推荐结果
+ */
+export interface Recommendation {
+  id: string;
+  type: string;
+  title: string;
+  description?: string;
+  image?: string;
+  /** 已按用户货币格式化的价格，例如 "$15" */
+  price?: string;
+  priceAmount?: number;
+  currency?: CatalogCurrency;
+  calories?: number;
+  reason?: string;
+  duration?: string;
+  weather?: string;
+  /** 内容实际使用的语言（缺少译文时回退到源语言） */
+  locale?: Locale;
+}
+
+/**
+ * 目录查询选项
+ */
+export interface CatalogQuery {
+  /** 是否包含已归档条目 */
+  includeArchived?: boolean;
+  /** 按类型过滤 */
+  type?: string;
+}
+
+/**
+ * 将目录条目转换为推荐结果（去掉存储相关字段）
+ * 指定 currency 时价格按该货币展示，否则使用条目的基础价格
+ */
+export function toRecommendation(item: CatalogItem, options: { currency?: string } = {}): Recommendation {
+  if (item.category !== "shopping") {
+    const { category, externalId, tags, regions, translations, archived, createdAt, updatedAt, ...rest } = item;
+    return rest;
+  }
+
+  const {
+    category, externalId, tags, regions, translations, archived, createdAt, updatedAt, price, regionalPrices, ...rest
+  } = item;
+  const localPrice = getItemPrice(item, options.currency || price.currency) || price;
+  return { ...rest, price: formatPrice(localPrice), priceAmount: localPrice.amount, currency: localPrice.currency };
+}
+
+/**
+ * 条目是否在指定地区可用
+ */
+export function isAvailableInRegion(item: CatalogItem, region: Region): boolean {
+  return !item.regions?.length || item.regions.includes(region);
+}
+
+/**
+ * 条目在指定货币下的价格：优先使用该货币的单独定价，否则按汇率换算基础价格
+ * 非购物条目返回 null；不支持的货币返回基础价格
+ */
+export function getItemPrice(item: CatalogItem, currency: string): Price | null {
+  if (item.category !== "shopping") {
+    return null;
+  }
+
+  const listed = [item.price, ...(item.regionalPrices || [])].find(price => price.currency === currency);
+  if (listed) {
+    return listed;
+  }
+  if (!isCatalogCurrency(currency)) {
+    return item.price;
+  }
+
+  const amount = convertCurrency(item.price.amount, item.price.currency, currency);
+  return { amount: Math.round(amount * 100) / 100, currency };
+}
+
+/**
+ * 格式化价格，例如 { amount: 99, currency: "CNY" } → "¥99"，{ amount: 14.9, currency: "USD" } → "$14.90"
+ */
+export function formatPrice(price: Price): string {
+  const amount = Number.isInteger(price.amount) ? String(price.amount) : price.amount.toFixed(2);
+  return `${CURRENCY_SYMBOLS[price.currency]}${amount}`;
+}
+
+/**
+ * 条目在指定语言下实际使用的语言：有该语言的标题译文时使用该语言，否则回退到源语言
+ */
+export function getContentLocale(item: CatalogItem, locale: Locale): Locale {
+  return locale === DEFAULT_LOCALE || item.translations?.[locale]?.title ? locale : DEFAULT_LOCALE;
+}
+
+/**
+ * 将条目的可翻译字段替换为指定语言的译文，缺失的字段保留源语言内容
+ */
+export function localizeCatalogItem<T extends CatalogItem>(item: T, locale: Locale): T {
+  const translation = locale === DEFAULT_LOCALE ? undefined : item.translations?.[locale];
+  if (!translation) {
+    return item;
+  }
+
+  const localized: Record<string, unknown> = { ...item };
+  (Object.keys(translation) as (keyof LocalizedFields)[]).forEach(field => {
+    if (translation[field]) {
+      localized[field] = translation[field];
+    }
+  });
+  return localized as T;
+}
+
+/**
+ * 解析价格字符串中的金额，例如 "¥1,899" → 1899
+ */
+export function parsePriceAmount(price: string | undefined): number | null {
+  if (!price) {
+    return null;
+  }
+  const match = price.replace(/,/g, '').match(/\d+(\.\d+)?/);
+  return match ? Number(match[0]) : null;
+}
+
+/**
+ * 解析时长字符串为分钟数，区间取上限
+ * 例如 "30分钟" → 30，"1小时" → 60，"2-3小时" → 180，"半天" → 240，"全天" → 480
+ */
+export function parseDurationMinutes(duration: string | undefined): number | null {
+  if (!duration) {
+    return null;
+  }
+  if (duration.includes("全天")) {
+    return 480;
+  }
+  if (duration.includes("半天")) {
+    return 240;
+  }
+
+  const numbers = duration.match(/\d+(\.\d+)?/g);
+  if (!numbers) {
+    return null;
+  }
+
+  const value = Math.max(...numbers.map(Number));
+  if (/小时|hour|hr|h\b/i.test(duration)) {
+    return Math.round(value * 60);
+  }
+  return Math.round(value);
+}
+
+/**
+ * 目录变更操作
+ */
+export const CATALOG_CHANGE_ACTIONS = ["create", "update", "archive", "restore"] as const;
+
+export type CatalogChangeAction = typeof CATALOG_CHANGE_ACTIONS[number];
+
+/**
+ * 单个字段的变更
+ */
+export interface CatalogFieldChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * 目录变更记录
+ */
+export interface CatalogChange {
+  id: string;
+  category: CatalogCategory;
+  itemId: string;
+  action: CatalogChangeAction;
+  /** 操作人，命令行导入时为空 */
+  actorId?: string;
+  actorEmail?: string;
+  changes: CatalogFieldChange[];
+  createdAt: string;
+}
+
+/**
+ * 变更记录查询选项
+ */
+export interface CatalogChangeQuery {
+  category?: CatalogCategory;
+  itemId?: string;
+  /** 最多返回条数，默认 50 */
+  limit?: number;
+}
+
+/**
+ * 比较两个条目，返回有变化的字段（忽略存储时间戳）
+ */
+export function diffCatalogItems(before: CatalogItem | null, after: CatalogItem): CatalogFieldChange[] {
+  const ignored = ['createdAt', 'updatedAt'];
+  const previous: Record<string, unknown> = before || {};
+  const next: Record<string, unknown> = after;
+  const fields = Array.from(new Set([...Object.keys(previous), ...Object.keys(next)]))
+    .filter(field => !ignored.includes(field));
+
+  return fields
+    .filter(field => JSON.stringify(previous[field]) !== JSON.stringify(next[field]))
+    .map(field => ({ field, before: previous[field], after: next[field] }));
+}
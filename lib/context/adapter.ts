@@ -0,0 +1,47 @@
+/**
+ * 上下文提供者接口
+ */
+
+import { ContextQuery, RecommendationContext } from './types';
+
+/**
+ * 上下文提供者接口
+ * 提供时段、季节和用户所在城市的天气
+ */
+export interface ContextProvider {
+  getContext(query?: ContextQuery): Promise<RecommendationContext>;
+}
+
+/**
+ * 支持的上下文提供者
+ */
+export type ContextProviderType = "local";
+
+/**
+ * 创建上下文提供者工厂函数
+ */
+export function createContextProvider(type: ContextProviderType): ContextProvider {
+  switch (type) {
+    case "local":
+      const { LocalContextProvider } = require("./providers/local-provider");
+      return new LocalContextProvider();
+    default:
+      throw new Error(`Unsupported context provider: ${type}`);
+  }
+}
+
+/**
+ * 全局上下文提供者实例（单例模式）
+ */
+let contextProviderInstance: ContextProvider | null = null;
+
+/**
+ * 获取上下文提供者（CONTEXT_PROVIDER 环境变量，默认 local）
+ */
+export function getContextProvider(): ContextProvider {
+  if (!contextProviderInstance) {
+    const type = (process.env.CONTEXT_PROVIDER || "local") as ContextProviderType;
+    contextProviderInstance = createContextProvider(type);
+  }
+  return contextProviderInstance;
+}
@@ -0,0 +1,12 @@
+/**
+ * 推荐上下文模块统一导出
+ */
+
+export * from './types';
+export * from './adapter';
+export * from './rules';
+
+// 便捷导出
+export {
+  getContextProvider
+} from './adapter';
@@ -0,0 +1,67 @@
+/**
+ * 本地上下文提供者
+ *
+ * 不依赖外部天气服务：天气由城市和本地日期确定性生成，
+ * 同一城市同一天总是得到相同的天气，适合开发和测试
+ */
+
+import { createSeededRandom, pickWeightedIndex } from '../../recommendation/random';
+import { ContextProvider } from '../adapter';
+import {
+  ContextQuery,
+  DEFAULT_CONTEXT_CITY,
+  RecommendationContext,
+  Season,
+  WEATHER_CONDITIONS,
+  WeatherCondition,
+  describeWeather,
+  getSeason,
+  getTimeOfDay,
+} from '../types';
+
+/** 各季节的基准气温与波动范围 */
+const SEASON_TEMPERATURES: Record<Season, { base: number; range: number }> = {
+  spring: { base: 16, range: 8 },
+  summer: { base: 29, range: 6 },
+  autumn: { base: 17, range: 8 },
+  winter: { base: 2, range: 8 },
+};
+
+/** 各季节的天气权重（与 WEATHER_CONDITIONS 顺序一致） */
+const SEASON_WEATHER_WEIGHTS: Record<Season, number[]> = {
+  spring: [4, 3, 3, 0],
+  summer: [5, 2, 3, 0],
+  autumn: [5, 3, 2, 0],
+  winter: [4, 3, 1, 2],
+};
+
+export class LocalContextProvider implements ContextProvider {
+  async getContext(query: ContextQuery = {}): Promise<RecommendationContext> {
+    const city = query.city?.trim() || DEFAULT_CONTEXT_CITY;
+    const now = query.now || new Date();
+    const local = new Date(now.getTime() - (query.timezoneOffset || 0) * 60 * 1000);
+
+    const season = getSeason(local.getUTCMonth());
+    const random = createSeededRandom(`${city}:${local.toISOString().slice(0, 10)}`);
+
+    let condition: WeatherCondition = WEATHER_CONDITIONS[pickWeightedIndex(SEASON_WEATHER_WEIGHTS[season], random)];
+    const { base, range } = SEASON_TEMPERATURES[season];
+    const temperature = Math.round(base + (random() * 2 - 1) * range);
+
+    // 零度以上不下雪
+    if (condition === "snowy" && temperature > 0) {
+      condition = "rainy";
+    }
+
+    return {
+      city,
+      timeOfDay: getTimeOfDay(local.getUTCHours()),
+      season,
+      weather: {
+        condition,
+        temperature,
+        description: describeWeather(condition, temperature),
+      },
+    };
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * 上下文推荐规则
+ *
+ * 根据天气和时段过滤、加权条目：
+ * 雨雪天排除户外条目，天冷时偏好热汤，天好时偏好户外，
+ * 带 time:<时段> 标签的条目在对应时段加权
+ */
+
+import { CatalogItem } from '../catalog/types';
+import { DEFAULT_LOCALE, Locale } from '../locale/types';
+import { ItemBoost } from '../recommendation/types';
+import { RecommendationContext, TIME_OF_DAY_LABELS, TimeOfDay, describeWeather } from './types';
+
+/** 低于该气温视为天冷 */
+const COLD_TEMPERATURE = 10;
+
+/** 高于该气温视为炎热 */
+const HOT_TEMPERATURE = 32;
+
+/** 上下文加权倍数 */
+const CONTEXT_BOOST = 2;
+
+/**
+ * 上下文推荐理由
+ */
+const CONTEXT_REASONS: Record<Locale, {
+  hotSoup: (weather: string) => string;
+  indoor: (weather: string) => string;
+  outdoor: (weather: string) => string;
+  timeOfDay: (timeOfDay: TimeOfDay, title: string) => string;
+}> = {
+  zh: {
+    hotSoup: weather => `${weather}，来点热乎的暖暖身子`,
+    indoor: weather => `${weather}，适合室内活动`,
+    outdoor: weather => `${weather}，适合出门走走`,
+    timeOfDay: (timeOfDay, title) => `${TIME_OF_DAY_LABELS.zh[timeOfDay]}正适合${title}`,
+  },
+  en: {
+    hotSoup: weather => `${weather} — something hot will warm you up`,
+    indoor: weather => `${weather} — a good time to stay indoors`,
+    outdoor: weather => `${weather} — a good time to get outside`,
+    timeOfDay: (timeOfDay, title) => `${title} is perfect for the ${TIME_OF_DAY_LABELS.en[timeOfDay]}`,
+  },
+};
+
+/**
+ * 应用上下文后的结果
+ */
+export interface ContextAdjustment<T extends CatalogItem> {
+  items: T[];
+  boosts: Record<string, ItemBoost>;
+}
+
+/**
+ * 单个条目的上下文加权（多条规则命中时取第一条）
+ */
+function getItemBoost(item: CatalogItem, context: RecommendationContext, locale: Locale): ItemBoost | null {
+  const tags = item.tags || [];
+  const { condition, temperature } = context.weather;
+  const reasons = CONTEXT_REASONS[locale];
+  const weather = describeWeather(condition, temperature, locale);
+
+  if (temperature <= COLD_TEMPERATURE && tags.includes("hot-soup")) {
+    return { multiplier: CONTEXT_BOOST, reason: reasons.hotSoup(weather) };
+  }
+  if ((condition === "rainy" || condition === "snowy" || temperature >= HOT_TEMPERATURE) && tags.includes("indoor")) {
+    return { multiplier: CONTEXT_BOOST, reason: reasons.indoor(weather) };
+  }
+  if (condition === "sunny" && temperature > COLD_TEMPERATURE && temperature < HOT_TEMPERATURE && tags.includes("outdoor")) {
+    return { multiplier: CONTEXT_BOOST, reason: reasons.outdoor(weather) };
+  }
+  if (tags.includes(`time:${context.timeOfDay}`)) {
+    return { multiplier: CONTEXT_BOOST, reason: reasons.timeOfDay(context.timeOfDay, item.title) };
+  }
+  return null;
+}
+
+/**
+ * 按上下文过滤并加权条目
+ * 过滤后没有条目时保留原列表，只做加权；推荐理由使用 locale 对应的语言
+ */
+export function applyContextRules<T extends CatalogItem>(
+  items: T[],
+  context: RecommendationContext,
+  locale: Locale = DEFAULT_LOCALE
+): ContextAdjustment<T> {
+  const badWeather = context.weather.condition === "rainy" || context.weather.condition === "snowy";
+  const filtered = badWeather ? items.filter(item => !(item.tags || []).includes("outdoor")) : items;
+  const candidates = filtered.length > 0 ? filtered : items;
+
+  const boosts: Record<string, ItemBoost> = {};
+  candidates.forEach(item => {
+    const boost = getItemBoost(item, context, locale);
+    if (boost) {
+      boosts[item.id] = boost;
+    }
+  });
+
+  return { items: candidates, boosts };
+}
+
+/**
+ * 需要展示实时天气的分类
+ */
+export function usesWeather(item: CatalogItem): boolean {
+  return item.category === "travel" || item.category === "fitness";
+}
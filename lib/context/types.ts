@@ -0,0 +1,123 @@
+/**
+ * 推荐上下文 - 类型定义
+ */
+
+import { DEFAULT_LOCALE, Locale } from '../locale/types';
+
+/**
+ * 时段
+ */
+export const TIMES_OF_DAY = ["morning", "afternoon", "evening", "night"] as const;
+
+export type TimeOfDay = typeof TIMES_OF_DAY[number];
+
+/**
+ * 季节
+ */
+export const SEASONS = ["spring", "summer", "autumn", "winter"] as const;
+
+export type Season = typeof SEASONS[number];
+
+/**
+ * 天气状况
+ */
+export const WEATHER_CONDITIONS = ["sunny", "cloudy", "rainy", "snowy"] as const;
+
+export type WeatherCondition = typeof WEATHER_CONDITIONS[number];
+
+/**
+ * 天气信息
+ */
+export interface WeatherInfo {
+  condition: WeatherCondition;
+  /** 气温（摄氏度） */
+  temperature: number;
+  /** 可读描述，例如 "晴朗 22°C" */
+  description: string;
+}
+
+/**
+ * 推荐时的环境上下文
+ */
+export interface RecommendationContext {
+  city: string;
+  timeOfDay: TimeOfDay;
+  season: Season;
+  weather: WeatherInfo;
+}
+
+/**
+ * 上下文查询参数
+ */
+export interface ContextQuery {
+  /** 城市，未指定时使用默认城市 */
+  city?: string;
+  /** 当前时间，默认 new Date() */
+  now?: Date;
+  /** 客户端时区偏移（分钟，与 Date#getTimezoneOffset 一致） */
+  timezoneOffset?: number;
+}
+
+/** 未设置常住城市时使用的默认城市 */
+export const DEFAULT_CONTEXT_CITY = "北京";
+
+export const WEATHER_LABELS: Record<Locale, Record<WeatherCondition, string>> = {
+  zh: {
+    sunny: "晴朗",
+    cloudy: "多云",
+    rainy: "小雨",
+    snowy: "小雪",
+  },
+  en: {
+    sunny: "Sunny",
+    cloudy: "Cloudy",
+    rainy: "Light rain",
+    snowy: "Light snow",
+  },
+};
+
+export const TIME_OF_DAY_LABELS: Record<Locale, Record<TimeOfDay, string>> = {
+  zh: {
+    morning: "早上",
+    afternoon: "下午",
+    evening: "傍晚",
+    night: "夜里",
+  },
+  en: {
+    morning: "morning",
+    afternoon: "afternoon",
+    evening: "evening",
+    night: "night",
+  },
+};
+
+/**
+ * 根据本地小时计算时段
+ */
+export function getTimeOfDay(hour: number): TimeOfDay {
+  if (hour >= 5 && hour < 11) return "morning";
+  if (hour >= 11 && hour < 17) return "afternoon";
+  if (hour >= 17 && hour < 22) return "evening";
+  return "night";
+}
+
+/**
+ * 根据月份（0-11，北半球）计算季节
+ */
+export function getSeason(month: number): Season {
+  if (month >= 2 && month <= 4) return "spring";
+  if (month >= 5 && month <= 7) return "summer";
+  if (month >= 8 && month <= 10) return "autumn";
+  return "winter";
+}
+
+/**
+ * 生成天气描述
+ */
+export function describeWeather(
+  condition: WeatherCondition,
+  temperature: number,
+  locale: Locale = DEFAULT_LOCALE
+): string {
+  return `${WEATHER_LABELS[locale][condition]} ${Math.round(temperature)}°C`;
+}
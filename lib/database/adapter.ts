@@ -3,6 +3,7 @@
  */
 
 import { DatabaseConfig } from '../core/types';
+import { getDatabaseProvider } from '../config/deployment';
 
 /**
  * 数据库连接适配器接口
@@ -58,4 +59,102 @@ export async function initDatabase(config: DatabaseConfig): Promise<DatabaseConn
   const connector = createDatabaseConnector(config.type, config);
   await connector.initialize(config);
   return connector;
-}
\ No newline at end of file
+}
+
+/**
+ * 业务数据存储提供商
+ * 在两种数据库之外提供内存实现，便于本地开发和测试
+ */
+export type StoreProvider = "supabase" | "cloudbase" | "memory";
+
+/**
+ * 从环境变量读取数据库配置
+ */
+export function getDatabaseConfigFromEnv(type: "supabase" | "cloudbase"): DatabaseConfig {
+  if (type === "supabase") {
+    return {
+      type,
+      url: process.env.NEXT_PUBLIC_SUPABASE_URL || process.env.SUPABASE_URL,
+      // 服务端优先使用 service role key，以便在 RLS 下写入业务表
+      anonKey: process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || process.env.SUPABASE_ANON_KEY,
+    };
+  }
+
+  return {
+    type,
+    envId: process.env.WECHAT_CLOUDBASE_ID,
+  };
+}
+
+/**
+ * 检查数据库所需的环境变量是否已配置
+ */
+export function isDatabaseConfigured(type: "supabase" | "cloudbase"): boolean {
+  if (type === "supabase") {
+    const config = getDatabaseConfigFromEnv(type);
+    return Boolean(config.url && config.anonKey);
+  }
+
+  return Boolean(
+    process.env.WECHAT_CLOUDBASE_ID &&
+    process.env.CLOUDBASE_SECRET_ID &&
+    process.env.CLOUDBASE_SECRET_KEY
+  );
+}
+
+/**
+ * 解析业务存储提供商
+ * 优先使用显式指定的值，否则跟随部署区域的数据库；
+ * 数据库未配置时开发环境降级为内存存储，生产环境直接报错，避免数据在重启后静默丢失
+ */
+export function resolveStoreProvider(preferred?: string | null): StoreProvider {
+  if (preferred === "supabase" || preferred === "cloudbase" || preferred === "memory") {
+    return preferred;
+  }
+
+  const provider = getDatabaseProvider();
+  if (isDatabaseConfigured(provider)) {
+    return provider;
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error(`${provider} environment variables are not configured; set them or choose a store explicitly`);
+  }
+
+  console.warn(`⚠️ ${provider} 环境变量未配置，业务数据将使用内存存储`);
+  return "memory";
+}
+
+/**
+ * 已初始化的连接器缓存（每种数据库共用一个连接）
+ */
+const connectorCache = new Map<"supabase" | "cloudbase", Promise<DatabaseConnector>>();
+
+/**
+ * 获取已初始化的数据库客户端
+ */
+export async function getDatabaseClient(type: "supabase" | "cloudbase"): Promise<any> {
+  let pending = connectorCache.get(type);
+  if (!pending) {
+    pending = initDatabase(getDatabaseConfigFromEnv(type));
+    connectorCache.set(type, pending);
+    // 初始化失败时清除缓存，允许下次重试
+    pending.catch(() => connectorCache.delete(type));
+  }
+
+  const connector = await pending;
+  return connector.getClient();
+}
+/**
+ * 获取进程内共享的内存集合
+ * 挂载在 globalThis 上，保证各个 API 路由读写的是同一份数据
+ */
+export function getMemoryCollection<T>(name: string): Map<string, T> {
+  const registry: Map<string, Map<string, any>> =
+    (globalThis as any).__memoryCollections || ((globalThis as any).__memoryCollections = new Map());
+
+  if (!registry.has(name)) {
+    registry.set(name, new Map<string, T>());
+  }
+  return registry.get(name) as Map<string, T>;
+}
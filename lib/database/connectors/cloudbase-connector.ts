@@ -57,4 +57,11 @@ export class CloudBaseConnector implements DatabaseConnector {
     this.client = null;
     console.log('✅ CloudBase connection closed');
   }
-}
\ No newline at end of file
+}
+/**
+ * 是否为以已存在的 _id 写入文档导致的错误
+ */
+export function isCloudBaseDuplicateError(error: unknown): boolean {
+  const { code, message } = (error || {}) as { code?: unknown; message?: unknown };
+  return code === 'DATABASE_DUPLICATE_WRITE' || /duplicate key|E11000/i.test(String(message || ''));
+}
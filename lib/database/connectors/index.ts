@@ -4,4 +4,4 @@
 
 // 导出所有连接器
 export { SupabaseConnector } from './supabase-connector';
-export { CloudBaseConnector } from './cloudbase-connector';
\ No newline at end of file
+export { CloudBaseConnector, isCloudBaseDuplicateError } from './cloudbase-connector';
\ No newline at end of file
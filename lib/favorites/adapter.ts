@@ -0,0 +1,72 @@
+/**
+ * 收藏仓库接口
+ */
+
+import { StoreProvider, resolveStoreProvider } from '../database/adapter';
+import { CatalogCategory, Recommendation } from '../catalog/types';
+import { Favorite } from './types';
+
+/**
+ * 收藏仓库接口
+ */
+export interface FavoriteRepository {
+  /**
+   * 查询收藏（按收藏时间倒序，可按分类）
+   */
+  listFavorites(userId: string, category?: CatalogCategory): Promise<Favorite[]>;
+
+  /**
+   * 查找某条目的收藏记录
+   */
+  findFavorite(userId: string, category: CatalogCategory, itemId: string): Promise<Favorite | null>;
+
+  /**
+   * 统计收藏数量
+   */
+  countFavorites(userId: string): Promise<number>;
+
+  /**
+   * 新增收藏，已收藏时返回已有记录
+   * limit 为收藏数量上限（null 表示不限），数量检查与写入是原子的；已达上限时返回 null
+   */
+  addFavorite(userId: string, category: CatalogCategory, item: Recommendation, limit: number | null): Promise<Favorite | null>;
+
+  /**
+   * 删除收藏，返回是否删除成功
+   */
+  removeFavorite(userId: string, favoriteId: string): Promise<boolean>;
+}
+
+/**
+ * 创建收藏仓库工厂函数
+ */
+export function createFavoriteRepository(type: StoreProvider): FavoriteRepository {
+  switch (type) {
+    case "supabase":
+      const { SupabaseFavoriteRepository } = require("./repositories/supabase-repository");
+      return new SupabaseFavoriteRepository();
+    case "cloudbase":
+      const { CloudBaseFavoriteRepository } = require("./repositories/cloudbase-repository");
+      return new CloudBaseFavoriteRepository();
+    case "memory":
+      const { MemoryFavoriteRepository } = require("./repositories/memory-repository");
+      return new MemoryFavoriteRepository();
+    default:
+      throw new Error(`Unsupported favorites store: ${type}`);
+  }
+}
+
+/**
+ * 全局收藏仓库实例（单例模式）
+ */
+let favoriteInstance: FavoriteRepository | null = null;
+
+/**
+ * 获取收藏仓库
+ */
+export function getFavoriteRepository(): FavoriteRepository {
+  if (!favoriteInstance) {
+    favoriteInstance = createFavoriteRepository(resolveStoreProvider(process.env.FAVORITES_STORE));
+  }
+  return favoriteInstance;
+}
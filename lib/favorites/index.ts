@@ -0,0 +1,12 @@
+/**
+ * 收藏模块统一导出
+ */
+
+export * from './types';
+export * from './adapter';
+
+// 便捷导出
+export {
+  createFavoriteRepository,
+  getFavoriteRepository
+} from './adapter';
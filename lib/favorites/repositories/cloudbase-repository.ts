@@ -0,0 +1,100 @@
+/**
+ * CloudBase 收藏仓库
+ * 数据存放在 favorites 集合，文档 ID 为 `${userId}:${category}:${itemId}`，同一条目不会重复收藏
+ */
+
+import { getDatabaseClient } from '../../database/adapter';
+import { isCloudBaseDuplicateError } from '../../database/connectors';
+import { CatalogCategory, Recommendation } from '../../catalog/types';
+import { FavoriteRepository } from '../adapter';
+import { Favorite } from '../types';
+
+const COLLECTION = 'favorites';
+
+export class CloudBaseFavoriteRepository implements FavoriteRepository {
+  async listFavorites(userId: string, category?: CatalogCategory): Promise<Favorite[]> {
+    const db = await getDatabaseClient('cloudbase');
+
+    const conditions: Record<string, any> = { userId };
+    if (category) {
+      conditions.category = category;
+    }
+
+    const result = await db.collection(COLLECTION)
+      .where(conditions)
+      .orderBy('createdAt', 'desc')
+      .get();
+
+    return result.data.map((doc: any) => this.fromDocument(doc));
+  }
+
+  async findFavorite(userId: string, category: CatalogCategory, itemId: string): Promise<Favorite | null> {
+    const db = await getDatabaseClient('cloudbase');
+
+    const result = await db.collection(COLLECTION)
+      .where({ userId, category, itemId })
+      .limit(1)
+      .get();
+
+    return result.data[0] ? this.fromDocument(result.data[0]) : null;
+  }
+
+  async countFavorites(userId: string): Promise<number> {
+    const db = await getDatabaseClient('cloudbase');
+
+    const result = await db.collection(COLLECTION)
+      .where({ userId })
+      .count();
+
+    return result.total || 0;
+  }
+
+  async addFavorite(userId: string, category: CatalogCategory, item: Recommendation, limit: number | null): Promise<Favorite | null> {
+    const existing = await this.findFavorite(userId, category, item.id);
+    if (existing) {
+      return existing;
+    }
+
+    const db = await getDatabaseClient('cloudbase');
+    const id = `${userId}:${category}:${item.id}`;
+    const document = {
+      userId,
+      category,
+      itemId: item.id,
+      item,
+      createdAt: new Date().toISOString(),
+    };
+
+    try {
+      await db.collection(COLLECTION).add({ _id: id, ...document });
+    } catch (error) {
+      // 同时收藏了同一条目，返回先写入的记录；其他错误照常抛出
+      if (!isCloudBaseDuplicateError(error)) {
+        throw error;
+      }
+      return this.findFavorite(userId, category, item.id);
+    }
+
+    // 先写入再检查数量：并发收藏时超出上限的一方撤销自己的写入，不会超过上限
+    if (limit !== null && await this.countFavorites(userId) > limit) {
+      await db.collection(COLLECTION).doc(id).remove();
+      return null;
+    }
+    return { ...document, id };
+  }
+
+  async removeFavorite(userId: string, favoriteId: string): Promise<boolean> {
+    const db = await getDatabaseClient('cloudbase');
+
+    const result = await db.collection(COLLECTION)
+      .where({ _id: favoriteId, userId })
+      .remove();
+
+    return (result.deleted || 0) > 0;
+  }
+
+  private fromDocument(doc: any): Favorite {
+    const { _id, ...favorite } = doc;
+    return { ...favorite, id: _id };
+  }
+}
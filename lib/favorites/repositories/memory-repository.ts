@@ -0,0 +1,56 @@
+/**
+ * 内存收藏仓库
+ */
+
+import { getMemoryCollection } from '../../database/adapter';
+import { generateId } from '../../utils/helpers';
+import { CatalogCategory, Recommendation } from '../../catalog/types';
+import { FavoriteRepository } from '../adapter';
+import { Favorite } from '../types';
+
+export class MemoryFavoriteRepository implements FavoriteRepository {
+  private favorites = getMemoryCollection<Favorite[]>('favorites');
+
+  async listFavorites(userId: string, category?: CatalogCategory): Promise<Favorite[]> {
+    return (this.favorites.get(userId) || [])
+      .filter(favorite => !category || favorite.category === category)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async findFavorite(userId: string, category: CatalogCategory, itemId: string): Promise<Favorite | null> {
+    return (this.favorites.get(userId) || [])
+      .find(favorite => favorite.category === category && favorite.itemId === itemId) || null;
+  }
+
+  async countFavorites(userId: string): Promise<number> {
+    return (this.favorites.get(userId) || []).length;
+  }
+
+  async addFavorite(userId: string, category: CatalogCategory, item: Recommendation, limit: number | null): Promise<Favorite | null> {
+    const existing = await this.findFavorite(userId, category, item.id);
+    if (existing) {
+      return existing;
+    }
+    if (limit !== null && await this.countFavorites(userId) >= limit) {
+      return null;
+    }
+
+    const favorite: Favorite = {
+      id: generateId('fav'),
+      userId,
+      category,
+      itemId: item.id,
+      item,
+      createdAt: new Date().toISOString(),
+    };
+    this.favorites.set(userId, [...(this.favorites.get(userId) || []), favorite]);
+    return favorite;
+  }
+
+  async removeFavorite(userId: string, favoriteId: string): Promise<boolean> {
+    const existing = this.favorites.get(userId) || [];
+    const kept = existing.filter(favorite => favorite.id !== favoriteId);
+    this.favorites.set(userId, kept);
+    return kept.length < existing.length;
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Supabase 收藏仓库
+ * 数据存放在 favorites 表，新增收藏通过 add_favorite 函数原子地检查数量上限（见 supabase/favorites.sql）
+ */
+
+import { getDatabaseClient } from '../../database/adapter';
+import { CatalogCategory, Recommendation } from '../../catalog/types';
+import { FavoriteRepository } from '../adapter';
+import { Favorite } from '../types';
+
+const TABLE = 'favorites';
+
+export class SupabaseFavoriteRepository implements FavoriteRepository {
+  async listFavorites(userId: string, category?: CatalogCategory): Promise<Favorite[]> {
+    const supabase = await getDatabaseClient('supabase');
+
+    let request = supabase
+      .from(TABLE)
+      .select('*')
+      .eq('user_id', userId);
+
+    if (category) {
+      request = request.eq('category', category);
+    }
+
+    const { data, error } = await request.order('created_at', { ascending: false });
+    if (error) {
+      throw error;
+    }
+    return (data || []).map((row: any) => this.fromRow(row));
+  }
+
+  async findFavorite(userId: string, category: CatalogCategory, itemId: string): Promise<Favorite | null> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { data, error } = await supabase
+      .from(TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .eq('category', category)
+      .eq('item_id', itemId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    return data ? this.fromRow(data) : null;
+  }
+
+  async countFavorites(userId: string): Promise<number> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { count, error } = await supabase
+      .from(TABLE)
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId);
+
+    if (error) {
+      throw error;
+    }
+    return count || 0;
+  }
+
+  async addFavorite(userId: string, category: CatalogCategory, item: Recommendation, limit: number | null): Promise<Favorite | null> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { data, error } = await supabase.rpc('add_favorite', {
+      p_user_id: userId,
+      p_category: category,
+      p_item_id: item.id,
+      p_item: item,
+      p_limit: limit,
+    });
+
+    if (error) {
+      throw error;
+    }
+    return data && data.length > 0 ? this.fromRow(data[0]) : null;
+  }
+
+  async removeFavorite(userId: string, favoriteId: string): Promise<boolean> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { error, count } = await supabase
+      .from(TABLE)
+      .delete({ count: 'exact' })
+      .eq('user_id', userId)
+      .eq('id', favoriteId);
+
+    if (error) {
+      throw error;
+    }
+    return (count || 0) > 0;
+  }
+
+  private fromRow(row: any): Favorite {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      category: row.category,
+      itemId: row.item_id,
+      item: row.item,
+      createdAt: new Date(row.created_at).toISOString(),
+    };
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * 收藏 - 类型定义
+ */
+
+import { z } from 'zod';
+import { CATALOG_CATEGORIES, CatalogCategory, Recommendation } from '../catalog/types';
+
+/**
+ * 收藏记录
+ * item 为收藏时的条目快照，条目下架后收藏仍可展示
+ */
+export interface Favorite {
+  id: string;
+  userId: string;
+  category: CatalogCategory;
+  itemId: string;
+  item: Recommendation;
+  createdAt: string;
+}
+
+/**
+ * 新增收藏请求
+ */
+export const favoriteInputSchema = z.object({
+  category: z.enum(CATALOG_CATEGORIES),
+  itemId: z.string().min(1),
+});
+
+export type FavoriteInput = z.infer<typeof favoriteInputSchema>;
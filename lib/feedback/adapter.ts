@@ -0,0 +1,66 @@
+/**
+ * 推荐反馈仓库接口
+ */
+
+import { StoreProvider, resolveStoreProvider } from '../database/adapter';
+import { CatalogCategory } from '../catalog/types';
+import { FeedbackEntry, ItemFeedbackStats } from './types';
+
+/**
+ * 推荐反馈仓库接口
+ */
+export interface FeedbackRepository {
+  /**
+   * 记录反馈，覆盖该用户对同一条目的旧反馈
+   */
+  setFeedback(entry: Omit<FeedbackEntry, 'updatedAt'>): Promise<FeedbackEntry>;
+
+  /**
+   * 撤销反馈，返回是否删除成功
+   */
+  removeFeedback(userId: string, category: CatalogCategory, itemId: string): Promise<boolean>;
+
+  /**
+   * 查询用户的反馈（可按分类）
+   */
+  listFeedback(userId: string, category?: CatalogCategory): Promise<FeedbackEntry[]>;
+
+  /**
+   * 按条目汇总所有用户的反馈（可按分类）
+   */
+  getItemStats(category?: CatalogCategory): Promise<ItemFeedbackStats[]>;
+}
+
+/**
+ * 创建推荐反馈仓库工厂函数
+ */
+export function createFeedbackRepository(type: StoreProvider): FeedbackRepository {
+  switch (type) {
+    case "supabase":
+      const { SupabaseFeedbackRepository } = require("./repositories/supabase-repository");
+      return new SupabaseFeedbackRepository();
+    case "cloudbase":
+      const { CloudBaseFeedbackRepository } = require("./repositories/cloudbase-repository");
+      return new CloudBaseFeedbackRepository();
+    case "memory":
+      const { MemoryFeedbackRepository } = require("./repositories/memory-repository");
+      return new MemoryFeedbackRepository();
+    default:
+      throw new Error(`Unsupported feedback store: ${type}`);
+  }
+}
+
+/**
+ * 全局推荐反馈仓库实例（单例模式）
+ */
+let feedbackInstance: FeedbackRepository | null = null;
+
+/**
+ * 获取推荐反馈仓库
+ */
+export function getFeedbackRepository(): FeedbackRepository {
+  if (!feedbackInstance) {
+    feedbackInstance = createFeedbackRepository(resolveStoreProvider(process.env.FEEDBACK_STORE));
+  }
+  return feedbackInstance;
+}
@@ -0,0 +1,13 @@
+/**
+ * 推荐反馈模块统一导出
+ */
+
+export * from './types';
+export * from './adapter';
+export * from './stats';
+
+// 便捷导出
+export {
+  createFeedbackRepository,
+  getFeedbackRepository
+} from './adapter';
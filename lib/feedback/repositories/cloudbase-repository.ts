@@ -0,0 +1,91 @@
+/**
+ * CloudBase 推荐反馈仓库
+ * 数据存放在 item_feedback 集合，文档 ID 为 `${userId}:${category}:${itemId}`
+ */
+
+import { getDatabaseClient } from '../../database/adapter';
+import { CatalogCategory } from '../../catalog/types';
+import { FeedbackRepository } from '../adapter';
+import { sortFeedbackStats } from '../stats';
+import { FeedbackEntry, ItemFeedbackStats } from '../types';
+
+const COLLECTION = 'item_feedback';
+
+export class CloudBaseFeedbackRepository implements FeedbackRepository {
+  async setFeedback(entry: Omit<FeedbackEntry, 'updatedAt'>): Promise<FeedbackEntry> {
+    const db = await getDatabaseClient('cloudbase');
+    const saved = { ...entry, updatedAt: new Date().toISOString() };
+
+    await db.collection(COLLECTION)
+      .doc(this.documentId(entry.userId, entry.category, entry.itemId))
+      .set(saved);
+
+    return saved;
+  }
+
+  async removeFeedback(userId: string, category: CatalogCategory, itemId: string): Promise<boolean> {
+    const db = await getDatabaseClient('cloudbase');
+
+    const result = await db.collection(COLLECTION)
+      .doc(this.documentId(userId, category, itemId))
+      .remove();
+
+    return (result.deleted || 0) > 0;
+  }
+
+  async listFeedback(userId: string, category?: CatalogCategory): Promise<FeedbackEntry[]> {
+    const db = await getDatabaseClient('cloudbase');
+
+    const conditions: Record<string, any> = { userId };
+    if (category) {
+      conditions.category = category;
+    }
+
+    const result = await db.collection(COLLECTION)
+      .where(conditions)
+      .limit(1000)
+      .get();
+
+    return result.data.map((doc: any) => this.fromDocument(doc));
+  }
+
+  async getItemStats(category?: CatalogCategory): Promise<ItemFeedbackStats[]> {
+    const db = await getDatabaseClient('cloudbase');
+    const $ = db.command.aggregate;
+
+    const countOf = (value: string) => $.sum($.cond([$.eq(['$value', value]), 1, 0]));
+
+    let aggregate = db.collection(COLLECTION).aggregate();
+    if (category) {
+      aggregate = aggregate.match({ category });
+    }
+
+    const result = await aggregate
+      .group({
+        _id: { category: '$category', itemId: '$itemId' },
+        title: $.first('$title'),
+        likes: countOf('like'),
+        dislikes: countOf('dislike'),
+        blocks: countOf('block'),
+      })
+      .end();
+
+    return sortFeedbackStats(result.data.map((row: any) => ({
+      category: row._id.category,
+      itemId: row._id.itemId,
+      title: row.title ?? undefined,
+      likes: row.likes || 0,
+      dislikes: row.dislikes || 0,
+      blocks: row.blocks || 0,
+    })));
+  }
+
+  private documentId(userId: string, category: CatalogCategory, itemId: string): string {
+    return `${userId}:${category}:${itemId}`;
+  }
+
+  private fromDocument(doc: any): FeedbackEntry {
+    const { _id, ...entry } = doc;
+    return entry;
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * 内存推荐反馈仓库
+ */
+
+import { getMemoryCollection } from '../../database/adapter';
+import { CatalogCategory } from '../../catalog/types';
+import { FeedbackRepository } from '../adapter';
+import { aggregateFeedback } from '../stats';
+import { FeedbackEntry, ItemFeedbackStats } from '../types';
+
+export class MemoryFeedbackRepository implements FeedbackRepository {
+  private feedback = getMemoryCollection<FeedbackEntry>('item_feedback');
+
+  async setFeedback(entry: Omit<FeedbackEntry, 'updatedAt'>): Promise<FeedbackEntry> {
+    const saved = { ...entry, updatedAt: new Date().toISOString() };
+    this.feedback.set(this.key(entry.userId, entry.category, entry.itemId), saved);
+    return saved;
+  }
+
+  async removeFeedback(userId: string, category: CatalogCategory, itemId: string): Promise<boolean> {
+    return this.feedback.delete(this.key(userId, category, itemId));
+  }
+
+  async listFeedback(userId: string, category?: CatalogCategory): Promise<FeedbackEntry[]> {
+    return Array.from(this.feedback.values())
+      .filter(entry => entry.userId === userId && (!category || entry.category === category));
+  }
+
+  async getItemStats(category?: CatalogCategory): Promise<ItemFeedbackStats[]> {
+    return aggregateFeedback(
+      Array.from(this.feedback.values()).filter(entry => !category || entry.category === category)
+    );
+  }
+
+  private key(userId: string, category: CatalogCategory, itemId: string): string {
+    return `${userId}:${category}:${itemId}`;
+  }
+}
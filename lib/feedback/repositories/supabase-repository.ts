@@ -0,0 +1,108 @@
+/**
+ * Supabase 推荐反馈仓库
+ * 数据存放在 item_feedback 表，汇总来自 item_feedback_stats 视图（见 supabase/item_feedback.sql）
+ */
+
+import { getDatabaseClient } from '../../database/adapter';
+import { CatalogCategory } from '../../catalog/types';
+import { FeedbackRepository } from '../adapter';
+import { sortFeedbackStats } from '../stats';
+import { FeedbackEntry, ItemFeedbackStats } from '../types';
+
+const TABLE = 'item_feedback';
+const STATS_VIEW = 'item_feedback_stats';
+
+export class SupabaseFeedbackRepository implements FeedbackRepository {
+  async setFeedback(entry: Omit<FeedbackEntry, 'updatedAt'>): Promise<FeedbackEntry> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { data, error } = await supabase
+      .from(TABLE)
+      .upsert({
+        user_id: entry.userId,
+        category: entry.category,
+        item_id: entry.itemId,
+        type: entry.type,
+        title: entry.title ?? null,
+        value: entry.value,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'user_id,category,item_id' })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+    return this.fromRow(data);
+  }
+
+  async removeFeedback(userId: string, category: CatalogCategory, itemId: string): Promise<boolean> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { error, count } = await supabase
+      .from(TABLE)
+      .delete({ count: 'exact' })
+      .eq('user_id', userId)
+      .eq('category', category)
+      .eq('item_id', itemId);
+
+    if (error) {
+      throw error;
+    }
+    return (count || 0) > 0;
+  }
+
+  async listFeedback(userId: string, category?: CatalogCategory): Promise<FeedbackEntry[]> {
+    const supabase = await getDatabaseClient('supabase');
+
+    let request = supabase
+      .from(TABLE)
+      .select('*')
+      .eq('user_id', userId);
+
+    if (category) {
+      request = request.eq('category', category);
+    }
+
+    const { data, error } = await request;
+    if (error) {
+      throw error;
+    }
+    return (data || []).map((row: any) => this.fromRow(row));
+  }
+
+  async getItemStats(category?: CatalogCategory): Promise<ItemFeedbackStats[]> {
+    const supabase = await getDatabaseClient('supabase');
+
+    let request = supabase.from(STATS_VIEW).select('*');
+    if (category) {
+      request = request.eq('category', category);
+    }
+
+    const { data, error } = await request;
+    if (error) {
+      throw error;
+    }
+
+    return sortFeedbackStats((data || []).map((row: any) => ({
+      category: row.category,
+      itemId: row.item_id,
+      title: row.title ?? undefined,
+      likes: Number(row.likes) || 0,
+      dislikes: Number(row.dislikes) || 0,
+      blocks: Number(row.blocks) || 0,
+    })));
+  }
+
+  private fromRow(row: any): FeedbackEntry {
+    return {
+      userId: row.user_id,
+      category: row.category,
+      itemId: row.item_id,
+      type: row.type,
+      title: row.title ?? undefined,
+      value: row.value,
+      updatedAt: new Date(row.updated_at).toISOString(),
+    };
+  }
+}
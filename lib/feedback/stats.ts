@@ -0,0 +1,40 @@
+/**
+ * 反馈汇总工具
+ */
+
+import { FeedbackEntry, ItemFeedbackStats } from './types';
+
+/**
+ * 按条目汇总反馈，按反馈总数倒序
+ */
+export function aggregateFeedback(entries: FeedbackEntry[]): ItemFeedbackStats[] {
+  const stats = new Map<string, ItemFeedbackStats>();
+
+  entries.forEach(entry => {
+    const key = `${entry.category}:${entry.itemId}`;
+    const item = stats.get(key) || {
+      category: entry.category,
+      itemId: entry.itemId,
+      title: entry.title,
+      likes: 0,
+      dislikes: 0,
+      blocks: 0,
+    };
+
+    if (entry.value === "like") item.likes++;
+    if (entry.value === "dislike") item.dislikes++;
+    if (entry.value === "block") item.blocks++;
+
+    stats.set(key, item);
+  });
+
+  return sortFeedbackStats(Array.from(stats.values()));
+}
+
+/**
+ * 按反馈总数倒序排列
+ */
+export function sortFeedbackStats(stats: ItemFeedbackStats[]): ItemFeedbackStats[] {
+  const total = (item: ItemFeedbackStats) => item.likes + item.dislikes + item.blocks;
+  return stats.sort((a, b) => total(b) - total(a));
+}
@@ -0,0 +1,53 @@
+/**
+ * 推荐反馈 - 类型定义
+ */
+
+import { z } from 'zod';
+import { CATALOG_CATEGORIES, CatalogCategory } from '../catalog/types';
+
+/**
+ * 反馈类型
+ * like    → 喜欢，提升同类型条目的权重
+ * dislike → 不喜欢，降低同类型条目的权重
+ * block   → 不再推荐该条目
+ */
+export const FEEDBACK_VALUES = ["like", "dislike", "block"] as const;
+
+export type FeedbackValue = typeof FEEDBACK_VALUES[number];
+
+/**
+ * 提交反馈请求
+ */
+export const feedbackInputSchema = z.object({
+  category: z.enum(CATALOG_CATEGORIES),
+  itemId: z.string().min(1),
+  value: z.enum(FEEDBACK_VALUES),
+});
+
+export type FeedbackInput = z.infer<typeof feedbackInputSchema>;
+
+/**
+ * 用户对单个条目的反馈（每个用户每个条目只保留最新一条）
+ */
+export interface FeedbackEntry {
+  userId: string;
+  category: CatalogCategory;
+  itemId: string;
+  /** 条目类型，用于按类型调整权重 */
+  type: string;
+  title?: string;
+  value: FeedbackValue;
+  updatedAt: string;
+}
+
+/**
+ * 单个条目的反馈汇总（管理员可见）
+ */
+export interface ItemFeedbackStats {
+  category: CatalogCategory;
+  itemId: string;
+  title?: string;
+  likes: number;
+  dislikes: number;
+  blocks: number;
+}
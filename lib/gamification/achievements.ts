@@ -0,0 +1,105 @@
+/**
+ * 成就定义和判定
+ *
+ * 成就解锁后保留，不会因为进度回落（例如连续天数中断）而收回
+ */
+
+import { CATALOG_CATEGORIES } from '../catalog/types';
+import {
+  AchievementDefinition,
+  AchievementStatus,
+  GamificationProgress,
+  UnlockedAchievement,
+  countWeeklyWorkouts,
+} from './types';
+
+/**
+ * 各分类历史最长连续天数中的最大值
+ */
+function getLongestStreak(progress: GamificationProgress): number {
+  return Math.max(0, ...Object.values(progress.streaks).map(streak => streak?.longest || 0));
+}
+
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: "first-pick",
+    title: "初来乍到",
+    description: "第一次摇出推荐",
+    icon: "🎲",
+    target: 1,
+    measure: progress => progress.totalPicks,
+  },
+  {
+    id: "streak-3",
+    title: "三天不断",
+    description: "同一分类连续 3 天使用",
+    icon: "🔥",
+    target: 3,
+    measure: getLongestStreak,
+  },
+  {
+    id: "streak-7",
+    title: "一周常客",
+    description: "同一分类连续 7 天使用",
+    icon: "🏅",
+    target: 7,
+    measure: getLongestStreak,
+  },
+  {
+    id: "all-categories",
+    title: "样样都试",
+    description: `${CATALOG_CATEGORIES.length} 个分类都摇过`,
+    icon: "🌈",
+    target: CATALOG_CATEGORIES.length,
+    measure: progress => Object.keys(progress.streaks).length,
+  },
+  {
+    id: "cuisines-10",
+    title: "百味人生",
+    description: "吃过 10 种菜系",
+    icon: "🍱",
+    target: 10,
+    measure: progress => progress.cuisines.length,
+  },
+  {
+    id: "workouts-week-5",
+    title: "运动达人",
+    description: "一周内运动 5 次",
+    icon: "💪",
+    target: 5,
+    measure: countWeeklyWorkouts,
+  },
+  {
+    id: "challenges-5",
+    title: "挑战者",
+    description: "完成 5 个每日挑战",
+    icon: "🎯",
+    target: 5,
+    measure: progress => progress.challengeDates.length,
+  },
+];
+
+/**
+ * 找出本次新达成的成就
+ */
+export function findNewAchievements(progress: GamificationProgress, today: string, now: Date = new Date()): UnlockedAchievement[] {
+  const unlocked = new Set(progress.achievements.map(achievement => achievement.id));
+  return ACHIEVEMENTS
+    .filter(definition => !unlocked.has(definition.id) && definition.measure(progress, today) >= definition.target)
+    .map(definition => ({ id: definition.id, unlockedAt: now.toISOString() }));
+}
+
+/**
+ * 全部成就的当前进度（已解锁的进度按目标值显示）
+ */
+export function listAchievementStatus(progress: GamificationProgress, today: string): AchievementStatus[] {
+  const unlocked = new Map(progress.achievements.map(achievement => [achievement.id, achievement.unlockedAt]));
+  return ACHIEVEMENTS.map(({ measure, ...definition }) => {
+    const unlockedAt = unlocked.get(definition.id);
+    return {
+      ...definition,
+      current: unlockedAt ? definition.target : Math.min(measure(progress, today), definition.target),
+      ...(unlockedAt && { unlockedAt }),
+    };
+  });
+}
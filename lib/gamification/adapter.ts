@@ -0,0 +1,56 @@
+/**
+ * 成就进度仓库接口
+ */
+
+import { StoreProvider, resolveStoreProvider } from '../database/adapter';
+import { GamificationProgress } from './types';
+
+/**
+ * 成就进度仓库接口
+ */
+export interface GamificationRepository {
+  /**
+   * 读取用户进度，还没有任何行为时返回 null
+   */
+  getProgress(userId: string): Promise<GamificationProgress | null>;
+
+  /**
+   * 条件保存用户进度（整体覆盖）：只有当前版本等于 expectedVersion 时才写入，版本加一
+   * expectedVersion 为 0 表示新建；版本不符时返回 null
+   */
+  saveProgress(progress: GamificationProgress, expectedVersion: number): Promise<GamificationProgress | null>;
+}
+
+/**
+ * 创建成就进度仓库工厂函数
+ */
+export function createGamificationRepository(type: StoreProvider): GamificationRepository {
+  switch (type) {
+    case "supabase":
+      const { SupabaseGamificationRepository } = require("./repositories/supabase-repository");
+      return new SupabaseGamificationRepository();
+    case "cloudbase":
+      const { CloudBaseGamificationRepository } = require("./repositories/cloudbase-repository");
+      return new CloudBaseGamificationRepository();
+    case "memory":
+      const { MemoryGamificationRepository } = require("./repositories/memory-repository");
+      return new MemoryGamificationRepository();
+    default:
+      throw new Error(`Unsupported gamification store: ${type}`);
+  }
+}
+
+/**
+ * 全局实例（单例模式）
+ */
+let gamificationInstance: GamificationRepository | null = null;
+
+/**
+ * 获取成就进度仓库
+ */
+export function getGamificationRepository(): GamificationRepository {
+  if (!gamificationInstance) {
+    gamificationInstance = createGamificationRepository(resolveStoreProvider(process.env.GAMIFICATION_STORE));
+  }
+  return gamificationInstance;
+}
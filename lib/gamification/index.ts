@@ -0,0 +1,12 @@
+/**
+ * 连续打卡、成就和每日挑战模块统一导出
+ */
+
+export * from './types';
+export * from './adapter';
+export * from './achievements';
+export * from './service';
+
+// 便捷导出
+export { getGamificationRepository } from './adapter';
+export { GamificationService } from './service';
@@ -0,0 +1,52 @@
+/**
+ * CloudBase 成就进度仓库
+ * 数据存放在 gamification_progress 集合，文档 ID 为用户 ID
+ */
+
+import { getDatabaseClient } from '../../database/adapter';
+import { GamificationRepository } from '../adapter';
+import { GamificationProgress } from '../types';
+
+const COLLECTION = 'gamification_progress';
+
+export class CloudBaseGamificationRepository implements GamificationRepository {
+  async getProgress(userId: string): Promise<GamificationProgress | null> {
+    const db = await getDatabaseClient('cloudbase');
+
+    const result = await db.collection(COLLECTION)
+      .doc(userId)
+      .get();
+
+    const doc = result.data[0];
+    if (!doc) {
+      return null;
+    }
+
+    const { _id, ...progress } = doc;
+    // 旧文档没有版本号，按新建处理
+    return { version: 0, ...progress, userId } as GamificationProgress;
+  }
+
+  async saveProgress(progress: GamificationProgress, expectedVersion: number): Promise<GamificationProgress | null> {
+    const db = await getDatabaseClient('cloudbase');
+    const _ = db.command;
+    const { userId, ...document } = { ...progress, version: expectedVersion + 1, updatedAt: new Date().toISOString() };
+    const collection = db.collection(COLLECTION);
+
+    if (expectedVersion === 0) {
+      try {
+        await collection.add({ _id: userId, ...document });
+        return { ...document, userId };
+      } catch (error) {
+        // 文档已存在：可能是其他请求刚创建的，也可能是还没有版本号的旧文档
+      }
+    }
+
+    // 条件更新：版本不符时不会更新任何文档；update 会合并嵌套对象，连续天数需要整体替换
+    const result = await collection
+      .where({ _id: userId, version: expectedVersion === 0 ? _.exists(false) : expectedVersion })
+      .update({ ...document, streaks: _.set(document.streaks) });
+
+    return result.updated ? { ...document, userId } : null;
+  }
+}
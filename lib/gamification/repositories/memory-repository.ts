@@ -0,0 +1,26 @@
+/**
+ * 内存成就进度仓库
+ */
+
+import { getMemoryCollection } from '../../database/adapter';
+import { GamificationRepository } from '../adapter';
+import { GamificationProgress } from '../types';
+
+export class MemoryGamificationRepository implements GamificationRepository {
+  private progress = getMemoryCollection<GamificationProgress>('gamification_progress');
+
+  async getProgress(userId: string): Promise<GamificationProgress | null> {
+    return this.progress.get(userId) || null;
+  }
+
+  async saveProgress(progress: GamificationProgress, expectedVersion: number): Promise<GamificationProgress | null> {
+    const current = this.progress.get(progress.userId);
+    if ((current?.version ?? 0) !== expectedVersion) {
+      return null;
+    }
+
+    const saved = { ...progress, version: expectedVersion + 1, updatedAt: new Date().toISOString() };
+    this.progress.set(progress.userId, saved);
+    return saved;
+  }
+}
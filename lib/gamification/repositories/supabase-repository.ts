@@ -0,0 +1,89 @@
+/**
+ * Supabase 成就进度仓库
+ * 数据存放在 gamification_progress 表（见 supabase/gamification_progress.sql）
+ */
+
+import { getDatabaseClient } from '../../database/adapter';
+import { GamificationRepository } from '../adapter';
+import { GamificationProgress } from '../types';
+
+const TABLE = 'gamification_progress';
+
+/** Postgres 唯一约束冲突 */
+const UNIQUE_VIOLATION = '23505';
+
+export class SupabaseGamificationRepository implements GamificationRepository {
+  async getProgress(userId: string): Promise<GamificationProgress | null> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { data, error } = await supabase
+      .from(TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    return data ? this.fromRow(data) : null;
+  }
+
+  async saveProgress(progress: GamificationProgress, expectedVersion: number): Promise<GamificationProgress | null> {
+    const supabase = await getDatabaseClient('supabase');
+    const columns = {
+      streaks: progress.streaks,
+      total_picks: progress.totalPicks,
+      cuisines: progress.cuisines,
+      recent_workouts: progress.recentWorkouts,
+      challenge_dates: progress.challengeDates,
+      achievements: progress.achievements,
+      version: expectedVersion + 1,
+      updated_at: new Date().toISOString(),
+    };
+
+    if (expectedVersion === 0) {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .insert({ user_id: progress.userId, ...columns })
+        .select()
+        .single();
+
+      // 其他请求已经创建了这一行
+      if (error?.code === UNIQUE_VIOLATION) {
+        return null;
+      }
+      if (error) {
+        throw error;
+      }
+      return this.fromRow(data);
+    }
+
+    // 条件更新：版本不符时不会更新任何行
+    const { data, error } = await supabase
+      .from(TABLE)
+      .update(columns)
+      .eq('user_id', progress.userId)
+      .eq('version', expectedVersion)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    return data ? this.fromRow(data) : null;
+  }
+
+  private fromRow(row: any): GamificationProgress {
+    return {
+      userId: row.user_id,
+      streaks: row.streaks || {},
+      totalPicks: row.total_picks || 0,
+      cuisines: row.cuisines || [],
+      recentWorkouts: row.recent_workouts || [],
+      challengeDates: row.challenge_dates || [],
+      achievements: row.achievements || [],
+      version: row.version || 0,
+      updatedAt: new Date(row.updated_at).toISOString(),
+    };
+  }
+}
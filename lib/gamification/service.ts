@@ -0,0 +1,193 @@
+/**
+ * 连续打卡、成就和每日挑战服务
+ */
+
+import { CatalogRepository, getCatalogRepository } from '../catalog/adapter';
+import { CATALOG_CATEGORIES, isAvailableInRegion } from '../catalog/types';
+import { Region } from '../geo/ip-detection';
+import { HistoryRepository, getHistoryRepository } from '../history/adapter';
+import { MAX_HISTORY_PAGE_SIZE } from '../history/types';
+import { getLocalDate } from '../quota/types';
+import { createDailySeed, pickDailyItem } from '../recommendation/daily';
+import { hashString } from '../recommendation/random';
+import { findNewAchievements, listAchievementStatus } from './achievements';
+import { GamificationRepository, getGamificationRepository } from './adapter';
+import {
+  Activity,
+  CHALLENGE_PROMPTS,
+  DailyChallenge,
+  GamificationError,
+  GamificationProgress,
+  GamificationSummary,
+  UnlockedAchievement,
+  WORKOUT_WEEK_DAYS,
+  addDays,
+  advanceStreak,
+  createEmptyProgress,
+  getActiveStreak,
+} from './types';
+
+/**
+ * 把一次行为计入进度（不判定成就）
+ */
+export function applyActivity(progress: GamificationProgress, activity: Activity, today: string): GamificationProgress {
+  const next: GamificationProgress = {
+    ...progress,
+    streaks: {
+      ...progress.streaks,
+      [activity.category]: advanceStreak(progress.streaks[activity.category], today),
+    },
+  };
+
+  switch (activity.kind) {
+    case "pick":
+      next.totalPicks = progress.totalPicks + 1;
+      break;
+    case "eat":
+      if (activity.itemType && !progress.cuisines.includes(activity.itemType)) {
+        next.cuisines = [...progress.cuisines, activity.itemType];
+      }
+      break;
+    case "workout": {
+      // 只保留最近一周，同一天同一项运动只算一次
+      const since = addDays(today, -(WORKOUT_WEEK_DAYS - 1));
+      const recent = progress.recentWorkouts.filter(workout => workout.date >= since);
+      const duplicate = recent.some(workout => workout.date === today && workout.key === activity.key);
+      next.recentWorkouts = duplicate ? recent : [...recent, { date: today, key: activity.key }];
+      break;
+    }
+    case "challenge":
+      if (!progress.challengeDates.includes(today)) {
+        next.challengeDates = [...progress.challengeDates, today];
+      }
+      break;
+  }
+
+  return next;
+}
+
+/** 进度被并发修改时的最大重试次数 */
+const MAX_UPDATE_ATTEMPTS = 3;
+
+export class GamificationService {
+  constructor(
+    private repository: GamificationRepository = getGamificationRepository(),
+    private catalog: CatalogRepository = getCatalogRepository(),
+    private history: HistoryRepository = getHistoryRepository()
+  ) {}
+
+  /**
+   * 记录一次行为，返回本次新解锁的成就
+   * 吃饭行为没有带菜系时从目录读取；读取最新进度后按版本条件写回，版本冲突时重试
+   */
+  async recordActivity(userId: string, activity: Activity, today: string): Promise<UnlockedAchievement[]> {
+    if (activity.kind === "eat" && !activity.itemType) {
+      const item = await this.catalog.getItem(activity.category, activity.key);
+      activity = { ...activity, itemType: item?.type };
+    }
+
+    for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+      const current = (await this.repository.getProgress(userId)) || createEmptyProgress(userId);
+      const progress = applyActivity(current, activity, today);
+      const unlocked = findNewAchievements(progress, today);
+
+      const saved = await this.repository.saveProgress(
+        { ...progress, achievements: [...progress.achievements, ...unlocked] },
+        current.version
+      );
+      if (saved) {
+        return unlocked;
+      }
+    }
+    throw new GamificationError("PROGRESS_BUSY", "Progress was updated by another request, please retry");
+  }
+
+  /**
+   * 首页展示的进度汇总
+   */
+  async getSummary(userId: string, today: string): Promise<GamificationSummary> {
+    const progress = (await this.repository.getProgress(userId)) || createEmptyProgress(userId);
+    const streaks: GamificationSummary['streaks'] = {};
+    CATALOG_CATEGORIES.forEach(category => {
+      streaks[category] = getActiveStreak(progress.streaks[category], today);
+    });
+
+    return {
+      streaks,
+      achievements: listAchievementStatus(progress, today),
+      challengeCompleted: progress.challengeDates.includes(today),
+    };
+  }
+
+  /**
+   * 当天的挑战：分类按日期轮换，条目从该分类中按日期选出，同一地区的用户当天相同
+   * 该分类没有可用条目时返回 null
+   */
+  async getDailyChallenge(today: string, region?: Region): Promise<DailyChallenge | null> {
+    const category = CATALOG_CATEGORIES[hashString(`challenge:${today}`) % CATALOG_CATEGORIES.length];
+    const items = (await this.catalog.listItems(category)).filter(item => !region || isAvailableInRegion(item, region));
+    if (items.length === 0) {
+      return null;
+    }
+
+    const item = pickDailyItem(items, createDailySeed('challenge', today, category));
+    return {
+      date: today,
+      category,
+      itemId: item.id,
+      title: item.title,
+      prompt: `${CHALLENGE_PROMPTS[category]}：${item.title}`,
+    };
+  }
+
+  /**
+   * 完成当天的挑战，返回本次新解锁的成就；当天没有挑战时返回 null
+   * 只有历史记录中当天摇到过挑战条目才算完成
+   */
+  async completeChallenge(
+    userId: string,
+    today: string,
+    timezoneOffset: number,
+    region?: Region
+  ): Promise<UnlockedAchievement[] | null> {
+    const challenge = await this.getDailyChallenge(today, region);
+    if (!challenge) {
+      return null;
+    }
+
+    if (!await this.hasPickedToday(userId, challenge, timezoneOffset)) {
+      throw new GamificationError("CHALLENGE_NOT_DONE", "Today's challenge item has not been picked yet");
+    }
+
+    return this.recordActivity(userId, { kind: "challenge", category: challenge.category, key: challenge.itemId }, today);
+  }
+
+  /**
+   * 历史记录中当天（用户本地日期）是否摇到过挑战条目
+   * 只认服务端推荐时写入的记录，从 localStorage 合并的记录由客户端提交，不可信
+   */
+  private async hasPickedToday(userId: string, challenge: DailyChallenge, timezoneOffset: number): Promise<boolean> {
+    for (let page = 1; ; page++) {
+      const { entries } = await this.history.listEntries(userId, {
+        category: challenge.category,
+        page,
+        pageSize: MAX_HISTORY_PAGE_SIZE,
+      });
+
+      for (const entry of entries) {
+        const date = getLocalDate(new Date(entry.timestamp), timezoneOffset);
+        // 历史按时间倒序，早于今天的记录之后不会再有今天的
+        if (date < challenge.date) {
+          return false;
+        }
+        if (date === challenge.date && entry.itemId === challenge.itemId && entry.action === "view" && entry.source === "server") {
+          return true;
+        }
+      }
+
+      if (entries.length < MAX_HISTORY_PAGE_SIZE) {
+        return false;
+      }
+    }
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * 连续打卡、成就和每日挑战 - 类型定义
+ *
+ * 每个用户一份进度记录，行为发生时整体读出、更新后按版本条件写回
+ */
+
+import { CatalogCategory } from '../catalog/types';
+
+/**
+ * 计入进度的行为
+ * pick      → 摇到推荐
+ * eat       → 记录「就吃这个」
+ * workout   → 记录「去运动」或训练计划打卡
+ * challenge → 完成每日挑战
+ */
+export const ACTIVITY_KINDS = ["pick", "eat", "workout", "challenge"] as const;
+
+export type ActivityKind = typeof ACTIVITY_KINDS[number];
+
+/**
+ * 一次行为
+ */
+export interface Activity {
+  kind: ActivityKind;
+  category: CatalogCategory;
+  /** 条目 ID 或训练课 ID，用于去重 */
+  key: string;
+  /** 条目类型，美食为菜系 */
+  itemType?: string;
+}
+
+/**
+ * 单个分类的连续天数
+ */
+export interface CategoryStreak {
+  current: number;
+  longest: number;
+  /** 最近一次使用的本地日期 */
+  lastDate: string;
+}
+
+/**
+ * 已解锁的成就
+ */
+export interface UnlockedAchievement {
+  id: string;
+  unlockedAt: string;
+}
+
+/**
+ * 用户进度
+ */
+export interface GamificationProgress {
+  userId: string;
+  streaks: Partial<Record<CatalogCategory, CategoryStreak>>;
+  totalPicks: number;
+  /** 吃过的菜系（去重） */
+  cuisines: string[];
+  /** 最近 7 天的运动记录 */
+  recentWorkouts: { date: string; key: string }[];
+  /** 完成每日挑战的日期，最近的在后 */
+  challengeDates: string[];
+  achievements: UnlockedAchievement[];
+  /** 每次保存加一，用于并发控制；还没有保存过时为 0 */
+  version: number;
+  updatedAt: string;
+}
+
+/**
+ * 成就定义
+ */
+export interface AchievementDefinition {
+  id: string;
+  title: string;
+  description: string;
+  icon: string;
+  /** 达成目标值 */
+  target: number;
+  /** 当前进度值 */
+  measure: (progress: GamificationProgress, today: string) => number;
+}
+
+/**
+ * 展示用的成就状态
+ */
+export interface AchievementStatus {
+  id: string;
+  title: string;
+  description: string;
+  icon: string;
+  target: number;
+  current: number;
+  unlockedAt?: string;
+}
+
+/**
+ * 每日挑战（当天所有用户相同）
+ */
+export interface DailyChallenge {
+  /** 本地日期 */
+  date: string;
+  category: CatalogCategory;
+  itemId: string;
+  title: string;
+  /** 挑战文案，例如「今天尝尝：四川火锅」 */
+  prompt: string;
+}
+
+/**
+ * 首页展示的进度汇总
+ */
+export interface GamificationSummary {
+  /** 各分类当前的连续天数（断了为 0） */
+  streaks: Partial<Record<CatalogCategory, number>>;
+  achievements: AchievementStatus[];
+  challengeCompleted: boolean;
+}
+
+/** 一周天数，用于「一周运动 N 次」 */
+export const WORKOUT_WEEK_DAYS = 7;
+
+/**
+ * 各分类的挑战文案
+ */
+export const CHALLENGE_PROMPTS: Record<CatalogCategory, string> = {
+  entertainment: "今天体验",
+  shopping: "今天逛逛",
+  food: "今天尝尝",
+  travel: "今天去",
+  fitness: "今天挑战",
+};
+
+/**
+ * 在日期上加若干天
+ */
+export function addDays(date: string, days: number): string {
+  return new Date(new Date(`${date}T00:00:00Z`).getTime() + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * 空进度
+ */
+export function createEmptyProgress(userId: string): GamificationProgress {
+  return {
+    userId,
+    streaks: {},
+    totalPicks: 0,
+    cuisines: [],
+    recentWorkouts: [],
+    challengeDates: [],
+    achievements: [],
+    version: 0,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * 进度操作失败的原因
+ */
+export const GAMIFICATION_ERROR_CODES = [
+  "CHALLENGE_NOT_DONE",
+  "PROGRESS_BUSY",
+] as const;
+
+export type GamificationErrorCode = typeof GAMIFICATION_ERROR_CODES[number];
+
+/**
+ * 各失败原因对应的 HTTP 状态码
+ */
+export const GAMIFICATION_ERROR_STATUS: Record<GamificationErrorCode, number> = {
+  CHALLENGE_NOT_DONE: 409,
+  PROGRESS_BUSY: 409,
+};
+
+/**
+ * 进度操作错误
+ */
+export class GamificationError extends Error {
+  public readonly code: GamificationErrorCode;
+
+  constructor(code: GamificationErrorCode, message: string) {
+    super(message);
+    this.name = "GamificationError";
+    this.code = code;
+  }
+}
+
+/**
+ * 当天使用某个分类后的连续天数：同一天不重复累计，隔天继续，中断后从 1 重新开始
+ */
+export function advanceStreak(streak: CategoryStreak | undefined, today: string): CategoryStreak {
+  if (streak && streak.lastDate >= today) {
+    return streak;
+  }
+
+  const current = streak && streak.lastDate === addDays(today, -1) ? streak.current + 1 : 1;
+  return {
+    current,
+    longest: Math.max(current, streak?.longest || 0),
+    lastDate: today,
+  };
+}
+
+/**
+ * 截至今天仍然有效的连续天数；昨天之前就没用过的视为已中断
+ */
+export function getActiveStreak(streak: CategoryStreak | undefined, today: string): number {
+  if (!streak || streak.lastDate < addDays(today, -1)) {
+    return 0;
+  }
+  return streak.current;
+}
+
+/**
+ * 截至今天最近一周的运动次数
+ */
+export function countWeeklyWorkouts(progress: GamificationProgress, today: string): number {
+  const since = addDays(today, -(WORKOUT_WEEK_DAYS - 1));
+  return progress.recentWorkouts.filter(workout => workout.date >= since && workout.date <= today).length;
+}
@@ -4,6 +4,7 @@
 
 export * from './router';
 export * from './ip-detection';
+export * from './request';
 
 // 便捷导出
 export {
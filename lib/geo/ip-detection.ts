@@ -279,6 +279,13 @@ export function getClientIP(request?: any): string {
   return sanitizeIP(remoteAddress) || "";
 }
 
+/**
+ * 从标准 Headers 对象（如 NextRequest.headers）获取客户端IP
+ */
+export function getClientIPFromHeaders(headers: Headers): string {
+  return getClientIP({ headers: Object.fromEntries(headers.entries()) });
+}
+
 /**
  * GDPR合规性检查配置
  */
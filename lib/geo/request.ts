@@ -0,0 +1,70 @@
+/**
+ * 请求级地理信息：访客地区与展示货币
+ */
+
+import { NextRequest } from 'next/server';
+import { isChinaRegion } from '../config/region';
+import { User } from '../core/types';
+import {
+  Region,
+  getClientIPFromHeaders,
+  getCurrencyByRegion,
+  getRegionFromCountryCode,
+  isPrivateIP,
+} from './ip-detection';
+import { geoRouter } from './router';
+
+/**
+ * 平台注入的访客国家请求头（Vercel / Cloudflare）
+ */
+const COUNTRY_HEADERS = ['x-vercel-ip-country', 'cf-ipcountry'];
+
+/**
+ * 推荐接口等待 IP 检测的最长时间，超时后使用降级结果
+ */
+const DETECT_TIMEOUT = 2000;
+
+/**
+ * 请求对应的地区信息
+ */
+export interface RequestGeo {
+  region: Region;
+  /** ISO 3166-1 alpha-2 国家码，无法判断时为空 */
+  countryCode?: string;
+  currency: string;
+}
+
+/**
+ * 读取平台注入的访客国家码
+ */
+export function getRequestCountryCode(request: NextRequest): string | undefined {
+  for (const header of COUNTRY_HEADERS) {
+    const country = request.headers.get(header);
+    if (country && /^[A-Za-z]{2}$/.test(country)) {
+      return country.toUpperCase();
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 判断请求的地区和展示货币
+ * 优先级：国内版账号 → 平台国家请求头 → IP 检测 → 部署区域
+ */
+export async function getRequestGeo(request: NextRequest, user?: User | null): Promise<RequestGeo> {
+  if (user?.metadata?.region === 'CN') {
+    return { region: "china", countryCode: "CN", currency: getCurrencyByRegion("china") };
+  }
+
+  let countryCode = getRequestCountryCode(request);
+  if (!countryCode) {
+    const ip = getClientIPFromHeaders(request.headers);
+    // 内网或本地请求无法定位，跟随部署区域
+    if (ip && !isPrivateIP(ip)) {
+      countryCode = (await geoRouter.detect(ip, { timeout: DETECT_TIMEOUT })).countryCode;
+    }
+  }
+
+  const region = countryCode ? getRegionFromCountryCode(countryCode) : isChinaRegion() ? "china" : "other";
+  return { region, countryCode, currency: getCurrencyByRegion(region) };
+}
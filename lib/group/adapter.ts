@@ -0,0 +1,71 @@
+/**
+ * 多人房间仓库接口
+ */
+
+import { StoreProvider, resolveStoreProvider } from '../database/adapter';
+import { GroupRoom } from './types';
+
+/**
+ * 可修改的房间字段
+ */
+export type GroupRoomChanges = Partial<Pick<GroupRoom, 'status' | 'members' | 'current' | 'vetoedItemIds' | 'vetoesUsed'>>;
+
+/**
+ * 多人房间仓库接口
+ */
+export interface GroupRepository {
+  /**
+   * 新建房间
+   */
+  createRoom(room: Omit<GroupRoom, 'id' | 'version' | 'createdAt' | 'updatedAt'>): Promise<GroupRoom>;
+
+  /**
+   * 读取房间，不存在时返回 null
+   */
+  getRoom(roomId: string): Promise<GroupRoom | null>;
+
+  /**
+   * 按邀请码查找未关闭的房间
+   */
+  findOpenRoomByCode(code: string): Promise<GroupRoom | null>;
+
+  /**
+   * 修改房间；只有当前版本等于 expectedVersion 时才写入并把版本加一，
+   * 期间被其他请求改过时返回 null，由调用方重新读取后重试
+   */
+  updateRoom(roomId: string, changes: GroupRoomChanges, expectedVersion: number): Promise<GroupRoom | null>;
+}
+
+/**
+ * 创建多人房间仓库工厂函数
+ */
+export function createGroupRepository(type: StoreProvider): GroupRepository {
+  switch (type) {
+    case "supabase":
+      const { SupabaseGroupRepository } = require("./repositories/supabase-repository");
+      return new SupabaseGroupRepository();
+    case "cloudbase":
+      const { CloudBaseGroupRepository } = require("./repositories/cloudbase-repository");
+      return new CloudBaseGroupRepository();
+    case "memory":
+      const { MemoryGroupRepository } = require("./repositories/memory-repository");
+      return new MemoryGroupRepository();
+    default:
+      throw new Error(`Unsupported group store: ${type}`);
+  }
+}
+
+/**
+ * 全局实例（单例模式）
+ */
+let groupInstance: GroupRepository | null = null;
+
+/**
+ * 获取多人房间仓库
+ */
+export function getGroupRepository(): GroupRepository {
+  if (!groupInstance) {
+    groupInstance = createGroupRepository(resolveStoreProvider(process.env.GROUP_STORE));
+  }
+  return groupInstance;
+}
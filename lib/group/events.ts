@@ -0,0 +1,99 @@
+/**
+ * 房间实时推送（Server-Sent Events）
+ *
+ * 不依赖外部消息服务：服务端定时读取房间，版本变化时推送 room 事件。
+ * 单个连接最长保持 GROUP_EVENTS_MAX_MS，结束后浏览器的 EventSource 会自动重连；
+ * 房间关闭后推送最后一次 room 事件、成员不可见时推送 gone 事件，随后结束，客户端收到后应关闭 EventSource
+ */
+
+import { GroupRoom, isRoomOpen } from './types';
+
+/** 读取房间的间隔 */
+export const GROUP_EVENTS_POLL_MS = 1500;
+
+/** 没有变化时发送心跳的间隔，防止代理断开空闲连接 */
+export const GROUP_EVENTS_HEARTBEAT_MS = 15000;
+
+/** 单个连接的最长时间 */
+export const GROUP_EVENTS_MAX_MS = 5 * 60 * 1000;
+
+/** 建议浏览器断线后的重连间隔 */
+const RETRY_MS = 3000;
+
+/**
+ * 格式化一条 SSE 消息
+ */
+export function formatServerEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * 创建房间事件流
+ * @param loadRoom 读取最新房间；返回 null 表示房间已不可见（被删除或已离开）
+ */
+export function createRoomEventStream(
+  loadRoom: () => Promise<GroupRoom | null>,
+  signal?: AbortSignal
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const startedAt = Date.now();
+      let lastVersion = -1;
+      let lastSentAt = startedAt;
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearTimeout(timer);
+        controller.close();
+      };
+      const send = (chunk: string) => {
+        controller.enqueue(encoder.encode(chunk));
+        lastSentAt = Date.now();
+      };
+
+      signal?.addEventListener('abort', close);
+      send(`retry: ${RETRY_MS}\n\n`);
+
+      const poll = async () => {
+        if (closed) return;
+        try {
+          const room = await loadRoom();
+          if (closed) return;
+          if (!room) {
+            send(formatServerEvent('gone', {}));
+            close();
+            return;
+          }
+
+          if (room.version !== lastVersion) {
+            lastVersion = room.version;
+            send(formatServerEvent('room', room));
+          } else if (Date.now() - lastSentAt >= GROUP_EVENTS_HEARTBEAT_MS) {
+            send(': ping\n\n');
+          }
+
+          if (!isRoomOpen(room) || Date.now() - startedAt >= GROUP_EVENTS_MAX_MS) {
+            close();
+            return;
+          }
+        } catch (error) {
+          console.error('Group room events error:', error);
+          close();
+          return;
+        }
+        timer = setTimeout(poll, GROUP_EVENTS_POLL_MS);
+      };
+
+      poll();
+    },
+    cancel() {
+      closed = true;
+      clearTimeout(timer);
+    },
+  });
+}
@@ -0,0 +1,12 @@
+/**
+ * 多人一起摇模块统一导出
+ */
+
+export * from './types';
+export * from './adapter';
+export * from './service';
+export * from './events';
+
+// 便捷导出
+export { getGroupRepository } from './adapter';
+export { GroupService } from './service';
@@ -0,0 +1,73 @@
+/**
+ * CloudBase 多人房间仓库
+ * 数据存放在 group_rooms 集合
+ */
+
+import { getDatabaseClient } from '../../database/adapter';
+import { GroupRepository, GroupRoomChanges } from '../adapter';
+import { GroupRoom } from '../types';
+
+const COLLECTION = 'group_rooms';
+
+export class CloudBaseGroupRepository implements GroupRepository {
+  async createRoom(room: Omit<GroupRoom, 'id' | 'version' | 'createdAt' | 'updatedAt'>): Promise<GroupRoom> {
+    const db = await getDatabaseClient('cloudbase');
+    const now = new Date().toISOString();
+    const document = { ...room, version: 1, createdAt: now, updatedAt: now };
+
+    const result = await db.collection(COLLECTION).add(document);
+    return { ...document, id: result.id };
+  }
+
+  async getRoom(roomId: string): Promise<GroupRoom | null> {
+    const db = await getDatabaseClient('cloudbase');
+
+    const result = await db.collection(COLLECTION)
+      .doc(roomId)
+      .get();
+
+    const doc = result.data[0];
+    return doc ? this.fromDocument(doc) : null;
+  }
+
+  async findOpenRoomByCode(code: string): Promise<GroupRoom | null> {
+    const db = await getDatabaseClient('cloudbase');
+
+    const result = await db.collection(COLLECTION)
+      .where({ code, status: 'open' })
+      .limit(1)
+      .get();
+
+    return result.data.length > 0 ? this.fromDocument(result.data[0]) : null;
+  }
+
+  async updateRoom(roomId: string, changes: GroupRoomChanges, expectedVersion: number): Promise<GroupRoom | null> {
+    const db = await getDatabaseClient('cloudbase');
+    const _ = db.command;
+
+    // update 会合并嵌套对象，当前推荐和否决次数需要整体替换
+    const { current, vetoesUsed, ...rest } = changes;
+    const update = {
+      ...rest,
+      ...(current !== undefined && { current: current === null ? null : _.set(current) }),
+      ...(vetoesUsed !== undefined && { vetoesUsed: _.set(vetoesUsed) }),
+      version: expectedVersion + 1,
+      updatedAt: new Date().toISOString(),
+    };
+
+    // 条件更新：版本不符时不会更新任何文档
+    const result = await db.collection(COLLECTION)
+      .where({ _id: roomId, version: expectedVersion })
+      .update(update);
+
+    if (!result.updated) {
+      return null;
+    }
+    return this.getRoom(roomId);
+  }
+
+  private fromDocument(doc: any): GroupRoom {
+    const { _id, ...room } = doc;
+    return { vetoesUsed: {}, ...room, id: _id } as GroupRoom;
+  }
+}
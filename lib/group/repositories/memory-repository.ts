@@ -0,0 +1,43 @@
+/**
+ * 内存多人房间仓库
+ */
+
+import { getMemoryCollection } from '../../database/adapter';
+import { generateId } from '../../utils/helpers';
+import { GroupRepository, GroupRoomChanges } from '../adapter';
+import { GroupRoom } from '../types';
+
+export class MemoryGroupRepository implements GroupRepository {
+  private rooms = getMemoryCollection<GroupRoom>('group_rooms');
+
+  async createRoom(room: Omit<GroupRoom, 'id' | 'version' | 'createdAt' | 'updatedAt'>): Promise<GroupRoom> {
+    const now = new Date().toISOString();
+    const saved: GroupRoom = { ...room, id: generateId('room'), version: 1, createdAt: now, updatedAt: now };
+    this.rooms.set(saved.id, saved);
+    return saved;
+  }
+
+  async getRoom(roomId: string): Promise<GroupRoom | null> {
+    return this.rooms.get(roomId) || null;
+  }
+
+  async findOpenRoomByCode(code: string): Promise<GroupRoom | null> {
+    return Array.from(this.rooms.values()).find(room => room.code === code && room.status === "open") || null;
+  }
+
+  async updateRoom(roomId: string, changes: GroupRoomChanges, expectedVersion: number): Promise<GroupRoom | null> {
+    const current = this.rooms.get(roomId);
+    if (!current || current.version !== expectedVersion) {
+      return null;
+    }
+
+    const updated: GroupRoom = {
+      ...current,
+      ...changes,
+      version: current.version + 1,
+      updatedAt: new Date().toISOString(),
+    };
+    this.rooms.set(roomId, updated);
+    return updated;
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Supabase 多人房间仓库
+ * 数据存放在 group_rooms 表（见 supabase/group_rooms.sql）
+ */
+
+import { getDatabaseClient } from '../../database/adapter';
+import { GroupRepository, GroupRoomChanges } from '../adapter';
+import { GroupRoom } from '../types';
+
+const TABLE = 'group_rooms';
+
+export class SupabaseGroupRepository implements GroupRepository {
+  async createRoom(room: Omit<GroupRoom, 'id' | 'version' | 'createdAt' | 'updatedAt'>): Promise<GroupRoom> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { data, error } = await supabase
+      .from(TABLE)
+      .insert({
+        code: room.code,
+        host_id: room.hostId,
+        category: room.category,
+        vetoes_per_member: room.vetoesPerMember,
+        expires_at: room.expiresAt,
+        ...this.toColumns(room),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+    return this.fromRow(data);
+  }
+
+  async getRoom(roomId: string): Promise<GroupRoom | null> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { data, error } = await supabase
+      .from(TABLE)
+      .select('*')
+      .eq('id', roomId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    return data ? this.fromRow(data) : null;
+  }
+
+  async findOpenRoomByCode(code: string): Promise<GroupRoom | null> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { data, error } = await supabase
+      .from(TABLE)
+      .select('*')
+      .eq('code', code)
+      .eq('status', 'open')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    return data ? this.fromRow(data) : null;
+  }
+
+  async updateRoom(roomId: string, changes: GroupRoomChanges, expectedVersion: number): Promise<GroupRoom | null> {
+    const supabase = await getDatabaseClient('supabase');
+
+    // 条件更新：版本不符时不会更新任何行
+    const { data, error } = await supabase
+      .from(TABLE)
+      .update({ ...this.toColumns(changes), version: expectedVersion + 1, updated_at: new Date().toISOString() })
+      .eq('id', roomId)
+      .eq('version', expectedVersion)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    return data ? this.fromRow(data) : null;
+  }
+
+  private toColumns(changes: GroupRoomChanges): Record<string, unknown> {
+    const columns: Record<string, unknown> = {
+      status: changes.status,
+      members: changes.members,
+      current: changes.current,
+      vetoed_item_ids: changes.vetoedItemIds,
+      vetoes_used: changes.vetoesUsed,
+    };
+    return Object.fromEntries(Object.entries(columns).filter(([, value]) => value !== undefined));
+  }
+
+  private fromRow(row: any): GroupRoom {
+    return {
+      id: row.id,
+      code: row.code,
+      hostId: row.host_id,
+      category: row.category,
+      vetoesPerMember: row.vetoes_per_member,
+      status: row.status,
+      members: row.members || [],
+      current: row.current || null,
+      vetoedItemIds: row.vetoed_item_ids || [],
+      vetoesUsed: row.vetoes_used || {},
+      version: row.version,
+      createdAt: new Date(row.created_at).toISOString(),
+      updatedAt: new Date(row.updated_at).toISOString(),
+      expiresAt: new Date(row.expires_at).toISOString(),
+    };
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * 多人一起摇服务
+ *
+ * 房间的每次修改都基于读到的版本做条件更新，多个成员同时加入或否决时不会互相覆盖
+ */
+
+import { CatalogRepository, getCatalogRepository } from '../catalog/adapter';
+import { isAvailableInRegion, localizeCatalogItem, toRecommendation } from '../catalog/types';
+import { User } from '../core/types';
+import { Region } from '../geo/ip-detection';
+import { Locale } from '../locale/types';
+import { PreferencesRepository, getPreferencesRepository } from '../preferences/adapter';
+import { applyPreferenceFilters, getPreferredTypes } from '../preferences/filters';
+import { mergePreferences } from '../preferences/merge';
+import { StoredPreferences } from '../preferences/types';
+import { recommendItem } from '../recommendation/engine';
+import { GroupRepository, GroupRoomChanges, getGroupRepository } from './adapter';
+import {
+  GROUP_CODE_ALPHABET,
+  GROUP_CODE_LENGTH,
+  GROUP_ROOM_TTL_HOURS,
+  GroupError,
+  GroupMember,
+  GroupPick,
+  GroupRoom,
+  GroupRoomInput,
+  MAX_GROUP_MEMBERS,
+  getVetoesUsed,
+  isRoomOpen,
+} from './types';
+
+/** 条件更新冲突时的最多尝试次数 */
+const MAX_UPDATE_ATTEMPTS = 3;
+
+/** 生成不重复邀请码的最多尝试次数 */
+const MAX_CODE_ATTEMPTS = 5;
+
+/**
+ * 摇的选项（按发起请求的成员所在地区和语言）
+ */
+export interface GroupShakeOptions {
+  region?: Region;
+  locale?: Locale;
+  currency?: string;
+}
+
+/**
+ * 生成邀请码
+ */
+export function generateGroupCode(random: () => number = Math.random): string {
+  return Array.from({ length: GROUP_CODE_LENGTH }, () =>
+    GROUP_CODE_ALPHABET.charAt(Math.floor(random() * GROUP_CODE_ALPHABET.length))
+  ).join("");
+}
+
+/**
+ * 用户在房间中的展示名称
+ */
+function getDisplayName(user: User): string {
+  return user.name || user.email?.split("@")[0] || "好友";
+}
+
+export class GroupService {
+  constructor(
+    private repository: GroupRepository = getGroupRepository(),
+    private catalog: CatalogRepository = getCatalogRepository(),
+    private preferences: PreferencesRepository = getPreferencesRepository()
+  ) {}
+
+  /**
+   * 新建房间，创建者为房主和第一个成员
+   */
+  async createRoom(user: User, input: GroupRoomInput, now: Date = new Date()): Promise<GroupRoom> {
+    let code = generateGroupCode();
+    for (let attempt = 1; attempt < MAX_CODE_ATTEMPTS && await this.repository.findOpenRoomByCode(code); attempt++) {
+      code = generateGroupCode();
+    }
+
+    return this.repository.createRoom({
+      code,
+      hostId: user.id,
+      category: input.category,
+      vetoesPerMember: input.vetoesPerMember,
+      status: "open",
+      members: [{ userId: user.id, name: getDisplayName(user), joinedAt: now.toISOString() }],
+      current: null,
+      vetoedItemIds: [],
+      vetoesUsed: {},
+      expiresAt: new Date(now.getTime() + GROUP_ROOM_TTL_HOURS * 60 * 60 * 1000).toISOString(),
+    });
+  }
+
+  /**
+   * 凭邀请码加入房间；已在房间中时直接返回
+   */
+  async joinRoom(user: User, code: string): Promise<GroupRoom> {
+    const found = await this.repository.findOpenRoomByCode(code);
+    if (!found) {
+      throw new GroupError("ROOM_NOT_FOUND", "Room not found");
+    }
+
+    return this.mutate(found.id, async room => {
+      this.assertOpen(room);
+      if (room.members.some(member => member.userId === user.id)) {
+        return null;
+      }
+      if (room.members.length >= MAX_GROUP_MEMBERS) {
+        throw new GroupError("ROOM_FULL", "Room is full");
+      }
+
+      const member: GroupMember = { userId: user.id, name: getDisplayName(user), joinedAt: new Date().toISOString() };
+      return { members: [...room.members, member] };
+    });
+  }
+
+  /**
+   * 读取房间（仅成员可见）
+   */
+  async getRoom(userId: string, roomId: string): Promise<GroupRoom> {
+    const room = await this.repository.getRoom(roomId);
+    if (!room) {
+      throw new GroupError("ROOM_NOT_FOUND", "Room not found");
+    }
+    this.assertMember(room, userId);
+    return room;
+  }
+
+  /**
+   * 离开房间；房主离开时关闭房间
+   */
+  async leaveRoom(userId: string, roomId: string): Promise<GroupRoom> {
+    return this.mutate(roomId, async room => {
+      this.assertMember(room, userId);
+      if (room.hostId === userId) {
+        return room.status === "closed" ? null : { status: "closed" };
+      }
+      return { members: room.members.filter(member => member.userId !== userId) };
+    });
+  }
+
+  /**
+   * 房主摇一次：合并所有成员的偏好，排除被否决过的条目
+   */
+  async shake(userId: string, roomId: string, options: GroupShakeOptions = {}): Promise<GroupRoom> {
+    return this.mutate(roomId, async room => {
+      this.assertOpen(room);
+      this.assertMember(room, userId);
+      if (room.hostId !== userId) {
+        throw new GroupError("NOT_HOST", "Only the host can shake");
+      }
+
+      return { current: await this.pickForRoom(room, userId, room.vetoedItemIds, options) };
+    });
+  }
+
+  /**
+   * 否决当前推荐并自动重摇；没有可选条目时不消耗否决次数
+   */
+  async veto(userId: string, roomId: string, options: GroupShakeOptions = {}): Promise<GroupRoom> {
+    return this.mutate(roomId, async room => {
+      this.assertOpen(room);
+      this.assertMember(room, userId);
+      if (!room.current) {
+        throw new GroupError("NOTHING_TO_VETO", "Nothing to veto yet");
+      }
+      const vetoesUsed = getVetoesUsed(room, userId);
+      if (vetoesUsed >= room.vetoesPerMember) {
+        throw new GroupError("NO_VETOES_LEFT", "No vetoes left");
+      }
+
+      const vetoedItemIds = [...room.vetoedItemIds, room.current.recommendation.id];
+      return {
+        current: await this.pickForRoom(room, userId, vetoedItemIds, options),
+        vetoedItemIds,
+        vetoesUsed: { ...room.vetoesUsed, [userId]: vetoesUsed + 1 },
+      };
+    });
+  }
+
+  /**
+   * 读取最新房间、计算修改并条件更新；版本冲突时重试
+   * apply 返回 null 表示无需修改
+   */
+  private async mutate(roomId: string, apply: (room: GroupRoom) => Promise<GroupRoomChanges | null>): Promise<GroupRoom> {
+    for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+      const room = await this.repository.getRoom(roomId);
+      if (!room) {
+        throw new GroupError("ROOM_NOT_FOUND", "Room not found");
+      }
+
+      const changes = await apply(room);
+      if (!changes) {
+        return room;
+      }
+
+      const updated = await this.repository.updateRoom(roomId, changes, room.version);
+      if (updated) {
+        return updated;
+      }
+    }
+    throw new GroupError("ROOM_BUSY", "Room was updated by someone else, please retry");
+  }
+
+  private async pickForRoom(
+    room: GroupRoom,
+    userId: string,
+    excludedItemIds: string[],
+    options: GroupShakeOptions
+  ): Promise<GroupPick> {
+    const [items, stored] = await Promise.all([
+      this.catalog.listItems(room.category),
+      Promise.all(room.members.map(member => this.preferences.getPreferences(member.userId))),
+    ]);
+    const merged = mergePreferences(stored.filter((entry): entry is StoredPreferences => Boolean(entry)));
+
+    const excluded = new Set(excludedItemIds);
+    const candidates = applyPreferenceFilters(
+      items.filter(item => !excluded.has(item.id) && (!options.region || isAvailableInRegion(item, options.region))),
+      merged
+    );
+    if (candidates.length === 0) {
+      throw new GroupError("NO_MATCHING_ITEMS", "No items satisfy everyone");
+    }
+
+    const { locale } = options;
+    const localized = locale ? candidates.map(item => localizeCatalogItem(item, locale)) : candidates;
+    const { item, reason } = recommendItem(localized, [], {
+      preferredTypes: getPreferredTypes(room.category, merged),
+      locale,
+    });
+
+    return {
+      recommendation: { ...toRecommendation(item, { currency: options.currency }), reason },
+      pickedAt: new Date().toISOString(),
+      pickedBy: userId,
+    };
+  }
+
+  private assertOpen(room: GroupRoom): void {
+    if (!isRoomOpen(room)) {
+      throw new GroupError("ROOM_CLOSED", "Room is closed");
+    }
+  }
+
+  private assertMember(room: GroupRoom, userId: string): GroupMember {
+    const member = room.members.find(entry => entry.userId === userId);
+    if (!member) {
+      throw new GroupError("NOT_MEMBER", "Not a member of this room");
+    }
+    return member;
+  }
+}
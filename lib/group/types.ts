@@ -0,0 +1,152 @@
+/**
+ * 多人一起摇 - 类型定义
+ *
+ * 一个人建房间，好友凭邀请码或链接加入；房主摇一次得到一个满足所有人偏好的推荐，
+ * 每个成员可以否决有限次数，否决后自动重摇
+ */
+
+import { z } from 'zod';
+import { CATALOG_CATEGORIES, CatalogCategory, Recommendation } from '../catalog/types';
+
+/** 邀请码长度 */
+export const GROUP_CODE_LENGTH = 6;
+
+/** 邀请码字符集（去掉容易看错的 0/O、1/I/L） */
+export const GROUP_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+
+/** 房间人数上限 */
+export const MAX_GROUP_MEMBERS = 12;
+
+/** 每人默认和最多可否决的次数 */
+export const DEFAULT_GROUP_VETOES = 2;
+export const MAX_GROUP_VETOES = 5;
+
+/** 房间有效期（小时），过期后不能再加入或摇 */
+export const GROUP_ROOM_TTL_HOURS = 12;
+
+/**
+ * 房间状态
+ */
+export const GROUP_ROOM_STATUSES = ["open", "closed"] as const;
+
+export type GroupRoomStatus = typeof GROUP_ROOM_STATUSES[number];
+
+/**
+ * 房间成员
+ */
+export interface GroupMember {
+  userId: string;
+  /** 展示名称 */
+  name: string;
+  joinedAt: string;
+}
+
+/**
+ * 当前的推荐结果
+ */
+export interface GroupPick {
+  recommendation: Recommendation;
+  pickedAt: string;
+  /** 摇或否决的成员 */
+  pickedBy: string;
+}
+
+/**
+ * 房间
+ */
+export interface GroupRoom {
+  id: string;
+  code: string;
+  hostId: string;
+  category: CatalogCategory;
+  /** 每人可否决次数 */
+  vetoesPerMember: number;
+  status: GroupRoomStatus;
+  members: GroupMember[];
+  current: GroupPick | null;
+  /** 已被否决的条目，重摇时排除 */
+  vetoedItemIds: string[];
+  /** 每个用户已用的否决次数；离开房间后保留，重新加入不会重置 */
+  vetoesUsed: Record<string, number>;
+  /** 每次修改加一，用于并发控制和推送变更 */
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string;
+}
+
+/**
+ * 新建房间请求
+ */
+export const groupRoomInputSchema = z.object({
+  category: z.enum(CATALOG_CATEGORIES).default("food"),
+  vetoesPerMember: z.number().int().min(0).max(MAX_GROUP_VETOES).default(DEFAULT_GROUP_VETOES),
+});
+
+export type GroupRoomInput = z.infer<typeof groupRoomInputSchema>;
+
+/**
+ * 加入房间请求（邀请码不区分大小写）
+ */
+export const groupJoinSchema = z.object({
+  code: z.string().trim().length(GROUP_CODE_LENGTH).transform(code => code.toUpperCase()),
+});
+
+/**
+ * 房间操作失败的原因
+ */
+export const GROUP_ERROR_CODES = [
+  "ROOM_NOT_FOUND",
+  "ROOM_CLOSED",
+  "ROOM_FULL",
+  "NOT_MEMBER",
+  "NOT_HOST",
+  "NOTHING_TO_VETO",
+  "NO_VETOES_LEFT",
+  "NO_MATCHING_ITEMS",
+  "ROOM_BUSY",
+] as const;
+
+export type GroupErrorCode = typeof GROUP_ERROR_CODES[number];
+
+/**
+ * 各失败原因对应的 HTTP 状态码
+ */
+export const GROUP_ERROR_STATUS: Record<GroupErrorCode, number> = {
+  ROOM_NOT_FOUND: 404,
+  ROOM_CLOSED: 410,
+  ROOM_FULL: 409,
+  NOT_MEMBER: 403,
+  NOT_HOST: 403,
+  NOTHING_TO_VETO: 409,
+  NO_VETOES_LEFT: 409,
+  NO_MATCHING_ITEMS: 404,
+  ROOM_BUSY: 409,
+};
+
+/**
+ * 房间操作错误
+ */
+export class GroupError extends Error {
+  public readonly code: GroupErrorCode;
+
+  constructor(code: GroupErrorCode, message: string) {
+    super(message);
+    this.name = "GroupError";
+    this.code = code;
+  }
+}
+
+/**
+ * 用户在房间中已用的否决次数
+ */
+export function getVetoesUsed(room: GroupRoom, userId: string): number {
+  return room.vetoesUsed[userId] || 0;
+}
+
+/**
+ * 房间是否还能加入、摇和否决
+ */
+export function isRoomOpen(room: GroupRoom, now: Date = new Date()): boolean {
+  return room.status === "open" && new Date(room.expiresAt).getTime() > now.getTime();
+}
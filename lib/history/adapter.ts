@@ -0,0 +1,68 @@
+/**
+ * 推荐历史仓库接口
+ */
+
+import { StoreProvider, resolveStoreProvider } from '../database/adapter';
+import { CatalogCategory } from '../catalog/types';
+import { HistoryEvent } from '../recommendation/types';
+import { HistoryPage, HistoryQuery } from './types';
+
+/**
+ * 推荐历史仓库接口
+ */
+export interface HistoryRepository {
+  /**
+   * 追加服务端产生的历史记录（来源记为 server）
+   */
+  addEntries(userId: string, events: HistoryEvent[]): Promise<void>;
+
+  /**
+   * 分页查询历史记录（按时间倒序）
+   */
+  listEntries(userId: string, query?: HistoryQuery): Promise<HistoryPage>;
+
+  /**
+   * 清空历史记录（可按分类）
+   */
+  clearEntries(userId: string, category?: CatalogCategory): Promise<number>;
+
+  /**
+   * 合并外部历史记录（如 localStorage，来源记为 sync），已存在的记录会被跳过
+   * 返回实际新增的条数
+   */
+  mergeEntries(userId: string, events: HistoryEvent[]): Promise<number>;
+}
+
+/**
+ * 创建推荐历史仓库工厂函数
+ */
+export function createHistoryRepository(type: StoreProvider): HistoryRepository {
+  switch (type) {
+    case "supabase":
+      const { SupabaseHistoryRepository } = require("./repositories/supabase-repository");
+      return new SupabaseHistoryRepository();
+    case "cloudbase":
+      const { CloudBaseHistoryRepository } = require("./repositories/cloudbase-repository");
+      return new CloudBaseHistoryRepository();
+    case "memory":
+      const { MemoryHistoryRepository } = require("./repositories/memory-repository");
+      return new MemoryHistoryRepository();
+    default:
+      throw new Error(`Unsupported history store: ${type}`);
+  }
+}
+
+/**
+ * 全局推荐历史仓库实例（单例模式）
+ */
+let historyInstance: HistoryRepository | null = null;
+
+/**
+ * 获取推荐历史仓库
+ */
+export function getHistoryRepository(): HistoryRepository {
+  if (!historyInstance) {
+    historyInstance = createHistoryRepository(resolveStoreProvider(process.env.HISTORY_STORE));
+  }
+  return historyInstance;
+}
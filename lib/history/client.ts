@@ -0,0 +1,138 @@
+/**
+ * 前端历史同步工具
+ *
+ * 未登录时历史只保存在 localStorage（history_${category}），
+ * 登录后调用 syncLocalHistory 将其一次性合并到服务端
+ */
+
+import { CATALOG_CATEGORIES } from '../catalog/types';
+import { HistoryEvent } from '../recommendation/types';
+
+/**
+ * 已同步标记的 localStorage 键
+ */
+function syncedFlagKey(userId: string): string {
+  return `history_synced_${userId}`;
+}
+
+/**
+ * localStorage 中的历史条目
+ * 早期版本只保存推荐结果本身：没有 pickedAt，美食条目也没有 type
+ */
+interface LegacyHistoryItem {
+  id?: string;
+  type?: string;
+  title?: string;
+  pickedAt?: string;
+  timestamp?: string | number;
+  createdAt?: string | number;
+}
+
+/**
+ * 读取到的本地历史，skipped 为无法转换的条目数（没有条目 ID）
+ */
+export interface LocalHistoryEvents {
+  events: HistoryEvent[];
+  skipped: number;
+}
+
+/**
+ * 条目的选择时间（ISO 字符串），依次尝试 pickedAt、timestamp、createdAt，都没有时使用 fallback
+ */
+function getPickedAt(item: LegacyHistoryItem, fallback: string): string {
+  for (const value of [item.pickedAt, item.timestamp, item.createdAt]) {
+    if (value === undefined || value === null || value === '') {
+      continue;
+    }
+    const date = new Date(value);
+    if (!Number.isNaN(date.getTime())) {
+      return date.toISOString();
+    }
+  }
+  return fallback;
+}
+
+/**
+ * 读取 localStorage 中的历史并转换为行为记录
+ * 缺少时间的条目按 now 计，缺少类型的条目以分类作为类型
+ */
+export function readLocalHistoryEvents(now: Date = new Date()): LocalHistoryEvents {
+  const result: LocalHistoryEvents = { events: [], skipped: 0 };
+  if (typeof window === 'undefined') {
+    return result;
+  }
+
+  const fallbackTimestamp = now.toISOString();
+  CATALOG_CATEGORIES.forEach(category => {
+    try {
+      const saved: unknown = JSON.parse(localStorage.getItem(`history_${category}`) || '[]');
+      if (!Array.isArray(saved)) {
+        result.skipped++;
+        return;
+      }
+
+      saved.forEach((item: LegacyHistoryItem | null) => {
+        if (!item?.id) {
+          result.skipped++;
+          return;
+        }
+
+        result.events.push({
+          itemId: item.id,
+          category,
+          type: item.type || category,
+          title: item.title,
+          action: 'view',
+          timestamp: getPickedAt(item, fallbackTimestamp),
+        });
+      });
+    } catch (error) {
+      console.error(`Failed to read local history for ${category}:`, error);
+      result.skipped++;
+    }
+  });
+
+  return result;
+}
+
+/**
+ * 将本地历史合并到服务端（每个用户只执行一次）
+ * 上传成功后才记下已同步标记，失败时下次登录重试（服务端会跳过重复记录）
+ */
+export async function syncLocalHistory(userId: string): Promise<number> {
+  if (typeof window === 'undefined' || localStorage.getItem(syncedFlagKey(userId))) {
+    return 0;
+  }
+
+  const { events: entries, skipped } = readLocalHistoryEvents();
+
+  try {
+    let merged = 0;
+    if (entries.length > 0) {
+      const response = await fetch('/api/history/sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ entries }),
+      });
+
+      if (!response.ok) {
+        console.error('History sync failed:', response.status);
+        return 0;
+      }
+
+      merged = (await response.json()).merged || 0;
+    }
+
+    if (skipped > 0) {
+      console.warn(`History sync skipped ${skipped} unreadable local entries`);
+    }
+
+    localStorage.setItem(syncedFlagKey(userId), new Date().toISOString());
+    console.log(`✅ 本地历史已同步 (${merged} 条)`);
+    return merged;
+  } catch (error) {
+    console.error('History sync error:', error);
+    return 0;
+  }
+}
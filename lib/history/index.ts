@@ -0,0 +1,12 @@
+/**
+ * 推荐历史模块统一导出
+ */
+
+export * from './types';
+export * from './adapter';
+
+// 便捷导出
+export {
+  createHistoryRepository,
+  getHistoryRepository
+} from './adapter';
@@ -0,0 +1,114 @@
+/**
+ * CloudBase 推荐历史仓库
+ * 数据存放在 recommendation_history 集合
+ */
+
+import { getDatabaseClient } from '../../database/adapter';
+import { CatalogCategory } from '../../catalog/types';
+import { HistoryEvent } from '../../recommendation/types';
+import { HistoryRepository } from '../adapter';
+import { HistoryEntry, HistoryPage, HistoryQuery, HistorySource, historyEventKey, normalizeHistoryQuery } from '../types';
+
+const COLLECTION = 'recommendation_history';
+
+export class CloudBaseHistoryRepository implements HistoryRepository {
+  async addEntries(userId: string, events: HistoryEvent[]): Promise<void> {
+    await this.insert(userId, events, "server");
+  }
+
+  async listEntries(userId: string, query: HistoryQuery = {}): Promise<HistoryPage> {
+    const { category, action, page, pageSize } = normalizeHistoryQuery(query);
+    const db = await getDatabaseClient('cloudbase');
+
+    const conditions: Record<string, any> = { userId };
+    if (category) {
+      conditions.category = category;
+    }
+    if (action) {
+      conditions.action = action;
+    }
+
+    const [result, countResult] = await Promise.all([
+      db.collection(COLLECTION)
+        .where(conditions)
+        .orderBy('timestamp', 'desc')
+        .skip((page - 1) * pageSize)
+        .limit(pageSize)
+        .get(),
+      db.collection(COLLECTION)
+        .where(conditions)
+        .count(),
+    ]);
+
+    return {
+      entries: result.data.map((doc: any) => this.fromDocument(doc)),
+      page,
+      pageSize,
+      total: countResult.total || 0,
+    };
+  }
+
+  async clearEntries(userId: string, category?: CatalogCategory): Promise<number> {
+    const db = await getDatabaseClient('cloudbase');
+
+    const conditions: Record<string, any> = { userId };
+    if (category) {
+      conditions.category = category;
+    }
+
+    const result = await db.collection(COLLECTION)
+      .where(conditions)
+      .remove();
+
+    return result.deleted || 0;
+  }
+
+  async mergeEntries(userId: string, events: HistoryEvent[]): Promise<number> {
+    if (events.length === 0) {
+      return 0;
+    }
+
+    const db = await getDatabaseClient('cloudbase');
+    const _ = db.command;
+
+    const keys = Array.from(new Set(events.map(historyEventKey)));
+    const existing = await db.collection(COLLECTION)
+      .where({ userId, eventKey: _.in(keys) })
+      .limit(keys.length)
+      .get();
+
+    const seen = new Set<string>(existing.data.map((doc: any) => doc.eventKey));
+    const fresh = events.filter(event => {
+      const key = historyEventKey(event);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+    await this.insert(userId, fresh, "sync");
+    return fresh.length;
+  }
+
+  private async insert(userId: string, events: HistoryEvent[], source: HistorySource): Promise<void> {
+    const db = await getDatabaseClient('cloudbase');
+
+    for (const event of events) {
+      await db.collection(COLLECTION).add(this.toDocument(userId, event, source));
+    }
+  }
+
+  private toDocument(userId: string, event: HistoryEvent, source: HistorySource): Record<string, any> {
+    return {
+      ...event,
+      userId,
+      source,
+      eventKey: historyEventKey(event),
+    };
+  }
+
+  private fromDocument(doc: any): HistoryEntry {
+    const { _id, eventKey, ...entry } = doc;
+    // 旧记录没有来源，按客户端提交处理
+    return { source: "sync", ...entry, id: _id };
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * 内存推荐历史仓库
+ */
+
+import { getMemoryCollection } from '../../database/adapter';
+import { generateId } from '../../utils/helpers';
+import { CatalogCategory } from '../../catalog/types';
+import { HistoryEvent } from '../../recommendation/types';
+import { HistoryRepository } from '../adapter';
+import { HistoryEntry, HistoryPage, HistoryQuery, HistorySource, historyEventKey, normalizeHistoryQuery } from '../types';
+
+export class MemoryHistoryRepository implements HistoryRepository {
+  private entries = getMemoryCollection<HistoryEntry[]>('recommendation_history');
+
+  async addEntries(userId: string, events: HistoryEvent[]): Promise<void> {
+    this.insert(userId, events, "server");
+  }
+
+  async listEntries(userId: string, query: HistoryQuery = {}): Promise<HistoryPage> {
+    const { category, action, page, pageSize } = normalizeHistoryQuery(query);
+
+    const matched = (this.entries.get(userId) || [])
+      .filter(entry => !category || entry.category === category)
+      .filter(entry => !action || entry.action === action)
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+    return {
+      entries: matched.slice((page - 1) * pageSize, page * pageSize),
+      page,
+      pageSize,
+      total: matched.length,
+    };
+  }
+
+  async clearEntries(userId: string, category?: CatalogCategory): Promise<number> {
+    const existing = this.entries.get(userId) || [];
+    const kept = category ? existing.filter(entry => entry.category !== category) : [];
+    this.entries.set(userId, kept);
+    return existing.length - kept.length;
+  }
+
+  async mergeEntries(userId: string, events: HistoryEvent[]): Promise<number> {
+    const seen = new Set((this.entries.get(userId) || []).map(historyEventKey));
+    const fresh = events.filter(event => {
+      const key = historyEventKey(event);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+    this.insert(userId, fresh, "sync");
+    return fresh.length;
+  }
+
+  private insert(userId: string, events: HistoryEvent[], source: HistorySource): void {
+    const existing = this.entries.get(userId) || [];
+    const added = events.map(event => ({ ...event, id: generateId('hist'), userId, source }));
+    this.entries.set(userId, [...existing, ...added]);
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Supabase 推荐历史仓库
+ * 数据存放在 recommendation_history 表（见 supabase/recommendation_history.sql）
+ */
+
+import { getDatabaseClient } from '../../database/adapter';
+import { CatalogCategory } from '../../catalog/types';
+import { HistoryEvent } from '../../recommendation/types';
+import { HistoryRepository } from '../adapter';
+import { HistoryEntry, HistoryPage, HistoryQuery, HistorySource, historyEventKey, normalizeHistoryQuery } from '../types';
+
+const TABLE = 'recommendation_history';
+
+export class SupabaseHistoryRepository implements HistoryRepository {
+  async addEntries(userId: string, events: HistoryEvent[]): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+
+    const supabase = await getDatabaseClient('supabase');
+    const { error } = await supabase
+      .from(TABLE)
+      .upsert(events.map(event => this.toRow(userId, event, 'server')), {
+        onConflict: 'user_id,event_key',
+        ignoreDuplicates: true
+      });
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  async listEntries(userId: string, query: HistoryQuery = {}): Promise<HistoryPage> {
+    const { category, action, page, pageSize } = normalizeHistoryQuery(query);
+    const supabase = await getDatabaseClient('supabase');
+
+    let request = supabase
+      .from(TABLE)
+      .select('*', { count: 'exact' })
+      .eq('user_id', userId);
+
+    if (category) {
+      request = request.eq('category', category);
+    }
+    if (action) {
+      request = request.eq('action', action);
+    }
+
+    const { data, error, count } = await request
+      .order('created_at', { ascending: false })
+      .range((page - 1) * pageSize, page * pageSize - 1);
+
+    if (error) {
+      throw error;
+    }
+
+    return {
+      entries: (data || []).map((row: any) => this.fromRow(row)),
+      page,
+      pageSize,
+      total: count || 0,
+    };
+  }
+
+  async clearEntries(userId: string, category?: CatalogCategory): Promise<number> {
+    const supabase = await getDatabaseClient('supabase');
+
+    let request = supabase
+      .from(TABLE)
+      .delete({ count: 'exact' })
+      .eq('user_id', userId);
+
+    if (category) {
+      request = request.eq('category', category);
+    }
+
+    const { error, count } = await request;
+    if (error) {
+      throw error;
+    }
+    return count || 0;
+  }
+
+  async mergeEntries(userId: string, events: HistoryEvent[]): Promise<number> {
+    if (events.length === 0) {
+      return 0;
+    }
+
+    const supabase = await getDatabaseClient('supabase');
+    const { data, error } = await supabase
+      .from(TABLE)
+      .upsert(events.map(event => this.toRow(userId, event, 'sync')), {
+        onConflict: 'user_id,event_key',
+        ignoreDuplicates: true
+      })
+      .select('id');
+
+    if (error) {
+      throw error;
+    }
+    return data?.length || 0;
+  }
+
+  private toRow(userId: string, event: HistoryEvent, source: HistorySource): Record<string, any> {
+    return {
+      user_id: userId,
+      event_key: historyEventKey(event),
+      item_id: event.itemId,
+      category: event.category,
+      type: event.type,
+      title: event.title ?? null,
+      action: event.action,
+      rating: event.rating ?? null,
+      source,
+      created_at: event.timestamp,
+    };
+  }
+
+  private fromRow(row: any): HistoryEntry {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      itemId: row.item_id,
+      category: row.category,
+      type: row.type,
+      title: row.title ?? undefined,
+      action: row.action,
+      rating: row.rating ?? undefined,
+      source: row.source || 'sync',
+      timestamp: new Date(row.created_at).toISOString(),
+    };
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * 推荐历史 - 类型定义
+ */
+
+import { z } from 'zod';
+import { CATALOG_CATEGORIES, CatalogCategory } from '../catalog/types';
+import { HistoryAction, HistoryEvent } from '../recommendation/types';
+
+/**
+ * 历史记录来源
+ * server → 服务端推荐时写入
+ * sync   → 登录后从 localStorage 合并，由客户端提交，不能作为完成挑战等判断的依据
+ */
+export const HISTORY_SOURCES = ["server", "sync"] as const;
+
+export type HistorySource = typeof HISTORY_SOURCES[number];
+
+/**
+ * 已持久化的历史记录
+ */
+export interface HistoryEntry extends HistoryEvent {
+  id: string;
+  userId: string;
+  source: HistorySource;
+}
+
+/**
+ * 历史查询选项
+ */
+export interface HistoryQuery {
+  category?: CatalogCategory;
+  action?: HistoryAction;
+  /** 页码，从 1 开始 */
+  page?: number;
+  /** 每页条数 */
+  pageSize?: number;
+}
+
+/**
+ * 分页结果
+ */
+export interface HistoryPage {
+  entries: HistoryEntry[];
+  page: number;
+  pageSize: number;
+  total: number;
+}
+
+/** 默认每页条数 */
+export const DEFAULT_HISTORY_PAGE_SIZE = 20;
+
+/** 每页最大条数 */
+export const MAX_HISTORY_PAGE_SIZE = 100;
+
+/**
+ * 规范化分页参数
+ */
+export function normalizeHistoryQuery(query: HistoryQuery = {}): Required<Omit<HistoryQuery, 'category' | 'action'>> & Pick<HistoryQuery, 'category' | 'action'> {
+  const page = Math.max(1, Math.floor(query.page || 1));
+  const pageSize = Math.min(MAX_HISTORY_PAGE_SIZE, Math.max(1, Math.floor(query.pageSize || DEFAULT_HISTORY_PAGE_SIZE)));
+  return { category: query.category, action: query.action, page, pageSize };
+}
+
+/**
+ * 用户对推荐的明确反应：接受（pick）、拒绝（skip）或打分（rating，需带 rating）
+ */
+export const historyReactionSchema = z.object({
+  category: z.enum(CATALOG_CATEGORIES),
+  itemId: z.string().min(1),
+  action: z.enum(["pick", "skip", "rating"]),
+  rating: z.number().int().min(1).max(5).optional(),
+}).refine(value => (value.action === "rating") === (value.rating !== undefined), {
+  message: "rating is required for rating actions only",
+  path: ["rating"],
+});
+
+export type HistoryReaction = z.infer<typeof historyReactionSchema>;
+
+/**
+ * 历史记录的去重键（同一用户同一时间对同一条目的同一行为视为重复）
+ */
+export function historyEventKey(event: HistoryEvent): string {
+  return `${event.category}:${event.itemId}:${event.action}:${event.timestamp}`;
+}
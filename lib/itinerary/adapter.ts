@@ -0,0 +1,75 @@
+/**
+ * 行程仓库接口
+ */
+
+import { StoreProvider, resolveStoreProvider } from '../database/adapter';
+import { Itinerary } from './types';
+
+/**
+ * 可修改的行程字段
+ */
+export type ItineraryChanges = Partial<Pick<Itinerary, 'title' | 'length' | 'days' | 'startDate' | 'startTime' | 'stops'>>;
+
+/**
+ * 行程仓库接口
+ */
+export interface ItineraryRepository {
+  /**
+   * 查询用户的行程（按更新时间倒序）
+   */
+  listItineraries(userId: string): Promise<Itinerary[]>;
+
+  /**
+   * 读取行程，不存在或不属于该用户时返回 null
+   */
+  getItinerary(userId: string, itineraryId: string): Promise<Itinerary | null>;
+
+  /**
+   * 新建行程
+   */
+  createItinerary(itinerary: Omit<Itinerary, 'id' | 'createdAt' | 'updatedAt'>): Promise<Itinerary>;
+
+  /**
+   * 修改行程，不存在时返回 null
+   */
+  updateItinerary(userId: string, itineraryId: string, changes: ItineraryChanges): Promise<Itinerary | null>;
+
+  /**
+   * 删除行程，返回是否删除成功
+   */
+  removeItinerary(userId: string, itineraryId: string): Promise<boolean>;
+}
+
+/**
+ * 创建行程仓库工厂函数
+ */
+export function createItineraryRepository(type: StoreProvider): ItineraryRepository {
+  switch (type) {
+    case "supabase":
+      const { SupabaseItineraryRepository } = require("./repositories/supabase-repository");
+      return new SupabaseItineraryRepository();
+    case "cloudbase":
+      const { CloudBaseItineraryRepository } = require("./repositories/cloudbase-repository");
+      return new CloudBaseItineraryRepository();
+    case "memory":
+      const { MemoryItineraryRepository } = require("./repositories/memory-repository");
+      return new MemoryItineraryRepository();
+    default:
+      throw new Error(`Unsupported itinerary store: ${type}`);
+  }
+}
+
+/**
+ * 全局实例（单例模式）
+ */
+let itineraryInstance: ItineraryRepository | null = null;
+
+/**
+ * 获取行程仓库
+ */
+export function getItineraryRepository(): ItineraryRepository {
+  if (!itineraryInstance) {
+    itineraryInstance = createItineraryRepository(resolveStoreProvider(process.env.ITINERARY_STORE));
+  }
+  return itineraryInstance;
+}
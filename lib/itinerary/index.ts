@@ -0,0 +1,11 @@
+/**
+ * 行程规划模块统一导出
+ */
+
+export * from './types';
+export * from './adapter';
+export * from './service';
+
+// 便捷导出
+export { getItineraryRepository } from './adapter';
+export { ItineraryService } from './service';
@@ -0,0 +1,75 @@
+/**
+ * CloudBase 行程仓库
+ * 数据存放在 itineraries 集合
+ */
+
+import { getDatabaseClient } from '../../database/adapter';
+import { ItineraryChanges, ItineraryRepository } from '../adapter';
+import { Itinerary } from '../types';
+
+const COLLECTION = 'itineraries';
+
+/** 单个用户的行程数上限 */
+const MAX_ITINERARIES = 100;
+
+export class CloudBaseItineraryRepository implements ItineraryRepository {
+  async listItineraries(userId: string): Promise<Itinerary[]> {
+    const db = await getDatabaseClient('cloudbase');
+
+    const result = await db.collection(COLLECTION)
+      .where({ userId })
+      .orderBy('updatedAt', 'desc')
+      .limit(MAX_ITINERARIES)
+      .get();
+
+    return result.data.map((doc: any) => this.fromDocument(doc));
+  }
+
+  async getItinerary(userId: string, itineraryId: string): Promise<Itinerary | null> {
+    const db = await getDatabaseClient('cloudbase');
+
+    const result = await db.collection(COLLECTION)
+      .where({ _id: itineraryId, userId })
+      .limit(1)
+      .get();
+
+    return result.data.length > 0 ? this.fromDocument(result.data[0]) : null;
+  }
+
+  async createItinerary(itinerary: Omit<Itinerary, 'id' | 'createdAt' | 'updatedAt'>): Promise<Itinerary> {
+    const db = await getDatabaseClient('cloudbase');
+    const now = new Date().toISOString();
+    const document = { ...itinerary, createdAt: now, updatedAt: now };
+
+    const result = await db.collection(COLLECTION).add(document);
+    return { ...document, id: result.id };
+  }
+
+  async updateItinerary(userId: string, itineraryId: string, changes: ItineraryChanges): Promise<Itinerary | null> {
+    const db = await getDatabaseClient('cloudbase');
+
+    const result = await db.collection(COLLECTION)
+      .where({ _id: itineraryId, userId })
+      .update({ ...changes, updatedAt: new Date().toISOString() });
+
+    if (!result.updated) {
+      return null;
+    }
+    return this.getItinerary(userId, itineraryId);
+  }
+
+  async removeItinerary(userId: string, itineraryId: string): Promise<boolean> {
+    const db = await getDatabaseClient('cloudbase');
+
+    const result = await db.collection(COLLECTION)
+      .where({ _id: itineraryId, userId })
+      .remove();
+
+    return (result.deleted || 0) > 0;
+  }
+
+  private fromDocument(doc: any): Itinerary {
+    const { _id, ...itinerary } = doc;
+    return { ...itinerary, id: _id } as Itinerary;
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * 内存行程仓库
+ */
+
+import { getMemoryCollection } from '../../database/adapter';
+import { generateId } from '../../utils/helpers';
+import { ItineraryChanges, ItineraryRepository } from '../adapter';
+import { Itinerary } from '../types';
+
+export class MemoryItineraryRepository implements ItineraryRepository {
+  private itineraries = getMemoryCollection<Itinerary[]>('itineraries');
+
+  async listItineraries(userId: string): Promise<Itinerary[]> {
+    return [...(this.itineraries.get(userId) || [])]
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async getItinerary(userId: string, itineraryId: string): Promise<Itinerary | null> {
+    return (this.itineraries.get(userId) || []).find(itinerary => itinerary.id === itineraryId) || null;
+  }
+
+  async createItinerary(itinerary: Omit<Itinerary, 'id' | 'createdAt' | 'updatedAt'>): Promise<Itinerary> {
+    const now = new Date().toISOString();
+    const saved: Itinerary = { ...itinerary, id: generateId('itinerary'), createdAt: now, updatedAt: now };
+    this.itineraries.set(itinerary.userId, [...(this.itineraries.get(itinerary.userId) || []), saved]);
+    return saved;
+  }
+
+  async updateItinerary(userId: string, itineraryId: string, changes: ItineraryChanges): Promise<Itinerary | null> {
+    const existing = this.itineraries.get(userId) || [];
+    const current = existing.find(itinerary => itinerary.id === itineraryId);
+    if (!current) {
+      return null;
+    }
+
+    const updated: Itinerary = { ...current, ...changes, updatedAt: new Date().toISOString() };
+    this.itineraries.set(userId, existing.map(itinerary => itinerary.id === itineraryId ? updated : itinerary));
+    return updated;
+  }
+
+  async removeItinerary(userId: string, itineraryId: string): Promise<boolean> {
+    const existing = this.itineraries.get(userId) || [];
+    const kept = existing.filter(itinerary => itinerary.id !== itineraryId);
+    this.itineraries.set(userId, kept);
+    return kept.length < existing.length;
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Supabase 行程仓库
+ * 数据存放在 itineraries 表（见 supabase/itineraries.sql）
+ */
+
+import { getDatabaseClient } from '../../database/adapter';
+import { ItineraryChanges, ItineraryRepository } from '../adapter';
+import { Itinerary } from '../types';
+
+const TABLE = 'itineraries';
+
+export class SupabaseItineraryRepository implements ItineraryRepository {
+  async listItineraries(userId: string): Promise<Itinerary[]> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { data, error } = await supabase
+      .from(TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+    return (data || []).map((row: any) => this.fromRow(row));
+  }
+
+  async getItinerary(userId: string, itineraryId: string): Promise<Itinerary | null> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { data, error } = await supabase
+      .from(TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .eq('id', itineraryId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    return data ? this.fromRow(data) : null;
+  }
+
+  async createItinerary(itinerary: Omit<Itinerary, 'id' | 'createdAt' | 'updatedAt'>): Promise<Itinerary> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { data, error } = await supabase
+      .from(TABLE)
+      .insert({ user_id: itinerary.userId, ...this.toColumns(itinerary) })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+    return this.fromRow(data);
+  }
+
+  async updateItinerary(userId: string, itineraryId: string, changes: ItineraryChanges): Promise<Itinerary | null> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { data, error } = await supabase
+      .from(TABLE)
+      .update({ ...this.toColumns(changes), updated_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .eq('id', itineraryId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    return data ? this.fromRow(data) : null;
+  }
+
+  async removeItinerary(userId: string, itineraryId: string): Promise<boolean> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { error, count } = await supabase
+      .from(TABLE)
+      .delete({ count: 'exact' })
+      .eq('user_id', userId)
+      .eq('id', itineraryId);
+
+    if (error) {
+      throw error;
+    }
+    return (count || 0) > 0;
+  }
+
+  private toColumns(changes: ItineraryChanges): Record<string, unknown> {
+    const columns: Record<string, unknown> = {
+      title: changes.title,
+      length: changes.length,
+      days: changes.days,
+      start_date: changes.startDate,
+      start_time: changes.startTime,
+      stops: changes.stops,
+    };
+    return Object.fromEntries(Object.entries(columns).filter(([, value]) => value !== undefined));
+  }
+
+  private fromRow(row: any): Itinerary {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      title: row.title,
+      length: row.length,
+      days: row.days,
+      startDate: row.start_date,
+      startTime: String(row.start_time).slice(0, 5),
+      stops: row.stops || [],
+      createdAt: new Date(row.created_at).toISOString(),
+      updatedAt: new Date(row.updated_at).toISOString(),
+    };
+  }
+}
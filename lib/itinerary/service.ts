@@ -0,0 +1,130 @@
+/**
+ * 行程规划服务
+ *
+ * 从出行条目生成行程地点，调整顺序和设置，并导出为日历事件
+ */
+
+import { IcsEvent } from '../calendar/ics';
+import { CatalogRepository, getCatalogRepository } from '../catalog/adapter';
+import { TravelItem, parseDurationMinutes } from '../catalog/types';
+import { ItineraryChanges, ItineraryRepository, getItineraryRepository } from './adapter';
+import {
+  DEFAULT_STOP_MINUTES,
+  Itinerary,
+  ItineraryInput,
+  ItineraryStop,
+  ItineraryUpdate,
+  MIN_ITINERARY_DAYS,
+  scheduleItinerary,
+} from './types';
+
+/**
+ * 出行条目转为行程地点
+ */
+export function toItineraryStop(item: TravelItem): ItineraryStop {
+  return {
+    itemId: item.id,
+    title: item.title,
+    description: item.description,
+    duration: item.duration,
+    durationMinutes: parseDurationMinutes(item.duration) || DEFAULT_STOP_MINUTES,
+  };
+}
+
+/**
+ * 行程转为日历事件（只包含排得下的地点）
+ * UID 只由行程和地点决定（地点在行程中不重复），调整顺序或天数后重新导入会更新原有事件而不是重复添加
+ */
+export function toIcsEvents(itinerary: Itinerary): IcsEvent[] {
+  return scheduleItinerary(itinerary).days.flatMap(day =>
+    day.stops.map(stop => ({
+      uid: `${itinerary.id}-${stop.itemId}@randomlife`,
+      title: stop.title,
+      description: stop.description,
+      date: stop.date,
+      start: stop.start,
+      end: stop.end,
+    }))
+  );
+}
+
+export class ItineraryService {
+  constructor(
+    private repository: ItineraryRepository = getItineraryRepository(),
+    private catalog: CatalogRepository = getCatalogRepository()
+  ) {}
+
+  /**
+   * 新建行程；找不到的条目会被忽略
+   */
+  async createItinerary(userId: string, input: ItineraryInput, today: string): Promise<Itinerary> {
+    const stops = await this.resolveStops(input.itemIds);
+
+    return this.repository.createItinerary({
+      userId,
+      title: input.title || (stops.length > 0 ? `${stops[0].title}${stops.length > 1 ? ` 等 ${stops.length} 处` : ""}` : "我的行程"),
+      length: input.length,
+      days: input.length === "multi-day" ? input.days ?? MIN_ITINERARY_DAYS : 1,
+      startDate: input.startDate || today,
+      startTime: input.startTime,
+      stops,
+    });
+  }
+
+  /**
+   * 修改行程设置或地点顺序；itemIds 中已有的地点保留快照，新的地点从目录读取
+   */
+  async updateItinerary(userId: string, itineraryId: string, update: ItineraryUpdate): Promise<Itinerary | null> {
+    const current = await this.repository.getItinerary(userId, itineraryId);
+    if (!current) {
+      return null;
+    }
+
+    const { itemIds, ...settings } = update;
+    const changes: ItineraryChanges = { ...settings };
+    const length = update.length || current.length;
+    if (length !== "multi-day") {
+      changes.days = 1;
+    } else if (current.length !== "multi-day" && update.days === undefined) {
+      changes.days = MIN_ITINERARY_DAYS;
+    }
+
+    if (itemIds) {
+      const existing = new Map(current.stops.map(stop => [stop.itemId, stop]));
+      const added = await this.resolveStops(itemIds.filter(id => !existing.has(id)));
+      const addedById = new Map(added.map(stop => [stop.itemId, stop]));
+      changes.stops = Array.from(new Set(itemIds))
+        .map(id => existing.get(id) || addedById.get(id))
+        .filter((stop): stop is ItineraryStop => Boolean(stop));
+    }
+
+    return this.repository.updateItinerary(userId, itineraryId, changes);
+  }
+
+  /**
+   * 把出行条目加到行程末尾（已在行程中时不重复添加）
+   * 行程或条目不存在时返回 null
+   */
+  async addStop(userId: string, itineraryId: string, itemId: string): Promise<Itinerary | null> {
+    const current = await this.repository.getItinerary(userId, itineraryId);
+    if (!current) {
+      return null;
+    }
+    if (current.stops.some(stop => stop.itemId === itemId)) {
+      return current;
+    }
+
+    const [stop] = await this.resolveStops([itemId]);
+    if (!stop) {
+      return null;
+    }
+    return this.repository.updateItinerary(userId, itineraryId, { stops: [...current.stops, stop] });
+  }
+
+  private async resolveStops(itemIds: string[]): Promise<ItineraryStop[]> {
+    const items = await Promise.all(Array.from(new Set(itemIds)).map(id => this.catalog.getItem("travel", id)));
+    return items
+      .filter((item): item is TravelItem => Boolean(item && !item.archived))
+      .map(toItineraryStop);
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * 行程规划 - 类型定义
+ *
+ * 用户把接受的出行推荐串成半日、一日或多日行程：
+ * 按顺序和每个地点的时长排进每天的时间段，地点之间预留交通时间，排不下的地点单独列出
+ */
+
+import { z } from 'zod';
+import { calendarDateSchema } from '../calendar/types';
+
+/**
+ * 行程长度
+ */
+export const ITINERARY_LENGTHS = ["half-day", "full-day", "multi-day"] as const;
+
+export type ItineraryLength = typeof ITINERARY_LENGTHS[number];
+
+export const ITINERARY_LENGTH_LABELS: Record<ItineraryLength, string> = {
+  "half-day": "半日游",
+  "full-day": "一日游",
+  "multi-day": "多日游",
+};
+
+/**
+ * 每天可安排的时长（分钟）：半日 4 小时，一日和多日每天 9 小时
+ */
+export const ITINERARY_DAY_MINUTES: Record<ItineraryLength, number> = {
+  "half-day": 240,
+  "full-day": 540,
+  "multi-day": 540,
+};
+
+/** 地点之间预留的交通时间（分钟） */
+export const ITINERARY_TRANSFER_MINUTES = 30;
+
+/** 无法解析时长的地点按此时长安排（分钟） */
+export const DEFAULT_STOP_MINUTES = 120;
+
+/** 多日行程的天数范围 */
+export const MIN_ITINERARY_DAYS = 2;
+export const MAX_ITINERARY_DAYS = 7;
+
+/** 单个行程的地点数上限 */
+export const MAX_ITINERARY_STOPS = 30;
+
+/**
+ * 行程中的地点（加入时的条目快照，条目下架后仍可展示）
+ */
+export interface ItineraryStop {
+  itemId: string;
+  title: string;
+  description?: string;
+  /** 条目原始时长文案，例如「2-3小时」 */
+  duration?: string;
+  durationMinutes: number;
+}
+
+/**
+ * 行程
+ */
+export interface Itinerary {
+  id: string;
+  userId: string;
+  title: string;
+  length: ItineraryLength;
+  /** 天数，半日和一日行程为 1 */
+  days: number;
+  /** 出发日期（用户本地日期） */
+  startDate: string;
+  /** 每天的出发时间，例如 09:00 */
+  startTime: string;
+  /** 按游览顺序排列 */
+  stops: ItineraryStop[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * 排好时间的地点
+ */
+export interface ScheduledStop extends ItineraryStop {
+  /** 第几天（从 1 开始） */
+  day: number;
+  date: string;
+  /** 开始和结束时间，例如 09:00 / 11:30 */
+  start: string;
+  end: string;
+}
+
+/**
+ * 行程时间表
+ */
+export interface ItinerarySchedule {
+  days: { day: number; date: string; stops: ScheduledStop[] }[];
+  /** 超出行程天数或当天午夜前结束不了、排不下的地点 */
+  unscheduled: ItineraryStop[];
+}
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected HH:MM");
+
+/**
+ * 新建行程请求；未指定出发日期时从今天开始
+ */
+export const itineraryInputSchema = z.object({
+  title: z.string().trim().min(1).max(100).optional(),
+  length: z.enum(ITINERARY_LENGTHS).default("full-day"),
+  /** 仅多日行程使用 */
+  days: z.number().int().min(MIN_ITINERARY_DAYS).max(MAX_ITINERARY_DAYS).optional(),
+  startDate: calendarDateSchema.optional(),
+  startTime: timeSchema.default("09:00"),
+  itemIds: z.array(z.string().min(1)).max(MAX_ITINERARY_STOPS).default([]),
+});
+
+export type ItineraryInput = z.infer<typeof itineraryInputSchema>;
+
+/**
+ * 修改行程请求；itemIds 为调整顺序或删除后的完整地点列表
+ */
+export const itineraryUpdateSchema = z.object({
+  title: z.string().trim().min(1).max(100).optional(),
+  length: z.enum(ITINERARY_LENGTHS).optional(),
+  days: z.number().int().min(MIN_ITINERARY_DAYS).max(MAX_ITINERARY_DAYS).optional(),
+  startDate: calendarDateSchema.optional(),
+  startTime: timeSchema.optional(),
+  itemIds: z.array(z.string().min(1)).max(MAX_ITINERARY_STOPS).optional(),
+});
+
+export type ItineraryUpdate = z.infer<typeof itineraryUpdateSchema>;
+
+/**
+ * 当天的分钟数格式化为 HH:MM
+ */
+function formatMinutes(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+/**
+ * 在日期上加若干天
+ */
+function addDays(date: string, days: number): string {
+  return new Date(new Date(`${date}T00:00:00Z`).getTime() + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * 按顺序把地点排进每天的时间段：当天剩余时间放不下时顺延到下一天，
+ * 单个地点超过一天的时长时独占一天；所有地点须在当天 23:59 前结束，
+ * 从出发时间起到午夜都放不下的地点和超出行程天数的地点不再安排
+ */
+export function scheduleItinerary(itinerary: Pick<Itinerary, 'length' | 'days' | 'startDate' | 'startTime' | 'stops'>): ItinerarySchedule {
+  const dayMinutes = ITINERARY_DAY_MINUTES[itinerary.length];
+  const dayCount = itinerary.length === "multi-day" ? itinerary.days : 1;
+  const [hours, minutes] = itinerary.startTime.split(":").map(Number);
+  const dayStart = hours * 60 + minutes;
+  // 出发后到当天 23:59 的分钟数
+  const untilMidnight = 24 * 60 - 1 - dayStart;
+  const dayLimit = Math.min(dayMinutes, untilMidnight);
+
+  const days: ItinerarySchedule['days'] = Array.from({ length: dayCount }, (_, index) => ({
+    day: index + 1,
+    date: addDays(itinerary.startDate, index),
+    stops: [],
+  }));
+  const unscheduled: ItineraryStop[] = [];
+  let dayIndex = 0;
+  let cursor = 0;
+
+  itinerary.stops.forEach(stop => {
+    if (stop.durationMinutes > untilMidnight) {
+      unscheduled.push(stop);
+      return;
+    }
+
+    let start = cursor > 0 ? cursor + ITINERARY_TRANSFER_MINUTES : 0;
+    if (cursor > 0 && start + stop.durationMinutes > dayLimit) {
+      dayIndex++;
+      start = 0;
+    }
+    if (dayIndex >= dayCount) {
+      unscheduled.push(stop);
+      return;
+    }
+
+    cursor = start + stop.durationMinutes;
+    days[dayIndex].stops.push({
+      ...stop,
+      day: dayIndex + 1,
+      date: days[dayIndex].date,
+      start: formatMinutes(dayStart + start),
+      end: formatMinutes(dayStart + cursor),
+    });
+  });
+
+  return { days, unscheduled };
+}
@@ -0,0 +1,43 @@
+/**
+ * 语言协商的 HTTP 辅助函数
+ */
+
+import { NextRequest } from 'next/server';
+import { isChinaRegion } from '../config/region';
+import { Region, getRegionFromCountryCode } from '../geo/ip-detection';
+import { getRequestCountryCode } from '../geo/request';
+import { negotiateLocale } from './negotiate';
+import { Locale } from './types';
+
+/** 语言选择的 URL 参数 */
+export const LOCALE_QUERY_PARAM = 'locale';
+
+/** 记住匿名用户语言选择的 cookie */
+export const LOCALE_COOKIE = 'locale';
+
+/**
+ * 从请求推断访客地区，没有国家信息时跟随部署区域
+ */
+export function getRequestRegion(request: NextRequest): Region {
+  const country = getRequestCountryCode(request);
+  if (country) {
+    return getRegionFromCountryCode(country);
+  }
+  return isChinaRegion() ? "china" : "other";
+}
+
+/**
+ * 协商当前请求的内容语言
+ * 优先级：?locale= 参数 → 用户偏好设置 → locale cookie → Accept-Language → 地区默认语言
+ */
+export function getRequestLocale(request: NextRequest, preferredLocale?: string | null): Locale {
+  return negotiateLocale({
+    overrides: [
+      request.nextUrl.searchParams.get(LOCALE_QUERY_PARAM),
+      preferredLocale,
+      request.cookies.get(LOCALE_COOKIE)?.value,
+    ],
+    acceptLanguage: request.headers.get('accept-language'),
+    region: getRequestRegion(request),
+  });
+}
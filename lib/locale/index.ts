@@ -0,0 +1,11 @@
+/**
+ * 语言区域模块统一导出
+ */
+
+export * from './types';
+export * from './negotiate';
+export * from './http';
+
+// 便捷导出
+export { negotiateLocale } from './negotiate';
+export { getRequestLocale } from './http';
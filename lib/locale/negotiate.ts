@@ -0,0 +1,77 @@
+/**
+ * 语言协商
+ *
+ * 优先级：用户显式选择 → Accept-Language → 地区默认语言（getDefaultLanguage）
+ */
+
+import { Region, getDefaultLanguage } from '../geo/ip-detection';
+import { Locale, isLocale } from './types';
+
+/**
+ * Accept-Language 中的一项
+ */
+export interface LanguageRange {
+  /** 主语言标签，例如 zh-CN → zh */
+  language: string;
+  quality: number;
+}
+
+/**
+ * 解析 Accept-Language 请求头，按权重从高到低排序
+ * 例如 "en-US,en;q=0.9,zh;q=0.8"
+ */
+export function parseAcceptLanguage(header: string | null | undefined): LanguageRange[] {
+  if (!header) {
+    return [];
+  }
+
+  return header
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';');
+      const qualityParam = params.find(param => param.trim().startsWith('q='));
+      const quality = qualityParam ? Number(qualityParam.trim().slice(2)) : 1;
+      return {
+        language: tag.trim().toLowerCase().split('-')[0],
+        quality: Number.isFinite(quality) ? quality : 0,
+        index,
+      };
+    })
+    .filter(range => range.language && range.quality > 0)
+    // 权重相同时保持原顺序
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map(({ language, quality }) => ({ language, quality }));
+}
+
+/**
+ * 语言协商输入
+ */
+export interface LocaleNegotiation {
+  /** 用户显式选择的语言（URL 参数、偏好设置或 cookie），按优先级排列 */
+  overrides?: (string | null | undefined)[];
+  acceptLanguage?: string | null;
+  region: Region;
+}
+
+/**
+ * 协商内容语言
+ * 显式选择中第一个受支持的语言优先；其次取 Accept-Language 中权重最高的受支持语言（* 视为不限）；
+ * 都没有时使用地区默认语言
+ */
+export function negotiateLocale({ overrides = [], acceptLanguage, region }: LocaleNegotiation): Locale {
+  const override = overrides.find(isLocale);
+  if (override) {
+    return override;
+  }
+
+  for (const range of parseAcceptLanguage(acceptLanguage)) {
+    if (isLocale(range.language)) {
+      return range.language;
+    }
+    if (range.language === '*') {
+      break;
+    }
+  }
+
+  return getDefaultLanguage(region);
+}
@@ -0,0 +1,22 @@
+/**
+ * 语言区域 - 类型定义
+ */
+
+/**
+ * 支持的内容语言
+ */
+export const LOCALES = ["zh", "en"] as const;
+
+export type Locale = typeof LOCALES[number];
+
+/**
+ * 目录内容的源语言：条目的 title / description / reason 字段使用该语言，其余语言写在 translations 中
+ */
+export const DEFAULT_LOCALE: Locale = "zh";
+
+/**
+ * 判断字符串是否为支持的语言
+ */
+export function isLocale(value: string | null | undefined): value is Locale {
+  return (LOCALES as readonly string[]).includes(value || '');
+}
@@ -0,0 +1,60 @@
+/**
+ * 热量记录仓库接口
+ */
+
+import { StoreProvider, resolveStoreProvider } from '../database/adapter';
+import { NutritionEntry } from './types';
+
+/**
+ * 热量记录仓库接口
+ */
+export interface NutritionRepository {
+  /**
+   * 新增记录
+   */
+  addEntry(entry: Omit<NutritionEntry, 'id' | 'createdAt'>): Promise<NutritionEntry>;
+
+  /**
+   * 查询用户在日期区间内的记录（含首尾两天，按记录时间正序）
+   */
+  listEntries(userId: string, from: string, to: string): Promise<NutritionEntry[]>;
+
+  /**
+   * 删除记录，返回是否删除成功
+   */
+  removeEntry(userId: string, entryId: string): Promise<boolean>;
+}
+
+/**
+ * 创建热量记录仓库工厂函数
+ */
+export function createNutritionRepository(type: StoreProvider): NutritionRepository {
+  switch (type) {
+    case "supabase":
+      const { SupabaseNutritionRepository } = require("./repositories/supabase-repository");
+      return new SupabaseNutritionRepository();
+    case "cloudbase":
+      const { CloudBaseNutritionRepository } = require("./repositories/cloudbase-repository");
+      return new CloudBaseNutritionRepository();
+    case "memory":
+      const { MemoryNutritionRepository } = require("./repositories/memory-repository");
+      return new MemoryNutritionRepository();
+    default:
+      throw new Error(`Unsupported nutrition store: ${type}`);
+  }
+}
+
+/**
+ * 全局实例（单例模式）
+ */
+let nutritionInstance: NutritionRepository | null = null;
+
+/**
+ * 获取热量记录仓库
+ */
+export function getNutritionRepository(): NutritionRepository {
+  if (!nutritionInstance) {
+    nutritionInstance = createNutritionRepository(resolveStoreProvider(process.env.NUTRITION_STORE));
+  }
+  return nutritionInstance;
+}
@@ -0,0 +1,10 @@
+/**
+ * 热量记录模块统一导出
+ */
+
+export * from './types';
+export * from './adapter';
+export * from './service';
+
+// 便捷导出
+export { getNutritionRepository } from './adapter';
@@ -0,0 +1,49 @@
+/**
+ * CloudBase 热量记录仓库
+ * 数据存放在 nutrition_entries 集合
+ */
+
+import { getDatabaseClient } from '../../database/adapter';
+import { NutritionRepository } from '../adapter';
+import { NutritionEntry } from '../types';
+
+const COLLECTION = 'nutrition_entries';
+
+/** 单次查询的最大条数（一周的记录远小于此值） */
+const MAX_ENTRIES = 1000;
+
+export class CloudBaseNutritionRepository implements NutritionRepository {
+  async addEntry(entry: Omit<NutritionEntry, 'id' | 'createdAt'>): Promise<NutritionEntry> {
+    const db = await getDatabaseClient('cloudbase');
+    const document = { ...entry, createdAt: new Date().toISOString() };
+
+    const result = await db.collection(COLLECTION).add(document);
+    return { ...document, id: result.id };
+  }
+
+  async listEntries(userId: string, from: string, to: string): Promise<NutritionEntry[]> {
+    const db = await getDatabaseClient('cloudbase');
+    const _ = db.command;
+
+    const result = await db.collection(COLLECTION)
+      .where({ userId, date: _.gte(from).and(_.lte(to)) })
+      .orderBy('createdAt', 'asc')
+      .limit(MAX_ENTRIES)
+      .get();
+
+    return result.data.map((doc: any) => {
+      const { _id, ...entry } = doc;
+      return { ...entry, id: _id } as NutritionEntry;
+    });
+  }
+
+  async removeEntry(userId: string, entryId: string): Promise<boolean> {
+    const db = await getDatabaseClient('cloudbase');
+
+    const result = await db.collection(COLLECTION)
+      .where({ _id: entryId, userId })
+      .remove();
+
+    return (result.deleted || 0) > 0;
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * 内存热量记录仓库
+ */
+
+import { getMemoryCollection } from '../../database/adapter';
+import { generateId } from '../../utils/helpers';
+import { NutritionRepository } from '../adapter';
+import { NutritionEntry } from '../types';
+
+export class MemoryNutritionRepository implements NutritionRepository {
+  private entries = getMemoryCollection<NutritionEntry[]>('nutrition_entries');
+
+  async addEntry(entry: Omit<NutritionEntry, 'id' | 'createdAt'>): Promise<NutritionEntry> {
+    const saved: NutritionEntry = {
+      ...entry,
+      id: generateId('nutrition'),
+      createdAt: new Date().toISOString(),
+    };
+    this.entries.set(entry.userId, [...(this.entries.get(entry.userId) || []), saved]);
+    return saved;
+  }
+
+  async listEntries(userId: string, from: string, to: string): Promise<NutritionEntry[]> {
+    return (this.entries.get(userId) || [])
+      .filter(entry => entry.date >= from && entry.date <= to)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async removeEntry(userId: string, entryId: string): Promise<boolean> {
+    const existing = this.entries.get(userId) || [];
+    const kept = existing.filter(entry => entry.id !== entryId);
+    this.entries.set(userId, kept);
+    return kept.length < existing.length;
+  }
+}
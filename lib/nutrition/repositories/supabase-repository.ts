@@ -0,0 +1,79 @@
+/**
+ * Supabase 热量记录仓库
+ * 数据存放在 nutrition_entries 表（见 supabase/nutrition_entries.sql）
+ */
+
+import { getDatabaseClient } from '../../database/adapter';
+import { NutritionRepository } from '../adapter';
+import { NutritionEntry } from '../types';
+
+const TABLE = 'nutrition_entries';
+
+export class SupabaseNutritionRepository implements NutritionRepository {
+  async addEntry(entry: Omit<NutritionEntry, 'id' | 'createdAt'>): Promise<NutritionEntry> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { data, error } = await supabase
+      .from(TABLE)
+      .insert({
+        user_id: entry.userId,
+        date: entry.date,
+        kind: entry.kind,
+        item_id: entry.itemId,
+        title: entry.title,
+        calories: entry.calories,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+    return this.fromRow(data);
+  }
+
+  async listEntries(userId: string, from: string, to: string): Promise<NutritionEntry[]> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { data, error } = await supabase
+      .from(TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .gte('date', from)
+      .lte('date', to)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+    return (data || []).map((row: any) => this.fromRow(row));
+  }
+
+  async removeEntry(userId: string, entryId: string): Promise<boolean> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { error, count } = await supabase
+      .from(TABLE)
+      .delete({ count: 'exact' })
+      .eq('user_id', userId)
+      .eq('id', entryId);
+
+    if (error) {
+      throw error;
+    }
+    return (count || 0) > 0;
+  }
+
+  private fromRow(row: any): NutritionEntry {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      date: row.date,
+      kind: row.kind,
+      itemId: row.item_id,
+      title: row.title,
+      calories: Number(row.calories),
+      createdAt: new Date(row.created_at).toISOString(),
+    };
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * 热量记录服务
+ *
+ * 接受推荐时写入记录，按用户本地日期汇总当天和最近一周的热量，
+ * 并根据当天剩余额度为食物推荐加权
+ */
+
+import { CatalogRepository, getCatalogRepository } from '../catalog/adapter';
+import { FoodItem } from '../catalog/types';
+import { DEFAULT_LOCALE, Locale } from '../locale/types';
+import { PreferencesRepository, getPreferencesRepository } from '../preferences/adapter';
+import { DEFAULT_PREFERENCES } from '../preferences/types';
+import { estimateCaloriesBurned } from '../recommendation/day-plan';
+import { ItemBoost } from '../recommendation/types';
+import { NutritionRepository, getNutritionRepository } from './adapter';
+import { DailyNutrition, NutritionEntry, NutritionLogInput, listRecentDates, summarizeNutrition } from './types';
+
+/** 放得进剩余额度的食物加权倍数 */
+const CALORIE_FIT_BOOST = 2;
+
+/**
+ * 热量额度推荐理由
+ */
+const CALORIE_REASONS: Record<Locale, {
+  fits: (remaining: number, calories: number) => string;
+  lightest: () => string;
+}> = {
+  zh: {
+    fits: (remaining, calories) => `今天还剩 ${remaining} 千卡额度，这份 ${calories} 千卡刚好`,
+    lightest: () => "今天的热量额度快用完了，来点清淡的",
+  },
+  en: {
+    fits: (remaining, calories) => `${remaining} kcal left today — this one is ${calories} kcal`,
+    lightest: () => "You're close to today's calorie target — something light",
+  },
+};
+
+/**
+ * 按当天剩余额度为食物加权：放得进额度的条目加权；都放不进时只加权热量最低的条目
+ * 与已有加权（例如上下文规则）叠加倍数，推荐理由使用热量理由
+ */
+export function applyCalorieBudget(
+  items: FoodItem[],
+  remaining: number,
+  boosts: Record<string, ItemBoost> = {},
+  locale: Locale = DEFAULT_LOCALE
+): Record<string, ItemBoost> {
+  if (items.length === 0) {
+    return boosts;
+  }
+
+  const reasons = CALORIE_REASONS[locale];
+  const fitting = items.filter(item => item.calories <= remaining);
+  const targets = fitting.length > 0
+    ? fitting
+    : [items.reduce((lightest, item) => (item.calories < lightest.calories ? item : lightest))];
+
+  const result = { ...boosts };
+  targets.forEach(item => {
+    result[item.id] = {
+      multiplier: (boosts[item.id]?.multiplier ?? 1) * CALORIE_FIT_BOOST,
+      reason: fitting.length > 0 ? reasons.fits(remaining, item.calories) : reasons.lightest(),
+    };
+  });
+  return result;
+}
+
+export class NutritionService {
+  constructor(
+    private repository: NutritionRepository = getNutritionRepository(),
+    private catalog: CatalogRepository = getCatalogRepository(),
+    private preferences: PreferencesRepository = getPreferencesRepository()
+  ) {}
+
+  /**
+   * 记录接受的推荐：食物记摄入热量，健身记估算消耗；条目不存在或已归档时返回 null
+   */
+  async logPick(userId: string, input: NutritionLogInput, date: string): Promise<NutritionEntry | null> {
+    const item = await this.catalog.getItem(input.category, input.itemId);
+    if (!item || item.archived) {
+      return null;
+    }
+
+    return this.repository.addEntry({
+      userId,
+      date,
+      kind: item.category === "food" ? "intake" : "burn",
+      itemId: item.id,
+      title: item.title,
+      calories: item.category === "food" ? item.calories : estimateCaloriesBurned(item),
+    });
+  }
+
+  /**
+   * 删除记录（记错时撤销）
+   */
+  async removeEntry(userId: string, entryId: string): Promise<boolean> {
+    return this.repository.removeEntry(userId, entryId);
+  }
+
+  /**
+   * 当天的热量汇总和记录
+   */
+  async getDay(userId: string, date: string): Promise<{ summary: DailyNutrition; entries: NutritionEntry[] }> {
+    const [entries, target] = await Promise.all([
+      this.repository.listEntries(userId, date, date),
+      this.getDailyTarget(userId),
+    ]);
+    return { summary: summarizeNutrition(date, entries, target), entries };
+  }
+
+  /**
+   * 截至 today 最近一周每天的热量汇总
+   */
+  async getWeek(userId: string, today: string): Promise<DailyNutrition[]> {
+    const dates = listRecentDates(today);
+    const [entries, target] = await Promise.all([
+      this.repository.listEntries(userId, dates[0], today),
+      this.getDailyTarget(userId),
+    ]);
+    return dates.map(date => summarizeNutrition(date, entries, target));
+  }
+
+  /**
+   * 设置每日热量目标（保存在用户偏好中），传 null 清除
+   */
+  async setDailyTarget(userId: string, target: number | null): Promise<number | undefined> {
+    const current = await this.preferences.getPreferences(userId);
+    const { userId: _, updatedAt, ...preferences } = current || { ...DEFAULT_PREFERENCES, userId, updatedAt: "" };
+
+    const saved = await this.preferences.savePreferences(userId, {
+      ...preferences,
+      dailyCalorieTarget: target ?? undefined,
+    });
+    return saved.dailyCalorieTarget;
+  }
+
+  private async getDailyTarget(userId: string): Promise<number | undefined> {
+    return (await this.preferences.getPreferences(userId))?.dailyCalorieTarget;
+  }
+}
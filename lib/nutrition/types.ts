@@ -0,0 +1,93 @@
+/**
+ * 热量记录 - 类型定义
+ *
+ * 用户接受食物推荐时记录摄入热量，接受健身推荐时按时长和运动类型记录估算消耗；
+ * 按用户本地日期汇总，与每日热量目标比较得到当天剩余额度
+ */
+
+import { z } from 'zod';
+
+/**
+ * 记录类型：摄入 / 消耗
+ */
+export const NUTRITION_ENTRY_KINDS = ["intake", "burn"] as const;
+
+export type NutritionEntryKind = typeof NUTRITION_ENTRY_KINDS[number];
+
+/**
+ * 周统计的天数
+ */
+export const NUTRITION_WEEK_DAYS = 7;
+
+/**
+ * 热量记录
+ */
+export interface NutritionEntry {
+  id: string;
+  userId: string;
+  /** 用户本地日期，例如 2025-01-31 */
+  date: string;
+  kind: NutritionEntryKind;
+  itemId: string;
+  /** 记录时的条目标题快照 */
+  title: string;
+  /** 热量（千卡），摄入和消耗都记为正数 */
+  calories: number;
+  createdAt: string;
+}
+
+/**
+ * 接受推荐请求：食物记摄入，健身记消耗
+ */
+export const nutritionLogInputSchema = z.object({
+  category: z.enum(["food", "fitness"]),
+  itemId: z.string().min(1),
+});
+
+export type NutritionLogInput = z.infer<typeof nutritionLogInputSchema>;
+
+/**
+ * 单日热量汇总
+ */
+export interface DailyNutrition {
+  date: string;
+  intake: number;
+  burned: number;
+  /** 净摄入 = 摄入 - 消耗 */
+  net: number;
+  /** 每日热量目标，未设置时为空 */
+  target?: number;
+  /** 剩余额度 = 目标 - 净摄入，未设置目标时为空 */
+  remaining?: number;
+}
+
+/**
+ * 汇总一天的热量记录
+ */
+export function summarizeNutrition(date: string, entries: NutritionEntry[], target?: number): DailyNutrition {
+  const sum = (kind: NutritionEntryKind) => entries
+    .filter(entry => entry.date === date && entry.kind === kind)
+    .reduce((total, entry) => total + entry.calories, 0);
+
+  const intake = sum("intake");
+  const burned = sum("burn");
+  const net = intake - burned;
+
+  return {
+    date,
+    intake,
+    burned,
+    net,
+    ...(target !== undefined && { target, remaining: target - net }),
+  };
+}
+
+/**
+ * 截至 today 的连续日期（含 today，按时间正序）
+ */
+export function listRecentDates(today: string, days: number = NUTRITION_WEEK_DAYS): string[] {
+  const end = new Date(`${today}T00:00:00Z`).getTime();
+  return Array.from({ length: days }, (_, index) =>
+    new Date(end - (days - 1 - index) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+  );
+}
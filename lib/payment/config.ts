@@ -65,8 +65,18 @@ export function getDaysByBillingCycle(billingCycle: BillingCycle): number {
  */
 export const EXCHANGE_RATES = {
   USD_TO_CNY: 7.2, // 1 USD = 7.2 CNY
+  EUR_TO_CNY: 7.8, // 1 EUR = 7.8 CNY
 } as const;
 
+/**
+ * 各货币兑人民币汇率（以人民币为中间货币换算）
+ */
+const CNY_RATES: Record<string, number> = {
+  CNY: 1,
+  USD: EXCHANGE_RATES.USD_TO_CNY,
+  EUR: EXCHANGE_RATES.EUR_TO_CNY,
+};
+
 /**
  * 货币转换
  * @param amount 原始金额
@@ -83,14 +93,10 @@ export function convertCurrency(
     return amount;
   }
 
-  // USD 转 CNY
-  if (fromCurrency === "USD" && toCurrency === "CNY") {
-    return amount * EXCHANGE_RATES.USD_TO_CNY;
-  }
-
-  // CNY 转 USD
-  if (fromCurrency === "CNY" && toCurrency === "USD") {
-    return amount / EXCHANGE_RATES.USD_TO_CNY;
+  const fromRate = CNY_RATES[fromCurrency];
+  const toRate = CNY_RATES[toCurrency];
+  if (fromRate && toRate) {
+    return (amount * fromRate) / toRate;
   }
 
   // 不支持的货币转换
@@ -0,0 +1,55 @@
+/**
+ * 用户偏好仓库接口
+ */
+
+import { StoreProvider, resolveStoreProvider } from '../database/adapter';
+import { StoredPreferences, UserPreferences } from './types';
+
+/**
+ * 用户偏好仓库接口
+ */
+export interface PreferencesRepository {
+  /**
+   * 读取用户偏好，未填写时返回 null
+   */
+  getPreferences(userId: string): Promise<StoredPreferences | null>;
+
+  /**
+   * 保存用户偏好（整体覆盖）
+   */
+  savePreferences(userId: string, preferences: UserPreferences): Promise<StoredPreferences>;
+}
+
+/**
+ * 创建用户偏好仓库工厂函数
+ */
+export function createPreferencesRepository(type: StoreProvider): PreferencesRepository {
+  switch (type) {
+    case "supabase":
+      const { SupabasePreferencesRepository } = require("./repositories/supabase-repository");
+      return new SupabasePreferencesRepository();
+    case "cloudbase":
+      const { CloudBasePreferencesRepository } = require("./repositories/cloudbase-repository");
+      return new CloudBasePreferencesRepository();
+    case "memory":
+      const { MemoryPreferencesRepository } = require("./repositories/memory-repository");
+      return new MemoryPreferencesRepository();
+    default:
+      throw new Error(`Unsupported preferences store: ${type}`);
+  }
+}
+
+/**
+ * 全局用户偏好仓库实例（单例模式）
+ */
+let preferencesInstance: PreferencesRepository | null = null;
+
+/**
+ * 获取用户偏好仓库
+ */
+export function getPreferencesRepository(): PreferencesRepository {
+  if (!preferencesInstance) {
+    preferencesInstance = createPreferencesRepository(resolveStoreProvider(process.env.PREFERENCES_STORE));
+  }
+  return preferencesInstance;
+}
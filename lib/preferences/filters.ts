@@ -0,0 +1,91 @@
+/**
+ * 基于用户偏好的硬性过滤
+ *
+ * 条目通过 tags 标注属性（spicy、pork、indoor、intensity:high 等），
+ * 与偏好冲突的条目直接排除，不参与打分
+ */
+
+import { CatalogCategory, CatalogItem, getItemPrice } from '../catalog/types';
+import { BudgetRange, DietaryRestriction, FitnessLevel, UserPreferences } from './types';
+
+/**
+ * 饮食禁忌 → 需要排除的标签
+ */
+export const RESTRICTION_EXCLUDED_TAGS: Record<DietaryRestriction, string[]> = {
+  "no-spicy": ["spicy"],
+  "vegetarian": ["meat", "seafood"],
+  "no-pork": ["pork"],
+  "no-seafood": ["seafood"],
+  "no-dairy": ["dairy"],
+  "no-gluten": ["gluten"],
+};
+
+/**
+ * 健身水平 → 需要排除的强度标签
+ */
+export const LEVEL_EXCLUDED_TAGS: Record<FitnessLevel, string[]> = {
+  beginner: ["intensity:high"],
+  intermediate: [],
+  advanced: [],
+};
+
+/**
+ * 计算偏好对应的排除标签
+ */
+function getExcludedTags(preferences: UserPreferences): Set<string> {
+  const excluded = new Set<string>();
+
+  preferences.dietaryRestrictions.forEach(restriction => {
+    RESTRICTION_EXCLUDED_TAGS[restriction].forEach(tag => excluded.add(tag));
+  });
+  if (preferences.fitnessLevel) {
+    LEVEL_EXCLUDED_TAGS[preferences.fitnessLevel].forEach(tag => excluded.add(tag));
+  }
+  if (preferences.setting === "indoor") excluded.add("outdoor");
+  if (preferences.setting === "outdoor") excluded.add("indoor");
+
+  return excluded;
+}
+
+/**
+ * 判断条目是否在预算内：使用条目在预算货币下的定价，没有单独定价时按汇率换算
+ * 非购物条目不受预算限制
+ */
+export function isWithinBudget(item: CatalogItem, budget: BudgetRange | undefined): boolean {
+  if (item.category !== "shopping" || !budget) {
+    return true;
+  }
+
+  const amount = getItemPrice(item, budget.currency || "CNY")?.amount ?? null;
+  if (amount === null) {
+    return true;
+  }
+
+  const { min, max } = budget;
+  return (min === undefined || amount >= min) && (max === undefined || amount <= max);
+}
+
+/**
+ * 按预算过滤条目
+ */
+export function applyBudgetFilter<T extends CatalogItem>(items: T[], budget: BudgetRange | undefined): T[] {
+  return budget ? items.filter(item => isWithinBudget(item, budget)) : items;
+}
+
+/**
+ * 按偏好过滤条目
+ */
+export function applyPreferenceFilters<T extends CatalogItem>(items: T[], preferences: UserPreferences): T[] {
+  const excluded = getExcludedTags(preferences);
+
+  return items.filter(item =>
+    !(item.tags || []).some(tag => excluded.has(tag)) && isWithinBudget(item, preferences.budget)
+  );
+}
+
+/**
+ * 偏好中明确喜欢的类型（用于加权，不做过滤）
+ */
+export function getPreferredTypes(category: CatalogCategory, preferences: UserPreferences): string[] {
+  return category === "food" ? preferences.cuisines : [];
+}
@@ -0,0 +1,17 @@
+/**
+ * 用户偏好模块统一导出
+ */
+
+export * from './types';
+export * from './adapter';
+export * from './filters';
+export * from './merge';
+
+// 便捷导出
+export {
+  applyPreferenceFilters,
+  getPreferredTypes
+} from './filters';
+export {
+  getPreferencesRepository
+} from './adapter';
@@ -0,0 +1,56 @@
+/**
+ * 合并多人的偏好（多人一起摇时使用）
+ *
+ * 禁忌取并集，预算取交集，强度按最低水平，只有一个人想去的菜系也会被加权；
+ * 合并结果满足所有人的硬性条件
+ */
+
+import { convertCurrency } from '../payment/config';
+import { BudgetRange, DEFAULT_PREFERENCES, FITNESS_LEVELS, SettingPreference, UserPreferences } from './types';
+
+/**
+ * 预算取交集：先统一换算成第一个预算的货币（未指定按人民币）再求交集
+ */
+function mergeBudgets(budgets: BudgetRange[]): BudgetRange | undefined {
+  if (budgets.length === 0) {
+    return undefined;
+  }
+
+  const currency = budgets[0].currency || "CNY";
+  const toCurrency = (budget: BudgetRange, amount: number) => convertCurrency(amount, budget.currency || "CNY", currency);
+  const mins = budgets.flatMap(budget => budget.min !== undefined ? [toCurrency(budget, budget.min)] : []);
+  const maxes = budgets.flatMap(budget => budget.max !== undefined ? [toCurrency(budget, budget.max)] : []);
+
+  return {
+    currency,
+    ...(mins.length > 0 && { min: Math.max(...mins) }),
+    ...(maxes.length > 0 && { max: Math.min(...maxes) }),
+  };
+}
+
+/**
+ * 室内/室外：有人要室内、有人要室外时互相抵消为不限
+ */
+function mergeSettings(settings: SettingPreference[]): SettingPreference {
+  const wanted = new Set(settings.filter(setting => setting !== "any"));
+  return wanted.size === 1 ? Array.from(wanted)[0] : "any";
+}
+
+/**
+ * 合并多人的偏好；没有人填写时返回默认偏好
+ */
+export function mergePreferences(preferences: UserPreferences[]): UserPreferences {
+  if (preferences.length === 0) {
+    return DEFAULT_PREFERENCES;
+  }
+
+  const levels = preferences.flatMap(entry => entry.fitnessLevel ? [FITNESS_LEVELS.indexOf(entry.fitnessLevel)] : []);
+
+  return {
+    dietaryRestrictions: Array.from(new Set(preferences.flatMap(entry => entry.dietaryRestrictions))),
+    cuisines: Array.from(new Set(preferences.flatMap(entry => entry.cuisines))),
+    budget: mergeBudgets(preferences.flatMap(entry => entry.budget ? [entry.budget] : [])),
+    ...(levels.length > 0 && { fitnessLevel: FITNESS_LEVELS[Math.min(...levels)] }),
+    setting: mergeSettings(preferences.map(entry => entry.setting)),
+  };
+}
@@ -0,0 +1,39 @@
+/**
+ * CloudBase 用户偏好仓库
+ * 数据存放在 user_preferences 集合，文档 ID 为用户 ID
+ */
+
+import { getDatabaseClient } from '../../database/adapter';
+import { PreferencesRepository } from '../adapter';
+import { StoredPreferences, UserPreferences, userPreferencesSchema } from '../types';
+
+const COLLECTION = 'user_preferences';
+
+export class CloudBasePreferencesRepository implements PreferencesRepository {
+  async getPreferences(userId: string): Promise<StoredPreferences | null> {
+    const db = await getDatabaseClient('cloudbase');
+
+    const result = await db.collection(COLLECTION)
+      .doc(userId)
+      .get();
+
+    const doc = result.data[0];
+    if (!doc) {
+      return null;
+    }
+
+    const { _id, updatedAt, ...preferences } = doc;
+    return { ...userPreferencesSchema.parse(preferences), userId, updatedAt };
+  }
+
+  async savePreferences(userId: string, preferences: UserPreferences): Promise<StoredPreferences> {
+    const db = await getDatabaseClient('cloudbase');
+    const updatedAt = new Date().toISOString();
+
+    await db.collection(COLLECTION)
+      .doc(userId)
+      .set({ ...preferences, updatedAt });
+
+    return { ...preferences, userId, updatedAt };
+  }
+}
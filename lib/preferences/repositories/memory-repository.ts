@@ -0,0 +1,21 @@
+/**
+ * 内存用户偏好仓库
+ */
+
+import { getMemoryCollection } from '../../database/adapter';
+import { PreferencesRepository } from '../adapter';
+import { StoredPreferences, UserPreferences } from '../types';
+
+export class MemoryPreferencesRepository implements PreferencesRepository {
+  private preferences = getMemoryCollection<StoredPreferences>('user_preferences');
+
+  async getPreferences(userId: string): Promise<StoredPreferences | null> {
+    return this.preferences.get(userId) || null;
+  }
+
+  async savePreferences(userId: string, preferences: UserPreferences): Promise<StoredPreferences> {
+    const saved = { ...preferences, userId, updatedAt: new Date().toISOString() };
+    this.preferences.set(userId, saved);
+    return saved;
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Supabase 用户偏好仓库
+ * 数据存放在 user_preferences 表（见 supabase/user_preferences.sql）
+ */
+
+import { getDatabaseClient } from '../../database/adapter';
+import { PreferencesRepository } from '../adapter';
+import { StoredPreferences, UserPreferences, userPreferencesSchema } from '../types';
+
+const TABLE = 'user_preferences';
+
+export class SupabasePreferencesRepository implements PreferencesRepository {
+  async getPreferences(userId: string): Promise<StoredPreferences | null> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { data, error } = await supabase
+      .from(TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    return data ? this.fromRow(data) : null;
+  }
+
+  async savePreferences(userId: string, preferences: UserPreferences): Promise<StoredPreferences> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { data, error } = await supabase
+      .from(TABLE)
+      .upsert({
+        user_id: userId,
+        preferences,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'user_id' })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+    return this.fromRow(data);
+  }
+
+  private fromRow(row: any): StoredPreferences {
+    return {
+      ...userPreferencesSchema.parse(row.preferences || {}),
+      userId: row.user_id,
+      updatedAt: new Date(row.updated_at).toISOString(),
+    };
+  }
+}
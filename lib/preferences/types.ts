@@ -0,0 +1,84 @@
+/**
+ * 用户偏好 - 类型定义
+ */
+
+import { z } from 'zod';
+import { CATALOG_CURRENCIES } from '../catalog/types';
+import { LOCALES } from '../locale/types';
+
+/**
+ * 饮食禁忌
+ */
+export const DIETARY_RESTRICTIONS = ["no-spicy", "vegetarian", "no-pork", "no-seafood", "no-dairy", "no-gluten"] as const;
+
+export type DietaryRestriction = typeof DIETARY_RESTRICTIONS[number];
+
+/**
+ * 健身水平
+ */
+export const FITNESS_LEVELS = ["beginner", "intermediate", "advanced"] as const;
+
+export type FitnessLevel = typeof FITNESS_LEVELS[number];
+
+/**
+ * 室内/室外偏好
+ */
+export const SETTING_PREFERENCES = ["any", "indoor", "outdoor"] as const;
+
+export type SettingPreference = typeof SETTING_PREFERENCES[number];
+
+/**
+ * 购物预算区间，未指定货币时按人民币计
+ */
+export const budgetRangeSchema = z.object({
+  min: z.number().nonnegative().optional(),
+  max: z.number().positive().optional(),
+  currency: z.enum(CATALOG_CURRENCIES).optional(),
+}).refine(
+  range => range.min === undefined || range.max === undefined || range.min <= range.max,
+  { message: "min must not exceed max" }
+);
+
+export type BudgetRange = z.infer<typeof budgetRangeSchema>;
+
+/**
+ * 每日热量目标的合法范围（千卡）
+ */
+export const MIN_DAILY_CALORIE_TARGET = 800;
+export const MAX_DAILY_CALORIE_TARGET = 6000;
+
+/**
+ * 用户偏好
+ */
+export const userPreferencesSchema = z.object({
+  dietaryRestrictions: z.array(z.enum(DIETARY_RESTRICTIONS)).default([]),
+  /** 喜欢的菜系（food 分类的 type） */
+  cuisines: z.array(z.string().min(1)).max(20).default([]),
+  budget: budgetRangeSchema.optional(),
+  fitnessLevel: z.enum(FITNESS_LEVELS).optional(),
+  setting: z.enum(SETTING_PREFERENCES).default("any"),
+  homeCity: z.string().trim().max(50).optional(),
+  /** 内容语言，未设置时按浏览器语言和地区协商 */
+  locale: z.enum(LOCALES).optional(),
+  /** 每日热量目标（千卡），设置后食物推荐优先当天剩余额度内的条目 */
+  dailyCalorieTarget: z.number().int().min(MIN_DAILY_CALORIE_TARGET).max(MAX_DAILY_CALORIE_TARGET).optional(),
+});
+
+export type UserPreferences = z.infer<typeof userPreferencesSchema>;
+
+/**
+ * 已保存的用户偏好
+ */
+export interface StoredPreferences extends UserPreferences {
+  userId: string;
+  updatedAt: string;
+}
+
+/**
+ * 默认偏好（未填写时不做任何过滤）
+ */
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  dietaryRestrictions: [],
+  cuisines: [],
+  setting: "any",
+};
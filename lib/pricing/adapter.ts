@@ -0,0 +1,180 @@
+/**
+ * 价格追踪仓库与价格源接口
+ */
+
+import { StoreProvider, resolveStoreProvider } from '../database/adapter';
+import { Price, ShoppingItem } from '../catalog/types';
+import { PriceAlert, PricePoint, PriceQuote, PriceWatch } from './types';
+
+/**
+ * 价格历史仓库接口
+ */
+export interface PriceHistoryRepository {
+  /**
+   * 写入价格记录
+   */
+  addPoints(points: PricePoint[]): Promise<void>;
+
+  /**
+   * 查询条目的价格历史（按记录时间倒序）
+   */
+  listHistory(itemId: string, limit?: number): Promise<PricePoint[]>;
+}
+
+/**
+ * 降价提醒查询选项
+ */
+export interface PriceAlertQuery {
+  /** 只返回未读提醒 */
+  unreadOnly?: boolean;
+  /** 最多返回条数，默认 50 */
+  limit?: number;
+}
+
+/**
+ * 降价关注与提醒仓库接口
+ */
+export interface PriceWatchRepository {
+  /**
+   * 查询用户的关注（按关注时间倒序）
+   */
+  listWatches(userId: string): Promise<PriceWatch[]>;
+
+  /**
+   * 查询关注某条目的所有用户
+   */
+  listItemWatches(itemId: string): Promise<PriceWatch[]>;
+
+  /**
+   * 新增关注；已关注时更新目标价并重置提醒状态
+   */
+  saveWatch(userId: string, item: { itemId: string; title: string }, targetPrice: Price): Promise<PriceWatch>;
+
+  /**
+   * 记录已按该价格提醒过
+   */
+  markNotified(watchId: string, price: Price): Promise<void>;
+
+  /**
+   * 取消关注，返回是否删除成功
+   */
+  removeWatch(userId: string, watchId: string): Promise<boolean>;
+
+  /**
+   * 新增降价提醒
+   */
+  addAlert(alert: Omit<PriceAlert, 'id' | 'createdAt'>): Promise<PriceAlert>;
+
+  /**
+   * 查询用户的降价提醒（按时间倒序）
+   */
+  listAlerts(userId: string, query?: PriceAlertQuery): Promise<PriceAlert[]>;
+
+  /**
+   * 将用户的提醒全部标记为已读，返回标记的数量
+   */
+  markAlertsRead(userId: string): Promise<number>;
+}
+
+/**
+ * 价格源接口
+ * 返回条目的当前价格；拿不到价格的条目不返回
+ */
+export interface PriceSource {
+  readonly name: string;
+  getQuotes(items: ShoppingItem[]): Promise<PriceQuote[]>;
+}
+
+/**
+ * 支持的价格源
+ */
+export type PriceSourceType = "fixture";
+
+/**
+ * 创建价格历史仓库工厂函数
+ */
+export function createPriceHistoryRepository(type: StoreProvider): PriceHistoryRepository {
+  switch (type) {
+    case "supabase":
+      const { SupabasePriceHistoryRepository } = require("./repositories/supabase-history-repository");
+      return new SupabasePriceHistoryRepository();
+    case "cloudbase":
+      const { CloudBasePriceHistoryRepository } = require("./repositories/cloudbase-history-repository");
+      return new CloudBasePriceHistoryRepository();
+    case "memory":
+      const { MemoryPriceHistoryRepository } = require("./repositories/memory-history-repository");
+      return new MemoryPriceHistoryRepository();
+    default:
+      throw new Error(`Unsupported price store: ${type}`);
+  }
+}
+
+/**
+ * 创建降价关注仓库工厂函数
+ */
+export function createPriceWatchRepository(type: StoreProvider): PriceWatchRepository {
+  switch (type) {
+    case "supabase":
+      const { SupabasePriceWatchRepository } = require("./repositories/supabase-watch-repository");
+      return new SupabasePriceWatchRepository();
+    case "cloudbase":
+      const { CloudBasePriceWatchRepository } = require("./repositories/cloudbase-watch-repository");
+      return new CloudBasePriceWatchRepository();
+    case "memory":
+      const { MemoryPriceWatchRepository } = require("./repositories/memory-watch-repository");
+      return new MemoryPriceWatchRepository();
+    default:
+      throw new Error(`Unsupported price store: ${type}`);
+  }
+}
+
+/**
+ * 创建价格源工厂函数
+ */
+export function createPriceSource(type: PriceSourceType): PriceSource {
+  switch (type) {
+    case "fixture":
+      const { FixturePriceSource } = require("./sources/fixture-source");
+      return new FixturePriceSource({ path: process.env.PRICE_FIXTURE_PATH });
+    default:
+      throw new Error(`Unsupported price source: ${type}`);
+  }
+}
+
+/**
+ * 全局实例（单例模式）
+ */
+let historyInstance: PriceHistoryRepository | null = null;
+let watchInstance: PriceWatchRepository | null = null;
+let sourceInstance: PriceSource | null = null;
+
+/**
+ * 获取价格历史仓库
+ */
+export function getPriceHistoryRepository(): PriceHistoryRepository {
+  if (!historyInstance) {
+    historyInstance = createPriceHistoryRepository(resolveStoreProvider(process.env.PRICE_STORE));
+  }
+  return historyInstance;
+}
+
+/**
+ * 获取降价关注仓库
+ */
+export function getPriceWatchRepository(): PriceWatchRepository {
+  if (!watchInstance) {
+    watchInstance = createPriceWatchRepository(resolveStoreProvider(process.env.PRICE_STORE));
+  }
+  return watchInstance;
+}
+
+/**
+ * 获取价格源（PRICE_SOURCE 环境变量，默认 fixture）
+ */
+export function getPriceSource(): PriceSource {
+  if (!sourceInstance) {
+    const type = (process.env.PRICE_SOURCE || "fixture") as PriceSourceType;
+    sourceInstance = createPriceSource(type);
+  }
+  return sourceInstance;
+}
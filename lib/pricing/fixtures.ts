@@ -0,0 +1,13 @@
+/**
+ * 本地价格源的默认报价
+ *
+ * 模拟电商平台的促销价，开发环境运行价格同步后即可看到降价记录和提醒；
+ * 未列出的条目按目录中的当前价格报价
+ */
+
+import { Price } from '../catalog/types';
+
+export const DEFAULT_PRICE_FIXTURES: Record<string, Price[]> = {
+  "shopping-2": [{ amount: 799, currency: "CNY" }, { amount: 99, currency: "USD" }],
+  "shopping-3": [{ amount: 1699, currency: "CNY" }, { amount: 229, currency: "USD" }],
+};
@@ -0,0 +1,14 @@
+/**
+ * 价格追踪模块统一导出
+ */
+
+export * from './types';
+export * from './adapter';
+export * from './service';
+
+// 便捷导出
+export {
+  getPriceHistoryRepository,
+  getPriceWatchRepository,
+  getPriceSource
+} from './adapter';
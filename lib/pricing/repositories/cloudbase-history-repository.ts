@@ -0,0 +1,37 @@
+/**
+ * CloudBase 价格历史仓库
+ * 数据存放在 price_history 集合
+ */
+
+import { getDatabaseClient } from '../../database/adapter';
+import { PriceHistoryRepository } from '../adapter';
+import { PricePoint } from '../types';
+
+const COLLECTION = 'price_history';
+const DEFAULT_LIMIT = 100;
+
+export class CloudBasePriceHistoryRepository implements PriceHistoryRepository {
+  async addPoints(points: PricePoint[]): Promise<void> {
+    if (points.length === 0) {
+      return;
+    }
+
+    const db = await getDatabaseClient('cloudbase');
+    await Promise.all(points.map(point => db.collection(COLLECTION).add(point)));
+  }
+
+  async listHistory(itemId: string, limit = DEFAULT_LIMIT): Promise<PricePoint[]> {
+    const db = await getDatabaseClient('cloudbase');
+
+    const result = await db.collection(COLLECTION)
+      .where({ itemId })
+      .orderBy('recordedAt', 'desc')
+      .limit(limit)
+      .get();
+
+    return result.data.map((doc: any) => {
+      const { _id, ...point } = doc;
+      return point as PricePoint;
+    });
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * CloudBase 降价关注与提醒仓库
+ * 数据存放在 price_watches、price_alerts 集合
+ */
+
+import { getDatabaseClient } from '../../database/adapter';
+import { Price } from '../../catalog/types';
+import { PriceAlertQuery, PriceWatchRepository } from '../adapter';
+import { PriceAlert, PriceWatch } from '../types';
+
+const WATCHES_COLLECTION = 'price_watches';
+const ALERTS_COLLECTION = 'price_alerts';
+const DEFAULT_LIMIT = 50;
+
+export class CloudBasePriceWatchRepository implements PriceWatchRepository {
+  async listWatches(userId: string): Promise<PriceWatch[]> {
+    const db = await getDatabaseClient('cloudbase');
+
+    const result = await db.collection(WATCHES_COLLECTION)
+      .where({ userId })
+      .orderBy('createdAt', 'desc')
+      .get();
+
+    return result.data.map((doc: any) => this.fromDocument<PriceWatch>(doc));
+  }
+
+  async listItemWatches(itemId: string): Promise<PriceWatch[]> {
+    const db = await getDatabaseClient('cloudbase');
+
+    const result = await db.collection(WATCHES_COLLECTION)
+      .where({ itemId })
+      .get();
+
+    return result.data.map((doc: any) => this.fromDocument<PriceWatch>(doc));
+  }
+
+  async saveWatch(userId: string, item: { itemId: string; title: string }, targetPrice: Price): Promise<PriceWatch> {
+    const db = await getDatabaseClient('cloudbase');
+    const now = new Date().toISOString();
+
+    const existing = await db.collection(WATCHES_COLLECTION)
+      .where({ userId, itemId: item.itemId })
+      .limit(1)
+      .get();
+
+    const current = existing.data[0] ? this.fromDocument<PriceWatch>(existing.data[0]) : null;
+    if (current) {
+      const _ = db.command;
+      await db.collection(WATCHES_COLLECTION).doc(current.id).update({
+        title: item.title,
+        targetPrice,
+        lastNotifiedPrice: _.remove(),
+        updatedAt: now,
+      });
+      const { lastNotifiedPrice, ...rest } = current;
+      return { ...rest, title: item.title, targetPrice, updatedAt: now };
+    }
+
+    const document = {
+      userId,
+      itemId: item.itemId,
+      title: item.title,
+      targetPrice,
+      createdAt: now,
+      updatedAt: now,
+    };
+    const result = await db.collection(WATCHES_COLLECTION).add(document);
+    return { ...document, id: result.id };
+  }
+
+  async markNotified(watchId: string, price: Price): Promise<void> {
+    const db = await getDatabaseClient('cloudbase');
+    await db.collection(WATCHES_COLLECTION).doc(watchId).update({ lastNotifiedPrice: price });
+  }
+
+  async removeWatch(userId: string, watchId: string): Promise<boolean> {
+    const db = await getDatabaseClient('cloudbase');
+
+    const result = await db.collection(WATCHES_COLLECTION)
+      .where({ _id: watchId, userId })
+      .remove();
+
+    return (result.deleted || 0) > 0;
+  }
+
+  async addAlert(alert: Omit<PriceAlert, 'id' | 'createdAt'>): Promise<PriceAlert> {
+    const db = await getDatabaseClient('cloudbase');
+    const document = { ...alert, createdAt: new Date().toISOString() };
+
+    const result = await db.collection(ALERTS_COLLECTION).add(document);
+    return { ...document, id: result.id };
+  }
+
+  async listAlerts(userId: string, query: PriceAlertQuery = {}): Promise<PriceAlert[]> {
+    const db = await getDatabaseClient('cloudbase');
+    const _ = db.command;
+
+    const conditions: Record<string, any> = { userId };
+    if (query.unreadOnly) {
+      conditions.readAt = _.exists(false);
+    }
+
+    const result = await db.collection(ALERTS_COLLECTION)
+      .where(conditions)
+      .orderBy('createdAt', 'desc')
+      .limit(query.limit ?? DEFAULT_LIMIT)
+      .get();
+
+    return result.data.map((doc: any) => this.fromDocument<PriceAlert>(doc));
+  }
+
+  async markAlertsRead(userId: string): Promise<number> {
+    const db = await getDatabaseClient('cloudbase');
+    const _ = db.command;
+
+    const result = await db.collection(ALERTS_COLLECTION)
+      .where({ userId, readAt: _.exists(false) })
+      .update({ readAt: new Date().toISOString() });
+
+    return result.updated || 0;
+  }
+
+  private fromDocument<T>(doc: any): T {
+    const { _id, ...rest } = doc;
+    return { ...rest, id: _id } as T;
+  }
+}
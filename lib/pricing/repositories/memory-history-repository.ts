@@ -0,0 +1,27 @@
+/**
+ * 内存价格历史仓库
+ */
+
+import { getMemoryCollection } from '../../database/adapter';
+import { PriceHistoryRepository } from '../adapter';
+import { PricePoint } from '../types';
+
+const DEFAULT_LIMIT = 100;
+
+export class MemoryPriceHistoryRepository implements PriceHistoryRepository {
+  private history = getMemoryCollection<PricePoint[]>('price_history');
+
+  async addPoints(points: PricePoint[]): Promise<void> {
+    points.forEach(point => {
+      this.history.set(point.itemId, [...(this.history.get(point.itemId) || []), point]);
+    });
+  }
+
+  async listHistory(itemId: string, limit = DEFAULT_LIMIT): Promise<PricePoint[]> {
+    // 先按写入顺序倒序，同一毫秒内的记录也保持最新在前
+    return [...(this.history.get(itemId) || [])]
+      .reverse()
+      .sort((a, b) => b.recordedAt.localeCompare(a.recordedAt))
+      .slice(0, limit);
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * 内存降价关注与提醒仓库
+ */
+
+import { getMemoryCollection } from '../../database/adapter';
+import { generateId } from '../../utils/helpers';
+import { Price } from '../../catalog/types';
+import { PriceAlertQuery, PriceWatchRepository } from '../adapter';
+import { PriceAlert, PriceWatch } from '../types';
+
+const DEFAULT_LIMIT = 50;
+
+export class MemoryPriceWatchRepository implements PriceWatchRepository {
+  private watches = getMemoryCollection<PriceWatch[]>('price_watches');
+  private alerts = getMemoryCollection<PriceAlert[]>('price_alerts');
+
+  async listWatches(userId: string): Promise<PriceWatch[]> {
+    return [...(this.watches.get(userId) || [])]
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async listItemWatches(itemId: string): Promise<PriceWatch[]> {
+    return Array.from(this.watches.values())
+      .flat()
+      .filter(watch => watch.itemId === itemId);
+  }
+
+  async saveWatch(userId: string, item: { itemId: string; title: string }, targetPrice: Price): Promise<PriceWatch> {
+    const existing = this.watches.get(userId) || [];
+    const current = existing.find(watch => watch.itemId === item.itemId);
+    const now = new Date().toISOString();
+
+    const watch: PriceWatch = {
+      id: current?.id || generateId('watch'),
+      userId,
+      itemId: item.itemId,
+      title: item.title,
+      targetPrice,
+      createdAt: current?.createdAt || now,
+      updatedAt: now,
+    };
+    this.watches.set(userId, [...existing.filter(entry => entry.itemId !== item.itemId), watch]);
+    return watch;
+  }
+
+  async markNotified(watchId: string, price: Price): Promise<void> {
+    this.watches.forEach((watches, userId) => {
+      if (watches.some(watch => watch.id === watchId)) {
+        this.watches.set(userId, watches.map(watch =>
+          watch.id === watchId ? { ...watch, lastNotifiedPrice: price } : watch
+        ));
+      }
+    });
+  }
+
+  async removeWatch(userId: string, watchId: string): Promise<boolean> {
+    const existing = this.watches.get(userId) || [];
+    const kept = existing.filter(watch => watch.id !== watchId);
+    this.watches.set(userId, kept);
+    return kept.length < existing.length;
+  }
+
+  async addAlert(alert: Omit<PriceAlert, 'id' | 'createdAt'>): Promise<PriceAlert> {
+    const saved: PriceAlert = {
+      ...alert,
+      id: generateId('alert'),
+      createdAt: new Date().toISOString(),
+    };
+    this.alerts.set(alert.userId, [...(this.alerts.get(alert.userId) || []), saved]);
+    return saved;
+  }
+
+  async listAlerts(userId: string, query: PriceAlertQuery = {}): Promise<PriceAlert[]> {
+    return [...(this.alerts.get(userId) || [])]
+      .reverse()
+      .filter(alert => !query.unreadOnly || !alert.readAt)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, query.limit ?? DEFAULT_LIMIT);
+  }
+
+  async markAlertsRead(userId: string): Promise<number> {
+    const readAt = new Date().toISOString();
+    let count = 0;
+    this.alerts.set(userId, (this.alerts.get(userId) || []).map(alert => {
+      if (alert.readAt) {
+        return alert;
+      }
+      count++;
+      return { ...alert, readAt };
+    }));
+    return count;
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Supabase 价格历史仓库
+ * 数据存放在 price_history 表（见 supabase/price_tracking.sql）
+ */
+
+import { getDatabaseClient } from '../../database/adapter';
+import { PriceHistoryRepository } from '../adapter';
+import { PricePoint } from '../types';
+
+const TABLE = 'price_history';
+const DEFAULT_LIMIT = 100;
+
+export class SupabasePriceHistoryRepository implements PriceHistoryRepository {
+  async addPoints(points: PricePoint[]): Promise<void> {
+    if (points.length === 0) {
+      return;
+    }
+
+    const supabase = await getDatabaseClient('supabase');
+    const { error } = await supabase
+      .from(TABLE)
+      .insert(points.map(point => ({
+        item_id: point.itemId,
+        amount: point.price.amount,
+        currency: point.price.currency,
+        source: point.source,
+        recorded_at: point.recordedAt,
+      })));
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  async listHistory(itemId: string, limit = DEFAULT_LIMIT): Promise<PricePoint[]> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { data, error } = await supabase
+      .from(TABLE)
+      .select('*')
+      .eq('item_id', itemId)
+      .order('recorded_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw error;
+    }
+    return (data || []).map((row: any) => ({
+      itemId: row.item_id,
+      price: { amount: Number(row.amount), currency: row.currency },
+      source: row.source,
+      recordedAt: new Date(row.recorded_at).toISOString(),
+    }));
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Supabase 降价关注与提醒仓库
+ * 数据存放在 price_watches、price_alerts 表（见 supabase/price_tracking.sql）
+ */
+
+import { getDatabaseClient } from '../../database/adapter';
+import { Price } from '../../catalog/types';
+import { PriceAlertQuery, PriceWatchRepository } from '../adapter';
+import { PriceAlert, PriceWatch } from '../types';
+
+const WATCHES_TABLE = 'price_watches';
+const ALERTS_TABLE = 'price_alerts';
+const DEFAULT_LIMIT = 50;
+
+export class SupabasePriceWatchRepository implements PriceWatchRepository {
+  async listWatches(userId: string): Promise<PriceWatch[]> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { data, error } = await supabase
+      .from(WATCHES_TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+    return (data || []).map((row: any) => this.fromWatchRow(row));
+  }
+
+  async listItemWatches(itemId: string): Promise<PriceWatch[]> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { data, error } = await supabase
+      .from(WATCHES_TABLE)
+      .select('*')
+      .eq('item_id', itemId);
+
+    if (error) {
+      throw error;
+    }
+    return (data || []).map((row: any) => this.fromWatchRow(row));
+  }
+
+  async saveWatch(userId: string, item: { itemId: string; title: string }, targetPrice: Price): Promise<PriceWatch> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { data, error } = await supabase
+      .from(WATCHES_TABLE)
+      .upsert({
+        user_id: userId,
+        item_id: item.itemId,
+        title: item.title,
+        target_price: targetPrice,
+        last_notified_price: null,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'user_id,item_id' })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+    return this.fromWatchRow(data);
+  }
+
+  async markNotified(watchId: string, price: Price): Promise<void> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { error } = await supabase
+      .from(WATCHES_TABLE)
+      .update({ last_notified_price: price })
+      .eq('id', watchId);
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  async removeWatch(userId: string, watchId: string): Promise<boolean> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { error, count } = await supabase
+      .from(WATCHES_TABLE)
+      .delete({ count: 'exact' })
+      .eq('user_id', userId)
+      .eq('id', watchId);
+
+    if (error) {
+      throw error;
+    }
+    return (count || 0) > 0;
+  }
+
+  async addAlert(alert: Omit<PriceAlert, 'id' | 'createdAt'>): Promise<PriceAlert> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { data, error } = await supabase
+      .from(ALERTS_TABLE)
+      .insert({
+        user_id: alert.userId,
+        watch_id: alert.watchId,
+        item_id: alert.itemId,
+        title: alert.title,
+        price: alert.price,
+        previous_price: alert.previousPrice ?? null,
+        target_price: alert.targetPrice,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+    return this.fromAlertRow(data);
+  }
+
+  async listAlerts(userId: string, query: PriceAlertQuery = {}): Promise<PriceAlert[]> {
+    const supabase = await getDatabaseClient('supabase');
+
+    let request = supabase.from(ALERTS_TABLE).select('*').eq('user_id', userId);
+    if (query.unreadOnly) {
+      request = request.is('read_at', null);
+    }
+
+    const { data, error } = await request
+      .order('created_at', { ascending: false })
+      .limit(query.limit ?? DEFAULT_LIMIT);
+
+    if (error) {
+      throw error;
+    }
+    return (data || []).map((row: any) => this.fromAlertRow(row));
+  }
+
+  async markAlertsRead(userId: string): Promise<number> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { error, count } = await supabase
+      .from(ALERTS_TABLE)
+      .update({ read_at: new Date().toISOString() }, { count: 'exact' })
+      .eq('user_id', userId)
+      .is('read_at', null);
+
+    if (error) {
+      throw error;
+    }
+    return count || 0;
+  }
+
+  private fromWatchRow(row: any): PriceWatch {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      itemId: row.item_id,
+      title: row.title,
+      targetPrice: row.target_price,
+      lastNotifiedPrice: row.last_notified_price ?? undefined,
+      createdAt: new Date(row.created_at).toISOString(),
+      updatedAt: new Date(row.updated_at).toISOString(),
+    };
+  }
+
+  private fromAlertRow(row: any): PriceAlert {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      watchId: row.watch_id,
+      itemId: row.item_id,
+      title: row.title,
+      price: row.price,
+      previousPrice: row.previous_price ?? undefined,
+      targetPrice: row.target_price,
+      createdAt: new Date(row.created_at).toISOString(),
+      readAt: row.read_at ? new Date(row.read_at).toISOString() : undefined,
+    };
+  }
+}
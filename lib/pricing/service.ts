@@ -0,0 +1,149 @@
+/**
+ * 价格追踪服务
+ *
+ * 定时任务调用 syncPrices：从价格源拉取报价，价格变化时写入历史、更新目录条目（记录变更历史），
+ * 再检查关注该条目的用户，价格降到目标价及以下时发出降价提醒
+ */
+
+import { CatalogAdminService } from '../catalog/admin';
+import { CatalogRepository, getCatalogRepository } from '../catalog/adapter';
+import { Price, ShoppingItem, getItemPrice } from '../catalog/types';
+import {
+  PriceHistoryRepository,
+  PriceSource,
+  PriceWatchRepository,
+  getPriceHistoryRepository,
+  getPriceSource,
+  getPriceWatchRepository,
+} from './adapter';
+import { PriceChange, PricePoint, PriceQuote, PriceSyncResult, PriceWatch } from './types';
+
+/**
+ * 用报价更新条目价格：与基础价格同币种时更新基础价格，否则更新或新增该币种的单独定价
+ */
+export function applyPriceQuote(item: ShoppingItem, price: Price): ShoppingItem {
+  if (price.currency === item.price.currency) {
+    return { ...item, price };
+  }
+
+  const regionalPrices = item.regionalPrices || [];
+  return {
+    ...item,
+    regionalPrices: regionalPrices.some(entry => entry.currency === price.currency)
+      ? regionalPrices.map(entry => entry.currency === price.currency ? price : entry)
+      : [...regionalPrices, price],
+  };
+}
+
+/**
+ * 判断是否应发出降价提醒：价格不高于目标价，且低于上次提醒时的价格
+ */
+export function shouldNotify(watch: PriceWatch, price: Price): boolean {
+  if (price.currency !== watch.targetPrice.currency || price.amount > watch.targetPrice.amount) {
+    return false;
+  }
+  return !watch.lastNotifiedPrice || price.amount < watch.lastNotifiedPrice.amount;
+}
+
+export class PriceTracker {
+  constructor(
+    private catalog: CatalogRepository = getCatalogRepository(),
+    private history: PriceHistoryRepository = getPriceHistoryRepository(),
+    private watches: PriceWatchRepository = getPriceWatchRepository(),
+    private source: PriceSource = getPriceSource()
+  ) {}
+
+  /**
+   * 同步所有在售购物条目的价格
+   */
+  async syncPrices(now: Date = new Date()): Promise<PriceSyncResult> {
+    const items = await this.catalog.listItems("shopping");
+    const quotes = await this.source.getQuotes(items);
+    const admin = new CatalogAdminService(this.catalog);
+    const result: PriceSyncResult = { source: this.source.name, checked: items.length, changes: [], alerts: 0 };
+
+    for (const item of items) {
+      const itemQuotes = quotes.filter(quote => quote.itemId === item.id);
+      const { updated, changes, points } = await this.applyQuotes(item, itemQuotes, now);
+
+      if (points.length > 0) {
+        await this.history.addPoints(points);
+      }
+      if (changes.length > 0) {
+        await admin.saveItem(item, updated, null);
+        result.changes.push(...changes);
+      }
+      result.alerts += await this.notifyWatchers(item, updated);
+    }
+
+    return result;
+  }
+
+  /**
+   * 关注条目，已关注时更新目标价
+   */
+  async watchItem(userId: string, itemId: string, targetPrice: Price): Promise<PriceWatch | null> {
+    const item = await this.catalog.getItem("shopping", itemId);
+    if (!item || item.archived) {
+      return null;
+    }
+    return this.watches.saveWatch(userId, { itemId, title: item.title }, targetPrice);
+  }
+
+  /**
+   * 计算报价带来的价格变化和需要写入的历史记录
+   * 某币种还没有历史时也写入一条，作为价格曲线的起点
+   */
+  private async applyQuotes(item: ShoppingItem, quotes: PriceQuote[], now: Date) {
+    const recent = await this.history.listHistory(item.id);
+    const recordedAt = now.toISOString();
+    const points: PricePoint[] = [];
+    const changes: PriceChange[] = [];
+    let updated = item;
+
+    quotes.forEach(({ price }) => {
+      const listed = [updated.price, ...(updated.regionalPrices || [])].find(entry => entry.currency === price.currency);
+      const latest = recent.find(point => point.price.currency === price.currency);
+
+      if (!latest || latest.price.amount !== price.amount) {
+        points.push({ itemId: item.id, price, source: this.source.name, recordedAt });
+      }
+      if (!listed || listed.amount !== price.amount) {
+        changes.push({ itemId: item.id, before: listed, after: price });
+        updated = applyPriceQuote(updated, price);
+      }
+    });
+
+    return { updated, changes, points };
+  }
+
+  /**
+   * 检查关注该条目的用户并发出降价提醒，返回提醒数
+   */
+  private async notifyWatchers(before: ShoppingItem, after: ShoppingItem): Promise<number> {
+    const watches = await this.watches.listItemWatches(after.id);
+    let sent = 0;
+
+    for (const watch of watches) {
+      const price = getItemPrice(after, watch.targetPrice.currency);
+      if (!price || !shouldNotify(watch, price)) {
+        continue;
+      }
+
+      const previous = getItemPrice(before, watch.targetPrice.currency);
+      await this.watches.addAlert({
+        userId: watch.userId,
+        watchId: watch.id,
+        itemId: after.id,
+        title: after.title,
+        price,
+        previousPrice: previous && previous.amount !== price.amount ? previous : undefined,
+        targetPrice: watch.targetPrice,
+      });
+      await this.watches.markNotified(watch.id, price);
+      sent++;
+    }
+
+    return sent;
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * 本地价格源
+ *
+ * 不依赖外部电商接口：报价来自固定数据（默认数据或 PRICE_FIXTURE_PATH 指定的 JSON 文件），
+ * 适合开发和测试。JSON 格式为 { "<itemId>": ["CNY 799", { "amount": 99, "currency": "USD" }] }
+ */
+
+import { promises as fs } from 'fs';
+import { z } from 'zod';
+import { Price, ShoppingItem, priceInputSchema } from '../../catalog/types';
+import { PriceSource } from '../adapter';
+import { DEFAULT_PRICE_FIXTURES } from '../fixtures';
+import { PriceQuote } from '../types';
+
+const fixtureFileSchema = z.record(z.array(priceInputSchema));
+
+export interface FixturePriceSourceConfig {
+  /** 直接指定报价，优先于文件 */
+  quotes?: Record<string, Price[]>;
+  /** 报价 JSON 文件路径，每次同步时重新读取，方便手动修改价格 */
+  path?: string;
+}
+
+export class FixturePriceSource implements PriceSource {
+  readonly name = 'fixture';
+
+  constructor(private config: FixturePriceSourceConfig = {}) {}
+
+  async getQuotes(items: ShoppingItem[]): Promise<PriceQuote[]> {
+    const fixtures = await this.loadFixtures();
+
+    return items.flatMap(item => {
+      const prices = fixtures[item.id] || [item.price, ...(item.regionalPrices || [])];
+      return prices.map(price => ({ itemId: item.id, price }));
+    });
+  }
+
+  private async loadFixtures(): Promise<Record<string, Price[]>> {
+    if (this.config.quotes) {
+      return this.config.quotes;
+    }
+    if (!this.config.path) {
+      return DEFAULT_PRICE_FIXTURES;
+    }
+
+    const raw = JSON.parse(await fs.readFile(this.config.path, 'utf-8'));
+    return fixtureFileSchema.parse(raw);
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * 价格追踪 - 类型定义
+ *
+ * 定时任务从价格源拉取购物条目的最新价格，价格变化时写入历史并更新目录；
+ * 用户可以关注条目并设置目标价，价格降到目标价及以下时收到降价提醒
+ */
+
+import { z } from 'zod';
+import { CATALOG_CURRENCIES, Price } from '../catalog/types';
+
+/**
+ * 价格历史记录
+ */
+export interface PricePoint {
+  itemId: string;
+  price: Price;
+  /** 价格来源（价格源名称） */
+  source: string;
+  recordedAt: string;
+}
+
+/**
+ * 价格源报价
+ */
+export interface PriceQuote {
+  itemId: string;
+  price: Price;
+}
+
+/**
+ * 降价关注
+ */
+export interface PriceWatch {
+  id: string;
+  userId: string;
+  itemId: string;
+  /** 关注时的条目标题快照，条目下架后仍可展示 */
+  title: string;
+  /** 目标价，价格降到此值及以下时提醒 */
+  targetPrice: Price;
+  /** 上次提醒时的价格，价格继续下降时才会再次提醒 */
+  lastNotifiedPrice?: Price;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * 降价提醒
+ */
+export interface PriceAlert {
+  id: string;
+  userId: string;
+  watchId: string;
+  itemId: string;
+  title: string;
+  /** 降价后的价格（目标价货币） */
+  price: Price;
+  /** 降价前的价格（目标价货币） */
+  previousPrice?: Price;
+  targetPrice: Price;
+  createdAt: string;
+  readAt?: string;
+}
+
+/**
+ * 新增 / 修改关注请求
+ */
+export const priceWatchInputSchema = z.object({
+  itemId: z.string().min(1),
+  targetPrice: z.object({
+    amount: z.number().positive(),
+    currency: z.enum(CATALOG_CURRENCIES),
+  }),
+});
+
+export type PriceWatchInput = z.infer<typeof priceWatchInputSchema>;
+
+/**
+ * 单个条目的价格变化
+ */
+export interface PriceChange {
+  itemId: string;
+  before?: Price;
+  after: Price;
+}
+
+/**
+ * 一次价格同步的结果
+ */
+export interface PriceSyncResult {
+  source: string;
+  /** 检查的条目数 */
+  checked: number;
+  changes: PriceChange[];
+  /** 发出的降价提醒数 */
+  alerts: number;
+}
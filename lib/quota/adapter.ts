@@ -0,0 +1,61 @@
+/**
+ * 配额计数存储接口
+ */
+
+import { StoreProvider, resolveStoreProvider } from '../database/adapter';
+
+/**
+ * 配额计数存储接口
+ * subject 为 `user:<id>` 或 `ip:<address>`，windowId 为用户本地日期
+ */
+export interface QuotaStore {
+  /**
+   * 读取当前计数
+   */
+  getUsage(subject: string, windowId: string): Promise<number>;
+
+  /**
+   * 原子地将计数加一并返回新值
+   */
+  increment(subject: string, windowId: string, expiresAt: Date): Promise<number>;
+
+  /**
+   * 固定主体的时区偏移，返回实际生效的偏移
+   * 尚未固定或已过期时固定为 offset（到 expiresAt 为止），否则忽略 offset 返回已固定的值
+   */
+  pinTimezoneOffset(subject: string, offset: number, expiresAt: Date): Promise<number>;
+}
+
+/**
+ * 创建配额存储工厂函数
+ */
+export function createQuotaStore(type: StoreProvider): QuotaStore {
+  switch (type) {
+    case "supabase":
+      const { SupabaseQuotaStore } = require("./stores/supabase-store");
+      return new SupabaseQuotaStore();
+    case "cloudbase":
+      const { CloudBaseQuotaStore } = require("./stores/cloudbase-store");
+      return new CloudBaseQuotaStore();
+    case "memory":
+      const { MemoryQuotaStore } = require("./stores/memory-store");
+      return new MemoryQuotaStore();
+    default:
+      throw new Error(`Unsupported quota store: ${type}`);
+  }
+}
+
+/**
+ * 全局配额存储实例（单例模式）
+ */
+let quotaStoreInstance: QuotaStore | null = null;
+
+/**
+ * 获取配额存储
+ */
+export function getQuotaStore(): QuotaStore {
+  if (!quotaStoreInstance) {
+    quotaStoreInstance = createQuotaStore(resolveStoreProvider(process.env.QUOTA_STORE));
+  }
+  return quotaStoreInstance;
+}
@@ -0,0 +1,38 @@
+/**
+ * 配额相关的请求/响应工具
+ */
+
+import { NextRequest } from 'next/server';
+import { User } from '../core/types';
+import { getClientIPFromHeaders } from '../geo/ip-detection';
+import { QuotaSubject, RecommendationQuota } from './service';
+import { parseTimezoneOffset } from './types';
+
+/** 客户端上报时区偏移使用的请求头 */
+export const TIMEZONE_OFFSET_HEADER = 'x-timezone-offset';
+
+/**
+ * 从请求中构造配额主体
+ */
+export function getQuotaSubject(request: NextRequest, user: User | null): QuotaSubject {
+  return {
+    user,
+    ip: getClientIPFromHeaders(request.headers),
+    timezoneOffset: parseTimezoneOffset(request.headers.get(TIMEZONE_OFFSET_HEADER)),
+  };
+}
+
+/**
+ * 生成配额响应头
+ */
+export function getQuotaHeaders(quota: RecommendationQuota): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-Quota-Tier': quota.tier,
+    'X-Quota-Reset': quota.resetAt,
+  };
+  if (quota.limit !== null && quota.remaining !== null) {
+    headers['X-Quota-Limit'] = String(quota.limit);
+    headers['X-Quota-Remaining'] = String(quota.remaining);
+  }
+  return headers;
+}
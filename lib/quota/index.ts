@@ -0,0 +1,16 @@
+/**
+ * 使用配额模块统一导出
+ */
+
+export * from './types';
+export * from './adapter';
+export * from './service';
+export * from './http';
+
+// 便捷导出
+export {
+  QuotaService
+} from './service';
+export {
+  getQuotaStore
+} from './adapter';
@@ -0,0 +1,106 @@
+/**
+ * 推荐次数配额服务
+ *
+ * 登录用户按用户 ID 计数，匿名用户按 IP 计数；
+ * 计数窗口按用户本地日期划分，在本地零点重置。
+ * 时区偏移由客户端上报，每个窗口第一次请求时固定下来，窗口内改报其他偏移不会开启新窗口
+ */
+
+import { User } from '../core/types';
+import { SubscriptionTier, getSubscriptionTier, getTierLimits } from '../subscription/tiers';
+import { QuotaStore, getQuotaStore } from './adapter';
+import { QuotaStatus, QuotaWindow, getQuotaWindow } from './types';
+
+/**
+ * 配额主体：登录用户或匿名 IP
+ */
+export interface QuotaSubject {
+  user: User | null;
+  ip: string;
+  /** 客户端时区偏移（分钟，与 Date#getTimezoneOffset 一致） */
+  timezoneOffset: number;
+}
+
+/**
+ * 带订阅等级的配额状态
+ */
+export interface RecommendationQuota extends QuotaStatus {
+  tier: SubscriptionTier;
+}
+
+/**
+ * 计算配额主体标识
+ */
+export function getQuotaSubjectKey(subject: QuotaSubject): string {
+  return subject.user ? `user:${subject.user.id}` : `ip:${subject.ip}`;
+}
+
+export class QuotaService {
+  constructor(private store: QuotaStore = getQuotaStore()) {}
+
+  /**
+   * 查询今日推荐配额，不消耗次数
+   */
+  async getRecommendationQuota(subject: QuotaSubject, now: Date = new Date()): Promise<RecommendationQuota> {
+    const tier = getSubscriptionTier(subject.user);
+    const { dailyRecommendations: limit } = getTierLimits(subject.user);
+
+    if (limit === null) {
+      const resetAt = new Date(getQuotaWindow(now, subject.timezoneOffset).endsAt).toISOString();
+      return { tier, allowed: true, limit, used: 0, remaining: null, resetAt };
+    }
+
+    const window = await this.resolveWindow(subject, now);
+    const resetAt = new Date(window.endsAt).toISOString();
+
+    const used = await this.store.getUsage(getQuotaSubjectKey(subject), window.id);
+    return {
+      tier,
+      allowed: used < limit,
+      limit,
+      used,
+      remaining: Math.max(0, limit - used),
+      resetAt,
+    };
+  }
+
+  /**
+   * 消耗一次推荐配额
+   * 先原子递增再比较，并发请求不会超出上限
+   */
+  async consumeRecommendation(subject: QuotaSubject, now: Date = new Date()): Promise<RecommendationQuota> {
+    const tier = getSubscriptionTier(subject.user);
+    const { dailyRecommendations: limit } = getTierLimits(subject.user);
+
+    if (limit === null) {
+      const resetAt = new Date(getQuotaWindow(now, subject.timezoneOffset).endsAt).toISOString();
+      return { tier, allowed: true, limit, used: 0, remaining: null, resetAt };
+    }
+
+    const window = await this.resolveWindow(subject, now);
+    const resetAt = new Date(window.endsAt).toISOString();
+
+    const used = await this.store.increment(getQuotaSubjectKey(subject), window.id, new Date(window.endsAt));
+    return {
+      tier,
+      allowed: used <= limit,
+      limit,
+      used: Math.min(used, limit),
+      remaining: Math.max(0, limit - used),
+      resetAt,
+    };
+  }
+
+  /**
+   * 按固定下来的时区偏移计算当前窗口
+   */
+  private async resolveWindow(subject: QuotaSubject, now: Date): Promise<QuotaWindow> {
+    const requested = getQuotaWindow(now, subject.timezoneOffset);
+    const offset = await this.store.pinTimezoneOffset(
+      getQuotaSubjectKey(subject),
+      subject.timezoneOffset,
+      new Date(requested.endsAt)
+    );
+    return offset === subject.timezoneOffset ? requested : getQuotaWindow(now, offset);
+  }
+}
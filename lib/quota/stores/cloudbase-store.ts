@@ -0,0 +1,85 @@
+/**
+ * CloudBase 配额存储
+ * 计数存放在 quota_usage 集合，文档 ID 为 `${subject}:${windowId}`；
+ * 固定的时区偏移存放在 quota_timezones 集合，文档 ID 为 subject
+ */
+
+import { getDatabaseClient } from '../../database/adapter';
+import { isCloudBaseDuplicateError } from '../../database/connectors';
+import { QuotaStore } from '../adapter';
+
+const COLLECTION = 'quota_usage';
+const TIMEZONE_COLLECTION = 'quota_timezones';
+
+export class CloudBaseQuotaStore implements QuotaStore {
+  async getUsage(subject: string, windowId: string): Promise<number> {
+    const db = await getDatabaseClient('cloudbase');
+
+    const result = await db.collection(COLLECTION)
+      .doc(this.documentId(subject, windowId))
+      .get();
+
+    return result.data[0]?.count || 0;
+  }
+
+  async increment(subject: string, windowId: string, expiresAt: Date): Promise<number> {
+    const db = await getDatabaseClient('cloudbase');
+    const _ = db.command;
+    const collection = db.collection(COLLECTION);
+    const id = this.documentId(subject, windowId);
+
+    // 先以固定 _id 创建文档；已存在时再原子递增，并发请求不会互相覆盖计数
+    try {
+      await collection.add({
+        _id: id,
+        subject,
+        windowId,
+        count: 1,
+        expiresAt: expiresAt.toISOString()
+      });
+      return 1;
+    } catch (error) {
+      if (!isCloudBaseDuplicateError(error)) {
+        throw error;
+      }
+    }
+
+    await collection.doc(id).update({ count: _.inc(1) });
+    const result = await collection.doc(id).get();
+    return result.data[0]?.count || 1;
+  }
+
+  async pinTimezoneOffset(subject: string, offset: number, expiresAt: Date): Promise<number> {
+    const db = await getDatabaseClient('cloudbase');
+    const _ = db.command;
+    const collection = db.collection(TIMEZONE_COLLECTION);
+    const now = new Date().toISOString();
+
+    const existing = (await collection.doc(subject).get()).data[0];
+    if (existing && existing.expiresAt > now) {
+      return existing.timezoneOffset;
+    }
+
+    // 只替换已过期的记录；并发请求中只有一个能固定，其余读取它固定的值
+    const record = { timezoneOffset: offset, expiresAt: expiresAt.toISOString() };
+    if (existing) {
+      await collection.where({ _id: subject, expiresAt: _.lte(now) }).update(record);
+    } else {
+      try {
+        await collection.add({ _id: subject, ...record });
+      } catch (error) {
+        // 文档已被其他请求创建
+        if (!isCloudBaseDuplicateError(error)) {
+          throw error;
+        }
+      }
+    }
+
+    const pinned = (await collection.doc(subject).get()).data[0];
+    return pinned ? pinned.timezoneOffset : offset;
+  }
+
+  private documentId(subject: string, windowId: string): string {
+    return `${subject}:${windowId}`;
+  }
+}
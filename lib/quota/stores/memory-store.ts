@@ -0,0 +1,65 @@
+/**
+ * 内存配额存储
+ */
+
+import { getMemoryCollection } from '../../database/adapter';
+import { QuotaStore } from '../adapter';
+
+interface UsageRecord {
+  count: number;
+  expiresAt: number;
+}
+
+interface TimezoneRecord {
+  offset: number;
+  expiresAt: number;
+}
+
+export class MemoryQuotaStore implements QuotaStore {
+  private usage = getMemoryCollection<UsageRecord>('quota_usage');
+  private timezones = getMemoryCollection<TimezoneRecord>('quota_timezones');
+
+  async getUsage(subject: string, windowId: string): Promise<number> {
+    return this.usage.get(this.key(subject, windowId))?.count || 0;
+  }
+
+  async increment(subject: string, windowId: string, expiresAt: Date): Promise<number> {
+    this.cleanup();
+
+    const key = this.key(subject, windowId);
+    const count = (this.usage.get(key)?.count || 0) + 1;
+    this.usage.set(key, { count, expiresAt: expiresAt.getTime() });
+    return count;
+  }
+
+  async pinTimezoneOffset(subject: string, offset: number, expiresAt: Date): Promise<number> {
+    const pinned = this.timezones.get(subject);
+    if (pinned && pinned.expiresAt > Date.now()) {
+      return pinned.offset;
+    }
+
+    this.timezones.set(subject, { offset, expiresAt: expiresAt.getTime() });
+    return offset;
+  }
+
+  private key(subject: string, windowId: string): string {
+    return `${subject}:${windowId}`;
+  }
+
+  /**
+   * 清理已过期的计数
+   */
+  private cleanup(): void {
+    const now = Date.now();
+    this.usage.forEach((record, key) => {
+      if (record.expiresAt <= now) {
+        this.usage.delete(key);
+      }
+    });
+    this.timezones.forEach((record, key) => {
+      if (record.expiresAt <= now) {
+        this.timezones.delete(key);
+      }
+    });
+  }
+}
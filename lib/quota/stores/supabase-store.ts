@@ -0,0 +1,56 @@
+/**
+ * Supabase 配额存储
+ * 计数存放在 quota_usage 表，通过 increment_quota_usage 函数原子递增；
+ * 时区偏移存放在 quota_timezones 表，通过 pin_quota_timezone 函数固定（见 supabase/quota_usage.sql）
+ */
+
+import { getDatabaseClient } from '../../database/adapter';
+import { QuotaStore } from '../adapter';
+
+export class SupabaseQuotaStore implements QuotaStore {
+  async getUsage(subject: string, windowId: string): Promise<number> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { data, error } = await supabase
+      .from('quota_usage')
+      .select('count')
+      .eq('subject', subject)
+      .eq('window_id', windowId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    return data?.count || 0;
+  }
+
+  async increment(subject: string, windowId: string, expiresAt: Date): Promise<number> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { data, error } = await supabase.rpc('increment_quota_usage', {
+      p_subject: subject,
+      p_window_id: windowId,
+      p_expires_at: expiresAt.toISOString(),
+    });
+
+    if (error) {
+      throw error;
+    }
+    return Number(data) || 0;
+  }
+
+  async pinTimezoneOffset(subject: string, offset: number, expiresAt: Date): Promise<number> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { data, error } = await supabase.rpc('pin_quota_timezone', {
+      p_subject: subject,
+      p_offset: offset,
+      p_expires_at: expiresAt.toISOString(),
+    });
+
+    if (error) {
+      throw error;
+    }
+    return data === null || data === undefined ? offset : Number(data);
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * 使用配额 - 类型定义
+ */
+
+/**
+ * 配额检查结果
+ */
+export interface QuotaStatus {
+  /** 本次请求是否允许 */
+  allowed: boolean;
+  /** 每日上限，null 表示不限 */
+  limit: number | null;
+  /** 今日已使用次数 */
+  used: number;
+  /** 今日剩余次数，null 表示不限 */
+  remaining: number | null;
+  /** 下次重置时间（用户本地零点，ISO 字符串） */
+  resetAt: string;
+}
+
+/**
+ * 配额计数窗口（按用户本地日期划分）
+ */
+export interface QuotaWindow {
+  /** 本地日期，例如 2025-01-31 */
+  id: string;
+  /** 窗口结束时间（UTC 毫秒） */
+  endsAt: number;
+}
+
+/**
+ * 时区偏移的合法范围（分钟，与 Date#getTimezoneOffset 一致）
+ */
+export const MIN_TIMEZONE_OFFSET = -14 * 60;
+export const MAX_TIMEZONE_OFFSET = 12 * 60;
+
+/**
+ * 解析客户端上报的时区偏移，非法值按 UTC 处理
+ */
+export function parseTimezoneOffset(value: string | null | undefined): number {
+  const offset = Number(value);
+  if (!value || !Number.isFinite(offset) || offset < MIN_TIMEZONE_OFFSET || offset > MAX_TIMEZONE_OFFSET) {
+    return 0;
+  }
+  return Math.round(offset);
+}
+
+/**
+ * 计算用户本地日期对应的配额窗口
+ * @param timezoneOffset 与 Date#getTimezoneOffset 相同（UTC - 本地时间，单位分钟）
+ */
+export function getQuotaWindow(now: Date, timezoneOffset: number): QuotaWindow {
+  const local = new Date(now.getTime() - timezoneOffset * 60 * 1000);
+  const nextLocalMidnight = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate() + 1);
+
+  return {
+    id: local.toISOString().slice(0, 10),
+    endsAt: nextLocalMidnight + timezoneOffset * 60 * 1000,
+  };
+}
+
+/**
+ * 用户本地日期，例如 2025-01-31
+ * @param timezoneOffset 与 Date#getTimezoneOffset 相同（UTC - 本地时间，单位分钟）
+ */
+export function getLocalDate(now: Date, timezoneOffset: number): string {
+  return getQuotaWindow(now, timezoneOffset).id;
+}
@@ -0,0 +1,95 @@
+/**
+ * 每日推荐
+ *
+ * 种子由用户 + 本地日期 + 分类哈希得到，同一天内结果不变；
+ * 分享链接只包含种子，不包含用户 ID，好友无需登录即可复现同一个推荐。
+ * 结果只取决于种子和目录，不受个人历史和偏好影响；
+ * 种子记录生成时访客所在地区，分享链接按该地区的目录复现
+ */
+
+import { CATALOG_REGIONS, CatalogCategory, CatalogItem, isCatalogCategory } from '../catalog/types';
+import { Region } from '../geo/ip-detection';
+import { DEFAULT_PRNG, createRandom, hasPrng, hashString, pickRandom } from './random';
+
+/**
+ * 每日推荐种子
+ */
+export interface DailySeed {
+  category: CatalogCategory;
+  /** 本地日期，例如 2025-01-31 */
+  date: string;
+  /** 32 位整数种子 */
+  value: number;
+  /** 伪随机数算法 */
+  algorithm: string;
+  /** 生成时访客所在地区；旧的分享链接没有地区，按完整目录复现 */
+  region?: Region;
+}
+
+/**
+ * 生成每日推荐种子
+ * @param subject 用户标识，例如 `user:<id>`
+ */
+export function createDailySeed(
+  subject: string,
+  date: string,
+  category: CatalogCategory,
+  algorithm: string = DEFAULT_PRNG,
+  region?: Region
+): DailySeed {
+  return {
+    category,
+    date,
+    value: hashString(`${subject}:${date}:${category}`),
+    algorithm,
+    region,
+  };
+}
+
+/**
+ * 序列化种子，用于分享链接，例如 food-20250131-1a2b3c4d-mulberry32-china
+ */
+export function formatDailySeed(seed: DailySeed): string {
+  const hex = seed.value.toString(16).padStart(8, '0');
+  const region = seed.region ? `-${seed.region}` : '';
+  return `${seed.category}-${seed.date.replace(/-/g, '')}-${hex}-${seed.algorithm}${region}`;
+}
+
+/**
+ * 解析分享链接中的种子，格式不合法时返回 null
+ */
+export function parseDailySeed(value: string): DailySeed | null {
+  const match = value.match(/^([a-z]+)-(\d{4})(\d{2})(\d{2})-([0-9a-f]{8})-([a-z0-9]+)(?:-([a-z]+))?$/i);
+  if (!match) {
+    return null;
+  }
+
+  const [, category, year, month, day, hex, algorithm, regionValue] = match;
+  if (!isCatalogCategory(category) || !hasPrng(algorithm)) {
+    return null;
+  }
+  const region = CATALOG_REGIONS.find(entry => entry === regionValue);
+  if (regionValue && !region) {
+    return null;
+  }
+
+  const date = `${year}-${month}-${day}`;
+  if (Number.isNaN(Date.parse(`${date}T00:00:00Z`))) {
+    return null;
+  }
+
+  return { category, date, value: parseInt(hex, 16), algorithm, region };
+}
+
+/**
+ * 根据种子选出每日推荐
+ * 条目按 ID 排序，保证不同存储返回顺序不同时结果一致
+ */
+export function pickDailyItem<T extends CatalogItem>(items: T[], seed: DailySeed): T {
+  if (items.length === 0) {
+    throw new Error("Cannot pick a daily item from an empty item list");
+  }
+
+  const sorted = [...items].sort((a, b) => a.id.localeCompare(b.id));
+  return pickRandom(sorted, createRandom(seed.value, seed.algorithm));
+}
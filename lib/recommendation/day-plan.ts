@@ -0,0 +1,275 @@
+/**
+ * “规划我的一天”组合推荐
+ *
+ * 早上健身、午餐、（可选）下午购物、晚餐、晚上出行或娱乐，
+ * 每个时段用推荐引擎挑选条目，并满足：
+ * - 时长：条目时长不超过时段长度
+ * - 热量：午餐 + 晚餐的热量不超过基础额度加上健身消耗
+ * - 预算：购物条目在访客货币下的价格不超过预算
+ */
+
+import { CatalogCategory, CatalogCurrency, CatalogItem, CatalogItemMap, getItemPrice, parseDurationMinutes } from '../catalog/types';
+import { Locale } from '../locale/types';
+import { recommendItem } from './engine';
+import { RandomSource, createSeededRandom, pickRandom } from './random';
+import { HistoryEvent, ItemBoost, ItemFeedback } from './types';
+
+/**
+ * 时段
+ */
+export const DAY_PLAN_SLOTS = ["morning", "lunch", "afternoon", "dinner", "evening"] as const;
+
+export type DayPlanSlotId = typeof DAY_PLAN_SLOTS[number];
+
+/**
+ * 时段配置
+ */
+export interface DayPlanSlotConfig {
+  label: string;
+  startTime: string;
+  endTime: string;
+  categories: CatalogCategory[];
+  /** 可选时段（购物） */
+  optional?: boolean;
+}
+
+export const DAY_PLAN_SLOT_CONFIG: Record<DayPlanSlotId, DayPlanSlotConfig> = {
+  morning: { label: "晨间运动", startTime: "07:00", endTime: "09:00", categories: ["fitness"] },
+  lunch: { label: "午餐", startTime: "12:00", endTime: "13:00", categories: ["food"] },
+  afternoon: { label: "逛逛买买", startTime: "15:00", endTime: "17:00", categories: ["shopping"], optional: true },
+  dinner: { label: "晚餐", startTime: "18:00", endTime: "19:00", categories: ["food"] },
+  evening: { label: "晚间活动", startTime: "19:30", endTime: "23:00", categories: ["travel", "entertainment"] },
+};
+
+/** 午餐 + 晚餐的基础热量额度（千卡），健身消耗会追加到额度中 */
+export const DEFAULT_MEAL_CALORIE_BUDGET = 1200;
+
+/** 各运动类型每分钟消耗的热量（千卡） */
+const CALORIES_PER_MINUTE: Record<string, number> = {
+  running: 10,
+  swimming: 8,
+  yoga: 4,
+};
+
+/** 未知运动类型的默认消耗 */
+const DEFAULT_CALORIES_PER_MINUTE = 6;
+
+/**
+ * 组合推荐可用的候选条目（已按偏好、反馈过滤）
+ */
+export type DayPlanCandidates = { [C in CatalogCategory]: CatalogItemMap[C][] };
+
+/**
+ * 组合推荐选项
+ */
+export interface DayPlanOptions {
+  /** 购物预算（按 currency 计） */
+  budget?: number;
+  /** 预算和花费使用的货币，默认 CNY */
+  currency?: CatalogCurrency;
+  /** 推荐理由使用的语言 */
+  locale?: Locale;
+  /** 是否包含购物时段，默认 true */
+  includeShopping?: boolean;
+  /** 午餐 + 晚餐的基础热量额度 */
+  mealCalorieBudget?: number;
+  seed?: string | number;
+  now?: Date;
+  history?: HistoryEvent[];
+  feedback?: ItemFeedback[];
+  preferredTypes?: Partial<Record<CatalogCategory, string[]>>;
+  boosts?: Record<string, ItemBoost>;
+  /** 保持不变的时段（换一个时使用） */
+  locked?: Partial<Record<DayPlanSlotId, string>>;
+  /** 不要选中的条目 ID */
+  exclude?: string[];
+}
+
+/**
+ * 计划中的一个时段
+ */
+export interface DayPlanSlot {
+  slot: DayPlanSlotId;
+  label: string;
+  startTime: string;
+  endTime: string;
+  category: CatalogCategory;
+  item: CatalogItem;
+  reason: string;
+}
+
+/**
+ * 一天的计划
+ */
+export interface DayPlan {
+  slots: DayPlanSlot[];
+  totals: {
+    /** 饮食摄入（千卡） */
+    caloriesIn: number;
+    /** 运动消耗估算（千卡） */
+    caloriesOut: number;
+    /** 购物花费（按 currency 计） */
+    spend: number;
+    currency: CatalogCurrency;
+  };
+}
+
+/**
+ * 计算时段长度（分钟）
+ */
+export function getSlotMinutes(config: DayPlanSlotConfig): number {
+  const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(":").map(Number);
+    return hours * 60 + minutes;
+  };
+  return toMinutes(config.endTime) - toMinutes(config.startTime);
+}
+
+/**
+ * 估算运动条目消耗的热量
+ */
+export function estimateCaloriesBurned(item: CatalogItem): number {
+  if (item.category !== "fitness") {
+    return 0;
+  }
+  const minutes = parseDurationMinutes(item.duration) || 0;
+  return Math.round(minutes * (CALORIES_PER_MINUTE[item.type] ?? DEFAULT_CALORIES_PER_MINUTE));
+}
+
+/**
+ * 条目时长是否放得进时段（没有时长的条目视为放得下）
+ */
+function fitsSlot(item: CatalogItem, config: DayPlanSlotConfig): boolean {
+  const duration = "duration" in item ? parseDurationMinutes(item.duration) : null;
+  return duration === null || duration <= getSlotMinutes(config);
+}
+
+/**
+ * 满足约束的条目为空时，退回到最接近约束的一个
+ */
+function withFallback<T extends CatalogItem>(matched: T[], all: T[], closest: (items: T[]) => T): T[] {
+  if (matched.length > 0) return matched;
+  return all.length > 0 ? [closest(all)] : [];
+}
+
+function shortest<T extends CatalogItem>(items: T[]): T {
+  const minutes = (item: T) => ("duration" in item ? parseDurationMinutes(item.duration) : null) ?? 0;
+  return items.reduce((best, item) => (minutes(item) < minutes(best) ? item : best));
+}
+
+function lightest<T extends CatalogItem>(items: T[]): T {
+  const calories = (item: T) => ("calories" in item ? item.calories : 0);
+  return items.reduce((best, item) => (calories(item) < calories(best) ? item : best));
+}
+
+/**
+ * 生成一天的组合推荐
+ */
+export function buildDayPlan(candidates: DayPlanCandidates, options: DayPlanOptions = {}): DayPlan {
+  const locked = options.locked || {};
+  const currency = options.currency || "CNY";
+  const exclude = new Set(options.exclude || []);
+  const random: RandomSource = options.seed !== undefined ? createSeededRandom(`${options.seed}:day-plan`) : Math.random;
+  const chosenIds = new Set<string>();
+  const slots: DayPlanSlot[] = [];
+
+  const pick = <T extends CatalogItem>(slot: DayPlanSlotId, items: T[]): DayPlanSlot | null => {
+    const config = DAY_PLAN_SLOT_CONFIG[slot];
+    // 保留的条目不受本次约束过滤影响
+    const lockedItem = config.categories
+      .flatMap<CatalogItem>(category => candidates[category])
+      .find(item => item.id === locked[slot]);
+    const available = items.filter(item => !chosenIds.has(item.id) && !exclude.has(item.id));
+
+    if (!lockedItem && available.length === 0) {
+      return null;
+    }
+
+    const result = lockedItem
+      ? { item: lockedItem, reason: "已为您保留" }
+      : recommendItem(available, options.history || [], {
+          seed: options.seed !== undefined ? `${options.seed}:${slot}` : undefined,
+          now: options.now,
+          feedback: options.feedback,
+          preferredTypes: options.preferredTypes?.[available[0].category],
+          boosts: options.boosts,
+          locale: options.locale,
+        });
+
+    chosenIds.add(result.item.id);
+    return {
+      slot,
+      label: config.label,
+      startTime: config.startTime,
+      endTime: config.endTime,
+      category: result.item.category,
+      item: result.item,
+      reason: result.reason,
+    };
+  };
+
+  // 早上健身：时长放得进时段
+  const morningConfig = DAY_PLAN_SLOT_CONFIG.morning;
+  const morning = pick("morning", withFallback(
+    candidates.fitness.filter(item => fitsSlot(item, morningConfig)),
+    candidates.fitness,
+    shortest
+  ));
+  const caloriesOut = morning ? estimateCaloriesBurned(morning.item) : 0;
+
+  // 午餐和晚餐：总热量不超过额度 + 健身消耗
+  const calorieBudget = (options.mealCalorieBudget ?? DEFAULT_MEAL_CALORIE_BUDGET) + caloriesOut;
+  const lockedDinner = candidates.food.find(item => item.id === locked.dinner);
+  const minOtherMeal = lockedDinner
+    ? lockedDinner.calories
+    : Math.min(...candidates.food.map(item => item.calories));
+  const lunch = pick("lunch", withFallback(
+    candidates.food.filter(item => item.calories + minOtherMeal <= calorieBudget),
+    candidates.food,
+    lightest
+  ));
+
+  const lunchCalories = lunch && lunch.item.category === "food" ? lunch.item.calories : 0;
+  const remainingFood = candidates.food.filter(item => item.id !== lunch?.item.id);
+
+  // 下午购物（可选）：价格不超过预算
+  if (options.includeShopping !== false) {
+    const affordable = candidates.shopping.filter(item => {
+      const amount = getItemPrice(item, currency)?.amount ?? null;
+      return options.budget === undefined || amount === null || amount <= options.budget;
+    });
+    const afternoon = pick("afternoon", affordable);
+    if (afternoon) slots.push(afternoon);
+  }
+
+  const dinner = pick("dinner", withFallback(
+    remainingFood.filter(item => lunchCalories + item.calories <= calorieBudget),
+    remainingFood,
+    lightest
+  ));
+
+  // 晚上：出行或娱乐，出行条目需放得进时段
+  const eveningConfig = DAY_PLAN_SLOT_CONFIG.evening;
+  const eveningTravel = candidates.travel.filter(item => fitsSlot(item, eveningConfig));
+  const lockedEvening = [...candidates.travel, ...candidates.entertainment].find(item => item.id === locked.evening);
+  const eveningCategory: "travel" | "entertainment" = lockedEvening
+    ? lockedEvening.category as "travel" | "entertainment"
+    : eveningTravel.length === 0
+      ? "entertainment"
+      : candidates.entertainment.length === 0
+        ? "travel"
+        : pickRandom(["travel", "entertainment"] as const, random);
+  const evening = eveningCategory === "travel"
+    ? pick("evening", eveningTravel.length > 0 ? eveningTravel : candidates.travel)
+    : pick("evening", candidates.entertainment);
+
+  [morning, lunch, dinner, evening].forEach(slot => {
+    if (slot) slots.push(slot);
+  });
+  slots.sort((a, b) => DAY_PLAN_SLOTS.indexOf(a.slot) - DAY_PLAN_SLOTS.indexOf(b.slot));
+
+  const caloriesIn = slots.reduce((sum, slot) => sum + (slot.item.category === "food" ? slot.item.calories : 0), 0);
+  const spend = slots.reduce((sum, slot) => sum + (getItemPrice(slot.item, currency)?.amount || 0), 0);
+
+  return { slots, totals: { caloriesIn, caloriesOut, spend: Math.round(spend * 100) / 100, currency } };
+}
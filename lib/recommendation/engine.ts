@@ -0,0 +1,263 @@
+/**
+ * 个性化推荐引擎
+ *
+ * 根据用户在同一分类下的选择、评分和跳过记录为条目打分，
+ * 结合喜欢/不喜欢反馈、偏好类型和天气等上下文调整权重，再按得分加权随机抽取；
+ * 被标记为“不再推荐”的条目直接排除，历史和反馈都不足时退化为均匀随机
+ */
+
+import { CatalogCategory, CatalogItem } from '../catalog/types';
+import { DEFAULT_LOCALE, Locale } from '../locale/types';
+import { REASON_TEMPLATES, getTypeLabel } from './labels';
+import { RandomSource, createSeededRandom, pickRandom, pickWeightedIndex } from './random';
+import { HistoryEvent, ItemBoost, ItemFeedback, PersonalizeOptions, PersonalizedResult } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+/** 启用个性化所需的默认最少行为记录数 */
+export const DEFAULT_MIN_HISTORY = 3;
+
+/** 行为权重的半衰期（天） */
+const HALF_LIFE_DAYS = 7;
+
+/** 24 小时内重复出现的条目降权，避免连续推荐同一个 */
+const REPEAT_PENALTY = 0.5;
+
+/** 最低得分，保证每个条目都有被抽中的机会 */
+const MIN_SCORE = 0.1;
+
+/** 每个“喜欢”对同类型条目的加权倍数 */
+const LIKE_BOOST = 1.5;
+
+/** 每个“不喜欢”对同类型条目的降权倍数 */
+const DISLIKE_PENALTY = 0.5;
+
+/** 偏好中喜欢的类型的加权倍数 */
+const PREFERRED_TYPE_BOOST = 1.5;
+
+/**
+ * 某个类型的偏好汇总
+ */
+export interface TypeSignal {
+  /** 按时间衰减后的偏好分 */
+  affinity: number;
+  /** 本周选择次数 */
+  weekPicks: number;
+  /** 本周好评次数（评分 >= 4） */
+  weekLikes: number;
+  /** 本周跳过次数 */
+  weekSkips: number;
+}
+
+/**
+ * 带得分的条目
+ */
+export interface ScoredItem<T extends CatalogItem> {
+  item: T;
+  score: number;
+}
+
+/**
+ * 单条行为对偏好分的贡献
+ */
+function eventWeight(event: HistoryEvent): number {
+  switch (event.action) {
+    // 只是展示过，不代表用户的偏好
+    case "view":
+      return 0;
+    case "pick":
+      return 1;
+    case "skip":
+      return -1;
+    case "rating":
+      return event.rating !== undefined ? event.rating - 3 : 0;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * 按时间衰减：越早的行为权重越低
+ */
+function decay(event: HistoryEvent, now: Date): number {
+  const ageDays = Math.max(0, now.getTime() - new Date(event.timestamp).getTime()) / DAY_MS;
+  return Math.pow(0.5, ageDays / HALF_LIFE_DAYS);
+}
+
+/**
+ * 汇总某分类下每个类型的偏好
+ */
+export function buildTypeSignals(
+  category: CatalogCategory,
+  history: HistoryEvent[],
+  now: Date = new Date()
+): Map<string, TypeSignal> {
+  const signals = new Map<string, TypeSignal>();
+
+  history
+    .filter(event => event.category === category)
+    .forEach(event => {
+      const signal = signals.get(event.type) || { affinity: 0, weekPicks: 0, weekLikes: 0, weekSkips: 0 };
+      const inWeek = now.getTime() - new Date(event.timestamp).getTime() <= WEEK_MS;
+
+      signal.affinity += eventWeight(event) * decay(event, now);
+      if (inWeek && event.action === "pick") signal.weekPicks++;
+      if (inWeek && event.action === "rating" && (event.rating || 0) >= 4) signal.weekLikes++;
+      if (inWeek && event.action === "skip") signal.weekSkips++;
+
+      signals.set(event.type, signal);
+    });
+
+  return signals;
+}
+
+/**
+ * 排除用户标记为“不再推荐”的条目
+ */
+export function filterBlockedItems<T extends CatalogItem>(items: T[], feedback: ItemFeedback[] = []): T[] {
+  const blocked = new Set(feedback.filter(entry => entry.value === "block").map(entry => entry.itemId));
+  return items.filter(item => !blocked.has(item.id));
+}
+
+/**
+ * 按类型汇总喜欢/不喜欢反馈，得到权重倍数
+ */
+export function buildFeedbackMultipliers(feedback: ItemFeedback[] = []): Map<string, number> {
+  const multipliers = new Map<string, number>();
+
+  feedback.forEach(entry => {
+    const current = multipliers.get(entry.type) ?? 1;
+    if (entry.value === "like") multipliers.set(entry.type, current * LIKE_BOOST);
+    if (entry.value === "dislike") multipliers.set(entry.type, current * DISLIKE_PENALTY);
+  });
+
+  return multipliers;
+}
+
+/**
+ * 为条目打分
+ */
+export function scoreItems<T extends CatalogItem>(
+  items: T[],
+  history: HistoryEvent[],
+  now: Date = new Date(),
+  feedback: ItemFeedback[] = [],
+  preferredTypes: string[] = [],
+  boosts: Record<string, ItemBoost> = {}
+): ScoredItem<T>[] {
+  if (items.length === 0) {
+    return [];
+  }
+
+  const category = items[0].category;
+  const signals = buildTypeSignals(category, history, now);
+  const multipliers = buildFeedbackMultipliers(feedback);
+  const recentItemIds = new Set(
+    history
+      .filter(event => event.category === category && (event.action === "view" || event.action === "pick"))
+      .filter(event => now.getTime() - new Date(event.timestamp).getTime() <= DAY_MS)
+      .map(event => event.itemId)
+  );
+
+  return items.map(item => {
+    let score = 1 + (signals.get(item.type)?.affinity || 0);
+    if (recentItemIds.has(item.id)) {
+      score -= REPEAT_PENALTY;
+    }
+    score *= multipliers.get(item.type) ?? 1;
+    if (preferredTypes.includes(item.type)) {
+      score *= PREFERRED_TYPE_BOOST;
+    }
+    score *= boosts[item.id]?.multiplier ?? 1;
+    return { item, score: Math.max(score, MIN_SCORE) };
+  });
+}
+
+/**
+ * 生成推荐理由
+ * 理由只描述真实存在的历史行为和反馈
+ */
+export function explainRecommendation(
+  category: CatalogCategory,
+  type: string,
+  signal: TypeSignal | undefined,
+  hints: { liked?: boolean; preferred?: boolean; context?: string } = {},
+  locale: Locale = DEFAULT_LOCALE
+): string {
+  const label = getTypeLabel(category, type, locale);
+  const templates = REASON_TEMPLATES[locale];
+
+  if (signal && signal.affinity > 0 && signal.weekLikes > 0) {
+    return templates.weekLikes(signal.weekLikes, label);
+  }
+  if (hints.liked) {
+    return templates.liked(label);
+  }
+  if (hints.preferred) {
+    return templates.preferred(label);
+  }
+  if (hints.context) {
+    return hints.context;
+  }
+  if (!signal || signal.affinity <= 0) {
+    return templates.explore(label);
+  }
+  if (signal.weekPicks > 0) {
+    return templates.weekPicks(signal.weekPicks, label);
+  }
+  return templates.affinity(label);
+}
+
+/**
+ * 从条目中推荐一个
+ */
+export function recommendItem<T extends CatalogItem>(
+  items: T[],
+  history: HistoryEvent[],
+  options: PersonalizeOptions = {}
+): PersonalizedResult<T> {
+  const feedback = options.feedback || [];
+  const candidates = filterBlockedItems(items, feedback);
+  if (candidates.length === 0) {
+    throw new Error("Cannot recommend from an empty item list");
+  }
+
+  const now = options.now || new Date();
+  const random: RandomSource = options.seed !== undefined ? createSeededRandom(options.seed) : Math.random;
+  const minHistory = options.minHistory ?? DEFAULT_MIN_HISTORY;
+  const category = candidates[0].category;
+  const relevant = history.filter(event => event.category === category);
+  const preferredTypes = options.preferredTypes || [];
+  const boosts = options.boosts || {};
+  const locale = options.locale || DEFAULT_LOCALE;
+  const hasPreferenceSignal = feedback.some(entry => entry.value !== "block")
+    || preferredTypes.length > 0
+    || candidates.some(item => boosts[item.id]);
+
+  // 历史、反馈、偏好和上下文都不足时均匀随机
+  if (relevant.length < minHistory && !hasPreferenceSignal) {
+    return {
+      item: pickRandom(candidates, random),
+      reason: REASON_TEMPLATES[locale].random,
+      personalized: false,
+      score: 1,
+    };
+  }
+
+  const scored = scoreItems(candidates, relevant, now, feedback, preferredTypes, boosts);
+  const chosen = scored[pickWeightedIndex(scored.map(entry => entry.score), random)];
+  const signals = buildTypeSignals(category, relevant, now);
+  const liked = (buildFeedbackMultipliers(feedback).get(chosen.item.type) ?? 1) > 1;
+
+  return {
+    item: chosen.item,
+    reason: explainRecommendation(category, chosen.item.type, signals.get(chosen.item.type), {
+      liked,
+      preferred: preferredTypes.includes(chosen.item.type),
+      context: boosts[chosen.item.id]?.reason,
+    }, locale),
+    personalized: true,
+    score: chosen.score,
+  };
+}
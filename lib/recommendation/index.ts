@@ -0,0 +1,16 @@
+/**
+ * 个性化推荐模块统一导出
+ */
+
+export * from './types';
+export * from './engine';
+export * from './random';
+export * from './labels';
+export * from './day-plan';
+export * from './daily';
+
+// 便捷导出
+export {
+  recommendItem,
+  scoreItems
+} from './engine';
@@ -0,0 +1,108 @@
+/**
+ * 条目类型名称和推荐理由文案，按语言区分
+ */
+
+import { CatalogCategory } from '../catalog/types';
+import { DEFAULT_LOCALE, Locale } from '../locale/types';
+
+export const TYPE_LABELS: Record<Locale, Record<CatalogCategory, Record<string, string>>> = {
+  zh: {
+    entertainment: {
+      "sci-fi": "科幻作品",
+      game: "游戏",
+      song: "歌曲",
+      movie: "电影",
+    },
+    shopping: {
+      fashion: "服饰",
+      shoes: "鞋履",
+      gadget: "数码产品",
+      daily: "日用好物",
+    },
+    food: {
+      sichuan: "川菜",
+      japanese: "日料",
+      western: "西餐",
+      cantonese: "粤菜",
+    },
+    travel: {
+      "city-walk": "城市漫步",
+      museum: "博物馆",
+      hiking: "登山",
+    },
+    fitness: {
+      running: "跑步",
+      yoga: "瑜伽",
+      swimming: "游泳",
+    },
+  },
+  en: {
+    entertainment: {
+      "sci-fi": "sci-fi",
+      game: "games",
+      song: "songs",
+      movie: "movies",
+    },
+    shopping: {
+      fashion: "fashion",
+      shoes: "shoes",
+      gadget: "gadgets",
+      daily: "everyday essentials",
+    },
+    food: {
+      sichuan: "Sichuan food",
+      japanese: "Japanese food",
+      western: "Western food",
+      cantonese: "Cantonese food",
+    },
+    travel: {
+      "city-walk": "city walks",
+      museum: "museums",
+      hiking: "hiking",
+    },
+    fitness: {
+      running: "running",
+      yoga: "yoga",
+      swimming: "swimming",
+    },
+  },
+};
+
+/**
+ * 获取类型名称，未登记的类型直接返回原值
+ */
+export function getTypeLabel(category: CatalogCategory, type: string, locale: Locale = DEFAULT_LOCALE): string {
+  return TYPE_LABELS[locale][category]?.[type] || type;
+}
+
+/**
+ * 推荐理由文案
+ */
+export const REASON_TEMPLATES: Record<Locale, {
+  random: string;
+  weekLikes: (count: number, label: string) => string;
+  liked: (label: string) => string;
+  preferred: (label: string) => string;
+  explore: (label: string) => string;
+  weekPicks: (count: number, label: string) => string;
+  affinity: (label: string) => string;
+}> = {
+  zh: {
+    random: "随机为您推荐",
+    weekLikes: (count, label) => `您本周好评了${count}次${label}`,
+    liked: label => `您点赞过${label}`,
+    preferred: label => `符合您喜欢的${label}`,
+    explore: label => `换换口味，试试${label}`,
+    weekPicks: (count, label) => `您本周选择了${count}次${label}`,
+    affinity: label => `基于您过往对${label}的偏好`,
+  },
+  en: {
+    random: "A random pick for you",
+    weekLikes: (count, label) => `You liked ${label} ${count} ${count === 1 ? "time" : "times"} this week`,
+    liked: label => `You liked ${label} before`,
+    preferred: label => `Matches your taste for ${label}`,
+    explore: label => `Something different: try ${label}`,
+    weekPicks: (count, label) => `You picked ${label} ${count} ${count === 1 ? "time" : "times"} this week`,
+    affinity: label => `Based on your interest in ${label}`,
+  },
+};
@@ -0,0 +1,129 @@
+/**
+ * 可复现的随机数工具
+ */
+
+/**
+ * 随机数生成函数，返回 [0, 1) 区间的数
+ */
+export type RandomSource = () => number;
+
+/**
+ * 将任意字符串哈希为 32 位无符号整数（FNV-1a）
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * 伪随机数算法：由 32 位整数种子创建随机数生成器
+ */
+export type PrngFactory = (seed: number) => RandomSource;
+
+/**
+ * mulberry32
+ */
+function mulberry32(seed: number): RandomSource {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * xorshift32（种子为 0 时替换为固定非零值）
+ */
+function xorshift32(seed: number): RandomSource {
+  let state = (seed >>> 0) || 0x9e3779b9;
+
+  return () => {
+    state ^= state << 13;
+    state >>>= 0;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    state >>>= 0;
+    return state / 4294967296;
+  };
+}
+
+/**
+ * 已注册的伪随机数算法
+ */
+const prngRegistry = new Map<string, PrngFactory>([
+  ["mulberry32", mulberry32],
+  ["xorshift32", xorshift32],
+]);
+
+/** 默认算法 */
+export const DEFAULT_PRNG = "mulberry32";
+
+/**
+ * 注册伪随机数算法（名称只能包含字母和数字）
+ */
+export function registerPrng(name: string, factory: PrngFactory): void {
+  if (!/^[a-z0-9]+$/i.test(name)) {
+    throw new Error(`Invalid PRNG name: ${name}`);
+  }
+  prngRegistry.set(name, factory);
+}
+
+/**
+ * 判断算法是否已注册
+ */
+export function hasPrng(name: string): boolean {
+  return prngRegistry.has(name);
+}
+
+/**
+ * 使用指定算法创建带种子的伪随机数生成器
+ */
+export function createRandom(seed: string | number, algorithm: string = DEFAULT_PRNG): RandomSource {
+  const factory = prngRegistry.get(algorithm);
+  if (!factory) {
+    throw new Error(`Unknown PRNG: ${algorithm}`);
+  }
+  return factory(typeof seed === 'number' ? seed >>> 0 : hashString(seed));
+}
+
+/**
+ * 创建带种子的伪随机数生成器（默认算法）
+ * 相同种子总是产生相同序列，便于单元测试
+ */
+export function createSeededRandom(seed: string | number): RandomSource {
+  return createRandom(seed, DEFAULT_PRNG);
+}
+
+/**
+ * 从数组中均匀随机取一个元素
+ */
+export function pickRandom<T>(items: T[], random: RandomSource = Math.random): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+/**
+ * 按权重随机取一个下标
+ */
+export function pickWeightedIndex(weights: number[], random: RandomSource = Math.random): number {
+  const total = weights.reduce((sum, weight) => sum + Math.max(weight, 0), 0);
+  if (total <= 0) {
+    return Math.floor(random() * weights.length);
+  }
+
+  let threshold = random() * total;
+  for (let i = 0; i < weights.length; i++) {
+    threshold -= Math.max(weights[i], 0);
+    if (threshold < 0) {
+      return i;
+    }
+  }
+  return weights.length - 1;
+}
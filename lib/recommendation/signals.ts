@@ -0,0 +1,39 @@
+/**
+ * 加载推荐所需的用户信号（服务端）
+ *
+ * 汇总历史、反馈和偏好，供推荐相关路由共用
+ */
+
+import { CatalogCategory } from '../catalog/types';
+import { User } from '../core/types';
+import { getFeedbackRepository } from '../feedback/adapter';
+import { getHistoryRepository } from '../history/adapter';
+import { MAX_HISTORY_PAGE_SIZE } from '../history/types';
+import { getPreferencesRepository } from '../preferences/adapter';
+import { StoredPreferences } from '../preferences/types';
+import { HistoryEvent, ItemFeedback } from './types';
+
+/**
+ * 用户信号
+ */
+export interface UserSignals {
+  history: HistoryEvent[];
+  feedback: ItemFeedback[];
+  preferences: StoredPreferences | null;
+}
+
+/**
+ * 加载登录用户的历史、反馈和偏好（可按分类）
+ */
+export async function loadUserSignals(user: User, category?: CatalogCategory): Promise<UserSignals> {
+  const [historyPage, feedback, preferences] = await Promise.all([
+    getHistoryRepository().listEntries(user.id, {
+      category,
+      pageSize: MAX_HISTORY_PAGE_SIZE,
+    }),
+    getFeedbackRepository().listFeedback(user.id, category),
+    getPreferencesRepository().getPreferences(user.id),
+  ]);
+
+  return { history: historyPage.entries, feedback, preferences };
+}
@@ -0,0 +1,81 @@
+/**
+ * 个性化推荐 - 类型定义
+ */
+
+import { z } from 'zod';
+import { CATALOG_CATEGORIES } from '../catalog/types';
+import { FeedbackEntry } from '../feedback/types';
+import { Locale } from '../locale/types';
+
+/**
+ * 用户行为类型
+ * view   → 摇到并展示了该条目（服务端推荐时记录）
+ * pick   → 用户接受了该推荐
+ * rating → 对条目打分（1-5）
+ * skip   → 用户拒绝了该推荐
+ */
+export const HISTORY_ACTIONS = ["view", "pick", "rating", "skip"] as const;
+
+export type HistoryAction = typeof HISTORY_ACTIONS[number];
+
+/**
+ * 单条用户行为记录
+ */
+export const historyEventSchema = z.object({
+  itemId: z.string().min(1),
+  category: z.enum(CATALOG_CATEGORIES),
+  type: z.string().min(1),
+  title: z.string().optional(),
+  action: z.enum(HISTORY_ACTIONS),
+  rating: z.number().min(1).max(5).optional(),
+  timestamp: z.string().datetime(),
+});
+
+export type HistoryEvent = z.infer<typeof historyEventSchema>;
+
+/**
+ * 引擎使用的显式反馈（喜欢/不喜欢/不再推荐）
+ */
+export type ItemFeedback = Pick<FeedbackEntry, 'itemId' | 'type' | 'value'>;
+
+/**
+ * 外部因素（如天气、时段）对单个条目的加权
+ */
+export interface ItemBoost {
+  multiplier: number;
+  /** 加权原因，用作推荐理由 */
+  reason: string;
+}
+
+/**
+ * 推荐引擎选项
+ */
+export interface PersonalizeOptions {
+  /** 随机种子，指定后结果可复现 */
+  seed?: string | number;
+  /** 当前时间（用于计算“本周”），默认 new Date() */
+  now?: Date;
+  /** 启用个性化所需的最少行为记录数 */
+  minHistory?: number;
+  /** 用户对条目的显式反馈 */
+  feedback?: ItemFeedback[];
+  /** 用户偏好中喜欢的类型（如菜系） */
+  preferredTypes?: string[];
+  /** 按条目 ID 的加权（如天气、时段） */
+  boosts?: Record<string, ItemBoost>;
+  /** 推荐理由使用的语言，默认中文 */
+  locale?: Locale;
+}
+
+/**
+ * 推荐引擎输出
+ */
+export interface PersonalizedResult<T> {
+  item: T;
+  /** 可读的推荐理由 */
+  reason: string;
+  /** 是否基于历史进行了个性化 */
+  personalized: boolean;
+  /** 条目得分（随机兜底时为 1） */
+  score: number;
+}
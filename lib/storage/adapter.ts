@@ -0,0 +1,52 @@
+/**
+ * 文件存储接口
+ */
+
+import { StoreProvider, resolveStoreProvider } from '../database/adapter';
+import { StoredFile, UploadFile } from './types';
+
+/**
+ * 文件存储接口
+ * 图片等静态文件上传到 Supabase Storage / CloudBase 云存储，本地开发时保存在内存
+ */
+export interface FileStorage {
+  /**
+   * 上传文件并返回访问地址
+   */
+  upload(file: UploadFile): Promise<StoredFile>;
+}
+
+/**
+ * 创建文件存储工厂函数
+ */
+export function createFileStorage(type: StoreProvider): FileStorage {
+  switch (type) {
+    case "supabase":
+      const { SupabaseFileStorage } = require("./providers/supabase-storage");
+      return new SupabaseFileStorage(process.env.SUPABASE_STORAGE_BUCKET || "catalog-images");
+    case "cloudbase":
+      const { CloudBaseFileStorage } = require("./providers/cloudbase-storage");
+      return new CloudBaseFileStorage();
+    case "memory":
+      const { MemoryFileStorage } = require("./providers/memory-storage");
+      return new MemoryFileStorage();
+    default:
+      throw new Error(`Unsupported file storage: ${type}`);
+  }
+}
+
+/**
+ * 全局文件存储实例（单例模式）
+ */
+let storageInstance: FileStorage | null = null;
+
+/**
+ * 获取文件存储
+ * 通过 FILE_STORE 显式指定存储，未指定时跟随部署区域的数据库
+ */
+export function getFileStorage(): FileStorage {
+  if (!storageInstance) {
+    storageInstance = createFileStorage(resolveStoreProvider(process.env.FILE_STORE));
+  }
+  return storageInstance;
+}
@@ -0,0 +1,12 @@
+/**
+ * 文件存储模块统一导出
+ */
+
+export * from './types';
+export * from './adapter';
+
+// 便捷导出
+export {
+  createFileStorage,
+  getFileStorage
+} from './adapter';
@@ -0,0 +1,45 @@
+/**
+ * CloudBase 云存储
+ * 数据库连接器只暴露 database 实例，这里单独初始化 SDK 以使用云存储接口
+ */
+
+import { FileStorage } from '../adapter';
+import { StoredFile, UploadFile } from '../types';
+
+/** 临时链接有效期（秒），云存储设置为公有读时链接不会失效 */
+const URL_MAX_AGE = 365 * 24 * 60 * 60;
+
+export class CloudBaseFileStorage implements FileStorage {
+  private app: any = null;
+
+  async upload(file: UploadFile): Promise<StoredFile> {
+    const app = this.getApp();
+
+    const { fileID } = await app.uploadFile({
+      cloudPath: file.path,
+      fileContent: file.data,
+    });
+
+    const { fileList } = await app.getTempFileURL({
+      fileList: [{ fileID, maxAge: URL_MAX_AGE }],
+    });
+
+    const url = fileList?.[0]?.tempFileURL;
+    if (!url) {
+      throw new Error(`Failed to resolve CloudBase file URL: ${fileID}`);
+    }
+    return { path: file.path, url };
+  }
+
+  private getApp(): any {
+    if (!this.app) {
+      const cloudbase = require('@cloudbase/node-sdk');
+      this.app = cloudbase.init({
+        env: process.env.WECHAT_CLOUDBASE_ID,
+        secretId: process.env.CLOUDBASE_SECRET_ID,
+        secretKey: process.env.CLOUDBASE_SECRET_KEY,
+      });
+    }
+    return this.app;
+  }
+}
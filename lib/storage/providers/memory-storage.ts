@@ -0,0 +1,21 @@
+/**
+ * 内存文件存储
+ * 适用于本地开发，文件以 data URL 形式返回，进程重启后丢失
+ */
+
+import { getMemoryCollection } from '../../database/adapter';
+import { FileStorage } from '../adapter';
+import { StoredFile, UploadFile } from '../types';
+
+export class MemoryFileStorage implements FileStorage {
+  private files = getMemoryCollection<StoredFile>('files');
+
+  async upload(file: UploadFile): Promise<StoredFile> {
+    const stored: StoredFile = {
+      path: file.path,
+      url: `data:${file.contentType};base64,${file.data.toString('base64')}`,
+    };
+    this.files.set(file.path, stored);
+    return stored;
+  }
+}
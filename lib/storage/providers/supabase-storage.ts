@@ -0,0 +1,27 @@
+/**
+ * Supabase Storage 文件存储
+ * 存储桶需设置为公开读取（见 supabase/catalog_changes.sql）
+ */
+
+import { getDatabaseClient } from '../../database/adapter';
+import { FileStorage } from '../adapter';
+import { StoredFile, UploadFile } from '../types';
+
+export class SupabaseFileStorage implements FileStorage {
+  constructor(private bucket: string) {}
+
+  async upload(file: UploadFile): Promise<StoredFile> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { error } = await supabase.storage
+      .from(this.bucket)
+      .upload(file.path, file.data, { contentType: file.contentType, upsert: false });
+
+    if (error) {
+      throw error;
+    }
+
+    const { data } = supabase.storage.from(this.bucket).getPublicUrl(file.path);
+    return { path: file.path, url: data.publicUrl };
+  }
+}
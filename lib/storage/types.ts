@@ -0,0 +1,44 @@
+/**
+ * 文件存储 - 类型定义
+ */
+
+/**
+ * 允许上传的图片类型 → 文件扩展名
+ */
+export const IMAGE_CONTENT_TYPES: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+};
+
+/**
+ * 单张图片大小上限（字节）
+ */
+export const MAX_IMAGE_SIZE = 2 * 1024 * 1024;
+
+/**
+ * 待上传的文件
+ */
+export interface UploadFile {
+  /** 存储路径，例如 catalog/food/xxx.jpg */
+  path: string;
+  contentType: string;
+  data: Buffer;
+}
+
+/**
+ * 上传结果
+ */
+export interface StoredFile {
+  path: string;
+  /** 可直接用于 <img src> 的地址 */
+  url: string;
+}
+
+/**
+ * 判断是否为允许上传的图片类型
+ */
+export function isAllowedImageType(contentType: string): boolean {
+  return Object.prototype.hasOwnProperty.call(IMAGE_CONTENT_TYPES, contentType);
+}
@@ -0,0 +1,5 @@
+/**
+ * 订阅权益模块统一导出
+ */
+
+export * from './tiers';
@@ -0,0 +1,66 @@
+/**
+ * 订阅等级与权益配置
+ */
+
+import { User } from '../core/types';
+
+/**
+ * 订阅等级
+ */
+export type SubscriptionTier = "free" | "premium" | "pro" | "enterprise";
+
+/**
+ * 各等级的使用上限（null 表示不限）
+ */
+export interface TierLimits {
+  /** 每日推荐次数 */
+  dailyRecommendations: number | null;
+  /** 收藏数量 */
+  favorites: number | null;
+}
+
+export const TIER_LIMITS: Record<SubscriptionTier, TierLimits> = {
+  free: {
+    dailyRecommendations: 5,
+    favorites: 20,
+  },
+  premium: {
+    dailyRecommendations: null,
+    favorites: null,
+  },
+  pro: {
+    dailyRecommendations: null,
+    favorites: null,
+  },
+  enterprise: {
+    dailyRecommendations: null,
+    favorites: null,
+  },
+};
+
+/**
+ * 判断字符串是否为合法订阅等级
+ */
+export function isSubscriptionTier(value: unknown): value is SubscriptionTier {
+  return typeof value === "string" && value in TIER_LIMITS;
+}
+
+/**
+ * 读取用户的订阅等级
+ * 只信任服务端写入的字段：Supabase 来自 profiles.subscription_tier，CloudBase 来自 users.subscriptionTier
+ */
+export function getSubscriptionTier(user: User | null): SubscriptionTier {
+  if (!user) {
+    return "free";
+  }
+
+  const tier = user.metadata?.subscription_tier ?? user.metadata?.subscriptionTier;
+  return isSubscriptionTier(tier) ? tier : "free";
+}
+
+/**
+ * 获取用户等级对应的权益上限
+ */
+export function getTierLimits(user: User | null): TierLimits {
+  return TIER_LIMITS[getSubscriptionTier(user)];
+}
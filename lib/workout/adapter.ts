@@ -0,0 +1,70 @@
+/**
+ * 训练计划仓库接口
+ */
+
+import { StoreProvider, resolveStoreProvider } from '../database/adapter';
+import { WorkoutCompletion, WorkoutPlan } from './types';
+
+/**
+ * 训练计划仓库接口
+ */
+export interface WorkoutRepository {
+  /**
+   * 读取用户进行中的计划，没有时返回 null
+   */
+  getActivePlan(userId: string): Promise<WorkoutPlan | null>;
+
+  /**
+   * 保存新计划并设为进行中，之前进行中的计划归档
+   */
+  createPlan(plan: Omit<WorkoutPlan, 'id' | 'status' | 'createdAt' | 'updatedAt'>): Promise<WorkoutPlan>;
+
+  /**
+   * 查询计划的打卡记录
+   */
+  listCompletions(userId: string, planId: string): Promise<WorkoutCompletion[]>;
+
+  /**
+   * 打卡；已打卡时返回已有记录
+   */
+  addCompletion(completion: Omit<WorkoutCompletion, 'id' | 'completedAt'>): Promise<WorkoutCompletion>;
+
+  /**
+   * 取消打卡，返回是否删除成功
+   */
+  removeCompletion(userId: string, planId: string, sessionId: string): Promise<boolean>;
+}
+
+/**
+ * 创建训练计划仓库工厂函数
+ */
+export function createWorkoutRepository(type: StoreProvider): WorkoutRepository {
+  switch (type) {
+    case "supabase":
+      const { SupabaseWorkoutRepository } = require("./repositories/supabase-repository");
+      return new SupabaseWorkoutRepository();
+    case "cloudbase":
+      const { CloudBaseWorkoutRepository } = require("./repositories/cloudbase-repository");
+      return new CloudBaseWorkoutRepository();
+    case "memory":
+      const { MemoryWorkoutRepository } = require("./repositories/memory-repository");
+      return new MemoryWorkoutRepository();
+    default:
+      throw new Error(`Unsupported workout store: ${type}`);
+  }
+}
+
+/**
+ * 全局实例（单例模式）
+ */
+let workoutInstance: WorkoutRepository | null = null;
+
+/**
+ * 获取训练计划仓库
+ */
+export function getWorkoutRepository(): WorkoutRepository {
+  if (!workoutInstance) {
+    workoutInstance = createWorkoutRepository(resolveStoreProvider(process.env.WORKOUT_STORE));
+  }
+  return workoutInstance;
+}
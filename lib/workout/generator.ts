@@ -0,0 +1,176 @@
+/**
+ * 训练计划生成
+ *
+ * 从动作库为每个训练日挑选动作，按健身水平确定基础组数、次数和休息时间，
+ * 再逐周渐进：次数 / 时长每周增加 10%，每两周加一组，组间休息逐周缩短，
+ * 计划后半程强度提高一档
+ */
+
+import { FitnessLevel } from '../preferences/types';
+import {
+  Exercise,
+  WORKOUT_INTENSITIES,
+  WorkoutFocus,
+  WorkoutIntensity,
+  WorkoutSession,
+} from './types';
+
+/**
+ * 动作模板（中级水平第一周的基础量）
+ */
+interface ExerciseTemplate {
+  name: string;
+  reps?: number;
+  durationSeconds?: number;
+}
+
+const EXERCISE_LIBRARY: Record<WorkoutFocus, ExerciseTemplate[]> = {
+  "full-body": [
+    { name: "深蹲", reps: 12 },
+    { name: "俯卧撑", reps: 10 },
+    { name: "哑铃划船", reps: 12 },
+    { name: "平板支撑", durationSeconds: 30 },
+  ],
+  lower: [
+    { name: "深蹲", reps: 12 },
+    { name: "弓步蹲", reps: 10 },
+    { name: "臀桥", reps: 15 },
+    { name: "提踵", reps: 15 },
+  ],
+  upper: [
+    { name: "俯卧撑", reps: 10 },
+    { name: "哑铃划船", reps: 12 },
+    { name: "哑铃推举", reps: 10 },
+    { name: "臂屈伸", reps: 10 },
+  ],
+  cardio: [
+    { name: "开合跳", durationSeconds: 40 },
+    { name: "高抬腿", durationSeconds: 30 },
+    { name: "波比跳", reps: 8 },
+    { name: "登山跑", durationSeconds: 30 },
+  ],
+  core: [
+    { name: "平板支撑", durationSeconds: 30 },
+    { name: "卷腹", reps: 15 },
+    { name: "死虫", reps: 10 },
+    { name: "侧桥", durationSeconds: 20 },
+  ],
+};
+
+/**
+ * 各健身水平的基础参数
+ */
+const LEVEL_SETTINGS: Record<FitnessLevel, {
+  sets: number;
+  /** 相对中级基础量的倍数 */
+  volume: number;
+  restSeconds: number;
+  intensity: WorkoutIntensity;
+}> = {
+  beginner: { sets: 2, volume: 0.7, restSeconds: 90, intensity: "low" },
+  intermediate: { sets: 3, volume: 1, restSeconds: 60, intensity: "moderate" },
+  advanced: { sets: 4, volume: 1.3, restSeconds: 45, intensity: "high" },
+};
+
+/** 每周训练 n 次时的训练重点轮换（只练一次时做全身训练） */
+const FOCUS_ROTATION: WorkoutFocus[] = ["lower", "upper", "cardio", "core"];
+
+/** 次数 / 时长每周增幅 */
+const WEEKLY_VOLUME_GROWTH = 0.1;
+
+/** 组间休息每周缩短的秒数与下限 */
+const WEEKLY_REST_REDUCTION = 5;
+const MIN_REST_SECONDS = 30;
+
+/** 最多在基础组数上增加的组数 */
+const MAX_EXTRA_SETS = 2;
+
+/** 估算用时时每次动作的耗时（秒） */
+const SECONDS_PER_REP = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 计划生成参数
+ */
+export interface WorkoutPlanOptions {
+  fitnessLevel: FitnessLevel;
+  /** 每周训练日（0 = 周日 … 6 = 周六） */
+  days: number[];
+  weeks: number;
+  /** 开始日期（用户本地日期），当天是训练日时从当天开始 */
+  startDate: string;
+}
+
+/**
+ * 某一周的动作安排
+ */
+export function buildExercises(focus: WorkoutFocus, fitnessLevel: FitnessLevel, week: number, weeks: number): Exercise[] {
+  const settings = LEVEL_SETTINGS[fitnessLevel];
+  const growth = settings.volume * (1 + WEEKLY_VOLUME_GROWTH * (week - 1));
+  const sets = settings.sets + Math.min(Math.floor((week - 1) / 2), MAX_EXTRA_SETS);
+  const restSeconds = Math.max(settings.restSeconds - WEEKLY_REST_REDUCTION * (week - 1), MIN_REST_SECONDS);
+
+  // 计划后半程强度提高一档
+  const baseIntensity = WORKOUT_INTENSITIES.indexOf(settings.intensity);
+  const intensity = WORKOUT_INTENSITIES[
+    Math.min(baseIntensity + (weeks > 1 && week > weeks / 2 ? 1 : 0), WORKOUT_INTENSITIES.length - 1)
+  ];
+
+  return EXERCISE_LIBRARY[focus].map(template => ({
+    name: template.name,
+    sets,
+    ...(template.reps !== undefined && { reps: Math.max(1, Math.round(template.reps * growth)) }),
+    ...(template.durationSeconds !== undefined && {
+      durationSeconds: Math.max(10, Math.round(template.durationSeconds * growth / 5) * 5),
+    }),
+    restSeconds,
+    intensity,
+  }));
+}
+
+/**
+ * 估算训练用时（分钟）
+ */
+export function estimateWorkoutMinutes(exercises: Exercise[]): number {
+  const seconds = exercises.reduce((total, exercise) => {
+    const work = exercise.durationSeconds ?? (exercise.reps || 0) * SECONDS_PER_REP;
+    return total + exercise.sets * (work + exercise.restSeconds);
+  }, 0);
+  return Math.max(1, Math.round(seconds / 60));
+}
+
+/**
+ * 生成多周渐进式训练安排
+ */
+export function generateWorkoutSessions(options: WorkoutPlanOptions): WorkoutSession[] {
+  const start = new Date(`${options.startDate}T00:00:00Z`).getTime();
+  const sessions: WorkoutSession[] = [];
+  let indexInWeek = 0;
+
+  for (let offset = 0; offset < options.weeks * 7; offset++) {
+    const date = new Date(start + offset * DAY_MS);
+    const week = Math.floor(offset / 7) + 1;
+    if (offset % 7 === 0) {
+      indexInWeek = 0;
+    }
+    if (!options.days.includes(date.getUTCDay())) {
+      continue;
+    }
+
+    const focus = options.days.length === 1 ? "full-body" : FOCUS_ROTATION[indexInWeek % FOCUS_ROTATION.length];
+    const exercises = buildExercises(focus, options.fitnessLevel, week, options.weeks);
+    indexInWeek++;
+
+    sessions.push({
+      id: `w${week}-s${indexInWeek}`,
+      week,
+      date: date.toISOString().slice(0, 10),
+      focus,
+      exercises,
+      estimatedMinutes: estimateWorkoutMinutes(exercises),
+    });
+  }
+
+  return sessions;
+}
@@ -0,0 +1,12 @@
+/**
+ * 训练计划模块统一导出
+ */
+
+export * from './types';
+export * from './adapter';
+export * from './generator';
+export * from './service';
+
+// 便捷导出
+export { getWorkoutRepository } from './adapter';
+export { WorkoutPlanService } from './service';
@@ -0,0 +1,86 @@
+/**
+ * CloudBase 训练计划仓库
+ * 数据存放在 workout_plans 和 workout_completions 集合
+ */
+
+import { getDatabaseClient } from '../../database/adapter';
+import { WorkoutRepository } from '../adapter';
+import { WorkoutCompletion, WorkoutPlan } from '../types';
+
+const PLANS_COLLECTION = 'workout_plans';
+const COMPLETIONS_COLLECTION = 'workout_completions';
+
+/** 单个计划的打卡数上限（12 周每天训练） */
+const MAX_COMPLETIONS = 84;
+
+export class CloudBaseWorkoutRepository implements WorkoutRepository {
+  async getActivePlan(userId: string): Promise<WorkoutPlan | null> {
+    const db = await getDatabaseClient('cloudbase');
+
+    const result = await db.collection(PLANS_COLLECTION)
+      .where({ userId, status: 'active' })
+      .limit(1)
+      .get();
+
+    if (result.data.length === 0) {
+      return null;
+    }
+    const { _id, ...plan } = result.data[0];
+    return { ...plan, id: _id } as WorkoutPlan;
+  }
+
+  async createPlan(plan: Omit<WorkoutPlan, 'id' | 'status' | 'createdAt' | 'updatedAt'>): Promise<WorkoutPlan> {
+    const db = await getDatabaseClient('cloudbase');
+    const now = new Date().toISOString();
+
+    await db.collection(PLANS_COLLECTION)
+      .where({ userId: plan.userId, status: 'active' })
+      .update({ status: 'archived', updatedAt: now });
+
+    const document = { ...plan, status: 'active' as const, createdAt: now, updatedAt: now };
+    const result = await db.collection(PLANS_COLLECTION).add(document);
+    return { ...document, id: result.id };
+  }
+
+  async listCompletions(userId: string, planId: string): Promise<WorkoutCompletion[]> {
+    const db = await getDatabaseClient('cloudbase');
+
+    const result = await db.collection(COMPLETIONS_COLLECTION)
+      .where({ userId, planId })
+      .limit(MAX_COMPLETIONS)
+      .get();
+
+    return result.data.map((doc: any) => {
+      const { _id, ...completion } = doc;
+      return { ...completion, id: _id } as WorkoutCompletion;
+    });
+  }
+
+  async addCompletion(completion: Omit<WorkoutCompletion, 'id' | 'completedAt'>): Promise<WorkoutCompletion> {
+    const db = await getDatabaseClient('cloudbase');
+
+    const existing = await db.collection(COMPLETIONS_COLLECTION)
+      .where({ userId: completion.userId, planId: completion.planId, sessionId: completion.sessionId })
+      .limit(1)
+      .get();
+
+    if (existing.data.length > 0) {
+      const { _id, ...current } = existing.data[0];
+      return { ...current, id: _id } as WorkoutCompletion;
+    }
+
+    const document = { ...completion, completedAt: new Date().toISOString() };
+    const result = await db.collection(COMPLETIONS_COLLECTION).add(document);
+    return { ...document, id: result.id };
+  }
+
+  async removeCompletion(userId: string, planId: string, sessionId: string): Promise<boolean> {
+    const db = await getDatabaseClient('cloudbase');
+
+    const result = await db.collection(COMPLETIONS_COLLECTION)
+      .where({ userId, planId, sessionId })
+      .remove();
+
+    return (result.deleted || 0) > 0;
+  }
+}
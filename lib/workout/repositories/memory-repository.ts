@@ -0,0 +1,63 @@
+/**
+ * 内存训练计划仓库
+ */
+
+import { getMemoryCollection } from '../../database/adapter';
+import { generateId } from '../../utils/helpers';
+import { WorkoutRepository } from '../adapter';
+import { WorkoutCompletion, WorkoutPlan } from '../types';
+
+export class MemoryWorkoutRepository implements WorkoutRepository {
+  private plans = getMemoryCollection<WorkoutPlan[]>('workout_plans');
+  private completions = getMemoryCollection<WorkoutCompletion[]>('workout_completions');
+
+  async getActivePlan(userId: string): Promise<WorkoutPlan | null> {
+    return (this.plans.get(userId) || []).find(plan => plan.status === "active") || null;
+  }
+
+  async createPlan(plan: Omit<WorkoutPlan, 'id' | 'status' | 'createdAt' | 'updatedAt'>): Promise<WorkoutPlan> {
+    const now = new Date().toISOString();
+    const saved: WorkoutPlan = {
+      ...plan,
+      id: generateId('plan'),
+      status: "active",
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const archived = (this.plans.get(plan.userId) || []).map(existing =>
+      existing.status === "active" ? { ...existing, status: "archived" as const, updatedAt: now } : existing
+    );
+    this.plans.set(plan.userId, [...archived, saved]);
+    return saved;
+  }
+
+  async listCompletions(userId: string, planId: string): Promise<WorkoutCompletion[]> {
+    return (this.completions.get(userId) || []).filter(completion => completion.planId === planId);
+  }
+
+  async addCompletion(completion: Omit<WorkoutCompletion, 'id' | 'completedAt'>): Promise<WorkoutCompletion> {
+    const existing = this.completions.get(completion.userId) || [];
+    const current = existing.find(entry =>
+      entry.planId === completion.planId && entry.sessionId === completion.sessionId
+    );
+    if (current) {
+      return current;
+    }
+
+    const saved: WorkoutCompletion = {
+      ...completion,
+      id: generateId('completion'),
+      completedAt: new Date().toISOString(),
+    };
+    this.completions.set(completion.userId, [...existing, saved]);
+    return saved;
+  }
+
+  async removeCompletion(userId: string, planId: string, sessionId: string): Promise<boolean> {
+    const existing = this.completions.get(userId) || [];
+    const kept = existing.filter(entry => !(entry.planId === planId && entry.sessionId === sessionId));
+    this.completions.set(userId, kept);
+    return kept.length < existing.length;
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Supabase 训练计划仓库
+ * 数据存放在 workout_plans 和 workout_completions 表（见 supabase/workout_plans.sql）
+ */
+
+import { getDatabaseClient } from '../../database/adapter';
+import { WorkoutRepository } from '../adapter';
+import { WorkoutCompletion, WorkoutPlan } from '../types';
+
+const PLANS_TABLE = 'workout_plans';
+const COMPLETIONS_TABLE = 'workout_completions';
+
+export class SupabaseWorkoutRepository implements WorkoutRepository {
+  async getActivePlan(userId: string): Promise<WorkoutPlan | null> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { data, error } = await supabase
+      .from(PLANS_TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .eq('status', 'active')
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    return data ? this.fromPlanRow(data) : null;
+  }
+
+  async createPlan(plan: Omit<WorkoutPlan, 'id' | 'status' | 'createdAt' | 'updatedAt'>): Promise<WorkoutPlan> {
+    const supabase = await getDatabaseClient('supabase');
+    const now = new Date().toISOString();
+
+    const { error: archiveError } = await supabase
+      .from(PLANS_TABLE)
+      .update({ status: 'archived', updated_at: now })
+      .eq('user_id', plan.userId)
+      .eq('status', 'active');
+
+    if (archiveError) {
+      throw archiveError;
+    }
+
+    const { data, error } = await supabase
+      .from(PLANS_TABLE)
+      .insert({
+        user_id: plan.userId,
+        fitness_level: plan.fitnessLevel,
+        days: plan.days,
+        weeks: plan.weeks,
+        start_date: plan.startDate,
+        sessions: plan.sessions,
+        status: 'active',
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+    return this.fromPlanRow(data);
+  }
+
+  async listCompletions(userId: string, planId: string): Promise<WorkoutCompletion[]> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { data, error } = await supabase
+      .from(COMPLETIONS_TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .eq('plan_id', planId);
+
+    if (error) {
+      throw error;
+    }
+    return (data || []).map((row: any) => this.fromCompletionRow(row));
+  }
+
+  async addCompletion(completion: Omit<WorkoutCompletion, 'id' | 'completedAt'>): Promise<WorkoutCompletion> {
+    const supabase = await getDatabaseClient('supabase');
+
+    // 已打卡时保留原记录
+    const { error } = await supabase
+      .from(COMPLETIONS_TABLE)
+      .upsert({
+        user_id: completion.userId,
+        plan_id: completion.planId,
+        session_id: completion.sessionId,
+        date: completion.date,
+      }, { onConflict: 'plan_id,session_id', ignoreDuplicates: true });
+
+    if (error) {
+      throw error;
+    }
+
+    const { data, error: selectError } = await supabase
+      .from(COMPLETIONS_TABLE)
+      .select('*')
+      .eq('plan_id', completion.planId)
+      .eq('session_id', completion.sessionId)
+      .single();
+
+    if (selectError) {
+      throw selectError;
+    }
+    return this.fromCompletionRow(data);
+  }
+
+  async removeCompletion(userId: string, planId: string, sessionId: string): Promise<boolean> {
+    const supabase = await getDatabaseClient('supabase');
+
+    const { error, count } = await supabase
+      .from(COMPLETIONS_TABLE)
+      .delete({ count: 'exact' })
+      .eq('user_id', userId)
+      .eq('plan_id', planId)
+      .eq('session_id', sessionId);
+
+    if (error) {
+      throw error;
+    }
+    return (count || 0) > 0;
+  }
+
+  private fromPlanRow(row: any): WorkoutPlan {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      fitnessLevel: row.fitness_level,
+      days: row.days || [],
+      weeks: row.weeks,
+      startDate: row.start_date,
+      sessions: row.sessions || [],
+      status: row.status,
+      createdAt: new Date(row.created_at).toISOString(),
+      updatedAt: new Date(row.updated_at).toISOString(),
+    };
+  }
+
+  private fromCompletionRow(row: any): WorkoutCompletion {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      planId: row.plan_id,
+      sessionId: row.session_id,
+      date: row.date,
+      completedAt: new Date(row.completed_at).toISOString(),
+    };
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * 训练计划服务
+ *
+ * 生成计划、查询今天的训练、打卡并统计连续打卡
+ */
+
+import { PreferencesRepository, getPreferencesRepository } from '../preferences/adapter';
+import { WorkoutRepository, getWorkoutRepository } from './adapter';
+import { generateWorkoutSessions } from './generator';
+import {
+  WorkoutCompletion,
+  WorkoutPlan,
+  WorkoutPlanInput,
+  WorkoutSession,
+  WorkoutStreak,
+  computeWorkoutStreak,
+} from './types';
+
+/**
+ * 计划进度
+ */
+export interface WorkoutOverview {
+  plan: WorkoutPlan;
+  completions: WorkoutCompletion[];
+  streak: WorkoutStreak;
+}
+
+/**
+ * 今天的训练：今天不是训练日时 session 为空，next 为下一次未完成的训练
+ */
+export interface TodayWorkout extends WorkoutOverview {
+  session: WorkoutSession | null;
+  completed: boolean;
+  next: WorkoutSession | null;
+}
+
+export class WorkoutPlanService {
+  constructor(
+    private repository: WorkoutRepository = getWorkoutRepository(),
+    private preferences: PreferencesRepository = getPreferencesRepository()
+  ) {}
+
+  /**
+   * 生成新计划（从 today 开始），之前的计划归档
+   */
+  async createPlan(userId: string, input: WorkoutPlanInput, today: string): Promise<WorkoutPlan> {
+    const fitnessLevel = input.fitnessLevel
+      ?? (await this.preferences.getPreferences(userId))?.fitnessLevel
+      ?? "beginner";
+
+    return this.repository.createPlan({
+      userId,
+      fitnessLevel,
+      days: input.days,
+      weeks: input.weeks,
+      startDate: today,
+      sessions: generateWorkoutSessions({ fitnessLevel, days: input.days, weeks: input.weeks, startDate: today }),
+    });
+  }
+
+  /**
+   * 进行中计划的进度，没有计划时返回 null
+   */
+  async getOverview(userId: string, today: string): Promise<WorkoutOverview | null> {
+    const plan = await this.repository.getActivePlan(userId);
+    if (!plan) {
+      return null;
+    }
+
+    const completions = await this.repository.listCompletions(userId, plan.id);
+    return { plan, completions, streak: computeWorkoutStreak(plan, completions, today) };
+  }
+
+  /**
+   * 今天的训练，没有进行中的计划时返回 null
+   */
+  async getTodayWorkout(userId: string, today: string): Promise<TodayWorkout | null> {
+    const overview = await this.getOverview(userId, today);
+    if (!overview) {
+      return null;
+    }
+
+    const completedIds = new Set(overview.completions.map(completion => completion.sessionId));
+    const session = overview.plan.sessions.find(entry => entry.date === today) || null;
+
+    return {
+      ...overview,
+      session,
+      completed: Boolean(session && completedIds.has(session.id)),
+      next: overview.plan.sessions.find(entry => entry.date > today && !completedIds.has(entry.id)) || null,
+    };
+  }
+
+  /**
+   * 查找进行中计划里的训练
+   */
+  async findSession(userId: string, sessionId: string): Promise<{ plan: WorkoutPlan; session: WorkoutSession } | null> {
+    const plan = await this.repository.getActivePlan(userId);
+    const session = plan?.sessions.find(entry => entry.id === sessionId);
+    return plan && session ? { plan, session } : null;
+  }
+
+  /**
+   * 打卡，返回最新的连续打卡统计
+   */
+  async completeSession(plan: WorkoutPlan, session: WorkoutSession, today: string): Promise<WorkoutStreak> {
+    await this.repository.addCompletion({ userId: plan.userId, planId: plan.id, sessionId: session.id, date: today });
+    const completions = await this.repository.listCompletions(plan.userId, plan.id);
+    return computeWorkoutStreak(plan, completions, today);
+  }
+
+  /**
+   * 取消打卡，返回最新的连续打卡统计
+   */
+  async undoSession(plan: WorkoutPlan, session: WorkoutSession, today: string): Promise<WorkoutStreak> {
+    await this.repository.removeCompletion(plan.userId, plan.id, session.id);
+    const completions = await this.repository.listCompletions(plan.userId, plan.id);
+    return computeWorkoutStreak(plan, completions, today);
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * 训练计划 - 类型定义
+ *
+ * 按健身水平和每周可训练的日子生成多周渐进式计划：
+ * 每次训练包含若干动作（组数、次数或时长、组间休息、强度），逐周加量；
+ * 用户完成训练后打卡，连续完成的训练次数即连续打卡天数
+ */
+
+import { z } from 'zod';
+import { FITNESS_LEVELS, FitnessLevel } from '../preferences/types';
+
+/**
+ * 训练强度
+ */
+export const WORKOUT_INTENSITIES = ["low", "moderate", "high"] as const;
+
+export type WorkoutIntensity = typeof WORKOUT_INTENSITIES[number];
+
+/**
+ * 训练重点，同一周内按顺序轮换
+ */
+export const WORKOUT_FOCUSES = ["full-body", "lower", "upper", "cardio", "core"] as const;
+
+export type WorkoutFocus = typeof WORKOUT_FOCUSES[number];
+
+export const WORKOUT_FOCUS_LABELS: Record<WorkoutFocus, string> = {
+  "full-body": "全身训练",
+  lower: "下肢力量",
+  upper: "上肢力量",
+  cardio: "有氧燃脂",
+  core: "核心稳定",
+};
+
+export const WORKOUT_INTENSITY_LABELS: Record<WorkoutIntensity, string> = {
+  low: "低强度",
+  moderate: "中等强度",
+  high: "高强度",
+};
+
+/**
+ * 计划周数范围
+ */
+export const MIN_PLAN_WEEKS = 1;
+export const MAX_PLAN_WEEKS = 12;
+export const DEFAULT_PLAN_WEEKS = 4;
+
+/**
+ * 训练动作
+ * 计次动作使用 reps，计时动作（如平板支撑）使用 durationSeconds
+ */
+export interface Exercise {
+  name: string;
+  sets: number;
+  reps?: number;
+  durationSeconds?: number;
+  /** 组间休息（秒） */
+  restSeconds: number;
+  intensity: WorkoutIntensity;
+}
+
+/**
+ * 单次训练
+ */
+export interface WorkoutSession {
+  /** 计划内唯一，例如 w2-s1 */
+  id: string;
+  /** 第几周（从 1 开始） */
+  week: number;
+  /** 训练日期（用户本地日期） */
+  date: string;
+  focus: WorkoutFocus;
+  exercises: Exercise[];
+  /** 预计用时（分钟） */
+  estimatedMinutes: number;
+}
+
+/**
+ * 训练计划状态：同一用户只有一个进行中的计划
+ */
+export type WorkoutPlanStatus = "active" | "archived";
+
+/**
+ * 训练计划
+ */
+export interface WorkoutPlan {
+  id: string;
+  userId: string;
+  fitnessLevel: FitnessLevel;
+  /** 每周训练日（0 = 周日 … 6 = 周六） */
+  days: number[];
+  weeks: number;
+  /** 计划开始日期（用户本地日期） */
+  startDate: string;
+  sessions: WorkoutSession[];
+  status: WorkoutPlanStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * 训练打卡
+ */
+export interface WorkoutCompletion {
+  id: string;
+  userId: string;
+  planId: string;
+  sessionId: string;
+  /** 打卡日期（用户本地日期） */
+  date: string;
+  completedAt: string;
+}
+
+/**
+ * 连续打卡统计
+ */
+export interface WorkoutStreak {
+  /** 当前连续完成的训练次数，错过已过期的训练后归零 */
+  current: number;
+  longest: number;
+  completed: number;
+  total: number;
+}
+
+/**
+ * 生成计划请求，未指定健身水平时使用偏好中的设置
+ */
+export const workoutPlanInputSchema = z.object({
+  fitnessLevel: z.enum(FITNESS_LEVELS).optional(),
+  days: z.array(z.number().int().min(0).max(6))
+    .min(1)
+    .max(7)
+    .transform(days => Array.from(new Set(days)).sort((a, b) => a - b)),
+  weeks: z.number().int().min(MIN_PLAN_WEEKS).max(MAX_PLAN_WEEKS).default(DEFAULT_PLAN_WEEKS),
+});
+
+export type WorkoutPlanInput = z.infer<typeof workoutPlanInputSchema>;
+
+/**
+ * 统计连续打卡：按日期顺序遍历已到期的训练，完成则累加，错过（日期早于今天且未完成）则归零；
+ * 今天的训练还没完成时不打断连续记录
+ */
+export function computeWorkoutStreak(plan: WorkoutPlan, completions: WorkoutCompletion[], today: string): WorkoutStreak {
+  const completedIds = new Set(completions.map(completion => completion.sessionId));
+  let current = 0;
+  let longest = 0;
+
+  plan.sessions
+    .filter(session => session.date <= today)
+    .forEach(session => {
+      if (completedIds.has(session.id)) {
+        current++;
+        longest = Math.max(longest, current);
+      } else if (session.date < today) {
+        current = 0;
+      }
+    });
+
+  return {
+    current,
+    longest,
+    completed: plan.sessions.filter(session => completedIds.has(session.id)).length,
+    total: plan.sessions.length,
+  };
+}
+
+/**
+ * 动作的训练量描述，例如「3 组 × 12 次 · 休息 60 秒」
+ */
+export function describeExercise(exercise: Exercise): string {
+  const volume = exercise.durationSeconds !== undefined ? `${exercise.durationSeconds} 秒` : `${exercise.reps} 次`;
+  return `${exercise.sets} 组 × ${volume} · 休息 ${exercise.restSeconds} 秒`;
+}
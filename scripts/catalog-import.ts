@@ -0,0 +1,99 @@
+// 目录批量导入导出命令行
+//
+// 用法：
+//   npx tsx scripts/catalog-import.ts import <category> <file> [--apply] [--archive-missing]
+//   npx tsx scripts/catalog-import.ts export <category> <file> [--include-archived]
+//
+// 文件格式由扩展名决定（.csv / .json）；import 默认只试运行并打印变更计划，加 --apply 才写入。
+// 目标存储与应用一致，由 CATALOG_STORE / 部署区域决定
+import 'dotenv/config'
+import { promises as fs } from 'fs'
+import path from 'path'
+import {
+    CatalogAdminService,
+    CatalogTransferFormat,
+    exportCatalogItems,
+    getCatalogRepository,
+    isCatalogCategory,
+    parseCatalogImport
+} from '../lib/catalog'
+
+function usage(): never {
+    console.error('用法: npx tsx scripts/catalog-import.ts <import|export> <category> <file> [--apply] [--archive-missing] [--include-archived]')
+    process.exit(1)
+}
+
+function getFormat(file: string): CatalogTransferFormat {
+    const extension = path.extname(file).toLowerCase()
+    if (extension === '.csv') return 'csv'
+    if (extension === '.json') return 'json'
+    console.error(`不支持的文件格式: ${extension || '(无扩展名)'}，请使用 .csv 或 .json`)
+    process.exit(1)
+}
+
+async function importCatalog(category: string, file: string, flags: string[]) {
+    if (!isCatalogCategory(category)) usage()
+
+    const content = await fs.readFile(file, 'utf-8')
+    const rows = parseCatalogImport(getFormat(file), content)
+    const dryRun = !flags.includes('--apply')
+    const archiveMissing = flags.includes('--archive-missing')
+
+    console.log(`读取 ${rows.length} 行 (${category})${dryRun ? '，试运行' : ''}`)
+
+    const { plan, applied } = await new CatalogAdminService().importItems(
+        category,
+        rows,
+        { dryRun, archiveMissing },
+        null
+    )
+
+    plan.created.forEach(item => console.log(`  + ${item.id} ${item.title}`))
+    plan.updated.forEach(({ after, changes }) =>
+        console.log(`  ~ ${after.id} ${after.title} (${changes.map(change => change.field).join(', ')})`)
+    )
+    plan.removed.forEach(item =>
+        console.log(`  - ${item.id} ${item.title}${archiveMissing ? '' : '（未指定 --archive-missing，保留）'}`)
+    )
+    plan.errors.forEach(error =>
+        console.error(`  ❌ 第 ${error.row} 行${error.externalId ? ` (${error.externalId})` : ''}: ${error.errors.join('; ')}`)
+    )
+
+    console.log(`新增 ${plan.created.length}，修改 ${plan.updated.length}，移除 ${plan.removed.length}，未变 ${plan.unchanged}，错误 ${plan.errors.length}`)
+
+    if (plan.errors.length > 0) {
+        console.error('存在校验错误，未写入任何数据')
+        process.exit(1)
+    }
+    console.log(applied ? '🎉 导入完成!' : '试运行完成，加 --apply 写入')
+}
+
+async function exportCatalog(category: string, file: string, flags: string[]) {
+    if (!isCatalogCategory(category)) usage()
+
+    const items = await getCatalogRepository().listItems(category, {
+        includeArchived: flags.includes('--include-archived')
+    })
+    await fs.writeFile(file, exportCatalogItems(category, items, getFormat(file)), 'utf-8')
+    console.log(`✅ 已导出 ${items.length} 个条目到 ${file}`)
+}
+
+async function main() {
+    const [command, category, file, ...flags] = process.argv.slice(2)
+    if (!command || !category || !file) usage()
+
+    try {
+        if (command === 'import') {
+            await importCatalog(category, file, flags)
+        } else if (command === 'export') {
+            await exportCatalog(category, file, flags)
+        } else {
+            usage()
+        }
+    } catch (error) {
+        console.error('执行过程中发生错误:', error)
+        process.exit(1)
+    }
+}
+
+main()
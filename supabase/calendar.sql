@@ -0,0 +1,41 @@
+-- Supabase 日历表结构
+-- 在 Supabase SQL Editor 中运行以下脚本来创建 calendar_entries 和 calendar_feeds 表
+
+-- 创建 calendar_entries 表（用户接受后排进日历的推荐）
+CREATE TABLE IF NOT EXISTS calendar_entries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  category TEXT NOT NULL CHECK (category IN ('entertainment', 'shopping', 'food', 'travel', 'fitness')),
+  item_id TEXT NOT NULL,
+  -- 接受时的条目快照
+  title TEXT NOT NULL,
+  description TEXT,
+  -- 用户本地日期和开始时间
+  date DATE NOT NULL,
+  start_time TIME NOT NULL,
+  -- 时长（分钟），取自条目的 duration 字段
+  duration_minutes INTEGER NOT NULL CHECK (duration_minutes > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  UNIQUE (user_id, category, item_id, date, start_time)
+);
+
+-- 创建 calendar_feeds 表（每个用户一个订阅地址，只保存密钥的 SHA-256 哈希）
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE PRIMARY KEY,
+  token_hash TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+-- 设置行级安全策略 (RLS)
+ALTER TABLE calendar_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+-- 允许用户查看自己的日历条目
+CREATE POLICY "Users can view own calendar entries"
+    ON calendar_entries FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- 订阅表不开放给客户端读取，只通过服务端按密钥哈希查询
+
+-- 创建索引以提高查询性能
+CREATE INDEX IF NOT EXISTS calendar_entries_user_date_idx ON calendar_entries(user_id, date, start_time);
@@ -0,0 +1,68 @@
+-- Supabase 推荐内容目录表结构
+-- 在 Supabase SQL Editor 中运行以下脚本来创建 catalog_items 表
+
+-- 创建 catalog_items 表
+-- 分类专属字段（price、calories、duration 等）存放在 attributes 中
+CREATE TABLE IF NOT EXISTS catalog_items (
+  id TEXT NOT NULL,
+  category TEXT NOT NULL CHECK (category IN ('entertainment', 'shopping', 'food', 'travel', 'fitness')),
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  image TEXT,
+  tags TEXT[] DEFAULT '{}' NOT NULL,
+  attributes JSONB DEFAULT '{}'::jsonb NOT NULL,
+  archived BOOLEAN DEFAULT FALSE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  PRIMARY KEY (category, id)
+);
+
+-- 复用 profiles.sql 中的更新时间触发器函数
+DROP TRIGGER IF EXISTS handle_catalog_items_updated_at ON catalog_items;
+CREATE TRIGGER handle_catalog_items_updated_at
+    BEFORE UPDATE ON catalog_items
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
+-- 设置行级安全策略 (RLS)
+ALTER TABLE catalog_items ENABLE ROW LEVEL SECURITY;
+
+-- 目录内容对所有人可读，写入通过 service role 完成
+DROP POLICY IF EXISTS "Catalog items are viewable by everyone" ON catalog_items;
+CREATE POLICY "Catalog items are viewable by everyone"
+    ON catalog_items FOR SELECT
+    USING (true);
+
+-- 创建索引以提高查询性能
+CREATE INDEX IF NOT EXISTS catalog_items_category_idx ON catalog_items(category, archived);
+
+-- 批量导入按 externalId 幂等更新，同一分类内唯一
+CREATE UNIQUE INDEX IF NOT EXISTS catalog_items_external_id_idx
+    ON catalog_items(category, (attributes->>'externalId'))
+    WHERE attributes ? 'externalId';
+
+-- 初始数据；标签、英文内容和多币种价格在 catalog_tags.sql、catalog_translations.sql、catalog_prices.sql 中回填
+INSERT INTO catalog_items (id, category, type, title, description, attributes) VALUES
+  ('entertainment-1', 'entertainment', 'sci-fi', '三体', '刘慈欣经典科幻小说，探索宇宙文明的宏大史诗', '{}'),
+  ('entertainment-2', 'entertainment', 'game', '原神', '开放世界冒险游戏，探索提瓦特大陆的奇幻世界', '{}'),
+  ('entertainment-3', 'entertainment', 'song', '稻香', '周杰伦经典歌曲，回忆童年美好时光', '{}'),
+  ('entertainment-4', 'entertainment', 'movie', '流浪地球', '中国科幻电影巅峰之作，人类拯救地球的壮举', '{}'),
+  ('shopping-1', 'shopping', 'fashion', 'Uniqlo 基础T恤', '简约百搭，舒适透气', '{"price": {"amount": 99, "currency": "CNY"}}'),
+  ('shopping-2', 'shopping', 'shoes', 'Nike Air Force 1', '经典白色板鞋，百搭时尚', '{"price": {"amount": 899, "currency": "CNY"}}'),
+  ('shopping-3', 'shopping', 'gadget', 'AirPods Pro', '主动降噪，音质出色', '{"price": {"amount": 1899, "currency": "CNY"}}'),
+  ('shopping-4', 'shopping', 'daily', '无印良品收纳盒', '简约设计，整理收纳好帮手', '{"price": {"amount": 49, "currency": "CNY"}}'),
+  ('food-1', 'food', 'sichuan', '四川火锅', '麻辣鲜香，暖胃暖心', '{"calories": 650}'),
+  ('food-2', 'food', 'japanese', '日式拉面', '浓郁汤头，Q弹面条', '{"calories": 480}'),
+  ('food-3', 'food', 'western', '意大利披萨', '芝士拉丝，香脆饼底', '{"calories": 520}'),
+  ('food-4', 'food', 'cantonese', '广式点心', '精致小巧，口感丰富', '{"calories": 320}'),
+  ('travel-1', 'travel', 'city-walk', '西湖漫步', '在杭州西湖边悠闲散步，欣赏湖光山色', '{"duration": "2-3小时"}'),
+  ('travel-2', 'travel', 'museum', '故宫博物院', '探索中国古代皇家建筑的宏伟与精美', '{"duration": "半天"}'),
+  ('travel-3', 'travel', 'hiking', '黄山登山', '挑战自我，登顶黄山观日出云海', '{"duration": "全天"}'),
+  ('travel-4', 'travel', 'city-walk', '中央公园漫步', '在纽约中央公园散步，穿过草坪、湖泊和林荫道', '{"duration": "2-3小时"}'),
+  ('travel-5', 'travel', 'museum', '大英博物馆', '在伦敦看遍跨越两百万年的人类文明藏品', '{"duration": "半天"}'),
+  ('travel-6', 'travel', 'hiking', '郊野公园徒步', '去离家最近的郊野公园走一走，呼吸新鲜空气', '{"duration": "2-3小时"}'),
+  ('fitness-1', 'fitness', 'running', '晨跑', '在公园里进行30分钟轻松慢跑', '{"duration": "30分钟"}'),
+  ('fitness-2', 'fitness', 'yoga', '瑜伽练习', '在家进行舒缓的瑜伽拉伸运动', '{"duration": "45分钟"}'),
+  ('fitness-3', 'fitness', 'swimming', '游泳', '在游泳池进行有氧游泳训练', '{"duration": "1小时"}')
+ON CONFLICT (category, id) DO NOTHING;
@@ -0,0 +1,27 @@
+-- Supabase 目录变更记录表与图片存储桶
+-- 在 Supabase SQL Editor 中运行以下脚本（需先运行 catalog.sql）
+
+-- 创建 catalog_changes 表（管理后台每次新建、编辑、归档条目都会追加一条记录）
+CREATE TABLE IF NOT EXISTS catalog_changes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  category TEXT NOT NULL CHECK (category IN ('entertainment', 'shopping', 'food', 'travel', 'fitness')),
+  item_id TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('create', 'update', 'archive', 'restore')),
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_email TEXT,
+  changes JSONB DEFAULT '[]'::jsonb NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+-- 设置行级安全策略 (RLS)
+-- 不创建任何策略：变更记录只通过 service role 在管理接口中读写
+ALTER TABLE catalog_changes ENABLE ROW LEVEL SECURITY;
+
+-- 创建索引以提高查询性能
+CREATE INDEX IF NOT EXISTS catalog_changes_item_idx ON catalog_changes(category, item_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS catalog_changes_created_at_idx ON catalog_changes(created_at DESC);
+
+-- 条目图片存储桶（公开读取，上传通过 service role 完成）
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('catalog-images', 'catalog-images', true)
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,11 @@
+-- Supabase 目录价格与地区回填
+-- 在 Supabase SQL Editor 中运行以下脚本（需先运行 catalog.sql）；只填充还没有结构化价格或地区的初始条目，可重复执行
+
+-- 结构化价格（基础价格为人民币，海外货币单独定价）和条目适用地区（为空表示全球可用）
+UPDATE catalog_items SET attributes = attributes || '{"price": {"amount": 99, "currency": "CNY"}, "regionalPrices": [{"amount": 14.9, "currency": "USD"}, {"amount": 14.9, "currency": "EUR"}]}'::jsonb WHERE category = 'shopping' AND id = 'shopping-1' AND NOT attributes ? 'regionalPrices';
+UPDATE catalog_items SET attributes = attributes || '{"price": {"amount": 899, "currency": "CNY"}, "regionalPrices": [{"amount": 115, "currency": "USD"}, {"amount": 119.99, "currency": "EUR"}]}'::jsonb WHERE category = 'shopping' AND id = 'shopping-2' AND NOT attributes ? 'regionalPrices';
+UPDATE catalog_items SET attributes = attributes || '{"price": {"amount": 1899, "currency": "CNY"}, "regionalPrices": [{"amount": 249, "currency": "USD"}, {"amount": 279, "currency": "EUR"}]}'::jsonb WHERE category = 'shopping' AND id = 'shopping-3' AND NOT attributes ? 'regionalPrices';
+UPDATE catalog_items SET attributes = attributes || '{"price": {"amount": 49, "currency": "CNY"}}'::jsonb WHERE category = 'shopping' AND id = 'shopping-4' AND jsonb_typeof(attributes->'price') IS DISTINCT FROM 'object';
+UPDATE catalog_items SET attributes = attributes || '{"regions": ["china"]}'::jsonb WHERE category = 'travel' AND id IN ('travel-1', 'travel-2', 'travel-3') AND NOT attributes ? 'regions';
+UPDATE catalog_items SET attributes = attributes || '{"regions": ["usa"]}'::jsonb WHERE category = 'travel' AND id = 'travel-4' AND NOT attributes ? 'regions';
+UPDATE catalog_items SET attributes = attributes || '{"regions": ["europe"]}'::jsonb WHERE category = 'travel' AND id = 'travel-5' AND NOT attributes ? 'regions';
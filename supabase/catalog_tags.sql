@@ -0,0 +1,17 @@
+-- Supabase 目录标签回填
+-- 在 Supabase SQL Editor 中运行以下脚本（需先运行 catalog.sql）；只填充还没有标签的初始条目，可重复执行
+
+-- 偏好过滤和上下文规则使用的标签（饮食禁忌、室内/室外、运动强度、热汤、适宜时段）
+UPDATE catalog_items SET tags = ARRAY['spicy', 'meat', 'hot-soup'] WHERE category = 'food' AND id = 'food-1' AND tags = '{}';
+UPDATE catalog_items SET tags = ARRAY['pork', 'meat', 'gluten', 'hot-soup'] WHERE category = 'food' AND id = 'food-2' AND tags = '{}';
+UPDATE catalog_items SET tags = ARRAY['dairy', 'gluten'] WHERE category = 'food' AND id = 'food-3' AND tags = '{}';
+UPDATE catalog_items SET tags = ARRAY['pork', 'seafood', 'meat', 'gluten'] WHERE category = 'food' AND id = 'food-4' AND tags = '{}';
+UPDATE catalog_items SET tags = ARRAY['outdoor', 'intensity:low'] WHERE category = 'travel' AND id = 'travel-1' AND tags = '{}';
+UPDATE catalog_items SET tags = ARRAY['indoor', 'intensity:low'] WHERE category = 'travel' AND id = 'travel-2' AND tags = '{}';
+UPDATE catalog_items SET tags = ARRAY['outdoor', 'intensity:high'] WHERE category = 'travel' AND id = 'travel-3' AND tags = '{}';
+UPDATE catalog_items SET tags = ARRAY['outdoor', 'intensity:low'] WHERE category = 'travel' AND id = 'travel-4' AND tags = '{}';
+UPDATE catalog_items SET tags = ARRAY['indoor', 'intensity:low'] WHERE category = 'travel' AND id = 'travel-5' AND tags = '{}';
+UPDATE catalog_items SET tags = ARRAY['outdoor', 'intensity:medium'] WHERE category = 'travel' AND id = 'travel-6' AND tags = '{}';
+UPDATE catalog_items SET tags = ARRAY['outdoor', 'intensity:medium', 'time:morning'] WHERE category = 'fitness' AND id = 'fitness-1' AND tags = '{}';
+UPDATE catalog_items SET tags = ARRAY['indoor', 'intensity:low'] WHERE category = 'fitness' AND id = 'fitness-2' AND tags = '{}';
+UPDATE catalog_items SET tags = ARRAY['indoor', 'intensity:medium'] WHERE category = 'fitness' AND id = 'fitness-3' AND tags = '{}';
@@ -0,0 +1,25 @@
+-- Supabase 目录英文内容回填
+-- 在 Supabase SQL Editor 中运行以下脚本（需先运行 catalog.sql）；只填充还没有翻译的初始条目，可重复执行
+
+-- 英文内容（title / description 为中文源语言，其他语言存放在 attributes.translations）
+UPDATE catalog_items SET attributes = attributes || '{"translations": {"en": {"title": "The Three-Body Problem", "description": "Liu Cixin''s classic sci-fi epic about the fate of civilizations across the universe"}}}'::jsonb WHERE category = 'entertainment' AND id = 'entertainment-1' AND NOT attributes ? 'translations';
+UPDATE catalog_items SET attributes = attributes || '{"translations": {"en": {"title": "Genshin Impact", "description": "An open-world adventure game set in the fantasy land of Teyvat"}}}'::jsonb WHERE category = 'entertainment' AND id = 'entertainment-2' AND NOT attributes ? 'translations';
+UPDATE catalog_items SET attributes = attributes || '{"translations": {"en": {"title": "Rice Field", "description": "A Jay Chou classic that brings back carefree childhood memories"}}}'::jsonb WHERE category = 'entertainment' AND id = 'entertainment-3' AND NOT attributes ? 'translations';
+UPDATE catalog_items SET attributes = attributes || '{"translations": {"en": {"title": "The Wandering Earth", "description": "A landmark Chinese sci-fi film about humanity''s mission to save the Earth"}}}'::jsonb WHERE category = 'entertainment' AND id = 'entertainment-4' AND NOT attributes ? 'translations';
+UPDATE catalog_items SET attributes = attributes || '{"translations": {"en": {"title": "Uniqlo Basic T-Shirt", "description": "Simple, versatile, comfortable and breathable"}}}'::jsonb WHERE category = 'shopping' AND id = 'shopping-1' AND NOT attributes ? 'translations';
+UPDATE catalog_items SET attributes = attributes || '{"translations": {"en": {"title": "Nike Air Force 1", "description": "Classic white sneakers that go with everything"}}}'::jsonb WHERE category = 'shopping' AND id = 'shopping-2' AND NOT attributes ? 'translations';
+UPDATE catalog_items SET attributes = attributes || '{"translations": {"en": {"title": "AirPods Pro", "description": "Active noise cancellation with great sound"}}}'::jsonb WHERE category = 'shopping' AND id = 'shopping-3' AND NOT attributes ? 'translations';
+UPDATE catalog_items SET attributes = attributes || '{"translations": {"en": {"title": "MUJI Storage Box", "description": "Minimalist design that keeps things tidy"}}}'::jsonb WHERE category = 'shopping' AND id = 'shopping-4' AND NOT attributes ? 'translations';
+UPDATE catalog_items SET attributes = attributes || '{"translations": {"en": {"title": "Sichuan Hot Pot", "description": "Numbing, spicy and warming"}}}'::jsonb WHERE category = 'food' AND id = 'food-1' AND NOT attributes ? 'translations';
+UPDATE catalog_items SET attributes = attributes || '{"translations": {"en": {"title": "Japanese Ramen", "description": "Rich broth with springy noodles"}}}'::jsonb WHERE category = 'food' AND id = 'food-2' AND NOT attributes ? 'translations';
+UPDATE catalog_items SET attributes = attributes || '{"translations": {"en": {"title": "Italian Pizza", "description": "Stretchy cheese on a crispy crust"}}}'::jsonb WHERE category = 'food' AND id = 'food-3' AND NOT attributes ? 'translations';
+UPDATE catalog_items SET attributes = attributes || '{"translations": {"en": {"title": "Cantonese Dim Sum", "description": "Dainty bites with a variety of textures"}}}'::jsonb WHERE category = 'food' AND id = 'food-4' AND NOT attributes ? 'translations';
+UPDATE catalog_items SET attributes = attributes || '{"translations": {"en": {"title": "West Lake Stroll", "description": "A leisurely walk around Hangzhou''s West Lake and its scenery"}}}'::jsonb WHERE category = 'travel' AND id = 'travel-1' AND NOT attributes ? 'translations';
+UPDATE catalog_items SET attributes = attributes || '{"translations": {"en": {"title": "The Palace Museum", "description": "Explore the grandeur and detail of China''s imperial architecture"}}}'::jsonb WHERE category = 'travel' AND id = 'travel-2' AND NOT attributes ? 'translations';
+UPDATE catalog_items SET attributes = attributes || '{"translations": {"en": {"title": "Huangshan Hike", "description": "Challenge yourself and watch the sunrise over a sea of clouds"}}}'::jsonb WHERE category = 'travel' AND id = 'travel-3' AND NOT attributes ? 'translations';
+UPDATE catalog_items SET attributes = attributes || '{"translations": {"en": {"title": "Central Park Stroll", "description": "Wander New York''s Central Park past its lawns, lakes and tree-lined paths"}}}'::jsonb WHERE category = 'travel' AND id = 'travel-4' AND NOT attributes ? 'translations';
+UPDATE catalog_items SET attributes = attributes || '{"translations": {"en": {"title": "The British Museum", "description": "Two million years of human history under one roof in London"}}}'::jsonb WHERE category = 'travel' AND id = 'travel-5' AND NOT attributes ? 'translations';
+UPDATE catalog_items SET attributes = attributes || '{"translations": {"en": {"title": "Nature Trail Hike", "description": "Head to the nearest country park for some fresh air"}}}'::jsonb WHERE category = 'travel' AND id = 'travel-6' AND NOT attributes ? 'translations';
+UPDATE catalog_items SET attributes = attributes || '{"translations": {"en": {"title": "Morning Run", "description": "An easy 30-minute jog in the park"}}}'::jsonb WHERE category = 'fitness' AND id = 'fitness-1' AND NOT attributes ? 'translations';
+UPDATE catalog_items SET attributes = attributes || '{"translations": {"en": {"title": "Yoga Session", "description": "Gentle yoga stretches at home"}}}'::jsonb WHERE category = 'fitness' AND id = 'fitness-2' AND NOT attributes ? 'translations';
+UPDATE catalog_items SET attributes = attributes || '{"translations": {"en": {"title": "Swimming", "description": "An aerobic swim workout at the pool"}}}'::jsonb WHERE category = 'fitness' AND id = 'fitness-3' AND NOT attributes ? 'translations';
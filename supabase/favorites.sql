@@ -0,0 +1,66 @@
+-- Supabase 收藏表结构
+-- 在 Supabase SQL Editor 中运行以下脚本来创建 favorites 表
+
+-- 创建 favorites 表
+CREATE TABLE IF NOT EXISTS favorites (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  category TEXT NOT NULL CHECK (category IN ('entertainment', 'shopping', 'food', 'travel', 'fitness')),
+  item_id TEXT NOT NULL,
+  -- 收藏时的条目快照
+  item JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  UNIQUE (user_id, category, item_id)
+);
+
+-- 设置行级安全策略 (RLS)
+ALTER TABLE favorites ENABLE ROW LEVEL SECURITY;
+
+-- 允许用户查看自己的收藏
+CREATE POLICY "Users can view own favorites"
+    ON favorites FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- 允许用户删除自己的收藏
+CREATE POLICY "Users can delete own favorites"
+    ON favorites FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- 新增收藏：同一用户的收藏串行执行，数量检查与写入之间不会插入其他收藏
+-- 已收藏时返回已有记录；已达上限（p_limit 为 NULL 表示不限）时不返回任何行
+CREATE OR REPLACE FUNCTION add_favorite(
+  p_user_id UUID,
+  p_category TEXT,
+  p_item_id TEXT,
+  p_item JSONB,
+  p_limit INTEGER
+)
+RETURNS SETOF favorites AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('favorites:' || p_user_id::text));
+
+  RETURN QUERY
+    SELECT * FROM favorites
+    WHERE user_id = p_user_id AND category = p_category AND item_id = p_item_id;
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  IF p_limit IS NOT NULL AND (SELECT COUNT(*) FROM favorites WHERE user_id = p_user_id) >= p_limit THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+    INSERT INTO favorites (user_id, category, item_id, item)
+    VALUES (p_user_id, p_category, p_item_id, p_item)
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- SECURITY DEFINER 会绕过 RLS，只允许服务端调用
+REVOKE ALL ON FUNCTION add_favorite(UUID, TEXT, TEXT, JSONB, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION add_favorite(UUID, TEXT, TEXT, JSONB, INTEGER) TO service_role;
+
+-- 创建索引以提高查询性能
+CREATE INDEX IF NOT EXISTS favorites_user_idx
+    ON favorites(user_id, created_at DESC);
@@ -0,0 +1,32 @@
+-- Supabase 成就进度表结构
+-- 在 Supabase SQL Editor 中运行以下脚本来创建 gamification_progress 表
+
+-- 创建 gamification_progress 表（每个用户一行）
+CREATE TABLE IF NOT EXISTS gamification_progress (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE PRIMARY KEY,
+  -- 各分类的连续天数 { food: { current, longest, lastDate }, ... }
+  streaks JSONB DEFAULT '{}'::jsonb NOT NULL,
+  total_picks INTEGER DEFAULT 0 NOT NULL,
+  -- 吃过的菜系（去重）
+  cuisines TEXT[] DEFAULT '{}' NOT NULL,
+  -- 最近 7 天的运动记录 [{ date, key }]
+  recent_workouts JSONB DEFAULT '[]'::jsonb NOT NULL,
+  -- 完成每日挑战的日期
+  challenge_dates TEXT[] DEFAULT '{}' NOT NULL,
+  -- 已解锁的成就 [{ id, unlockedAt }]
+  achievements JSONB DEFAULT '[]'::jsonb NOT NULL,
+  -- 每次保存加一，用于并发控制
+  version INTEGER NOT NULL DEFAULT 1,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+-- 已有的表补上版本列
+ALTER TABLE gamification_progress ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+-- 设置行级安全策略 (RLS)
+ALTER TABLE gamification_progress ENABLE ROW LEVEL SECURITY;
+
+-- 允许用户查看自己的进度
+CREATE POLICY "Users can view own gamification progress"
+    ON gamification_progress FOR SELECT
+    USING (auth.uid() = user_id);
@@ -0,0 +1,35 @@
+-- Supabase 多人房间表结构
+-- 在 Supabase SQL Editor 中运行以下脚本来创建 group_rooms 表
+
+-- 创建 group_rooms 表
+CREATE TABLE IF NOT EXISTS group_rooms (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- 邀请码，只在未关闭的房间中查找
+  code TEXT NOT NULL,
+  host_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  category TEXT NOT NULL CHECK (category IN ('entertainment', 'shopping', 'food', 'travel', 'fitness')),
+  vetoes_per_member INTEGER NOT NULL DEFAULT 2 CHECK (vetoes_per_member BETWEEN 0 AND 5),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  -- 成员 [{ userId, name, joinedAt }]
+  members JSONB DEFAULT '[]'::jsonb NOT NULL,
+  -- 当前推荐 { recommendation, pickedAt, pickedBy }
+  current JSONB,
+  vetoed_item_ids TEXT[] DEFAULT '{}' NOT NULL,
+  -- 每个用户已用的否决次数 { userId: count }，离开房间后保留
+  vetoes_used JSONB DEFAULT '{}'::jsonb NOT NULL,
+  -- 每次修改加一，用于并发控制
+  version INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- 已有的表补上否决次数列
+ALTER TABLE group_rooms ADD COLUMN IF NOT EXISTS vetoes_used JSONB DEFAULT '{}'::jsonb NOT NULL;
+
+-- 设置行级安全策略 (RLS)
+-- 房间只通过服务端访问，不开放给客户端直接读取
+ALTER TABLE group_rooms ENABLE ROW LEVEL SECURITY;
+
+-- 创建索引以提高查询性能
+CREATE INDEX IF NOT EXISTS group_rooms_open_code_idx ON group_rooms(code) WHERE status = 'open';
@@ -0,0 +1,45 @@
+-- Supabase 推荐反馈表结构
+-- 在 Supabase SQL Editor 中运行以下脚本来创建 item_feedback 表和汇总视图
+
+-- 创建 item_feedback 表（每个用户对每个条目只保留最新反馈）
+CREATE TABLE IF NOT EXISTS item_feedback (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  category TEXT NOT NULL CHECK (category IN ('entertainment', 'shopping', 'food', 'travel', 'fitness')),
+  item_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  title TEXT,
+  value TEXT NOT NULL CHECK (value IN ('like', 'dislike', 'block')),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  PRIMARY KEY (user_id, category, item_id)
+);
+
+-- 设置行级安全策略 (RLS)
+ALTER TABLE item_feedback ENABLE ROW LEVEL SECURITY;
+
+-- 允许用户查看自己的反馈
+CREATE POLICY "Users can view own feedback"
+    ON item_feedback FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- 允许用户删除自己的反馈
+CREATE POLICY "Users can delete own feedback"
+    ON item_feedback FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- 按条目汇总的反馈统计（仅供服务端管理接口使用）
+CREATE OR REPLACE VIEW item_feedback_stats AS
+SELECT
+  category,
+  item_id,
+  MAX(title) AS title,
+  COUNT(*) FILTER (WHERE value = 'like') AS likes,
+  COUNT(*) FILTER (WHERE value = 'dislike') AS dislikes,
+  COUNT(*) FILTER (WHERE value = 'block') AS blocks
+FROM item_feedback
+GROUP BY category, item_id;
+
+REVOKE ALL ON item_feedback_stats FROM anon, authenticated;
+
+-- 创建索引以提高查询性能
+CREATE INDEX IF NOT EXISTS item_feedback_item_idx
+    ON item_feedback(category, item_id);
@@ -0,0 +1,30 @@
+-- Supabase 行程表结构
+-- 在 Supabase SQL Editor 中运行以下脚本来创建 itineraries 表
+
+-- 创建 itineraries 表
+CREATE TABLE IF NOT EXISTS itineraries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL,
+  length TEXT NOT NULL CHECK (length IN ('half-day', 'full-day', 'multi-day')),
+  -- 天数，半日和一日行程为 1
+  days INTEGER NOT NULL DEFAULT 1 CHECK (days BETWEEN 1 AND 7),
+  -- 用户本地日期和每天的出发时间
+  start_date DATE NOT NULL,
+  start_time TIME NOT NULL DEFAULT '09:00',
+  -- 按游览顺序排列的地点快照 [{ itemId, title, description, duration, durationMinutes }]
+  stops JSONB DEFAULT '[]'::jsonb NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+-- 设置行级安全策略 (RLS)
+ALTER TABLE itineraries ENABLE ROW LEVEL SECURITY;
+
+-- 允许用户查看自己的行程
+CREATE POLICY "Users can view own itineraries"
+    ON itineraries FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- 创建索引以提高查询性能
+CREATE INDEX IF NOT EXISTS itineraries_user_idx ON itineraries(user_id, updated_at DESC);
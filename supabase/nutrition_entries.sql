@@ -0,0 +1,28 @@
+-- Supabase 热量记录表结构
+-- 在 Supabase SQL Editor 中运行以下脚本来创建 nutrition_entries 表
+
+-- 创建 nutrition_entries 表（接受食物推荐记摄入，接受健身推荐记消耗）
+CREATE TABLE IF NOT EXISTS nutrition_entries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  -- 用户本地日期
+  date DATE NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('intake', 'burn')),
+  item_id TEXT NOT NULL,
+  -- 记录时的条目标题快照
+  title TEXT NOT NULL,
+  -- 千卡，摄入和消耗都记为正数
+  calories INTEGER NOT NULL CHECK (calories >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+-- 设置行级安全策略 (RLS)
+ALTER TABLE nutrition_entries ENABLE ROW LEVEL SECURITY;
+
+-- 允许用户查看自己的记录
+CREATE POLICY "Users can view own nutrition entries"
+    ON nutrition_entries FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- 创建索引以提高查询性能
+CREATE INDEX IF NOT EXISTS nutrition_entries_user_date_idx ON nutrition_entries(user_id, date);
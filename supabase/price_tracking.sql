@@ -0,0 +1,67 @@
+-- Supabase 价格追踪表结构
+-- 在 Supabase SQL Editor 中运行以下脚本（需先运行 catalog.sql）
+
+-- 创建 price_history 表（价格同步任务在价格变化时追加记录）
+CREATE TABLE IF NOT EXISTS price_history (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  item_id TEXT NOT NULL,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount >= 0),
+  currency TEXT NOT NULL CHECK (currency IN ('CNY', 'USD', 'EUR')),
+  -- 价格来源（价格源名称）
+  source TEXT NOT NULL,
+  recorded_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+-- 创建 price_watches 表（用户关注的条目和目标价）
+CREATE TABLE IF NOT EXISTS price_watches (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  item_id TEXT NOT NULL,
+  -- 关注时的条目标题快照
+  title TEXT NOT NULL,
+  -- { amount, currency }
+  target_price JSONB NOT NULL,
+  -- 上次提醒时的价格，价格继续下降时才会再次提醒
+  last_notified_price JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  UNIQUE (user_id, item_id)
+);
+
+-- 创建 price_alerts 表（降价提醒）
+CREATE TABLE IF NOT EXISTS price_alerts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  watch_id UUID REFERENCES price_watches(id) ON DELETE CASCADE NOT NULL,
+  item_id TEXT NOT NULL,
+  title TEXT NOT NULL,
+  price JSONB NOT NULL,
+  previous_price JSONB,
+  target_price JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  read_at TIMESTAMP WITH TIME ZONE
+);
+
+-- 设置行级安全策略 (RLS)
+-- 价格历史只通过 service role 写入，允许所有人读取
+ALTER TABLE price_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE price_watches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE price_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view price history"
+    ON price_history FOR SELECT
+    USING (true);
+
+-- 允许用户查看自己的关注和提醒
+CREATE POLICY "Users can view own price watches"
+    ON price_watches FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own price alerts"
+    ON price_alerts FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- 创建索引以提高查询性能
+CREATE INDEX IF NOT EXISTS price_history_item_idx ON price_history(item_id, recorded_at DESC);
+CREATE INDEX IF NOT EXISTS price_watches_item_idx ON price_watches(item_id);
+CREATE INDEX IF NOT EXISTS price_alerts_user_idx ON price_alerts(user_id, created_at DESC);
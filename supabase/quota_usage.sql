@@ -0,0 +1,75 @@
+-- Supabase 使用配额表结构
+-- 在 Supabase SQL Editor 中运行以下脚本来创建 quota_usage 表和递增函数
+
+-- 创建 quota_usage 表
+-- subject 为 user:<id> 或 ip:<address>，window_id 为用户本地日期
+CREATE TABLE IF NOT EXISTS quota_usage (
+  subject TEXT NOT NULL,
+  window_id TEXT NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  PRIMARY KEY (subject, window_id)
+);
+
+-- 仅允许服务端（service role）访问
+ALTER TABLE quota_usage ENABLE ROW LEVEL SECURITY;
+
+-- 原子递增计数并返回新值
+CREATE OR REPLACE FUNCTION increment_quota_usage(
+  p_subject TEXT,
+  p_window_id TEXT,
+  p_expires_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS INTEGER AS $$
+DECLARE
+  new_count INTEGER;
+BEGIN
+  INSERT INTO quota_usage (subject, window_id, count, expires_at)
+  VALUES (p_subject, p_window_id, 1, p_expires_at)
+  ON CONFLICT (subject, window_id)
+  DO UPDATE SET count = quota_usage.count + 1
+  RETURNING count INTO new_count;
+
+  RETURN new_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- SECURITY DEFINER 会绕过 RLS，只允许服务端调用，防止客户端替他人消耗配额
+REVOKE ALL ON FUNCTION increment_quota_usage(TEXT, TEXT, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION increment_quota_usage(TEXT, TEXT, TIMESTAMP WITH TIME ZONE) TO service_role;
+
+-- 每个配额窗口固定的时区偏移，窗口内改报其他偏移不会开启新窗口
+CREATE TABLE IF NOT EXISTS quota_timezones (
+  subject TEXT PRIMARY KEY,
+  timezone_offset INTEGER NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+ALTER TABLE quota_timezones ENABLE ROW LEVEL SECURITY;
+
+-- 尚未固定或已过期时固定为 p_offset，返回实际生效的偏移
+CREATE OR REPLACE FUNCTION pin_quota_timezone(
+  p_subject TEXT,
+  p_offset INTEGER,
+  p_expires_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS INTEGER AS $$
+DECLARE
+  pinned INTEGER;
+BEGIN
+  INSERT INTO quota_timezones (subject, timezone_offset, expires_at)
+  VALUES (p_subject, p_offset, p_expires_at)
+  ON CONFLICT (subject)
+  DO UPDATE SET timezone_offset = EXCLUDED.timezone_offset, expires_at = EXCLUDED.expires_at
+  WHERE quota_timezones.expires_at <= NOW();
+
+  SELECT timezone_offset INTO pinned FROM quota_timezones WHERE subject = p_subject;
+  RETURN pinned;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION pin_quota_timezone(TEXT, INTEGER, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION pin_quota_timezone(TEXT, INTEGER, TIMESTAMP WITH TIME ZONE) TO service_role;
+
+-- 定期清理过期计数
+CREATE INDEX IF NOT EXISTS quota_usage_expires_idx ON quota_usage(expires_at);
@@ -0,0 +1,46 @@
+-- Supabase 推荐历史表结构
+-- 在 Supabase SQL Editor 中运行以下脚本来创建 recommendation_history 表
+
+-- 创建 recommendation_history 表
+CREATE TABLE IF NOT EXISTS recommendation_history (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  event_key TEXT NOT NULL,
+  item_id TEXT NOT NULL,
+  category TEXT NOT NULL CHECK (category IN ('entertainment', 'shopping', 'food', 'travel', 'fitness')),
+  type TEXT NOT NULL,
+  title TEXT,
+  -- view 为推荐展示，pick/skip/rating 为用户接受、拒绝和打分
+  action TEXT NOT NULL CHECK (action IN ('view', 'pick', 'rating', 'skip')),
+  rating SMALLINT CHECK (rating BETWEEN 1 AND 5),
+  -- 来源：server 为服务端推荐时写入，sync 为从 localStorage 合并（客户端提交）
+  source TEXT NOT NULL DEFAULT 'sync' CHECK (source IN ('server', 'sync')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  -- 同一用户的同一行为只记录一次（用于 localStorage 合并去重）
+  UNIQUE (user_id, event_key)
+);
+
+-- 已有的表补上来源列（旧记录无法区分来源，按客户端提交处理）
+ALTER TABLE recommendation_history ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'sync' CHECK (source IN ('server', 'sync'));
+
+-- 已有的表放开 view 行为
+ALTER TABLE recommendation_history DROP CONSTRAINT IF EXISTS recommendation_history_action_check;
+ALTER TABLE recommendation_history ADD CONSTRAINT recommendation_history_action_check
+    CHECK (action IN ('view', 'pick', 'rating', 'skip'));
+
+-- 设置行级安全策略 (RLS)
+ALTER TABLE recommendation_history ENABLE ROW LEVEL SECURITY;
+
+-- 允许用户查看自己的历史
+CREATE POLICY "Users can view own history"
+    ON recommendation_history FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- 允许用户删除自己的历史
+CREATE POLICY "Users can delete own history"
+    ON recommendation_history FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- 创建索引以提高查询性能
+CREATE INDEX IF NOT EXISTS recommendation_history_user_idx
+    ON recommendation_history(user_id, category, created_at DESC);
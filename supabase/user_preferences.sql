@@ -0,0 +1,27 @@
+-- Supabase 用户偏好表结构
+-- 在 Supabase SQL Editor 中运行以下脚本来创建 user_preferences 表
+
+-- 创建 user_preferences 表
+-- preferences 包含饮食禁忌、喜欢的菜系、购物预算、健身水平、室内/室外偏好、常住城市、内容语言和每日热量目标
+CREATE TABLE IF NOT EXISTS user_preferences (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE PRIMARY KEY,
+  preferences JSONB DEFAULT '{}'::jsonb NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+-- 设置行级安全策略 (RLS)
+ALTER TABLE user_preferences ENABLE ROW LEVEL SECURITY;
+
+-- 允许用户查看自己的偏好
+CREATE POLICY "Users can view own preferences"
+    ON user_preferences FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- 允许用户更新自己的偏好
+CREATE POLICY "Users can update own preferences"
+    ON user_preferences FOR UPDATE
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own preferences"
+    ON user_preferences FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
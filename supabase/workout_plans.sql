@@ -0,0 +1,48 @@
+-- Supabase 训练计划表结构
+-- 在 Supabase SQL Editor 中运行以下脚本来创建 workout_plans 和 workout_completions 表
+
+-- 创建 workout_plans 表（每个用户同时只有一个进行中的计划）
+CREATE TABLE IF NOT EXISTS workout_plans (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  fitness_level TEXT NOT NULL CHECK (fitness_level IN ('beginner', 'intermediate', 'advanced')),
+  -- 每周训练日（0 = 周日 … 6 = 周六）
+  days INTEGER[] NOT NULL,
+  weeks INTEGER NOT NULL CHECK (weeks BETWEEN 1 AND 12),
+  -- 用户本地日期
+  start_date DATE NOT NULL,
+  -- 每次训练的日期、训练重点和动作（组数、次数或时长、休息、强度）
+  sessions JSONB DEFAULT '[]'::jsonb NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'archived')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+-- 创建 workout_completions 表（训练打卡）
+CREATE TABLE IF NOT EXISTS workout_completions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  plan_id UUID REFERENCES workout_plans(id) ON DELETE CASCADE NOT NULL,
+  session_id TEXT NOT NULL,
+  -- 打卡时的用户本地日期
+  date DATE NOT NULL,
+  completed_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  UNIQUE (plan_id, session_id)
+);
+
+-- 设置行级安全策略 (RLS)
+ALTER TABLE workout_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workout_completions ENABLE ROW LEVEL SECURITY;
+
+-- 允许用户查看自己的计划和打卡
+CREATE POLICY "Users can view own workout plans"
+    ON workout_plans FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own workout completions"
+    ON workout_completions FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- 创建索引以提高查询性能
+CREATE UNIQUE INDEX IF NOT EXISTS workout_plans_active_idx ON workout_plans(user_id) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS workout_completions_plan_idx ON workout_completions(plan_id);